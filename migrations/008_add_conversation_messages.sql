@@ -0,0 +1,30 @@
+-- ============================================================================
+-- Migration 008: Add Agent Conversation Messages
+-- ============================================================================
+-- Purpose: Persist LLM conversation turns (user/assistant/system) per agent so
+--          conversations can be inspected and resumed with follow-up messages.
+-- Note: The existing `messages` table is the inter-agent queue
+--       (sender_id/recipient_id/payload) and is unrelated.
+-- ============================================================================
+-- UP
+
+CREATE TABLE IF NOT EXISTS conversation_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  role VARCHAR(20) NOT NULL CHECK (role IN ('user', 'assistant', 'system')),
+  content TEXT NOT NULL,
+  metadata JSONB,
+  -- Monotonic ordering; created_at is not unique within a transaction
+  sequence_no BIGSERIAL NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_conversation_messages_agent ON conversation_messages(agent_id, sequence_no);
+
+COMMENT ON TABLE conversation_messages IS 'LLM conversation history per agent (one row per turn message)';
+COMMENT ON COLUMN conversation_messages.metadata IS 'Turn metadata: tokens, model, finish reason, tool calls';
+
+-- ============================================================================
+
+-- DOWN
+DROP TABLE IF EXISTS conversation_messages;
@@ -0,0 +1,70 @@
+-- ============================================================================
+-- Migration 009: Add Agent Role Registry
+-- ============================================================================
+-- Purpose: Move role definitions (system prompt, model, SDK options, budget,
+--          output schema) out of code so roles can be added without a deploy.
+--          Seeds the roles previously hard-coded in AgentExecutor, the
+--          default workspace allowed_roles list, and the CLI/coordinator roles.
+-- ============================================================================
+-- UP
+
+CREATE TABLE IF NOT EXISTS agent_roles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(100) NOT NULL UNIQUE,
+  description TEXT,
+  system_prompt TEXT NOT NULL,
+  model VARCHAR(100) NOT NULL,
+  max_turns INTEGER NOT NULL DEFAULT 20 CHECK (max_turns > 0),
+  permission_mode VARCHAR(20) NOT NULL DEFAULT 'acceptEdits'
+    CHECK (permission_mode IN ('default', 'acceptEdits', 'bypassPermissions', 'plan')),
+  allowed_tools JSONB,
+  default_budget INTEGER NOT NULL DEFAULT 100000 CHECK (default_budget > 0),
+  output_schema JSONB,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_agent_roles_enabled ON agent_roles(enabled);
+
+COMMENT ON TABLE agent_roles IS 'Registry of agent roles and their execution settings';
+COMMENT ON COLUMN agent_roles.allowed_tools IS 'Tool names the role may use (NULL = SDK defaults)';
+COMMENT ON COLUMN agent_roles.output_schema IS 'Optional JSON schema the role''s final output must satisfy';
+
+INSERT INTO agent_roles (name, description, system_prompt, model) VALUES
+  ('spec-writer', 'Writes specifications',
+   E'Your task is to write clear, detailed specifications.\nFocus on requirements, constraints, and success criteria.\nUse markdown format with sections for Overview, Requirements, and Acceptance Criteria.',
+   'claude-3-5-sonnet-20241022'),
+  ('implementer', 'Implements code from specifications',
+   E'Your task is to implement code based on specifications.\nWrite clean, well-structured code with proper error handling.\nFollow best practices and use TypeScript types correctly.',
+   'claude-3-5-sonnet-20241022'),
+  ('tester', 'Writes tests',
+   E'Your task is to write comprehensive tests.\nUse Vitest for testing and aim for high coverage.\nTest both happy paths and edge cases.',
+   'claude-3-5-sonnet-20241022'),
+  ('reviewer', 'Reviews code',
+   E'Your task is to review code for quality and correctness.\nCheck for bugs, security issues, and code style.\nProvide constructive feedback with specific suggestions.',
+   'claude-3-5-sonnet-20241022'),
+  ('file-writer', 'Creates and writes files',
+   E'Your task is to create and write files.\nEnsure file content is exactly as requested.\nUse proper file permissions and encoding.',
+   'claude-3-5-haiku-20241022'),
+  ('researcher', 'Researches and summarizes information',
+   E'Your task is to research the assigned topic.\nGather relevant facts, compare options and cite where findings come from.\nFinish with a concise summary and recommendations.',
+   'claude-3-5-sonnet-20241022'),
+  ('coder', 'General-purpose coding',
+   E'Your task is to write and modify code.\nKeep changes focused, typed and consistent with the surrounding code.',
+   'claude-3-5-sonnet-20241022'),
+  ('planner', 'Breaks work down into tasks',
+   E'Your task is to plan the work.\nBreak the goal into ordered, independently verifiable tasks with clear owners and budgets.',
+   'claude-3-5-sonnet-20241022'),
+  ('coordinator', 'Coordinates a team of child agents',
+   E'Your task is to coordinate a team of agents.\nDelegate sub-tasks to child agents, track their progress and integrate their results.',
+   'claude-3-5-sonnet-20241022'),
+  ('assistant', 'Interactive assistant (root agent of the CLI session)',
+   E'You are a helpful assistant talking directly with a human user.\nGive accurate, concise answers and ask for clarification when needed.',
+   'claude-3-5-sonnet-20241022')
+ON CONFLICT (name) DO NOTHING;
+
+-- ============================================================================
+
+-- DOWN
+DROP TABLE IF EXISTS agent_roles;
@@ -0,0 +1,39 @@
+-- ============================================================================
+-- Migration 010: Add Tool Permission Policies to Agent Roles
+-- ============================================================================
+-- Purpose: Per-role rules evaluated for every tool request an SDK agent makes
+--          (tool allow/deny/ask lists, worktree path globs, Bash command
+--          patterns). "ask" decisions create approval_requests rows that are
+--          approved or rejected from the dashboard.
+-- ============================================================================
+-- UP
+
+ALTER TABLE agent_roles ADD COLUMN IF NOT EXISTS tool_policy JSONB;
+
+COMMENT ON COLUMN agent_roles.tool_policy IS 'Tool permission policy (NULL = allow role tools, worktree paths only)';
+
+-- Guard rails for every seeded role: destructive commands are denied,
+-- publishing and network commands need a human decision
+UPDATE agent_roles
+SET tool_policy = '{
+  "bash": {
+    "deny": ["rm -rf /*", "sudo *", "git push --force*", "git reset --hard*"],
+    "ask": ["git push*", "npm publish*", "curl *", "wget *"]
+  }
+}'::jsonb
+WHERE tool_policy IS NULL;
+
+-- Reviewers and researchers read code, they do not change it
+UPDATE agent_roles
+SET tool_policy = tool_policy || '{"deny": ["Write", "Edit", "MultiEdit", "NotebookEdit"]}'::jsonb
+WHERE name IN ('reviewer', 'researcher');
+
+-- Fetching external content is an external API call
+UPDATE agent_roles
+SET tool_policy = tool_policy || '{"ask": ["WebFetch"]}'::jsonb
+WHERE name = 'researcher';
+
+-- ============================================================================
+
+-- DOWN
+ALTER TABLE agent_roles DROP COLUMN IF EXISTS tool_policy;
@@ -0,0 +1,87 @@
+-- ============================================================================
+-- Migration 011: Add Agent Timeouts
+-- ============================================================================
+-- Purpose: Agents run under a wall-clock deadline (AGENT_TIMEOUT, overridable
+--          per role and per workflow node). Agents that hit it end in the
+--          distinct 'timed_out' status, which is terminal like 'failed':
+--          unused budget is returned to the parent.
+-- ============================================================================
+-- UP
+
+ALTER TABLE agents DROP CONSTRAINT IF EXISTS agents_status_check;
+ALTER TABLE agents ADD CONSTRAINT agents_status_check
+  CHECK (status IN ('pending', 'executing', 'completed', 'failed', 'terminated', 'timed_out'));
+
+ALTER TABLE agent_roles ADD COLUMN IF NOT EXISTS timeout_ms INTEGER CHECK (timeout_ms > 0);
+
+COMMENT ON COLUMN agent_roles.timeout_ms IS 'Execution deadline for agents of this role (NULL = AGENT_TIMEOUT)';
+
+-- Timed-out agents are reported to Linear like failed ones
+INSERT INTO linear_status_mappings (agent_status, linear_state_id, linear_state_name) VALUES
+  ('timed_out', 'canceled', 'Canceled')
+ON CONFLICT DO NOTHING;
+
+-- Treat timed_out as a terminal state when reclaiming budgets
+CREATE OR REPLACE FUNCTION reclaim_child_budget()
+RETURNS TRIGGER AS $$
+DECLARE
+  parent_agent_id UUID;
+  child_allocated INTEGER;
+  child_used INTEGER;
+  unused_budget INTEGER;
+  already_reclaimed BOOLEAN;
+BEGIN
+  -- Only process when agent transitions to terminal state
+  IF NEW.status IN ('completed', 'failed', 'terminated', 'timed_out') AND
+     OLD.status NOT IN ('completed', 'failed', 'terminated', 'timed_out') THEN
+
+    -- Get parent agent ID
+    SELECT parent_id INTO parent_agent_id
+    FROM agents
+    WHERE id = NEW.id;
+
+    -- If this agent has a parent, reclaim unused budget
+    IF parent_agent_id IS NOT NULL THEN
+      -- Check if budget was already manually reclaimed
+      SELECT reclaimed INTO already_reclaimed
+      FROM budgets
+      WHERE agent_id = NEW.id;
+
+      -- Only reclaim if not already done manually
+      IF NOT already_reclaimed THEN
+        -- Get child's budget allocation and usage
+        SELECT allocated, used INTO child_allocated, child_used
+        FROM budgets
+        WHERE agent_id = NEW.id;
+
+        -- Calculate unused budget (allocated - used)
+        unused_budget := child_allocated - child_used;
+
+        -- Return unused budget to parent by reducing reserved amount
+        UPDATE budgets
+        SET reserved = reserved - child_allocated + child_used,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE agent_id = parent_agent_id;
+
+        -- Mark as reclaimed
+        UPDATE budgets
+        SET reclaimed = TRUE,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE agent_id = NEW.id;
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+
+-- DOWN
+DELETE FROM linear_status_mappings WHERE agent_status = 'timed_out' AND linear_team_id IS NULL;
+UPDATE agents SET status = 'failed' WHERE status = 'timed_out';
+ALTER TABLE agents DROP CONSTRAINT IF EXISTS agents_status_check;
+ALTER TABLE agents ADD CONSTRAINT agents_status_check
+  CHECK (status IN ('pending', 'executing', 'completed', 'failed', 'terminated'));
+ALTER TABLE agent_roles DROP COLUMN IF EXISTS timeout_ms;
@@ -0,0 +1,25 @@
+-- ============================================================================
+-- Migration 012: Cooperative Agent Control
+-- ============================================================================
+-- Purpose: Running agents honor agents.control_state at safe points (between
+--          LLM turns, SDK messages and before tool calls). Pausing writes a
+--          labeled checkpoint that the agent continues from on resume, and
+--          agent_control_commands rows move pending -> executing -> executed
+--          as the agent acts on them.
+-- ============================================================================
+-- UP
+
+ALTER TABLE checkpoints ADD COLUMN IF NOT EXISTS label VARCHAR(255);
+
+COMMENT ON COLUMN checkpoints.label IS 'Human-readable label (e.g. pause, auto-checkpoint-<timestamp>)';
+
+-- Agents look up their own unprocessed commands at every safe point
+CREATE INDEX IF NOT EXISTS idx_control_commands_agent_pending
+  ON agent_control_commands(agent_id, command_type)
+  WHERE status = 'pending';
+
+-- ============================================================================
+
+-- DOWN
+DROP INDEX IF EXISTS idx_control_commands_agent_pending;
+ALTER TABLE checkpoints DROP COLUMN IF EXISTS label;
@@ -0,0 +1,41 @@
+-- ============================================================================
+-- Migration 013: Agent Results Store
+-- ============================================================================
+-- Purpose: Every agent execution (AgentCore, Claude Agent SDK, interactive
+--          turns) records what it produced: output text, structured payload,
+--          finish reason, tokens, cost and duration. The latest row is the
+--          agent's result and is handed to dependent workflow nodes.
+-- ============================================================================
+-- UP
+
+CREATE TABLE IF NOT EXISTS agent_results (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+
+  -- How the execution ended
+  outcome VARCHAR(20) NOT NULL CHECK (outcome IN ('completed', 'failed', 'timed_out')),
+  finish_reason VARCHAR(50),
+  error_message TEXT,
+
+  -- What the agent produced
+  output TEXT NOT NULL DEFAULT '',
+  structured_output JSONB,
+
+  -- What it cost
+  tokens_used INTEGER NOT NULL DEFAULT 0 CHECK (tokens_used >= 0),
+  cost_usd NUMERIC(12, 6) CHECK (cost_usd >= 0),
+  duration_ms INTEGER NOT NULL DEFAULT 0 CHECK (duration_ms >= 0),
+
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_results_agent ON agent_results(agent_id, created_at DESC);
+
+COMMENT ON TABLE agent_results IS 'One row per agent execution; the latest row is the agent''s result';
+COMMENT ON COLUMN agent_results.structured_output IS 'Structured payload (e.g. report_result data), NULL for text-only results';
+COMMENT ON COLUMN agent_results.cost_usd IS 'Cost reported by the provider (NULL when not reported)';
+
+-- ============================================================================
+
+-- DOWN
+DROP TABLE IF EXISTS agent_results;
@@ -0,0 +1,20 @@
+-- ============================================================================
+-- Migration 014: Workspace Configuration
+-- ============================================================================
+-- Purpose: Workspaces carry a WorkspaceConfig (max depth, token limits,
+--          checkpoint interval, ...). Agents without a workspace of their own
+--          use the nearest ancestor's configuration.
+-- ============================================================================
+-- UP
+
+ALTER TABLE workspaces ADD COLUMN IF NOT EXISTS config JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_checkpoints_agent_created ON checkpoints(agent_id, created_at DESC);
+
+COMMENT ON COLUMN workspaces.config IS 'WorkspaceConfig (e.g. checkpoint_interval in minutes); NULL uses defaults';
+
+-- ============================================================================
+
+-- DOWN
+DROP INDEX IF EXISTS idx_checkpoints_agent_created;
+ALTER TABLE workspaces DROP COLUMN IF EXISTS config;
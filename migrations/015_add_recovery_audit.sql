@@ -0,0 +1,43 @@
+-- ============================================================================
+-- Migration 015: Startup Recovery Audit
+-- ============================================================================
+-- Purpose: On startup the orchestrator reconciles agents and workflow nodes
+--          that a crashed process left in flight (ReconciliationService).
+--          Each one is resumed, requeued, respawned or failed according to
+--          RECOVERY_POLICY, and the decision is recorded here.
+-- ============================================================================
+-- UP
+
+CREATE TABLE IF NOT EXISTS recovery_audit (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- What was recovered (no foreign key: the audit outlives deleted rows)
+  entity_type VARCHAR(20) NOT NULL CHECK (entity_type IN ('agent', 'workflow_node')),
+  entity_id UUID NOT NULL,
+
+  -- Agent that carries on the work (respawned nodes get a new one)
+  agent_id UUID,
+
+  action VARCHAR(20) NOT NULL CHECK (action IN ('resumed', 'requeued', 'respawned', 'failed')),
+  previous_status VARCHAR(50) NOT NULL,
+  reason TEXT NOT NULL,
+
+  -- Checkpoint a resumed agent continues from
+  checkpoint_id UUID,
+
+  -- Tokens returned to the parent's budget
+  released_tokens INTEGER NOT NULL DEFAULT 0 CHECK (released_tokens >= 0),
+
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_recovery_audit_entity ON recovery_audit(entity_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_recovery_audit_created ON recovery_audit(created_at DESC);
+
+COMMENT ON TABLE recovery_audit IS 'Agents and workflow nodes reconciled after an orchestrator restart';
+COMMENT ON COLUMN recovery_audit.released_tokens IS 'Unused budget returned to the parent when a failed agent was reclaimed';
+
+-- ============================================================================
+
+-- DOWN
+DROP TABLE IF EXISTS recovery_audit;
@@ -0,0 +1,25 @@
+-- ============================================================================
+-- Migration 016: Agent Scheduling Priority
+-- ============================================================================
+-- Purpose: AgentExecutionWorker starts pending agents through a scheduler
+--          with global, per-tree and per-workflow concurrency limits. Agents
+--          carry a priority class (high, normal, low); children inherit their
+--          parent's class and workflow nodes may set their own.
+-- ============================================================================
+-- UP
+
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS priority VARCHAR(10) NOT NULL DEFAULT 'normal'
+  CHECK (priority IN ('high', 'normal', 'low'));
+
+COMMENT ON COLUMN agents.priority IS 'Scheduling class of pending agents: high, normal or low';
+
+-- The worker scans the queue of pending agents on every poll
+CREATE INDEX IF NOT EXISTS idx_agents_pending_queue
+  ON agents(priority, updated_at)
+  WHERE status = 'pending';
+
+-- ============================================================================
+
+-- DOWN
+DROP INDEX IF EXISTS idx_agents_pending_queue;
+ALTER TABLE agents DROP COLUMN IF EXISTS priority;
@@ -0,0 +1,39 @@
+-- ============================================================================
+-- Migration 017: Worker Leases
+-- ============================================================================
+-- Purpose: Several orchestrator processes may share one database. A worker
+--          claims a pending agent (or a workflow graph to poll) by taking a
+--          lease on it. Leases are renewed by heartbeats; a lease that was
+--          not renewed before it expired belongs to a dead worker and is
+--          reclaimed by the others.
+-- ============================================================================
+-- UP
+
+CREATE TABLE IF NOT EXISTS worker_leases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Leased resource (no foreign key: agents and graphs use different tables)
+  resource_type VARCHAR(20) NOT NULL CHECK (resource_type IN ('agent', 'workflow_graph')),
+  resource_id UUID NOT NULL,
+
+  -- Process holding the lease
+  worker_id VARCHAR(255) NOT NULL,
+
+  acquired_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  heartbeat_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMP NOT NULL,
+
+  -- One holder per resource
+  CONSTRAINT uq_worker_leases_resource UNIQUE (resource_type, resource_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_worker_leases_worker ON worker_leases(worker_id);
+CREATE INDEX IF NOT EXISTS idx_worker_leases_expires ON worker_leases(expires_at);
+
+COMMENT ON TABLE worker_leases IS 'Agents and workflow graphs claimed by an orchestrator process';
+COMMENT ON COLUMN worker_leases.expires_at IS 'Lease is reclaimable once this passes without a heartbeat';
+
+-- ============================================================================
+
+-- DOWN
+DROP TABLE IF EXISTS worker_leases;
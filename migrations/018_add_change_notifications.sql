@@ -0,0 +1,149 @@
+-- ============================================================================
+-- Migration 018: Change Notifications
+-- ============================================================================
+-- Purpose: Wake the execution worker, workflow poller and dashboard when rows
+--          they care about change, instead of polling every few seconds.
+--          Triggers send NOTIFY on these channels (JSON payloads):
+--          - agent_status_changed: agent inserted or status changed
+--          - agent_pending: agent inserted as, or changed to, pending
+--          - workflow_node_changed: node inserted or execution_status changed
+--          - message_created: message inserted
+--          - agent_event_created: agent_events row inserted
+--          Notifications are delivered on commit; listeners keep a slow
+--          polling fallback for anything missed while disconnected.
+-- ============================================================================
+-- UP
+
+-- ============================================================================
+-- Agents
+-- ============================================================================
+CREATE OR REPLACE FUNCTION notify_agent_status_changed()
+RETURNS TRIGGER AS $$
+DECLARE
+  previous_status VARCHAR(50);
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    previous_status := OLD.status;
+  END IF;
+
+  PERFORM pg_notify('agent_status_changed', json_build_object(
+    'agent_id', NEW.id,
+    'parent_id', NEW.parent_id,
+    'status', NEW.status,
+    'previous_status', previous_status
+  )::text);
+
+  IF NEW.status = 'pending' THEN
+    PERFORM pg_notify('agent_pending', json_build_object(
+      'agent_id', NEW.id,
+      'parent_id', NEW.parent_id
+    )::text);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_agents_notify_insert ON agents;
+CREATE TRIGGER trigger_agents_notify_insert
+  AFTER INSERT ON agents
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_agent_status_changed();
+
+DROP TRIGGER IF EXISTS trigger_agents_notify_status ON agents;
+CREATE TRIGGER trigger_agents_notify_status
+  AFTER UPDATE OF status ON agents
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION notify_agent_status_changed();
+
+-- ============================================================================
+-- Workflow nodes
+-- ============================================================================
+CREATE OR REPLACE FUNCTION notify_workflow_node_changed()
+RETURNS TRIGGER AS $$
+DECLARE
+  previous_status VARCHAR(20);
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    previous_status := OLD.execution_status;
+  END IF;
+
+  PERFORM pg_notify('workflow_node_changed', json_build_object(
+    'node_id', NEW.id,
+    'workflow_graph_id', NEW.workflow_graph_id,
+    'agent_id', NEW.agent_id,
+    'execution_status', NEW.execution_status,
+    'previous_status', previous_status
+  )::text);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_workflow_nodes_notify_insert ON workflow_nodes;
+CREATE TRIGGER trigger_workflow_nodes_notify_insert
+  AFTER INSERT ON workflow_nodes
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_workflow_node_changed();
+
+DROP TRIGGER IF EXISTS trigger_workflow_nodes_notify_status ON workflow_nodes;
+CREATE TRIGGER trigger_workflow_nodes_notify_status
+  AFTER UPDATE OF execution_status ON workflow_nodes
+  FOR EACH ROW
+  WHEN (OLD.execution_status IS DISTINCT FROM NEW.execution_status)
+  EXECUTE FUNCTION notify_workflow_node_changed();
+
+-- ============================================================================
+-- Messages and agent events
+-- ============================================================================
+CREATE OR REPLACE FUNCTION notify_message_created()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM pg_notify('message_created', json_build_object(
+    'message_id', NEW.id,
+    'sender_id', NEW.sender_id,
+    'recipient_id', NEW.recipient_id,
+    'thread_id', NEW.thread_id
+  )::text);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_messages_notify_insert ON messages;
+CREATE TRIGGER trigger_messages_notify_insert
+  AFTER INSERT ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_message_created();
+
+CREATE OR REPLACE FUNCTION notify_agent_event_created()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM pg_notify('agent_event_created', json_build_object(
+    'event_id', NEW.id,
+    'agent_id', NEW.agent_id,
+    'event_type', NEW.event_type
+  )::text);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_agent_events_notify_insert ON agent_events;
+CREATE TRIGGER trigger_agent_events_notify_insert
+  AFTER INSERT ON agent_events
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_agent_event_created();
+
+-- ============================================================================
+
+-- DOWN
+DROP TRIGGER IF EXISTS trigger_agent_events_notify_insert ON agent_events;
+DROP TRIGGER IF EXISTS trigger_messages_notify_insert ON messages;
+DROP TRIGGER IF EXISTS trigger_workflow_nodes_notify_status ON workflow_nodes;
+DROP TRIGGER IF EXISTS trigger_workflow_nodes_notify_insert ON workflow_nodes;
+DROP TRIGGER IF EXISTS trigger_agents_notify_status ON agents;
+DROP TRIGGER IF EXISTS trigger_agents_notify_insert ON agents;
+DROP FUNCTION IF EXISTS notify_agent_event_created();
+DROP FUNCTION IF EXISTS notify_message_created();
+DROP FUNCTION IF EXISTS notify_workflow_node_changed();
+DROP FUNCTION IF EXISTS notify_agent_status_changed();
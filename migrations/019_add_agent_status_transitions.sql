@@ -0,0 +1,42 @@
+-- ============================================================================
+-- Migration 019: Agent Status Transitions
+-- ============================================================================
+-- Purpose: Every agent status change goes through AgentStateMachine, which
+--          rejects transitions outside its table and records who made each
+--          change and why. Agents gain the 'paused' status: a pending agent
+--          held back by an operator, or an execution suspended at a safe point.
+-- ============================================================================
+-- UP
+
+ALTER TABLE agents DROP CONSTRAINT IF EXISTS agents_status_check;
+ALTER TABLE agents ADD CONSTRAINT agents_status_check
+  CHECK (status IN ('pending', 'executing', 'paused', 'completed', 'failed', 'terminated', 'timed_out'));
+
+CREATE TABLE IF NOT EXISTS agent_status_transitions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+
+  from_status VARCHAR(50) NOT NULL,
+  to_status VARCHAR(50) NOT NULL,
+
+  -- Who made the change (e.g. 'dashboard', 'worker:<id>', 'reconciliation')
+  actor VARCHAR(255) NOT NULL,
+  reason TEXT,
+
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_status_transitions_agent
+  ON agent_status_transitions(agent_id, created_at DESC);
+
+COMMENT ON TABLE agent_status_transitions IS 'History of agent status changes made through AgentStateMachine';
+COMMENT ON COLUMN agent_status_transitions.actor IS 'Component or user that made the change';
+
+-- ============================================================================
+
+-- DOWN
+DROP TABLE IF EXISTS agent_status_transitions;
+UPDATE agents SET status = 'pending' WHERE status = 'paused';
+ALTER TABLE agents DROP CONSTRAINT IF EXISTS agents_status_check;
+ALTER TABLE agents ADD CONSTRAINT agents_status_check
+  CHECK (status IN ('pending', 'executing', 'completed', 'failed', 'terminated', 'timed_out'));
@@ -0,0 +1,22 @@
+-- ============================================================================
+-- Migration 020: Workflow Edge Conditions
+-- ============================================================================
+-- Purpose: Dependencies of a workflow node may carry an activation condition
+--          (on_success, on_fail, on_complete, or an expression evaluated
+--          against the upstream node's result). Keyed by upstream node ID;
+--          dependencies without an entry wait for the upstream node to
+--          complete successfully. Nodes whose conditions can no longer be
+--          met are skipped.
+-- ============================================================================
+-- UP
+
+ALTER TABLE workflow_nodes
+  ADD COLUMN IF NOT EXISTS edge_conditions JSONB NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN workflow_nodes.edge_conditions IS
+  'Activation condition per dependency: {"<node id>": {"dependency_type", "condition", "condition_expression"}}';
+
+-- ============================================================================
+
+-- DOWN
+ALTER TABLE workflow_nodes DROP COLUMN IF EXISTS edge_conditions;
@@ -0,0 +1,24 @@
+-- ============================================================================
+-- Migration 021: Cancelled Workflows
+-- ============================================================================
+-- Purpose: A workflow terminated by an operator (or the orchestrator) ends in
+--          its own 'cancelled' status instead of 'failed': its node agents
+--          and their descendants were stopped and its remaining nodes were
+--          skipped with the termination reason.
+-- ============================================================================
+-- UP
+
+ALTER TABLE workflow_graphs DROP CONSTRAINT IF EXISTS workflow_graphs_status_check;
+
+ALTER TABLE workflow_graphs
+  ADD CONSTRAINT workflow_graphs_status_check
+  CHECK (status IN ('active', 'paused', 'completed', 'failed', 'cancelled'));
+
+-- ============================================================================
+
+-- DOWN
+UPDATE workflow_graphs SET status = 'failed' WHERE status = 'cancelled';
+ALTER TABLE workflow_graphs DROP CONSTRAINT IF EXISTS workflow_graphs_status_check;
+ALTER TABLE workflow_graphs
+  ADD CONSTRAINT workflow_graphs_status_check
+  CHECK (status IN ('active', 'paused', 'completed', 'failed'));
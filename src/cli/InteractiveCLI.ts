@@ -1,5 +1,7 @@
 import * as readline from 'readline';
 import { AgentService } from '../services/AgentService.js';
+import { AgentCore } from '../core/AgentCore.js';
+import type { ModelMessage, ModelProvider } from '../core/ModelProvider.js';
 import { logger } from '../utils/Logger.js';
 
 // Color codes for terminal output
@@ -34,17 +36,22 @@ const colors = {
 export class InteractiveCLI {
   private rl: readline.Interface;
   private agentService: AgentService;
+  private core: AgentCore;
   private rootAgentId?: string;
   private isRunning: boolean = false;
-  private conversationHistory: Array<{ role: string; content: string }> = [];
+  private conversationHistory: ModelMessage[] = [];
 
-  constructor() {
+  /**
+   * @param provider - Model provider for the root agent (defaults to Anthropic)
+   */
+  constructor(provider?: ModelProvider) {
     this.rl = readline.createInterface({
       input: process.stdin,
       output: process.stdout,
       prompt: this.formatPrompt('> '),
     });
     this.agentService = new AgentService();
+    this.core = new AgentCore(provider);
   }
 
   /**
@@ -66,7 +73,13 @@ export class InteractiveCLI {
       );
 
       // Update agent to executing status
-      await this.agentService.updateAgentStatus(this.rootAgentId, 'executing');
+      await this.agentService.updateAgentStatus(
+        this.rootAgentId,
+        'executing',
+        undefined,
+        undefined,
+        { actor: 'cli' }
+      );
 
       console.log(this.colorize(`\nRoot agent ready: ${this.rootAgentId}`, colors.green));
       console.log(this.colorize('Type your message or /help for commands\n', colors.gray));
@@ -178,16 +191,16 @@ export class InteractiveCLI {
     }
 
     try {
-      // Store user message
-      await this.agentService.storeMessage(this.rootAgentId, 'user', message);
       this.conversationHistory.push({ role: 'user', content: message });
 
       // Display thinking indicator
       process.stdout.write(this.colorize('Agent: ', colors.magenta));
       process.stdout.write(this.colorize('[Processing...] ', colors.dim));
 
-      // Simulate agent processing (in real implementation, this would call Claude API)
-      const response = await this.simulateAgentResponse(message);
+      // Run one model turn; AgentCore rebuilds the history from storage and persists the turn
+      const startedAt = Date.now();
+      const result = await this.core.continue(this.rootAgentId, message);
+      const response = result.content;
 
       // Clear the processing indicator
       readline.clearLine(process.stdout, 0);
@@ -197,42 +210,29 @@ export class InteractiveCLI {
       console.log(this.colorize('Agent: ', colors.magenta) + response);
       console.log();
 
-      // Store agent response
-      await this.agentService.storeMessage(this.rootAgentId, 'assistant', response);
       this.conversationHistory.push({ role: 'assistant', content: response });
 
-      // Update token usage (simulated)
-      const estimatedTokens = Math.ceil((message.length + response.length) / 4);
-      await this.agentService.updateTokenUsage(this.rootAgentId, estimatedTokens);
+      // Update token usage and record the turn as the agent's latest result
+      await this.agentService.updateTokenUsage(this.rootAgentId, result.tokensUsed);
+      await this.agentService.recordResult({
+        agent_id: this.rootAgentId,
+        outcome: result.finishReason === 'timed_out' ? 'timed_out' : 'completed',
+        finish_reason: result.finishReason,
+        output: response,
+        structured_output: result.structuredOutput ?? result.reportedData ?? null,
+        tokens_used: result.tokensUsed,
+        duration_ms: Date.now() - startedAt,
+      });
 
     } catch (error) {
       logger.error({ error, message }, 'Failed to send message to agent');
-      console.log(this.colorize('Error: Failed to process message', colors.red));
-    }
-  }
 
-  /**
-   * Simulate agent response (placeholder for actual Claude API integration)
-   */
-  private async simulateAgentResponse(message: string): Promise<string> {
-    // Simulate processing delay
-    await new Promise(resolve => setTimeout(resolve, 500));
-
-    // Generate contextual response based on message
-    const lowerMessage = message.toLowerCase();
-
-    if (lowerMessage.includes('hello') || lowerMessage.includes('hi')) {
-      return "Hello! I'm your assistant agent. How can I help you today?";
-    } else if (lowerMessage.includes('help')) {
-      return "I'm here to assist you! You can ask me questions, request tasks, or use commands like /status to check my status.";
-    } else if (lowerMessage.includes('status')) {
-      return "I'm currently executing and ready to help. You can check detailed status with the /status command.";
-    } else if (lowerMessage.includes('thank')) {
-      return "You're welcome! Feel free to ask if you need anything else.";
-    } else if (lowerMessage.includes('bye') || lowerMessage.includes('goodbye')) {
-      return "Goodbye! Use /quit to exit the CLI.";
-    } else {
-      return `I received your message: "${message}". I'm a simulated agent response. In the full implementation, I would process this through Claude API and provide intelligent responses.`;
+      // Drop the unanswered user turn from the local transcript
+      if (this.conversationHistory[this.conversationHistory.length - 1]?.role === 'user') {
+        this.conversationHistory.pop();
+      }
+
+      console.log(this.colorize('Error: Failed to process message', colors.red));
     }
   }
 
@@ -397,7 +397,13 @@ export class InteractiveCLI {
     if (this.rootAgentId) {
       try {
         // Update agent status to completed
-        await this.agentService.updateAgentStatus(this.rootAgentId, 'completed');
+        await this.agentService.updateAgentStatus(
+          this.rootAgentId,
+          'completed',
+          undefined,
+          undefined,
+          { actor: 'cli' }
+        );
 
         // Show final stats
         const budget = await this.agentService.getBudget(this.rootAgentId);
@@ -449,6 +455,9 @@ export class InteractiveCLI {
       case 'executing':
         color = colors.cyan;
         break;
+      case 'paused':
+        color = colors.blue;
+        break;
       case 'completed':
         color = colors.green;
         break;
@@ -458,6 +467,9 @@ export class InteractiveCLI {
       case 'terminated':
         color = colors.gray;
         break;
+      case 'timed_out':
+        color = colors.magenta;
+        break;
     }
     return this.colorize(status.toUpperCase(), color);
   }
@@ -239,6 +239,7 @@ export class MonitorCLI {
       completed: '▓▓▓▓▓▓▓▓',
       failed: '✗✗✗✗✗✗✗✗',
       terminated: '⊗⊗⊗⊗⊗⊗⊗⊗',
+      timed_out: '◔◔◔◔◔◔◔◔',
     };
     return bars[status] || '????????';
   }
@@ -253,6 +254,7 @@ export class MonitorCLI {
       completed: '\x1b[32m' + status + '\x1b[0m', // Green
       failed: '\x1b[31m' + status + '\x1b[0m', // Red
       terminated: '\x1b[90m' + status + '\x1b[0m', // Gray
+      timed_out: '\x1b[35m' + status + '\x1b[0m', // Magenta
     };
     return colors[status] || status;
   }
@@ -24,6 +24,22 @@ const envSchema = z.object({
   ANTHROPIC_API_KEY: z.string().min(1).describe('Anthropic API key for Claude'),
   ANTHROPIC_MODEL: z.string().default('claude-3-5-sonnet-20241022'),
   ANTHROPIC_MAX_TOKENS: z.string().default('4096'),
+  MODEL_PROVIDER: z
+    .enum(['anthropic', 'fake'])
+    .default('anthropic')
+    .describe('LLM provider used by AgentCore'),
+  LLM_MAX_ATTEMPTS: z
+    .string()
+    .default('4')
+    .describe('Attempts per model call for retryable errors (rate limits, overloads, 5xx)'),
+  LLM_RETRY_BASE_DELAY: z
+    .string()
+    .default('1000')
+    .describe('First retry backoff (ms), doubled per attempt'),
+  LLM_RETRY_MAX_DELAY: z
+    .string()
+    .default('30000')
+    .describe('Backoff cap (ms); retry-after headers take precedence'),
 
   // Application Configuration
   NODE_ENV: z
@@ -40,12 +56,61 @@ const envSchema = z.object({
   DEFAULT_AGENT_BUDGET: z.string().default('10000').describe('Default token budget for agents'),
   MAX_AGENT_DEPTH: z.string().default('5').describe('Maximum hierarchy depth'),
   AGENT_TIMEOUT: z.string().default('300000').describe('Agent execution timeout (ms)'),
+  AGENT_MAX_TOOL_ITERATIONS: z.string().default('20').describe('Maximum model turns per tool-use loop'),
+  AGENT_CONTROL_POLL_INTERVAL: z
+    .string()
+    .default('1000')
+    .describe('How often a paused agent re-checks its control state (ms)'),
+  AGENT_OUTPUT_ATTEMPTS: z
+    .string()
+    .default('3')
+    .describe('Answers accepted from an agent with an output schema before it fails'),
+  ROLE_VALIDATION: z
+    .enum(['strict', 'warn'])
+    .default('strict')
+    .describe('Unknown roles at spawn time: strict = reject, warn = log and allow'),
+  RECOVERY_POLICY: z
+    .enum(['resume', 'requeue', 'fail'])
+    .default('resume')
+    .describe('Agents left executing by a crashed process: resume from checkpoint, requeue or fail'),
+  BUDGET_WARNING_THRESHOLD: z
+    .string()
+    .default('0.8')
+    .describe('Share of its budget an agent may use before a budget.threshold event'),
+
+  // Scheduler Configuration
+  MAX_CONCURRENT_AGENTS: z.string().default('50').describe('Agents the worker runs at once'),
+  MAX_AGENTS_PER_TREE: z
+    .string()
+    .default('10')
+    .describe('Agents of one root agent\'s hierarchy running at once (0 = no limit)'),
+  MAX_AGENTS_PER_WORKFLOW: z
+    .string()
+    .default('5')
+    .describe('Agents of one workflow running at once (0 = no limit)'),
+  WORKER_ID: z
+    .string()
+    .optional()
+    .describe('Lease owner ID of this process (default: host:pid:random)'),
+  WORKER_LEASE_TTL: z
+    .string()
+    .default('30000')
+    .describe('Lease lifetime (ms); leases not renewed in time are reclaimed'),
+  WORKER_HEARTBEAT_INTERVAL: z.string().default('10000').describe('Lease renewal interval (ms)'),
+  FALLBACK_POLL_INTERVAL: z
+    .string()
+    .default('30000')
+    .describe('Safety-net polling of the worker, poller and dashboard (ms); see LISTEN/NOTIFY'),
 
   // Interactive Session Configuration
   ENABLE_INTERACTIVE_UI: z.enum(['true', 'false']).default('true'),
   WS_PORT: z.string().default('3001').describe('WebSocket server port'),
   SESSION_TIMEOUT: z.string().default('3600000').describe('Session idle timeout (ms)'),
   APPROVAL_TIMEOUT: z.string().default('300000').describe('Approval request timeout (ms)'),
+  APPROVAL_POLL_INTERVAL: z
+    .string()
+    .default('2000')
+    .describe('How often a blocked tool call re-checks its approval request (ms)'),
 
   // Workspace Configuration
   WORKTREE_BASE_PATH: z.string().default('./worktrees').describe('Base path for git worktrees'),
@@ -103,6 +168,12 @@ export const config = {
     apiKey: envConfig.ANTHROPIC_API_KEY,
     model: envConfig.ANTHROPIC_MODEL,
     maxTokens: parseInt(envConfig.ANTHROPIC_MAX_TOKENS, 10),
+    provider: envConfig.MODEL_PROVIDER,
+    retry: {
+      maxAttempts: parseInt(envConfig.LLM_MAX_ATTEMPTS, 10),
+      baseDelay: parseInt(envConfig.LLM_RETRY_BASE_DELAY, 10),
+      maxDelay: parseInt(envConfig.LLM_RETRY_MAX_DELAY, 10),
+    },
   },
 
   // Application
@@ -117,6 +188,23 @@ export const config = {
     defaultBudget: parseInt(envConfig.DEFAULT_AGENT_BUDGET, 10),
     maxDepth: parseInt(envConfig.MAX_AGENT_DEPTH, 10),
     timeout: parseInt(envConfig.AGENT_TIMEOUT, 10),
+    maxToolIterations: parseInt(envConfig.AGENT_MAX_TOOL_ITERATIONS, 10),
+    controlPollInterval: parseInt(envConfig.AGENT_CONTROL_POLL_INTERVAL, 10),
+    outputAttempts: parseInt(envConfig.AGENT_OUTPUT_ATTEMPTS, 10),
+    roleValidation: envConfig.ROLE_VALIDATION,
+    recoveryPolicy: envConfig.RECOVERY_POLICY,
+    budgetWarningThreshold: parseFloat(envConfig.BUDGET_WARNING_THRESHOLD),
+  },
+
+  // Scheduler
+  scheduler: {
+    maxConcurrent: parseInt(envConfig.MAX_CONCURRENT_AGENTS, 10),
+    maxPerTree: parseInt(envConfig.MAX_AGENTS_PER_TREE, 10),
+    maxPerWorkflow: parseInt(envConfig.MAX_AGENTS_PER_WORKFLOW, 10),
+    workerId: envConfig.WORKER_ID,
+    leaseTtl: parseInt(envConfig.WORKER_LEASE_TTL, 10),
+    heartbeatInterval: parseInt(envConfig.WORKER_HEARTBEAT_INTERVAL, 10),
+    fallbackPollInterval: parseInt(envConfig.FALLBACK_POLL_INTERVAL, 10),
   },
 
   // Interactive Session
@@ -125,6 +213,7 @@ export const config = {
     wsPort: parseInt(envConfig.WS_PORT, 10),
     sessionTimeout: parseInt(envConfig.SESSION_TIMEOUT, 10),
     approvalTimeout: parseInt(envConfig.APPROVAL_TIMEOUT, 10),
+    approvalPollInterval: parseInt(envConfig.APPROVAL_POLL_INTERVAL, 10),
   },
 
   // Workspace
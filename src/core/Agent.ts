@@ -1,55 +1,64 @@
-import { AgentCore } from './AgentCore.js';
+import { AgentCore, type AgentExecutionResult } from './AgentCore.js';
+import { resolveAgentTimeoutMs } from './ExecutionDeadline.js';
+import { resolveOutputSchema, type OutputSchema } from './OutputSchema.js';
+import { AgentControl } from './AgentControl.js';
+import { createOrchestrationTools } from './AgentTools.js';
+import type { ModelProvider } from './ModelProvider.js';
 import { AgentRepository } from '../database/repositories/AgentRepository.js';
+import { AgentResultRepository } from '../database/repositories/AgentResultRepository.js';
 import { BudgetService } from '../services/BudgetService.js';
 import { AgentService } from '../services/AgentService.js';
 import { HierarchyService } from '../services/HierarchyService.js';
+import { RoleService, resolveNodeModel } from '../services/RoleService.js';
+import { CheckpointService } from '../services/CheckpointService.js';
+import {
+  AgentStateMachine,
+  InvalidAgentTransitionError,
+} from '../services/AgentStateMachine.js';
+import { AgentTracer } from '../monitoring/AgentTracer.js';
 import { config } from '../config/env.js';
-import { logger } from '../utils/Logger.js';
+import { logger, type PinoLogger } from '../utils/Logger.js';
 import type {
   Agent as AgentModel,
   CreateAgent,
   AgentStatusType,
 } from '../models/Agent.js';
+import type { CreateAgentResult } from '../models/AgentResult.js';
 
 /**
- * Agent State Machine Transitions
- *
- * Valid state transitions:
- * - pending → executing (when spawn() is called)
- * - executing → completed (successful execution)
- * - executing → failed (execution error)
- * - executing → terminated (manual termination)
- * - Any state can transition to terminated (force termination)
+ * Execution result fields recorded for this agent
  */
-const VALID_TRANSITIONS: Record<AgentStatusType, AgentStatusType[]> = {
-  pending: ['executing', 'terminated'],
-  executing: ['completed', 'failed', 'terminated'],
-  completed: ['terminated'], // Allow cleanup
-  failed: ['terminated'], // Allow cleanup
-  terminated: [], // Terminal state
-};
+type AgentResultData = Omit<CreateAgentResult, 'agent_id'>;
 
 /**
  * Agent - Presentation Layer for Agent Orchestration
  *
  * Provides the public interface for agent operations and manages the agent lifecycle.
- * Implements state machine pattern for status transitions.
+ * Status changes go through AgentStateMachine (see AGENT_STATUS_TRANSITIONS).
  *
  * Architecture: Facade Pattern
  * - Coordinates between AgentCore (business logic) and AgentRepository (data access)
- * - Manages agent state machine and transitions
+ * - Drives the agent through its status transitions
  * - Provides high-level operations for agent lifecycle
  *
  * Lifecycle:
  * 1. Create Agent instance (either new or from existing ID)
  * 2. spawn() - Transition to executing and start task
  * 3. execute() - Run the agent's task (async)
- * 4. Complete - Transition to completed/failed
+ * 4. Complete - Transition to completed/failed/timed_out
  * 5. terminate() - Force stop execution
+ *
+ * Executions honor operator pause/resume (agents.control_state) between model turns
+ * and the output schema declared by the workflow node or role. An execution
+ * of an agent that stopped without a result continues from its latest checkpoint.
+ * Every finished execution is recorded in agent_results before the final status is set.
  */
 export class Agent {
   private core: AgentCore;
   private repository: AgentRepository;
+  private resultRepo = new AgentResultRepository();
+  private checkpointService = new CheckpointService();
+  private stateMachine = new AgentStateMachine();
   private model?: AgentModel;
   private logger = logger.child({ component: 'Agent' });
   private executionPromise?: Promise<void>;
@@ -58,15 +67,15 @@ export class Agent {
    * Create a new Agent instance
    *
    * @param id - Agent UUID (if loading existing) or undefined (if creating new)
-   * @param core - AgentCore instance for business logic
+   * @param core - AgentCore instance, or a ModelProvider to build one with
    * @param repository - AgentRepository instance for data access
    */
   constructor(
     private id?: string,
-    core?: AgentCore,
+    core?: AgentCore | ModelProvider,
     repository?: AgentRepository
   ) {
-    this.core = core || new AgentCore();
+    this.core = core instanceof AgentCore ? core : new AgentCore(core);
     this.repository = repository || new AgentRepository();
   }
 
@@ -98,22 +107,23 @@ export class Agent {
 
       spawnLogger.info({ agentId: this.id }, 'Agent created in database');
 
-      // Validate transition to executing
-      await this.validateTransition('executing');
-
       // Transition to executing
       await this.updateStatus('executing');
       spawnLogger.info({ agentId: this.id }, 'Agent transitioned to executing');
 
       // Start execution asynchronously (fire and forget)
+      const startedAt = Date.now();
       this.executionPromise = this.execute()
-        .then(async () => {
-          spawnLogger.info({ agentId: this.id }, 'Agent execution completed successfully');
-          await this.updateStatus('completed', { completed_at: new Date() });
+        .then(async (result) => {
+          await this.finishExecution(result, startedAt, spawnLogger);
         })
         .catch(async (error) => {
           spawnLogger.error({ error, agentId: this.id }, 'Agent execution failed');
-          await this.updateStatus('failed', { completed_at: new Date() });
+          await this.recordResult(this.failedResult(error, startedAt), spawnLogger);
+          await this.settleStatus(
+            'failed',
+            error instanceof Error ? error.message : String(error)
+          );
         });
 
       return this.id;
@@ -127,11 +137,14 @@ export class Agent {
    * Execute the agent's task
    *
    * This method is called internally by spawn() and runs asynchronously.
-   * It delegates to AgentCore for the actual execution logic.
+   * It delegates to AgentCore for the actual execution logic, offering the
+   * built-in orchestration tools (spawn_subordinate, send_message, ...).
+   * The execution runs under the agent's deadline (see resolveAgentTimeoutMs).
    *
+   * @returns Execution result (finishReason 'timed_out' if the deadline passed)
    * @throws Error if execution fails
    */
-  private async execute(): Promise<void> {
+  private async execute(): Promise<AgentExecutionResult> {
     if (!this.model) {
       throw new Error('Cannot execute: agent model not loaded');
     }
@@ -142,20 +155,28 @@ export class Agent {
       executeLogger.info('Starting agent execution');
 
       // Delegate to AgentCore for business logic
-      const result = await this.core.execute(this.model);
+      const tracer = new AgentTracer(this.model.id);
+      const resumeFrom = await this.checkpointService.findResumePoint(this.model.id);
+      const result = await this.core.execute(this.model, createOrchestrationTools(this), {
+        ...(await this.resolveExecutionOptions(this.model)),
+        control: new AgentControl(this.model.id, { tracer }),
+        tracer,
+        ...(resumeFrom ? { resumeFrom } : {}),
+      });
 
       executeLogger.info(
         {
           tokensUsed: result.tokensUsed,
           finishReason: result.finishReason,
+          toolCalls: result.toolCalls.length,
           contentLength: result.content.length,
         },
         'Agent execution completed'
       );
 
-      // Store execution result (could be extended to save in database)
-      // For now, we just log it
       executeLogger.debug({ content: result.content }, 'Agent output');
+
+      return result;
     } catch (error) {
       executeLogger.error({ error }, 'Agent execution failed');
       throw error;
@@ -185,19 +206,22 @@ export class Agent {
       });
       this.id = this.model.id;
 
-      // Validate and transition to executing
-      await this.validateTransition('executing');
+      // Transition to executing
       await this.updateStatus('executing');
 
       // Start streaming execution asynchronously
+      const startedAt = Date.now();
       this.executionPromise = this.executeStreaming(onChunk)
-        .then(async () => {
-          spawnLogger.info({ agentId: this.id }, 'Streaming agent execution completed');
-          await this.updateStatus('completed', { completed_at: new Date() });
+        .then(async (result) => {
+          await this.finishExecution(result, startedAt, spawnLogger);
         })
         .catch(async (error) => {
           spawnLogger.error({ error, agentId: this.id }, 'Streaming agent execution failed');
-          await this.updateStatus('failed', { completed_at: new Date() });
+          await this.recordResult(this.failedResult(error, startedAt), spawnLogger);
+          await this.settleStatus(
+            'failed',
+            error instanceof Error ? error.message : String(error)
+          );
         });
 
       return this.id;
@@ -210,7 +234,9 @@ export class Agent {
   /**
    * Execute with streaming (internal method)
    */
-  private async executeStreaming(onChunk: (chunk: string) => void): Promise<void> {
+  private async executeStreaming(
+    onChunk: (chunk: string) => void
+  ): Promise<AgentExecutionResult> {
     if (!this.model) {
       throw new Error('Cannot execute: agent model not loaded');
     }
@@ -220,7 +246,12 @@ export class Agent {
     try {
       executeLogger.info('Starting streaming agent execution');
 
-      const result = await this.core.executeStreaming(this.model, onChunk);
+      const tracer = new AgentTracer(this.model.id);
+      const result = await this.core.executeStreaming(this.model, onChunk, {
+        ...(await this.resolveExecutionOptions(this.model)),
+        control: new AgentControl(this.model.id, { tracer }),
+        tracer,
+      });
 
       executeLogger.info(
         {
@@ -230,12 +261,96 @@ export class Agent {
         },
         'Streaming execution completed'
       );
+
+      return result;
     } catch (error) {
       executeLogger.error({ error }, 'Streaming execution failed');
       throw error;
     }
   }
 
+  /**
+   * Record the outcome of a finished execution
+   * A timed-out execution keeps its partial output and ends in 'timed_out'.
+   * The result is stored first so that the final status implies a result.
+   */
+  private async finishExecution(
+    result: AgentExecutionResult,
+    startedAt: number,
+    spawnLogger: PinoLogger
+  ): Promise<void> {
+    const outcome = result.finishReason === 'timed_out' ? 'timed_out' : 'completed';
+    await this.recordResult(
+      {
+        outcome,
+        finish_reason: result.finishReason,
+        error_message: outcome === 'timed_out' ? 'Execution deadline passed' : null,
+        output: result.content,
+        structured_output: result.structuredOutput ?? result.reportedData ?? null,
+        tokens_used: result.tokensUsed,
+        duration_ms: Date.now() - startedAt,
+      },
+      spawnLogger
+    );
+
+    if (outcome === 'timed_out') {
+      spawnLogger.warn(
+        { agentId: this.id, partialOutputLength: result.content.length },
+        'Agent execution timed out'
+      );
+      await this.settleStatus('timed_out', 'Execution deadline passed');
+      return;
+    }
+
+    spawnLogger.info({ agentId: this.id }, 'Agent execution completed successfully');
+    await this.settleStatus('completed');
+  }
+
+  /**
+   * Result of an execution that threw
+   */
+  private failedResult(error: unknown, startedAt: number): AgentResultData {
+    return {
+      outcome: 'failed',
+      finish_reason: 'error',
+      error_message: error instanceof Error ? error.message : String(error),
+      duration_ms: Date.now() - startedAt,
+    };
+  }
+
+  /**
+   * Store an execution result
+   * Failing to store it is logged but does not block the status transition.
+   */
+  private async recordResult(data: AgentResultData, spawnLogger: PinoLogger): Promise<void> {
+    if (!this.id) {
+      return;
+    }
+
+    try {
+      await this.resultRepo.create({ ...data, agent_id: this.id });
+    } catch (error) {
+      spawnLogger.error({ error, agentId: this.id }, 'Failed to record agent result');
+    }
+  }
+
+  /**
+   * Resolve the execution deadline, output schema and model override
+   * (workflow node, then role)
+   */
+  private async resolveExecutionOptions(
+    model: AgentModel
+  ): Promise<{ timeoutMs: number; outputSchema?: OutputSchema; model?: string }> {
+    const roleSettings = await new RoleService().resolveSettings(model.role);
+    const outputSchema = await resolveOutputSchema(model.id, roleSettings.outputSchema);
+    const nodeModel = await resolveNodeModel(model.id);
+    return {
+      timeoutMs: await resolveAgentTimeoutMs(model.id, roleSettings.timeoutMs),
+      ...(outputSchema ? { outputSchema } : {}),
+      ...(nodeModel ? { model: nodeModel } : {}),
+    };
+  }
+
   /**
    * Terminate the agent
    *
@@ -254,11 +369,8 @@ export class Agent {
     try {
       terminateLogger.info('Terminating agent');
 
-      // Validate transition
-      await this.validateTransition('terminated');
-
       // Update status to terminated
-      await this.updateStatus('terminated', { completed_at: new Date() });
+      await this.updateStatus('terminated', 'Terminated by its owner');
 
       terminateLogger.info('Agent terminated successfully');
     } catch (error) {
@@ -317,11 +429,12 @@ export class Agent {
    * Load an existing agent by ID
    *
    * @param id - Agent UUID
+   * @param provider - Model provider (defaults to Anthropic)
    * @returns Agent instance
    */
-  static async load(id: string): Promise<Agent> {
+  static async load(id: string, provider?: ModelProvider): Promise<Agent> {
     const repository = new AgentRepository();
-    const core = new AgentCore();
+    const core = new AgentCore(provider);
     const agent = new Agent(id, core, repository);
 
     // Load the model from database
@@ -331,43 +444,38 @@ export class Agent {
   }
 
   /**
-   * Update agent status in database
+   * Update agent status through the state machine
    *
    * @param status - New status
-   * @param additionalUpdates - Additional fields to update
+   * @param reason - Why the status changes (recorded with the transition)
+   * @throws InvalidAgentTransitionError if the agent may not move to the status
    */
-  private async updateStatus(
-    status: AgentStatusType,
-    additionalUpdates?: Partial<AgentModel>
-  ): Promise<void> {
+  private async updateStatus(status: AgentStatusType, reason?: string): Promise<void> {
     if (!this.id) {
       throw new Error('Cannot update status: agent not spawned');
     }
 
-    this.model = await this.repository.update(this.id, {
-      status,
-      ...additionalUpdates,
-    });
+    await this.stateMachine.transition(this.id, status, { actor: 'agent', reason });
+    this.model = await this.repository.findById(this.id);
   }
 
   /**
-   * Validate state transition
+   * Set the final status of an execution
+   * An agent stopped meanwhile (e.g. terminated by an operator) keeps its status.
    *
-   * @param newStatus - Target status
-   * @throws Error if transition is invalid
+   * @param status - Final status
+   * @param reason - Why the execution ended
    */
-  private async validateTransition(newStatus: AgentStatusType): Promise<void> {
-    if (!this.model) {
-      // No current status, allow any initial status
-      return;
-    }
-
-    const currentStatus = this.model.status;
-    const validNextStates = VALID_TRANSITIONS[currentStatus];
-
-    if (!validNextStates.includes(newStatus)) {
-      throw new Error(
-        `Invalid state transition: ${currentStatus} → ${newStatus}. Valid transitions: ${validNextStates.join(', ')}`
+  private async settleStatus(status: AgentStatusType, reason?: string): Promise<void> {
+    try {
+      await this.updateStatus(status, reason);
+    } catch (error) {
+      if (!(error instanceof InvalidAgentTransitionError)) {
+        throw error;
+      }
+      this.logger.warn(
+        { agentId: this.id, status, currentStatus: error.from },
+        'Agent stopped during execution; final status not applied'
       );
     }
   }
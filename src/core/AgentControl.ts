@@ -0,0 +1,400 @@
+import { setTimeout as sleep } from 'timers/promises';
+import { AgentRepository } from '../database/repositories/AgentRepository.js';
+import { CheckpointRepository } from '../database/repositories/CheckpointRepository.js';
+import { ControlCommandRepository } from '../database/repositories/ControlCommandRepository.js';
+import { InterventionRepository } from '../database/repositories/InterventionRepository.js';
+import type { AgentControlStateType, AgentStatusType } from '../models/Agent.js';
+import type { Checkpoint } from '../models/Checkpoint.js';
+import type { ControlCommand } from '../models/ControlCommand.js';
+import type { AgentIntervention } from '../models/Intervention.js';
+import { AgentTracer } from '../monitoring/AgentTracer.js';
+import { CheckpointService } from '../services/CheckpointService.js';
+import { AgentStateMachine } from '../services/AgentStateMachine.js';
+import { config } from '../config/env.js';
+import { logger } from '../utils/Logger.js';
+import type { ExecutionDeadline } from './ExecutionDeadline.js';
+
+/**
+ * Services and settings for AgentControl
+ */
+export interface AgentControlOptions {
+  agentRepo?: AgentRepository;
+  commandRepo?: ControlCommandRepository;
+  checkpointRepo?: CheckpointRepository;
+  interventionRepo?: InterventionRepository;
+  checkpointService?: CheckpointService;
+  stateMachine?: AgentStateMachine;
+  tracer?: AgentTracer;
+  /** How often a paused agent re-checks its control state (default: AGENT_CONTROL_POLL_INTERVAL) */
+  pollIntervalMs?: number;
+  /** Auto-checkpoint interval (default: the workspace's checkpoint_interval) */
+  checkpointIntervalMs?: number;
+}
+
+/**
+ * Execution context of a safe point
+ */
+export interface SafePointContext {
+  /** Aborts the wait while paused */
+  signal?: AbortSignal;
+  /** Deadline to stop while paused */
+  deadline?: ExecutionDeadline;
+}
+
+/**
+ * AgentControl - Cooperative pause/resume for a running agent
+ *
+ * Executions call pauseIfRequested() at safe points (between LLM turns,
+ * between SDK messages, before tool calls). When an operator has set
+ * agents.control_state to 'paused', the agent:
+ * 1. claims its pending pause commands (pending -> executing)
+ * 2. saves a 'pause' checkpoint of the state it was given
+ * 3. marks the commands executed, moves to the 'paused' status and waits,
+ *    with its deadline stopped
+ * 4. once control_state is 'running' again, returns to the status it paused
+ *    in, claims and executes the pending resume commands and returns the
+ *    latest checkpoint to continue from
+ *
+ * Concurrent safe points of one execution share a single pause.
+ *
+ * Executions also stop at safe points once the agent has been terminated
+ * (isTerminationRequested()).
+ *
+ * Long-running executions also save an auto-checkpoint at safe points once
+ * the workspace's checkpoint_interval has passed (checkpointIfDue()).
+ *
+ * Human interventions (dashboard, Linear comments) are delivered the same
+ * way: deliverInterventions() returns the unresolved ones as a message to
+ * inject into the conversation, and acknowledgeInterventions() marks them
+ * applied with the agent's next reply.
+ */
+export class AgentControl {
+  private agentRepo: AgentRepository;
+  private commandRepo: ControlCommandRepository;
+  private checkpointRepo: CheckpointRepository;
+  private interventionRepo: InterventionRepository;
+  private checkpointService: CheckpointService;
+  private stateMachine: AgentStateMachine;
+  private tracer: AgentTracer;
+  private pollIntervalMs: number;
+  private checkpointIntervalMs: number | null;
+  private lastCheckpointAt = Date.now();
+  private pausing: Promise<Checkpoint> | null = null;
+  private delivered = new Set<string>();
+  private awaitingAcknowledgement: AgentIntervention[] = [];
+  private controlLogger = logger.child({ component: 'AgentControl' });
+
+  /**
+   * @param agentId - Agent being controlled
+   * @param options - Services and settings
+   */
+  constructor(
+    readonly agentId: string,
+    options: AgentControlOptions = {}
+  ) {
+    this.agentRepo = options.agentRepo || new AgentRepository();
+    this.commandRepo = options.commandRepo || new ControlCommandRepository();
+    this.checkpointRepo = options.checkpointRepo || new CheckpointRepository();
+    this.interventionRepo = options.interventionRepo || new InterventionRepository();
+    this.checkpointService =
+      options.checkpointService || new CheckpointService({ checkpointRepo: this.checkpointRepo });
+    this.stateMachine = options.stateMachine || new AgentStateMachine();
+    this.tracer = options.tracer || new AgentTracer(agentId);
+    this.pollIntervalMs = options.pollIntervalMs ?? config.agent.controlPollInterval;
+    this.checkpointIntervalMs = options.checkpointIntervalMs ?? null;
+  }
+
+  /**
+   * Whether an operator has paused the agent
+   */
+  async isPauseRequested(): Promise<boolean> {
+    return (await this.agentRepo.getControlState(this.agentId)) === 'paused';
+  }
+
+  /**
+   * Whether the agent has been terminated (its execution should stop)
+   */
+  async isTerminationRequested(): Promise<boolean> {
+    const state = await this.agentRepo.getControlState(this.agentId);
+    return state === 'terminating' || state === 'terminated';
+  }
+
+  /**
+   * Suspend at this safe point if the agent is paused
+   *
+   * @param snapshot - Produces the state to checkpoint (only called when pausing)
+   * @param context - Signal and deadline of the execution
+   * @returns Checkpoint to continue from, or null if the agent was not paused
+   * @throws Error if the agent is terminated while paused or the signal aborts
+   */
+  async pauseIfRequested(
+    snapshot: () => Record<string, unknown>,
+    context: SafePointContext = {}
+  ): Promise<Checkpoint | null> {
+    if (this.pausing) {
+      return this.pausing;
+    }
+
+    if (!(await this.isPauseRequested())) {
+      return null;
+    }
+
+    return this.pause(snapshot(), context);
+  }
+
+  /**
+   * Checkpoint the given state and wait until the agent is resumed
+   * Use when the caller had to stop in-flight work after isPauseRequested().
+   *
+   * @param state - State to checkpoint
+   * @param context - Signal and deadline of the execution
+   * @returns Checkpoint to continue from
+   * @throws Error if the agent is terminated while paused or the signal aborts
+   */
+  pause(state: Record<string, unknown>, context: SafePointContext = {}): Promise<Checkpoint> {
+    if (!this.pausing) {
+      this.pausing = this.suspend(state, context).finally(() => {
+        this.pausing = null;
+      });
+    }
+    return this.pausing;
+  }
+
+  /**
+   * Save an auto-checkpoint if the checkpoint interval has passed
+   * The interval counts from the start of the execution or the last checkpoint.
+   * Failures are logged and do not interrupt the execution.
+   *
+   * @param snapshot - Produces the execution's state (only called when due)
+   * @returns The checkpoint, or null if none was due (or saving failed)
+   */
+  async checkpointIfDue(snapshot: () => Record<string, unknown>): Promise<Checkpoint | null> {
+    try {
+      this.checkpointIntervalMs ??= await this.checkpointService.getIntervalMs(this.agentId);
+      if (
+        this.checkpointIntervalMs <= 0 ||
+        Date.now() - this.lastCheckpointAt < this.checkpointIntervalMs
+      ) {
+        return null;
+      }
+
+      const checkpoint = await this.checkpointService.autoCheckpoint(this.agentId, snapshot());
+      this.lastCheckpointAt = Date.now();
+
+      this.controlLogger.info(
+        { agentId: this.agentId, checkpointId: checkpoint.id },
+        'Auto-checkpoint saved'
+      );
+      await this.tracer.logEvent({
+        eventType: 'checkpoint_saved',
+        message: 'Auto-checkpoint saved',
+        data: { checkpointId: checkpoint.id, label: checkpoint.label },
+      });
+      return checkpoint;
+    } catch (error) {
+      this.controlLogger.warn({ error, agentId: this.agentId }, 'Auto-checkpoint failed');
+      return null;
+    }
+  }
+
+  /**
+   * Take the interventions not yet delivered to this execution
+   * They stay unresolved until acknowledgeInterventions() is called.
+   *
+   * @returns Message to inject into the conversation, or null if there are none
+   */
+  async deliverInterventions(): Promise<string | null> {
+    const interventions = (await this.interventionRepo.findUnresolved(this.agentId)).filter(
+      (intervention) => !this.delivered.has(intervention.id)
+    );
+    if (interventions.length === 0) {
+      return null;
+    }
+
+    for (const intervention of interventions) {
+      this.delivered.add(intervention.id);
+    }
+    this.awaitingAcknowledgement.push(...interventions);
+
+    const ids = interventions.map((intervention) => intervention.id);
+    this.controlLogger.info(
+      { agentId: this.agentId, interventionIds: ids },
+      'Interventions delivered'
+    );
+    await this.tracer.logEvent({
+      eventType: 'intervention_delivered',
+      message: `Delivered ${interventions.length} operator intervention(s)`,
+      data: {
+        interventionIds: ids,
+        types: interventions.map((intervention) => intervention.intervention_type),
+      },
+    });
+
+    return formatInterventions(interventions);
+  }
+
+  /**
+   * Mark delivered interventions as applied with the agent's reply
+   * No-op when nothing is awaiting acknowledgement.
+   *
+   * @param response - What the agent replied after receiving them
+   */
+  async acknowledgeInterventions(response: string | null): Promise<void> {
+    if (this.awaitingAcknowledgement.length === 0) {
+      return;
+    }
+
+    const interventions = this.awaitingAcknowledgement;
+    this.awaitingAcknowledgement = [];
+    const ids = interventions.map((intervention) => intervention.id);
+
+    await this.interventionRepo.resolve(ids, 'applied', response);
+
+    this.controlLogger.info(
+      { agentId: this.agentId, interventionIds: ids },
+      'Interventions applied'
+    );
+    await this.tracer.logEvent({
+      eventType: 'intervention_applied',
+      message: `Agent acknowledged ${interventions.length} operator intervention(s)`,
+      data: { interventionIds: ids, response },
+    });
+  }
+
+  /**
+   * Checkpoint, wait for resume, then acknowledge the resume
+   */
+  private async suspend(
+    state: Record<string, unknown>,
+    { signal, deadline }: SafePointContext
+  ): Promise<Checkpoint> {
+    const pauseCommands = await this.commandRepo.claimPending(this.agentId, 'pause');
+    const pauseIds = pauseCommands.map((command) => command.id);
+
+    let checkpoint: Checkpoint;
+    try {
+      checkpoint = await this.checkpointRepo.create({
+        agent_id: this.agentId,
+        state_data: state,
+        label: 'pause',
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.commandRepo.markFailed(pauseIds, `Checkpoint failed: ${message}`);
+      throw error;
+    }
+
+    await this.commandRepo.markExecuted(pauseIds);
+    this.lastCheckpointAt = Date.now();
+    deadline?.suspend();
+    const pausedFrom = await this.setStatus('paused', this.reasonOf(pauseCommands), [
+      'pending',
+      'executing',
+    ]);
+
+    this.controlLogger.info(
+      { agentId: this.agentId, checkpointId: checkpoint.id },
+      'Agent paused at safe point'
+    );
+    await this.tracer.logEvent({
+      eventType: 'paused',
+      message: 'Agent paused at a safe point',
+      data: {
+        checkpointId: checkpoint.id,
+        commandIds: pauseIds,
+        reason: this.reasonOf(pauseCommands),
+      },
+    });
+
+    try {
+      const controlState = await this.waitWhilePaused(signal);
+      if (controlState !== 'running') {
+        throw new Error(`Agent ${this.agentId} was ${controlState} while paused`);
+      }
+    } finally {
+      deadline?.resume();
+    }
+
+    if (pausedFrom) {
+      await this.setStatus(pausedFrom, 'Resumed by an operator', ['paused']);
+    }
+
+    const resumeCommands = await this.commandRepo.claimPending(this.agentId, 'resume');
+    const resumeIds = resumeCommands.map((command) => command.id);
+    const resumeFrom = (await this.checkpointRepo.findLatestByAgentId(this.agentId)) ?? checkpoint;
+    await this.commandRepo.markExecuted(resumeIds);
+
+    this.controlLogger.info(
+      { agentId: this.agentId, checkpointId: resumeFrom.id },
+      'Agent resumed from checkpoint'
+    );
+    await this.tracer.logEvent({
+      eventType: 'resumed',
+      message: 'Agent resumed from checkpoint',
+      data: { checkpointId: resumeFrom.id, commandIds: resumeIds },
+    });
+
+    return resumeFrom;
+  }
+
+  /**
+   * Move the agent to a status, unless it has already moved on (e.g. was terminated)
+   *
+   * @returns The status the agent left, or null if it did not change
+   */
+  private async setStatus(
+    status: AgentStatusType,
+    reason: string | null,
+    from: AgentStatusType[]
+  ): Promise<AgentStatusType | null> {
+    try {
+      const transition = await this.stateMachine.transition(this.agentId, status, {
+        actor: 'agent',
+        reason,
+        from,
+      });
+      return transition?.from_status ?? null;
+    } catch (error) {
+      this.controlLogger.warn({ error, agentId: this.agentId, status }, 'Status not changed');
+      return null;
+    }
+  }
+
+  /**
+   * Poll the control state until it is no longer 'paused'
+   *
+   * @returns The new control state
+   */
+  private async waitWhilePaused(signal?: AbortSignal): Promise<AgentControlStateType> {
+    for (;;) {
+      await sleep(this.pollIntervalMs, undefined, { signal });
+
+      const state = await this.agentRepo.getControlState(this.agentId);
+      if (state !== 'paused') {
+        return state;
+      }
+    }
+  }
+
+  /**
+   * Reason given with the most recent pause command, if any
+   */
+  private reasonOf(commands: ControlCommand[]): string | null {
+    const reason = commands.at(-1)?.metadata.reason;
+    return typeof reason === 'string' ? reason : null;
+  }
+}
+
+/**
+ * Render interventions as a single message to the agent
+ */
+function formatInterventions(interventions: AgentIntervention[]): string {
+  const lines = interventions.map(
+    (intervention) =>
+      `- ${intervention.intervention_type} from ${intervention.intervened_by}: ${intervention.message}`
+  );
+  return [
+    '[Operator intervention] A human supervising this task sent the following. Take it into account before continuing:',
+    ...lines,
+  ].join('\n');
+}
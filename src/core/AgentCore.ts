@@ -1,6 +1,105 @@
-import Anthropic from '@anthropic-ai/sdk';
 import type { Agent as AgentModel } from '../models/Agent.js';
-import { logger } from '../utils/Logger.js';
+import {
+  createAssistantMessage,
+  createUserMessage,
+  type Message,
+} from '../models/Message.js';
+import { AgentRepository } from '../database/repositories/AgentRepository.js';
+import { ConversationRepository } from '../database/repositories/ConversationRepository.js';
+import type { AgentTracer } from '../monitoring/AgentTracer.js';
+import type { Checkpoint } from '../models/Checkpoint.js';
+import { logger, type PinoLogger } from '../utils/Logger.js';
+import { AnthropicModelProvider } from './AnthropicModelProvider.js';
+import { FakeModelProvider } from './FakeModelProvider.js';
+import { ExecutionDeadline } from './ExecutionDeadline.js';
+import type { AgentControl } from './AgentControl.js';
+import type { OutputSchema } from './OutputSchema.js';
+import { LLMError, classifyLLMError } from './LLMErrors.js';
+import { RetryPolicy, type RetryAttempt } from './RetryPolicy.js';
+import { config } from '../config/env.js';
+import type { AgentTool } from './AgentTools.js';
+import {
+  messageText,
+  type ModelContentBlock,
+  type ModelMessage,
+  type ModelProvider,
+  type ModelStopReason,
+} from './ModelProvider.js';
+
+/**
+ * Tool call made during an execution
+ */
+export interface AgentToolCallRecord {
+  name: string;
+  input: Record<string, unknown>;
+  isError: boolean;
+}
+
+/**
+ * Result of a single agent execution
+ */
+export interface AgentExecutionResult {
+  content: string;
+  tokensUsed: number;
+  /**
+   * Model stop reason, 'report_result' when the agent reported via the tool,
+   * or 'timed_out' when the deadline passed (content is the partial output)
+   */
+  finishReason: string;
+  /** Tool calls made during the tool-use loop (empty without tools) */
+  toolCalls: AgentToolCallRecord[];
+  /** Structured data passed to report_result, if any */
+  reportedData?: Record<string, unknown> | null;
+  /** Final answer validated against the output schema (null without a schema) */
+  structuredOutput?: Record<string, unknown> | null;
+}
+
+/**
+ * Per-execution limits and operator control
+ */
+export interface AgentExecutionOptions {
+  /** Wall-clock deadline in ms (defaults to AGENT_TIMEOUT) */
+  timeoutMs?: number;
+  /** Aborts the execution (cancellation); unlike the deadline this throws */
+  signal?: AbortSignal;
+  /** Pause/resume and interventions, checked before every model turn */
+  control?: AgentControl;
+  /** Required shape of the final answer; mismatching answers are re-prompted */
+  outputSchema?: OutputSchema;
+  /** Records every model call attempt and its outcome (llm_attempt events) */
+  tracer?: AgentTracer;
+  /** Continue from this checkpoint's conversation instead of the task (execute() only) */
+  resumeFrom?: Checkpoint;
+  /** Model to use instead of ANTHROPIC_MODEL (e.g. a workflow node's override) */
+  model?: string;
+}
+
+/**
+ * Create a model provider by name
+ *
+ * - 'anthropic' - AnthropicModelProvider using ANTHROPIC_API_KEY
+ * - 'fake' - FakeModelProvider that echoes the last user message (offline demos)
+ *
+ * @param name - Provider name (defaults to MODEL_PROVIDER or 'anthropic')
+ * @returns Model provider instance
+ * @throws Error if the provider name is unknown
+ */
+export function createModelProvider(
+  name: string = process.env.MODEL_PROVIDER || 'anthropic'
+): ModelProvider {
+  switch (name) {
+    case 'anthropic':
+      return new AnthropicModelProvider();
+    case 'fake':
+      return new FakeModelProvider([], {
+        fallback: request => ({
+          content: `Received: ${messageText(request.messages[request.messages.length - 1]?.content ?? '')}`,
+        }),
+      });
+    default:
+      throw new Error(`Unknown model provider: ${name}`);
+  }
+}
 
 /**
  * Token counting utility
@@ -13,18 +112,10 @@ export class TokenCounter {
     return Math.ceil(text.length / this.CHARS_PER_TOKEN);
   }
 
-  static estimateMessageTokens(messages: Anthropic.MessageParam[]): number {
+  static estimateMessageTokens(messages: ModelMessage[]): number {
     let total = 0;
     for (const message of messages) {
-      if (typeof message.content === 'string') {
-        total += this.estimateTokens(message.content);
-      } else if (Array.isArray(message.content)) {
-        for (const block of message.content) {
-          if (block.type === 'text') {
-            total += this.estimateTokens(block.text);
-          }
-        }
-      }
+      total += this.estimateTokens(messageText(message.content));
     }
     return total;
   }
@@ -93,9 +184,11 @@ export class BudgetTracker {
  * AgentCore - Business Logic Layer for Agent Execution
  *
  * Handles:
- * - Anthropic API integration
+ * - LLM integration through a pluggable ModelProvider
+ * - Tool-use loop over built-in orchestration tools (see AgentTools)
+ * - Conversation persistence and multi-turn resumption
  * - Token counting and budget tracking
- * - Error handling and recovery
+ * - Error classification and retries of transient provider failures (see RetryPolicy)
  * - Streaming and message processing
  *
  * Architecture: Service Layer Pattern
@@ -104,14 +197,36 @@ export class BudgetTracker {
  * - Provides error handling and retry logic
  */
 export class AgentCore {
-  private anthropic: Anthropic;
+  private provider: ModelProvider;
+  private conversationRepo: ConversationRepository | null;
   private logger = logger.child({ component: 'AgentCore' });
   private budgetTracker?: BudgetTracker;
+  private retryPolicy: RetryPolicy;
 
-  constructor(apiKey?: string) {
-    this.anthropic = new Anthropic({
-      apiKey: apiKey || process.env.ANTHROPIC_API_KEY,
-    });
+  /**
+   * @param provider - Model provider, or an Anthropic API key for the default
+   *   Anthropic provider (falls back to ANTHROPIC_API_KEY)
+   * @param conversationRepo - Conversation storage; pass null to disable
+   *   persistence (ephemeral agents that are never continued)
+   * @param retryPolicy - Retries for transient provider errors (defaults from LLM_* settings)
+   */
+  constructor(
+    provider?: ModelProvider | string,
+    conversationRepo?: ConversationRepository | null,
+    retryPolicy: RetryPolicy = new RetryPolicy()
+  ) {
+    this.provider =
+      typeof provider === 'object' ? provider : new AnthropicModelProvider(provider);
+    this.conversationRepo =
+      conversationRepo === undefined ? new ConversationRepository() : conversationRepo;
+    this.retryPolicy = retryPolicy;
+  }
+
+  /**
+   * Get the model provider used by this core
+   */
+  getProvider(): ModelProvider {
+    return this.provider;
   }
 
   /**
@@ -125,77 +240,342 @@ export class AgentCore {
   }
 
   /**
-   * Execute agent task using Anthropic API
+   * Execute agent task using the configured model provider
    *
    * @param agent - Agent model with task information
+   * @param tools - Tools the model may call (runs the tool-use loop when non-empty)
+   * @param options - Deadline, cancellation, pause control and the checkpoint to resume from
    * @returns Execution result with generated content and token usage
    * @throws Error if execution fails or budget exceeded
    */
-  async execute(agent: AgentModel): Promise<{
-    content: string;
-    tokensUsed: number;
-    finishReason: string;
-  }> {
-    const executionLogger = this.logger.child({ agentId: agent.id, role: agent.role });
+  async execute(
+    agent: AgentModel,
+    tools: AgentTool[] = [],
+    options: AgentExecutionOptions = {}
+  ): Promise<AgentExecutionResult> {
+    const resumed = options.resumeFrom?.state_data.conversation;
+    if (Array.isArray(resumed)) {
+      this.logger.info(
+        { agentId: agent.id, checkpointId: options.resumeFrom?.id },
+        'Resuming execution from checkpoint'
+      );
+    }
+
+    const result = await this.executeMessages(
+      agent,
+      Array.isArray(resumed)
+        ? (resumed as ModelMessage[])
+        : [
+            {
+              role: 'user',
+              content: agent.task_description,
+            },
+          ],
+      tools,
+      options
+    );
+
+    await this.persistTurn(agent.id, agent.task_description, result);
+
+    return result;
+  }
+
+  /**
+   * Continue an agent's conversation with a follow-up message
+   *
+   * Rebuilds the conversation from storage, appends the new user message,
+   * runs one model turn and persists both sides of the turn.
+   *
+   * @param agentId - Agent UUID
+   * @param userMessage - Follow-up instruction or question
+   * @param tools - Tools the model may call during this turn
+   * @param options - Deadline, cancellation and pause control
+   * @returns Execution result for the new turn
+   * @throws Error if the agent does not exist, persistence is disabled or execution fails
+   */
+  async continue(
+    agentId: string,
+    userMessage: string,
+    tools: AgentTool[] = [],
+    options: AgentExecutionOptions = {}
+  ): Promise<AgentExecutionResult> {
+    if (!this.conversationRepo) {
+      throw new Error('Cannot continue conversation: persistence is disabled');
+    }
+
+    const agent = await new AgentRepository().findById(agentId);
+    const stored = await this.conversationRepo.findByAgentId(agentId);
+
+    const messages = AgentCore.mergeConsecutiveRoles([
+      ...AgentCore.toModelHistory(stored),
+      { role: 'user', content: userMessage },
+    ]);
+
+    this.logger.info(
+      { agentId, storedMessages: stored.length },
+      'Continuing agent conversation'
+    );
+
+    const result = await this.executeMessages(agent, messages, tools, options);
+    await this.persistTurn(agentId, userMessage, result);
+
+    return result;
+  }
+
+  /**
+   * Load an agent's stored conversation
+   *
+   * @param agentId - Agent UUID
+   * @returns Messages, oldest first (empty when persistence is disabled)
+   */
+  async getConversation(agentId: string): Promise<Message[]> {
+    return this.conversationRepo ? this.conversationRepo.findByAgentId(agentId) : [];
+  }
+
+  /**
+   * Execute over an explicit message history
+   *
+   * Without tools this is a single model turn. With tools, the model's tool
+   * calls are executed and their results fed back until the model ends its
+   * turn, calls report_result, or the iteration limit is reached. Tool
+   * failures are returned to the model as error results rather than thrown.
+   *
+   * The execution runs under a deadline: when it passes, the in-flight model
+   * request is aborted and the text produced so far is returned with
+   * finishReason 'timed_out'.
+   *
+   * With a control, a paused agent suspends before its next model turn,
+   * checkpoints the conversation and continues from the checkpoint on resume.
+   * Pending human interventions are appended to the next user turn and
+   * acknowledged with the model's reply.
+   *
+   * With an output schema, the final answer (text or report_result data) is
+   * validated; a mismatch is sent back with the validation errors until the
+   * schema's attempt limit is reached.
+   *
+   * @param agent - Agent model (used for the system prompt and tool context)
+   * @param messages - Conversation history, ending with a user message
+   * @param tools - Tools the model may call
+   * @param options - Deadline, cancellation and pause control
+   * @returns Execution result with generated content and total token usage
+   * @throws Error if execution fails, is cancelled, budget is exceeded or the iteration limit is hit
+   */
+  async executeMessages(
+    agent: AgentModel,
+    messages: ModelMessage[],
+    tools: AgentTool[] = [],
+    options: AgentExecutionOptions = {}
+  ): Promise<AgentExecutionResult> {
+    const executionLogger = this.logger.child({
+      agentId: agent.id,
+      role: agent.role,
+      provider: this.provider.name,
+    });
+
+    const deadline = new ExecutionDeadline(options.timeoutMs ?? config.agent.timeout, options.signal);
+    const toolCalls: AgentToolCallRecord[] = [];
+    const toolHistory: Array<{ tool: string; timestamp: string; result: unknown }> = [];
+    let tokensUsed = 0;
+    let partialContent = '';
 
     try {
-      executionLogger.info('Starting agent execution');
+      executionLogger.info({ tools: tools.length, timeoutMs: deadline.timeoutMs }, 'Starting agent execution');
 
       // Build system prompt with role context
-      const systemPrompt = this.buildSystemPrompt(agent);
+      const systemPrompt = this.buildSystemPrompt(agent, tools, options.outputSchema);
+      const toolsByName = new Map(tools.map(tool => [tool.definition.name, tool]));
+      let conversation = [...messages];
+      const maxIterations = this.getMaxToolIterations();
+      let outputAttempts = 0;
+
+      for (let iteration = 1; iteration <= maxIterations; iteration++) {
+        const snapshot = (): Record<string, unknown> => ({
+          status: agent.status,
+          execution_step: iteration,
+          conversation,
+          partial_content: partialContent,
+          tokens_used: tokensUsed,
+          tool_calls: toolCalls,
+          tool_history: toolHistory,
+        });
+
+        const checkpoint = await options.control?.pauseIfRequested(snapshot, {
+          signal: deadline.signal,
+          deadline,
+        });
+        if (checkpoint && Array.isArray(checkpoint.state_data.conversation)) {
+          conversation = checkpoint.state_data.conversation as ModelMessage[];
+        }
+        await options.control?.checkpointIfDue(snapshot);
 
-      // Build user message with task description
-      const messages: Anthropic.MessageParam[] = [
-        {
-          role: 'user',
-          content: agent.task_description,
-        },
-      ];
+        const guidance = await options.control?.deliverInterventions();
+        if (guidance) {
+          conversation = this.appendToLastUserMessage(conversation, guidance);
+        }
 
-      // Estimate token usage for budget check
-      const estimatedTokens =
-        TokenCounter.estimateTokens(systemPrompt) +
-        TokenCounter.estimateMessageTokens(messages) +
-        1000; // Buffer for response
+        deadline.signal.throwIfAborted();
+
+        // Estimate token usage for budget check
+        this.checkBudget(systemPrompt, conversation);
+
+        // Make request to the model provider
+        executionLogger.debug({ iteration }, 'Sending request to model provider');
+        const request = {
+          model: options.model ?? this.getModelName(),
+          maxTokens: this.getMaxTokens(),
+          system: systemPrompt,
+          messages: conversation,
+          ...(tools.length > 0 ? { tools: tools.map(tool => tool.definition) } : {}),
+          signal: deadline.signal,
+        };
+        const response = await this.retryPolicy.execute(() => this.provider.complete(request), {
+          signal: deadline.signal,
+          onAttempt: (attempt) =>
+            this.traceAttempt(executionLogger, options.tracer, iteration, attempt),
+        });
+
+        const turnTokens = response.usage.inputTokens + response.usage.outputTokens;
+        tokensUsed += turnTokens;
+        this.budgetTracker?.consume(turnTokens);
+        await options.control?.acknowledgeInterventions(response.content || null);
+
+        if (response.stopReason !== 'tool_use' || response.toolCalls.length === 0) {
+          if (!response.content) {
+            throw new Error('No text content in response');
+          }
 
-      if (this.budgetTracker && !this.budgetTracker.hasAvailable(estimatedTokens)) {
-        throw new Error(
-          `Insufficient budget for execution. Estimated: ${estimatedTokens} tokens, Available: ${this.budgetTracker.getRemaining()}`
-        );
-      }
+          let structuredOutput: Record<string, unknown> | null = null;
+          if (options.outputSchema) {
+            const validation = options.outputSchema.validateText(response.content);
+            if (!validation.success) {
+              this.checkOutputAttempts(options.outputSchema, ++outputAttempts, validation.errors);
+              executionLogger.info(
+                { attempt: outputAttempts, errors: validation.errors },
+                'Output did not match schema, re-prompting'
+              );
+              conversation.push(
+                { role: 'assistant', content: response.content },
+                { role: 'user', content: options.outputSchema.correctionPrompt(validation.errors) }
+              );
+              continue;
+            }
+            structuredOutput = validation.data;
+          }
 
-      // Make API request to Anthropic
-      executionLogger.debug('Sending request to Anthropic API');
-      const response = await this.anthropic.messages.create({
-        model: this.getModelName(),
-        max_tokens: this.getMaxTokens(),
-        system: systemPrompt,
-        messages,
-      });
+          this.logCompletion(executionLogger, tokensUsed, 'Execution completed');
+          return {
+            content: response.content,
+            tokensUsed,
+            finishReason: response.stopReason,
+            toolCalls,
+            structuredOutput,
+          };
+        }
 
-      // Extract content from response
-      const content = this.extractContent(response);
-      const tokensUsed = response.usage.input_tokens + response.usage.output_tokens;
+        const assistantBlocks: ModelContentBlock[] = [];
+        if (response.content) {
+          assistantBlocks.push({ type: 'text', text: response.content });
+          partialContent += (partialContent ? '\n' : '') + response.content;
+        }
 
-      // Track token usage
-      if (this.budgetTracker) {
-        this.budgetTracker.consume(tokensUsed);
-        executionLogger.info(
-          { tokensUsed, budgetStats: this.budgetTracker.getStats() },
-          'Execution completed'
+        const resultBlocks: ModelContentBlock[] = [];
+        let reported: { content: string; data: Record<string, unknown> | null } | null = null;
+        let outputErrors: string[] | null = null;
+
+        for (const call of response.toolCalls) {
+          assistantBlocks.push({ type: 'tool_use', id: call.id, name: call.name, input: call.input });
+
+          const tool = toolsByName.get(call.name);
+          let output: string;
+          let isError = false;
+
+          try {
+            if (!tool) {
+              throw new Error(`Unknown tool: ${call.name}`);
+            }
+
+            const toolResult = await tool.execute(call.input, {
+              agentId: agent.id,
+              signal: deadline.signal,
+            });
+            output = JSON.stringify(toolResult.output ?? null);
+
+            if (toolResult.final && !reported) {
+              const { result, data } = call.input as { result?: unknown; data?: unknown };
+              let reportedData =
+                data && typeof data === 'object' ? (data as Record<string, unknown>) : null;
+
+              if (options.outputSchema) {
+                const validation = options.outputSchema.validate(reportedData);
+                if (!validation.success) {
+                  outputErrors = validation.errors;
+                  throw new Error(options.outputSchema.correctionPrompt(validation.errors));
+                }
+                reportedData = validation.data;
+              }
+
+              reported = {
+                content: typeof result === 'string' ? result : output,
+                data: reportedData,
+              };
+            }
+          } catch (error) {
+            isError = true;
+            output = error instanceof Error ? error.message : String(error);
+            executionLogger.warn({ tool: call.name, error: output }, 'Tool call failed');
+          }
+
+          executionLogger.info({ tool: call.name, iteration, isError }, 'Tool call executed');
+          toolCalls.push({ name: call.name, input: call.input, isError });
+          toolHistory.push({
+            tool: call.name,
+            timestamp: new Date().toISOString(),
+            result: isError ? { error: output } : output,
+          });
+          resultBlocks.push({
+            type: 'tool_result',
+            tool_use_id: call.id,
+            content: output,
+            ...(isError ? { is_error: true } : {}),
+          });
+        }
+
+        if (reported) {
+          this.logCompletion(executionLogger, tokensUsed, 'Execution completed via report_result');
+          return {
+            content: reported.content,
+            tokensUsed,
+            finishReason: 'report_result',
+            toolCalls,
+            reportedData: reported.data,
+            structuredOutput: options.outputSchema ? reported.data : null,
+          };
+        }
+
+        if (outputErrors && options.outputSchema) {
+          this.checkOutputAttempts(options.outputSchema, ++outputAttempts, outputErrors);
+        }
+
+        conversation.push(
+          { role: 'assistant', content: assistantBlocks },
+          { role: 'user', content: resultBlocks }
         );
-      } else {
-        executionLogger.info({ tokensUsed }, 'Execution completed (no budget tracking)');
       }
 
-      return {
-        content,
-        tokensUsed,
-        finishReason: response.stop_reason || 'unknown',
-      };
+      throw new Error(`Tool-use loop exceeded ${maxIterations} iterations without a final answer`);
     } catch (error) {
+      if (deadline.timedOut) {
+        executionLogger.warn(
+          { timeoutMs: deadline.timeoutMs, tokensUsed, toolCalls: toolCalls.length },
+          'Agent execution timed out'
+        );
+        return { content: partialContent, tokensUsed, finishReason: 'timed_out', toolCalls };
+      }
+
       executionLogger.error({ error }, 'Agent execution failed');
       throw this.handleError(error);
+    } finally {
+      deadline.clear();
     }
   }
 
@@ -204,72 +584,87 @@ export class AgentCore {
    *
    * @param agent - Agent model with task information
    * @param onChunk - Callback for each content chunk
-   * @returns Final execution result
+   * @param options - Deadline, cancellation, operator control (checked before the stream starts)
+   *   and output schema (validated once the stream ends, without re-prompting)
+   * @returns Final execution result ('timed_out' with the streamed text if the deadline passed)
    */
   async executeStreaming(
     agent: AgentModel,
-    onChunk: (chunk: string) => void
-  ): Promise<{
-    content: string;
-    tokensUsed: number;
-    finishReason: string;
-  }> {
-    const executionLogger = this.logger.child({ agentId: agent.id, role: agent.role });
+    onChunk: (chunk: string) => void,
+    options: AgentExecutionOptions = {}
+  ): Promise<AgentExecutionResult> {
+    const executionLogger = this.logger.child({
+      agentId: agent.id,
+      role: agent.role,
+      provider: this.provider.name,
+    });
+
+    const deadline = new ExecutionDeadline(options.timeoutMs ?? config.agent.timeout, options.signal);
+    let fullContent = '';
+    let inputTokens = 0;
+    let outputTokens = 0;
 
     try {
       executionLogger.info('Starting streaming agent execution');
 
-      const systemPrompt = this.buildSystemPrompt(agent);
-      const messages: Anthropic.MessageParam[] = [
+      const systemPrompt = this.buildSystemPrompt(agent, [], options.outputSchema);
+      let messages: ModelMessage[] = [
         {
           role: 'user',
           content: agent.task_description,
         },
       ];
 
-      // Estimate and check budget
-      const estimatedTokens =
-        TokenCounter.estimateTokens(systemPrompt) +
-        TokenCounter.estimateMessageTokens(messages) +
-        1000;
-
-      if (this.budgetTracker && !this.budgetTracker.hasAvailable(estimatedTokens)) {
-        throw new Error(
-          `Insufficient budget for execution. Estimated: ${estimatedTokens} tokens, Available: ${this.budgetTracker.getRemaining()}`
-        );
+      const checkpoint = await options.control?.pauseIfRequested(
+        () => ({ status: agent.status, execution_step: 1, conversation: messages }),
+        { signal: deadline.signal, deadline }
+      );
+      if (checkpoint && Array.isArray(checkpoint.state_data.conversation)) {
+        messages = checkpoint.state_data.conversation as ModelMessage[];
       }
 
-      // Create streaming request
-      const stream = await this.anthropic.messages.create({
-        model: this.getModelName(),
-        max_tokens: this.getMaxTokens(),
-        system: systemPrompt,
-        messages,
-        stream: true,
-      });
+      const guidance = await options.control?.deliverInterventions();
+      if (guidance) {
+        messages = this.appendToLastUserMessage(messages, guidance);
+      }
 
-      let fullContent = '';
-      let inputTokens = 0;
-      let outputTokens = 0;
-      let finishReason = 'unknown';
-
-      // Process stream
-      for await (const event of stream) {
-        if (event.type === 'message_start') {
-          inputTokens = event.message.usage.input_tokens;
-        } else if (event.type === 'content_block_delta') {
-          if (event.delta.type === 'text_delta') {
-            const chunk = event.delta.text;
-            fullContent += chunk;
-            onChunk(chunk);
+      // Estimate and check budget
+      this.checkBudget(systemPrompt, messages);
+
+      let finishReason: ModelStopReason = 'unknown';
+
+      // Stream the response; a failed stream is only retried before any text was emitted
+      await this.retryPolicy.execute(
+        async () => {
+          const stream = this.provider.stream({
+            model: options.model ?? this.getModelName(),
+            maxTokens: this.getMaxTokens(),
+            system: systemPrompt,
+            messages,
+            signal: deadline.signal,
+          });
+
+          for await (const event of stream) {
+            if (event.type === 'message_start') {
+              inputTokens = event.inputTokens;
+            } else if (event.type === 'text_delta') {
+              fullContent += event.text;
+              onChunk(event.text);
+            } else if (event.type === 'message_stop') {
+              outputTokens = event.outputTokens;
+              finishReason = event.stopReason;
+            }
           }
-        } else if (event.type === 'message_delta') {
-          outputTokens = event.usage.output_tokens;
-          finishReason = event.delta.stop_reason || 'unknown';
+        },
+        {
+          signal: deadline.signal,
+          canRetry: () => fullContent.length === 0,
+          onAttempt: (attempt) => this.traceAttempt(executionLogger, options.tracer, 1, attempt),
         }
-      }
+      );
 
       const tokensUsed = inputTokens + outputTokens;
+      await options.control?.acknowledgeInterventions(fullContent || null);
 
       // Track token usage
       if (this.budgetTracker) {
@@ -282,21 +677,172 @@ export class AgentCore {
         executionLogger.info({ tokensUsed }, 'Streaming execution completed (no budget tracking)');
       }
 
-      return {
+      let structuredOutput: Record<string, unknown> | null = null;
+      if (options.outputSchema) {
+        // Streamed text cannot be taken back, so there is no re-prompt here
+        const validation = options.outputSchema.validateText(fullContent);
+        if (!validation.success) {
+          throw new Error(`Output did not match schema: ${validation.errors.join('; ')}`);
+        }
+        structuredOutput = validation.data;
+      }
+
+      const result = {
         content: fullContent,
         tokensUsed,
         finishReason,
+        toolCalls: [],
+        structuredOutput,
       };
+      await this.persistTurn(agent.id, agent.task_description, result);
+
+      return result;
     } catch (error) {
+      if (deadline.timedOut) {
+        executionLogger.warn(
+          { timeoutMs: deadline.timeoutMs, contentLength: fullContent.length },
+          'Streaming agent execution timed out'
+        );
+        const result = {
+          content: fullContent,
+          tokensUsed: inputTokens + outputTokens,
+          finishReason: 'timed_out',
+          toolCalls: [],
+        };
+        await this.persistTurn(agent.id, agent.task_description, result);
+        return result;
+      }
+
       executionLogger.error({ error }, 'Streaming agent execution failed');
       throw this.handleError(error);
+    } finally {
+      deadline.clear();
+    }
+  }
+
+  /**
+   * Append text to the final user message without mutating the history
+   * The model sees the text as part of its next turn, after any tool results.
+   */
+  private appendToLastUserMessage(messages: ModelMessage[], text: string): ModelMessage[] {
+    const last = messages.at(-1);
+    if (!last || last.role !== 'user') {
+      return [...messages, { role: 'user', content: text }];
+    }
+
+    const blocks: ModelContentBlock[] =
+      typeof last.content === 'string'
+        ? [{ type: 'text', text: last.content }]
+        : [...last.content];
+    blocks.push({ type: 'text', text });
+
+    return [...messages.slice(0, -1), { role: 'user', content: blocks }];
+  }
+
+  /**
+   * Persist both sides of a completed turn
+   */
+  private async persistTurn(
+    agentId: string,
+    userContent: string,
+    result: AgentExecutionResult
+  ): Promise<void> {
+    if (!this.conversationRepo) {
+      return;
+    }
+
+    await this.conversationRepo.append(createUserMessage(agentId, userContent));
+    await this.conversationRepo.append(
+      createAssistantMessage(agentId, result.content, {
+        tokens: result.tokensUsed,
+        model: this.getModelName(),
+        finish_reason: result.finishReason,
+        provider: this.provider.name,
+        ...(result.toolCalls.length > 0
+          ? {
+              tool_calls: result.toolCalls.map(call => ({
+                name: call.name,
+                input: call.input,
+                is_error: call.isError,
+              })),
+            }
+          : {}),
+      })
+    );
+  }
+
+  /**
+   * Log completion with budget statistics when tracking is enabled
+   */
+  private logCompletion(executionLogger: PinoLogger, tokensUsed: number, message: string): void {
+    if (this.budgetTracker) {
+      executionLogger.info({ tokensUsed, budgetStats: this.budgetTracker.getStats() }, message);
+    } else {
+      executionLogger.info({ tokensUsed }, `${message} (no budget tracking)`);
+    }
+  }
+
+  /**
+   * Convert stored messages to model messages.
+   * System messages (e.g. interventions) are delivered as labelled user turns.
+   */
+  private static toModelHistory(messages: Array<Pick<Message, 'role' | 'content'>>): ModelMessage[] {
+    return messages.map(message =>
+      message.role === 'system'
+        ? { role: 'user', content: `[System message]\n${message.content}` }
+        : { role: message.role, content: message.content }
+    );
+  }
+
+  /**
+   * Merge consecutive messages with the same role so the history alternates
+   * user/assistant as the Messages API requires.
+   */
+  private static mergeConsecutiveRoles(messages: ModelMessage[]): ModelMessage[] {
+    const merged: ModelMessage[] = [];
+    for (const message of messages) {
+      const last = merged[merged.length - 1];
+      if (last && last.role === message.role) {
+        last.content = `${messageText(last.content)}\n\n${messageText(message.content)}`;
+      } else {
+        merged.push({ ...message });
+      }
+    }
+    return merged;
+  }
+
+  /**
+   * Check the estimated cost of a request against the tracked budget
+   *
+   * @throws Error if the estimate exceeds the remaining budget
+   */
+  private checkBudget(systemPrompt: string, messages: ModelMessage[]): void {
+    const estimatedTokens =
+      TokenCounter.estimateTokens(systemPrompt) +
+      TokenCounter.estimateMessageTokens(messages) +
+      1000; // Buffer for response
+
+    if (this.budgetTracker && !this.budgetTracker.hasAvailable(estimatedTokens)) {
+      throw new Error(
+        `Insufficient budget for execution. Estimated: ${estimatedTokens} tokens, Available: ${this.budgetTracker.getRemaining()}`
+      );
     }
   }
 
   /**
    * Build system prompt with role-specific instructions
    */
-  private buildSystemPrompt(agent: AgentModel): string {
+  private buildSystemPrompt(
+    agent: AgentModel,
+    tools: AgentTool[] = [],
+    outputSchema?: OutputSchema
+  ): string {
+    const delegation =
+      tools.length > 0
+        ? `- Use the available tools (${tools.map(tool => tool.definition.name).join(', ')}) to delegate sub-tasks, coordinate with other agents and check your budget
+- When your task is complete, call report_result with your final result`
+        : '- If you need to spawn sub-agents, clearly indicate this in your response';
+
     return `You are an AI agent with the role: ${agent.role}.
 
 Your task is assigned within a multi-agent orchestration system. You are operating at depth level ${agent.depth_level} in the agent hierarchy.
@@ -306,26 +852,28 @@ ${agent.parent_id ? `You were spawned by a parent agent (ID: ${agent.parent_id})
 Guidelines:
 - Focus on completing your assigned task effectively and efficiently
 - Provide clear, actionable outputs
-- If you need to spawn sub-agents, clearly indicate this in your response
+${delegation}
 - Track your progress and report any blockers or issues
 - Optimize for quality and clarity in your deliverables
 
-Your unique agent ID is: ${agent.id}`;
+Your unique agent ID is: ${agent.id}${outputSchema ? `\n\n${outputSchema.instructions()}` : ''}`;
   }
 
   /**
-   * Extract text content from Anthropic message response
+   * Fail once an agent has used up its attempts at matching the output schema
+   *
+   * @throws Error with the last validation errors when the limit is reached
    */
-  private extractContent(response: Anthropic.Message): string {
-    const textBlocks = response.content.filter(
-      (block): block is Anthropic.TextBlock => block.type === 'text'
-    );
-
-    if (textBlocks.length === 0) {
-      throw new Error('No text content in response');
+  private checkOutputAttempts(
+    outputSchema: OutputSchema,
+    attempts: number,
+    errors: string[]
+  ): void {
+    if (attempts >= outputSchema.maxAttempts) {
+      throw new Error(
+        `Output did not match schema after ${attempts} attempts: ${errors.join('; ')}`
+      );
     }
-
-    return textBlocks.map(block => block.text).join('\n');
   }
 
   /**
@@ -335,6 +883,14 @@ Your unique agent ID is: ${agent.id}`;
     return process.env.ANTHROPIC_MODEL || 'claude-3-5-sonnet-20241022';
   }
 
+  /**
+   * Get the maximum number of model turns in one tool-use loop
+   */
+  private getMaxToolIterations(): number {
+    const maxIterations = process.env.AGENT_MAX_TOOL_ITERATIONS;
+    return maxIterations ? parseInt(maxIterations, 10) : 20;
+  }
+
   /**
    * Get max tokens from environment or use default
    */
@@ -344,20 +900,50 @@ Your unique agent ID is: ${agent.id}`;
   }
 
   /**
-   * Handle and transform errors for better reporting
+   * Classify provider errors (see LLMErrors) and normalize non-Error throws
    */
   private handleError(error: unknown): Error {
-    if (error instanceof Anthropic.APIError) {
-      return new Error(
-        `Anthropic API Error (${error.status}): ${error.message}`
-      );
+    const classified = classifyLLMError(error);
+
+    if (classified instanceof Error) {
+      return classified;
     }
 
-    if (error instanceof Error) {
-      return error;
+    return new Error(`Unknown error: ${String(classified)}`);
+  }
+
+  /**
+   * Log and trace the outcome of a model call attempt
+   */
+  private async traceAttempt(
+    executionLogger: PinoLogger,
+    tracer: AgentTracer | undefined,
+    iteration: number,
+    attempt: RetryAttempt
+  ): Promise<void> {
+    const error = attempt.error instanceof Error ? attempt.error : undefined;
+    const data = {
+      iteration,
+      attempt: attempt.attempt,
+      maxAttempts: attempt.maxAttempts,
+      outcome: attempt.outcome,
+      durationMs: attempt.durationMs,
+      ...(error ? { error: error.message, errorName: error.name } : {}),
+      ...(error instanceof LLMError
+        ? { errorKind: error.kind, status: error.status, retryAfterMs: error.retryAfterMs }
+        : {}),
+      ...(attempt.delayMs !== undefined ? { delayMs: attempt.delayMs } : {}),
+    };
+
+    if (attempt.outcome === 'retrying') {
+      executionLogger.warn(data, 'Model call failed, retrying');
     }
 
-    return new Error(`Unknown error: ${String(error)}`);
+    await tracer?.logEvent({
+      eventType: 'llm_attempt',
+      message: `Model call attempt ${attempt.attempt}/${attempt.maxAttempts} ${attempt.outcome}`,
+      data,
+    });
   }
 
   /**
@@ -0,0 +1,248 @@
+import { z } from 'zod';
+import type { Agent } from './Agent.js';
+import type { ModelToolDefinition } from './ModelProvider.js';
+import { BudgetService } from '../services/BudgetService.js';
+import { SharedQueue } from '../infrastructure/SharedQueue.js';
+
+/**
+ * Agent Tools
+ *
+ * Built-in tools offered to the model during AgentCore's tool-use loop. They
+ * let a running agent act on the orchestration system instead of only
+ * describing what it would do:
+ *
+ * - spawn_subordinate - delegate a sub-task to a child agent (Agent.spawnSubordinate)
+ * - send_message - send a message to another agent (SharedQueue)
+ * - read_inbox - receive pending messages addressed to this agent (SharedQueue)
+ * - check_budget - inspect this agent's token budget (BudgetService)
+ * - report_result - report the final result and end the loop
+ *
+ * Depth and budget limits are enforced by the backing services; violations
+ * are returned to the model as tool errors.
+ *
+ * @module core/AgentTools
+ */
+
+/**
+ * Context passed to every tool invocation
+ */
+export interface AgentToolContext {
+  /** ID of the agent calling the tool */
+  agentId: string;
+  /** Aborted when the execution deadline passes; long-running tools should stop */
+  signal?: AbortSignal;
+}
+
+/**
+ * Outcome of a tool invocation
+ */
+export interface AgentToolResult {
+  /** JSON-serializable output returned to the model */
+  output: unknown;
+  /** End the tool-use loop with this result as the agent's final answer */
+  final?: boolean;
+}
+
+/**
+ * Tool available to an agent during execution
+ */
+export interface AgentTool {
+  definition: ModelToolDefinition;
+
+  /**
+   * Run the tool
+   *
+   * @param input - Tool input as produced by the model (validated by the tool)
+   * @param context - Calling agent context
+   * @returns Tool result
+   * @throws Error if input is invalid or the operation fails (reported to the model)
+   */
+  execute(input: Record<string, unknown>, context: AgentToolContext): Promise<AgentToolResult>;
+}
+
+/**
+ * Services backing the orchestration tools
+ */
+export interface OrchestrationToolDependencies {
+  budgetService?: BudgetService;
+  queue?: SharedQueue;
+}
+
+const SpawnSubordinateInputSchema = z.object({
+  role: z.string().min(1),
+  task_description: z.string().min(1),
+  budget: z.number().int().positive(),
+});
+
+const SendMessageInputSchema = z.object({
+  to: z.string().uuid(),
+  message: z.string().min(1),
+  priority: z.number().int().min(0).max(10).default(0),
+  thread_id: z.string().uuid().optional(),
+});
+
+const ReadInboxInputSchema = z.object({
+  limit: z.number().int().min(1).max(50).default(10),
+});
+
+const ReportResultInputSchema = z.object({
+  result: z.string().min(1),
+  data: z.record(z.unknown()).optional(),
+});
+
+let defaultQueue: SharedQueue | null = null;
+
+/**
+ * Process-wide queue used when no queue is injected
+ * (avoids starting a cleanup scheduler per agent)
+ */
+function getDefaultQueue(): SharedQueue {
+  if (!defaultQueue) {
+    defaultQueue = new SharedQueue();
+  }
+  return defaultQueue;
+}
+
+/**
+ * Create the built-in orchestration tools for an agent
+ *
+ * @param agent - Agent the tools act on behalf of (must be spawned)
+ * @param deps - Optional service overrides
+ * @returns Tools to pass to AgentCore.execute()
+ */
+export function createOrchestrationTools(
+  agent: Pick<Agent, 'spawnSubordinate'>,
+  deps: OrchestrationToolDependencies = {}
+): AgentTool[] {
+  const budgetService = deps.budgetService ?? new BudgetService();
+  const queue = (): SharedQueue => deps.queue ?? getDefaultQueue();
+
+  return [
+    {
+      definition: {
+        name: 'spawn_subordinate',
+        description:
+          'Spawn a child agent to work on a sub-task. The budget is taken from your own budget. ' +
+          'Returns the child agent ID.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            role: { type: 'string', description: 'Role of the child agent (e.g. researcher, implementer)' },
+            task_description: { type: 'string', description: 'Self-contained task for the child agent' },
+            budget: { type: 'integer', description: 'Token budget to allocate to the child' },
+          },
+          required: ['role', 'task_description', 'budget'],
+        },
+      },
+      async execute(input): Promise<AgentToolResult> {
+        const { role, task_description, budget } = SpawnSubordinateInputSchema.parse(input);
+        const agentId = await agent.spawnSubordinate(role, task_description, budget);
+        return { output: { agent_id: agentId, role, budget } };
+      },
+    },
+    {
+      definition: {
+        name: 'send_message',
+        description: 'Send a message to another agent (parent, child or sibling) by agent ID.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            to: { type: 'string', description: 'Recipient agent ID' },
+            message: { type: 'string', description: 'Message text' },
+            priority: { type: 'integer', description: 'Priority 0-10, higher is more urgent (default 0)' },
+            thread_id: { type: 'string', description: 'Optional thread ID to group related messages' },
+          },
+          required: ['to', 'message'],
+        },
+      },
+      async execute(input, context): Promise<AgentToolResult> {
+        const { to, message, priority, thread_id } = SendMessageInputSchema.parse(input);
+        const sent = await queue().send(
+          context.agentId,
+          to,
+          { type: 'message', content: message },
+          priority,
+          thread_id
+        );
+        return { output: { message_id: sent.id, to } };
+      },
+    },
+    {
+      definition: {
+        name: 'read_inbox',
+        description: 'Read pending messages sent to you, highest priority first. Messages are marked delivered.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            limit: { type: 'integer', description: 'Maximum number of messages (default 10)' },
+          },
+        },
+      },
+      async execute(input, context): Promise<AgentToolResult> {
+        const { limit } = ReadInboxInputSchema.parse(input);
+        const messages = await queue().receive(context.agentId, limit);
+
+        for (const message of messages) {
+          await queue().markDelivered(message.id);
+        }
+
+        return {
+          output: {
+            messages: messages.map(message => ({
+              id: message.id,
+              from: message.sender_id,
+              payload: message.payload,
+              priority: message.priority,
+              thread_id: message.thread_id,
+              sent_at: message.created_at,
+            })),
+          },
+        };
+      },
+    },
+    {
+      definition: {
+        name: 'check_budget',
+        description: 'Check your token budget: allocated, used, reserved for children and remaining.',
+        inputSchema: { type: 'object', properties: {} },
+      },
+      async execute(_input, context): Promise<AgentToolResult> {
+        const budget = await budgetService.getBudget(context.agentId);
+        if (!budget) {
+          return { output: { tracked: false } };
+        }
+
+        const remaining = budget.allocated - budget.used - budget.reserved;
+        return {
+          output: {
+            tracked: true,
+            allocated: budget.allocated,
+            used: budget.used,
+            reserved: budget.reserved,
+            remaining,
+          },
+        };
+      },
+    },
+    {
+      definition: {
+        name: 'report_result',
+        description:
+          'Report the final result of your task. Call this once when you are done; ' +
+          'no further turns are taken afterwards.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            result: { type: 'string', description: 'Final result or summary of your work' },
+            data: { type: 'object', description: 'Optional structured result data' },
+          },
+          required: ['result'],
+        },
+      },
+      execute(input): Promise<AgentToolResult> {
+        const { result, data } = ReportResultInputSchema.parse(input);
+        return Promise.resolve({ output: { result, data: data ?? null }, final: true });
+      },
+    },
+  ];
+}
@@ -0,0 +1,101 @@
+import Anthropic from '@anthropic-ai/sdk';
+import {
+  toModelStopReason,
+  type ModelProvider,
+  type ModelRequest,
+  type ModelResponse,
+  type ModelStreamEvent,
+  type ModelToolDefinition,
+} from './ModelProvider.js';
+
+/**
+ * Map a provider-neutral tool definition to the Anthropic tool format
+ */
+function toAnthropicTool(tool: ModelToolDefinition): Anthropic.Tool {
+  return {
+    name: tool.name,
+    description: tool.description,
+    input_schema: tool.inputSchema,
+  };
+}
+
+/**
+ * AnthropicModelProvider - ModelProvider backed by the Anthropic Messages API
+ *
+ * API errors (Anthropic.APIError) are propagated unchanged so callers can
+ * inspect status codes and headers. The SDK's built-in retries are disabled;
+ * AgentCore classifies and retries errors itself (see RetryPolicy).
+ */
+export class AnthropicModelProvider implements ModelProvider {
+  readonly name = 'anthropic';
+  private client: Anthropic;
+
+  /**
+   * @param apiKey - Anthropic API key (defaults to ANTHROPIC_API_KEY)
+   */
+  constructor(apiKey?: string) {
+    this.client = new Anthropic({
+      apiKey: apiKey || process.env.ANTHROPIC_API_KEY,
+      // AgentCore retries through RetryPolicy, which also traces each attempt
+      maxRetries: 0,
+    });
+  }
+
+  async complete(request: ModelRequest): Promise<ModelResponse> {
+    const response = await this.client.messages.create({
+      model: request.model,
+      max_tokens: request.maxTokens,
+      system: request.system,
+      messages: request.messages,
+      ...(request.tools?.length ? { tools: request.tools.map(toAnthropicTool) } : {}),
+    }, { signal: request.signal });
+
+    const textBlocks = response.content.filter(
+      (block): block is Anthropic.TextBlock => block.type === 'text'
+    );
+    const toolUseBlocks = response.content.filter(
+      (block): block is Anthropic.ToolUseBlock => block.type === 'tool_use'
+    );
+
+    return {
+      content: textBlocks.map(block => block.text).join('\n'),
+      toolCalls: toolUseBlocks.map(block => ({
+        id: block.id,
+        name: block.name,
+        input: (block.input ?? {}) as Record<string, unknown>,
+      })),
+      usage: {
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+      },
+      stopReason: toModelStopReason(response.stop_reason),
+    };
+  }
+
+  async *stream(request: ModelRequest): AsyncIterable<ModelStreamEvent> {
+    const stream = await this.client.messages.create({
+      model: request.model,
+      max_tokens: request.maxTokens,
+      system: request.system,
+      messages: request.messages,
+      ...(request.tools?.length ? { tools: request.tools.map(toAnthropicTool) } : {}),
+      stream: true,
+    }, { signal: request.signal });
+
+    for await (const event of stream) {
+      if (event.type === 'message_start') {
+        yield { type: 'message_start', inputTokens: event.message.usage.input_tokens };
+      } else if (event.type === 'content_block_delta') {
+        if (event.delta.type === 'text_delta') {
+          yield { type: 'text_delta', text: event.delta.text };
+        }
+      } else if (event.type === 'message_delta') {
+        yield {
+          type: 'message_stop',
+          outputTokens: event.usage.output_tokens,
+          stopReason: toModelStopReason(event.delta.stop_reason),
+        };
+      }
+    }
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Comparison operators of a condition expression
+ */
+export type ConditionOperator = '==' | '!=' | '>' | '>=' | '<' | '<=';
+
+type Literal = string | number | boolean | null;
+
+const TOKEN = /^\s*(?:'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)"|(==|!=|>=|<=|>|<))\s*/;
+const PATH = /^\s*([A-Za-z0-9_-]+(?:\.[A-Za-z0-9_-]+)*)\s*/;
+const NUMBER = /^\s*(-?\d+(?:\.\d+)?)\s*/;
+
+/**
+ * ConditionExpression - Predicate of a conditional workflow edge
+ *
+ * Evaluated against the result of the edge's upstream node:
+ *
+ *   reviewer.verdict == 'changes_requested'
+ *   tests.passed == false
+ *   analysis.score >= 0.8
+ *   reviewer.summary
+ *
+ * The first path segment names the upstream node (its template node ID or
+ * role, for readability); the remaining segments are looked up in its result.
+ * A path without a comparison holds when the value is truthy. Literals are
+ * quoted strings, numbers, true, false and null; == and != compare without
+ * type coercion (a missing value equals null), and ordering operators only
+ * hold for two numbers or two strings.
+ */
+export class ConditionExpression {
+  readonly path: string[];
+  readonly operator: ConditionOperator | null;
+  readonly value: Literal;
+
+  /**
+   * @param expression - Expression source
+   * @throws Error if the expression cannot be parsed
+   */
+  constructor(readonly expression: string) {
+    let rest = expression;
+
+    const path = PATH.exec(rest);
+    if (!path) {
+      throw new Error(`Invalid condition "${expression}": expected a result path`);
+    }
+    this.path = path[1].split('.').slice(1);
+    rest = rest.slice(path[0].length);
+
+    if (rest.length === 0) {
+      this.operator = null;
+      this.value = true;
+      return;
+    }
+
+    const operator = TOKEN.exec(rest);
+    if (!operator?.[3]) {
+      throw new Error(`Invalid condition "${expression}": expected a comparison operator`);
+    }
+    this.operator = operator[3] as ConditionOperator;
+    rest = rest.slice(operator[0].length);
+
+    const [value, length] = ConditionExpression.parseLiteral(rest, expression);
+    this.value = value;
+    if (rest.slice(length).trim().length > 0) {
+      throw new Error(
+        `Invalid condition "${expression}": unexpected "${rest.slice(length).trim()}"`
+      );
+    }
+  }
+
+  /**
+   * Whether the expression holds for an upstream node's result
+   *
+   * @param result - Stored result of the upstream node (WorkflowNode.result)
+   */
+  evaluate(result: Record<string, unknown> | null): boolean {
+    let actual: unknown = result;
+    for (const segment of this.path) {
+      actual =
+        actual !== null && typeof actual === 'object'
+          ? (actual as Record<string, unknown>)[segment]
+          : undefined;
+    }
+    actual ??= null;
+
+    switch (this.operator) {
+      case null:
+        return Boolean(actual);
+      case '==':
+        return actual === this.value;
+      case '!=':
+        return actual !== this.value;
+      default:
+        return ConditionExpression.compare(actual, this.operator, this.value);
+    }
+  }
+
+  /**
+   * Ordering comparison of two numbers or two strings
+   */
+  private static compare(actual: unknown, operator: ConditionOperator, expected: Literal): boolean {
+    const comparable =
+      (typeof actual === 'number' && typeof expected === 'number') ||
+      (typeof actual === 'string' && typeof expected === 'string');
+    if (!comparable) {
+      return false;
+    }
+
+    const [left, right] = [actual, expected] as [number | string, number | string];
+    switch (operator) {
+      case '>':
+        return left > right;
+      case '>=':
+        return left >= right;
+      case '<':
+        return left < right;
+      default:
+        return left <= right;
+    }
+  }
+
+  /**
+   * Parse the literal at the start of the input
+   *
+   * @returns The literal and the number of characters it spans
+   */
+  private static parseLiteral(input: string, expression: string): [Literal, number] {
+    const quoted = TOKEN.exec(input);
+    if (quoted && (quoted[1] !== undefined || quoted[2] !== undefined)) {
+      const raw = quoted[1] ?? quoted[2];
+      return [raw.replace(/\\(.)/g, '$1'), quoted[0].length];
+    }
+
+    const number = NUMBER.exec(input);
+    if (number) {
+      return [Number(number[1]), number[0].length];
+    }
+
+    const keyword = /^\s*(true|false|null)\s*/.exec(input);
+    if (keyword) {
+      const values: Record<string, Literal> = { true: true, false: false, null: null };
+      return [values[keyword[1]], keyword[0].length];
+    }
+
+    throw new Error(
+      `Invalid condition "${expression}": expected a string, number, true, false or null`
+    );
+  }
+}
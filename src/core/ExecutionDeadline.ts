@@ -0,0 +1,135 @@
+import { WorkflowRepository } from '../database/repositories/WorkflowRepository.js';
+import { config } from '../config/env.js';
+
+/**
+ * ExecutionDeadline - Wall-clock limit for one agent execution
+ *
+ * Exposes an AbortSignal that fires when the deadline passes or when an
+ * optional parent signal aborts. `timedOut` tells the two apart, so callers
+ * can end in a timed_out outcome (keeping partial output) instead of failing.
+ *
+ * The clock can be suspended while the agent is paused by an operator.
+ *
+ * Always call clear() when the execution ends.
+ */
+export class ExecutionDeadline {
+  readonly signal: AbortSignal;
+  private controller = new AbortController();
+  private timer: NodeJS.Timeout | null = null;
+  private expired = false;
+  private startedAt = Date.now();
+  private remainingMs: number;
+  private armedAt = 0;
+  private suspended = false;
+  private onParentAbort?: () => void;
+
+  /**
+   * @param timeoutMs - Deadline in milliseconds from now
+   * @param parentSignal - Optional signal that aborts the execution early
+   */
+  constructor(
+    readonly timeoutMs: number,
+    private parentSignal?: AbortSignal
+  ) {
+    this.signal = this.controller.signal;
+    this.remainingMs = timeoutMs;
+    this.arm();
+
+    if (parentSignal?.aborted) {
+      this.controller.abort(parentSignal.reason);
+    } else if (parentSignal) {
+      this.onParentAbort = (): void => this.controller.abort(parentSignal.reason);
+      parentSignal.addEventListener('abort', this.onParentAbort, { once: true });
+    }
+  }
+
+  /**
+   * True if the execution was aborted because the deadline passed
+   */
+  get timedOut(): boolean {
+    return this.expired;
+  }
+
+  /**
+   * Milliseconds since the deadline was started
+   */
+  elapsedMs(): number {
+    return Date.now() - this.startedAt;
+  }
+
+  /**
+   * Stop the clock (e.g. while paused); resume() restarts it with the time left
+   */
+  suspend(): void {
+    if (this.suspended || this.signal.aborted || !this.timer) {
+      return;
+    }
+    clearTimeout(this.timer);
+    this.timer = null;
+    this.remainingMs = Math.max(this.remainingMs - (Date.now() - this.armedAt), 0);
+    this.suspended = true;
+  }
+
+  /**
+   * Restart a suspended clock
+   */
+  resume(): void {
+    if (!this.suspended) {
+      return;
+    }
+    this.suspended = false;
+    this.arm();
+  }
+
+  /**
+   * Stop the timer and detach from the parent signal
+   */
+  clear(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.suspended = false;
+    if (this.onParentAbort) {
+      this.parentSignal?.removeEventListener('abort', this.onParentAbort);
+    }
+  }
+
+  /**
+   * Start the timer for the remaining time
+   */
+  private arm(): void {
+    this.armedAt = Date.now();
+    this.timer = setTimeout(() => {
+      this.expired = true;
+      this.controller.abort(new Error(`Execution timed out after ${this.timeoutMs}ms`));
+    }, this.remainingMs);
+    this.timer.unref();
+  }
+}
+
+/**
+ * Resolve the execution deadline for an agent
+ *
+ * Precedence: workflow node metadata.timeout_ms, then the role's timeout_ms,
+ * then AGENT_TIMEOUT.
+ *
+ * @param agentId - Agent UUID
+ * @param roleTimeoutMs - Role override (null if the role does not set one)
+ * @param workflowRepo - Workflow repository (for node overrides)
+ * @returns Timeout in milliseconds
+ */
+export async function resolveAgentTimeoutMs(
+  agentId: string,
+  roleTimeoutMs: number | null,
+  workflowRepo: WorkflowRepository = new WorkflowRepository()
+): Promise<number> {
+  const node = await workflowRepo.findNodeByAgentId(agentId);
+  const nodeTimeoutMs: unknown = node?.metadata?.timeout_ms;
+
+  if (typeof nodeTimeoutMs === 'number' && nodeTimeoutMs > 0) {
+    return nodeTimeoutMs;
+  }
+
+  return roleTimeoutMs ?? config.agent.timeout;
+}
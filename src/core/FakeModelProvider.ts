@@ -0,0 +1,198 @@
+import {
+  messageText,
+  type ModelProvider,
+  type ModelRequest,
+  type ModelResponse,
+  type ModelStopReason,
+  type ModelStreamEvent,
+  type ModelToolCall,
+} from './ModelProvider.js';
+
+/**
+ * One scripted model turn
+ */
+export interface FakeModelTurn {
+  /** Full response text */
+  content: string;
+  /** Streaming chunks (defaults to content split on whitespace boundaries) */
+  chunks?: string[];
+  /** Token usage (defaults to ~4 characters per token estimate) */
+  usage?: { inputTokens?: number; outputTokens?: number };
+  /** Tool calls to request (complete() only; ids are generated when omitted) */
+  toolCalls?: Array<{ name: string; input?: Record<string, unknown>; id?: string }>;
+  /** Stop reason (defaults to 'tool_use' with tool calls, otherwise 'end_turn') */
+  stopReason?: ModelStopReason;
+  /** Throw this error instead of responding */
+  error?: Error;
+  /** Artificial latency before responding (ms); cut short if the request is aborted */
+  delayMs?: number;
+}
+
+/**
+ * FakeModelProvider options
+ */
+export interface FakeModelProviderOptions {
+  /**
+   * Produce a turn when the script is exhausted.
+   * Without a fallback, an exhausted script throws.
+   */
+  fallback?: (request: ModelRequest) => FakeModelTurn;
+  /** Restart the script from the beginning once exhausted */
+  loop?: boolean;
+}
+
+/**
+ * FakeModelProvider - Deterministic scripted ModelProvider
+ *
+ * Returns canned turns in order, for both complete() and stream(). Every
+ * request is recorded in `requests` so tests can assert on prompts and history.
+ *
+ * @example
+ * ```typescript
+ * const provider = new FakeModelProvider([
+ *   { content: 'Plan drafted', usage: { inputTokens: 120, outputTokens: 40 } },
+ *   { content: 'Truncated...', stopReason: 'max_tokens' },
+ * ]);
+ * const core = new AgentCore(provider);
+ * ```
+ */
+export class FakeModelProvider implements ModelProvider {
+  readonly name = 'fake';
+  readonly requests: ModelRequest[] = [];
+  private turns: FakeModelTurn[];
+  private position = 0;
+  private toolCallCount = 0;
+
+  constructor(
+    turns: FakeModelTurn[] = [],
+    private options: FakeModelProviderOptions = {}
+  ) {
+    this.turns = [...turns];
+  }
+
+  /**
+   * Append turns to the end of the script
+   */
+  enqueue(...turns: FakeModelTurn[]): void {
+    this.turns.push(...turns);
+  }
+
+  /**
+   * Number of scripted turns not yet consumed
+   */
+  remaining(): number {
+    return this.turns.length - this.position;
+  }
+
+  /**
+   * Rewind the script and clear recorded requests
+   */
+  reset(): void {
+    this.position = 0;
+    this.requests.length = 0;
+  }
+
+  async complete(request: ModelRequest): Promise<ModelResponse> {
+    const turn = await this.nextTurn(request);
+    const toolCalls: ModelToolCall[] = (turn.toolCalls ?? []).map(call => ({
+      id: call.id ?? `toolu_fake_${++this.toolCallCount}`,
+      name: call.name,
+      input: call.input ?? {},
+    }));
+
+    return {
+      content: turn.content,
+      toolCalls,
+      usage: this.resolveUsage(request, turn),
+      stopReason: turn.stopReason ?? (toolCalls.length > 0 ? 'tool_use' : 'end_turn'),
+    };
+  }
+
+  async *stream(request: ModelRequest): AsyncIterable<ModelStreamEvent> {
+    const turn = await this.nextTurn(request);
+    const usage = this.resolveUsage(request, turn);
+
+    yield { type: 'message_start', inputTokens: usage.inputTokens };
+
+    const chunks = turn.chunks ?? turn.content.match(/\S+\s*|\s+/g) ?? [];
+    for (const text of chunks) {
+      request.signal?.throwIfAborted();
+      yield { type: 'text_delta', text };
+    }
+
+    yield {
+      type: 'message_stop',
+      outputTokens: usage.outputTokens,
+      stopReason: turn.stopReason ?? 'end_turn',
+    };
+  }
+
+  private async nextTurn(request: ModelRequest): Promise<FakeModelTurn> {
+    this.requests.push(request);
+
+    let turn: FakeModelTurn | undefined;
+    if (this.position < this.turns.length) {
+      turn = this.turns[this.position++];
+    } else if (this.options.loop && this.turns.length > 0) {
+      this.position = 1;
+      turn = this.turns[0];
+    } else if (this.options.fallback) {
+      turn = this.options.fallback(request);
+    }
+
+    if (!turn) {
+      throw new Error(
+        `FakeModelProvider script exhausted after ${this.turns.length} turn(s)`
+      );
+    }
+
+    const { delayMs } = turn;
+    if (delayMs) {
+      await FakeModelProvider.delay(delayMs, request.signal);
+    }
+
+    request.signal?.throwIfAborted();
+
+    if (turn.error) {
+      throw turn.error;
+    }
+
+    return turn;
+  }
+
+  /**
+   * Wait for the scripted latency; an aborted request stops waiting early
+   */
+  private static delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      if (signal?.aborted) {
+        resolve();
+        return;
+      }
+
+      const timer = setTimeout(done, ms);
+
+      function done(): void {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', done);
+        resolve();
+      }
+
+      signal?.addEventListener('abort', done, { once: true });
+    });
+  }
+
+  private resolveUsage(
+    request: ModelRequest,
+    turn: FakeModelTurn
+  ): { inputTokens: number; outputTokens: number } {
+    const promptLength =
+      request.system.length +
+      request.messages.reduce((sum, message) => sum + messageText(message.content).length, 0);
+
+    return {
+      inputTokens: turn.usage?.inputTokens ?? Math.ceil(promptLength / 4),
+      outputTokens: turn.usage?.outputTokens ?? Math.ceil(turn.content.length / 4),
+    };
+  }
+}
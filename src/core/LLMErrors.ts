@@ -0,0 +1,181 @@
+import Anthropic from '@anthropic-ai/sdk';
+
+/**
+ * Category of a failed model provider call
+ */
+export type LLMErrorKind =
+  | 'rate_limit'
+  | 'overloaded'
+  | 'timeout'
+  | 'connection'
+  | 'server'
+  | 'invalid_request'
+  | 'authentication';
+
+/**
+ * Details shared by all LLM errors
+ */
+export interface LLMErrorOptions {
+  /** HTTP status, if the provider responded */
+  status?: number;
+  /** Delay requested by the provider (retry-after headers), in ms */
+  retryAfterMs?: number | null;
+  /** Provider request ID, for support tickets */
+  requestId?: string | null;
+  /** Original provider error */
+  cause?: unknown;
+}
+
+/**
+ * LLMError - Base class for classified model provider failures
+ *
+ * `retryable` tells RetryPolicy whether the same request may succeed later;
+ * invalid requests and authentication failures never do.
+ */
+export abstract class LLMError extends Error {
+  abstract readonly kind: LLMErrorKind;
+  abstract readonly retryable: boolean;
+  readonly status: number | undefined;
+  readonly retryAfterMs: number | null;
+  readonly requestId: string | null;
+
+  constructor(message: string, options: LLMErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs ?? null;
+    this.requestId = options.requestId ?? null;
+  }
+}
+
+/**
+ * 429 - too many requests or tokens for the account's rate limit
+ */
+export class RateLimitError extends LLMError {
+  readonly kind = 'rate_limit';
+  readonly retryable = true;
+}
+
+/**
+ * 529 - the provider is temporarily overloaded
+ */
+export class OverloadedError extends LLMError {
+  readonly kind = 'overloaded';
+  readonly retryable = true;
+}
+
+/**
+ * 408 or a client-side request timeout
+ */
+export class LLMTimeoutError extends LLMError {
+  readonly kind = 'timeout';
+  readonly retryable = true;
+}
+
+/**
+ * Network failure before a response was received
+ */
+export class LLMConnectionError extends LLMError {
+  readonly kind = 'connection';
+  readonly retryable = true;
+}
+
+/**
+ * 5xx other than overload (and 409 conflicts, which the provider asks to retry)
+ */
+export class LLMServerError extends LLMError {
+  readonly kind = 'server';
+  readonly retryable = true;
+}
+
+/**
+ * 400, 404, 413, 422 - the request itself is wrong and will fail again
+ */
+export class InvalidRequestError extends LLMError {
+  readonly kind = 'invalid_request';
+  readonly retryable = false;
+}
+
+/**
+ * 401, 403 - missing or insufficient credentials
+ */
+export class LLMAuthenticationError extends LLMError {
+  readonly kind = 'authentication';
+  readonly retryable = false;
+}
+
+/**
+ * Parse retry-after-ms / retry-after (seconds or HTTP date) headers
+ *
+ * @param headers - Response headers (lowercase names, as exposed by Anthropic.APIError)
+ * @param now - Current time (for HTTP dates)
+ * @returns Requested delay in ms, or null if absent or unparsable
+ */
+export function parseRetryAfter(
+  headers: Record<string, string | null | undefined> | undefined,
+  now: number = Date.now()
+): number | null {
+  const retryAfterMs = headers?.['retry-after-ms'];
+  if (retryAfterMs && Number.isFinite(Number(retryAfterMs))) {
+    return Math.max(0, Number(retryAfterMs));
+  }
+
+  const retryAfter = headers?.['retry-after'];
+  if (!retryAfter) {
+    return null;
+  }
+  if (Number.isFinite(Number(retryAfter))) {
+    return Math.max(0, Number(retryAfter) * 1000);
+  }
+
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Classify a model provider error
+ *
+ * Anthropic API errors become typed LLMErrors; anything else (aborts,
+ * tool and validation errors, scripted test errors) is returned unchanged.
+ *
+ * @param error - Error thrown by a provider call
+ * @returns Classified error
+ */
+export function classifyLLMError(error: unknown): unknown {
+  if (!(error instanceof Anthropic.APIError) || error instanceof Anthropic.APIUserAbortError) {
+    return error;
+  }
+
+  const options: LLMErrorOptions = {
+    status: error.status,
+    retryAfterMs: parseRetryAfter(error.headers),
+    requestId: error.request_id,
+    cause: error,
+  };
+  const message = `Anthropic API Error (${error.status ?? 'no status'}): ${error.message}`;
+
+  if (error instanceof Anthropic.APIConnectionTimeoutError) {
+    return new LLMTimeoutError(message, options);
+  }
+  if (error instanceof Anthropic.APIConnectionError) {
+    return new LLMConnectionError(message, options);
+  }
+
+  switch (error.status) {
+    case 429:
+      return new RateLimitError(message, options);
+    case 529:
+      return new OverloadedError(message, options);
+    case 408:
+      return new LLMTimeoutError(message, options);
+    case 401:
+    case 403:
+      return new LLMAuthenticationError(message, options);
+    case 409:
+      return new LLMServerError(message, options);
+    default:
+      return error.status !== undefined && error.status >= 500
+        ? new LLMServerError(message, options)
+        : new InvalidRequestError(message, options);
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Model Provider Abstraction
+ *
+ * AgentCore, Agent and InteractiveCLI talk to LLMs exclusively through the
+ * ModelProvider interface. This keeps the orchestration layer independent of a
+ * specific vendor SDK and lets tests and demos swap in a scripted provider.
+ *
+ * Implementations:
+ * - AnthropicModelProvider - Anthropic Messages API (production)
+ * - FakeModelProvider - deterministic, scripted responses (tests, offline demos)
+ *
+ * @module core/ModelProvider
+ */
+
+/**
+ * Structured message content (text, tool calls and tool results)
+ */
+export type ModelContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+  | { type: 'tool_result'; tool_use_id: string; content: string; is_error?: boolean };
+
+/**
+ * Chat message sent to the model
+ */
+export interface ModelMessage {
+  role: 'user' | 'assistant';
+  content: string | ModelContentBlock[];
+}
+
+/**
+ * Tool the model may call
+ */
+export interface ModelToolDefinition {
+  name: string;
+  description: string;
+  /** JSON schema for the tool input (must be an object schema) */
+  inputSchema: { type: 'object'; properties?: Record<string, unknown>; required?: string[] };
+}
+
+/**
+ * Tool call requested by the model
+ */
+export interface ModelToolCall {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+/**
+ * Token usage reported by the provider
+ */
+export interface ModelUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Why the model stopped generating.
+ * Mirrors the Anthropic stop reasons; providers map their own values onto these.
+ */
+export type ModelStopReason = 'end_turn' | 'max_tokens' | 'stop_sequence' | 'tool_use' | 'unknown';
+
+/**
+ * Single completion request
+ */
+export interface ModelRequest {
+  model: string;
+  maxTokens: number;
+  system: string;
+  messages: ModelMessage[];
+  /** Tools offered to the model (omit for plain completions) */
+  tools?: ModelToolDefinition[];
+  /** Aborts the request (execution deadline or cancellation) */
+  signal?: AbortSignal;
+}
+
+/**
+ * Completed (non-streaming) model response
+ */
+export interface ModelResponse {
+  /** Concatenated text blocks */
+  content: string;
+  /** Tool calls requested by the model (empty unless stopReason is 'tool_use') */
+  toolCalls: ModelToolCall[];
+  usage: ModelUsage;
+  stopReason: ModelStopReason;
+}
+
+/**
+ * Events emitted while streaming a completion
+ *
+ * - message_start: carries input token usage
+ * - text_delta: incremental text chunk
+ * - message_stop: carries output token usage and stop reason
+ */
+export type ModelStreamEvent =
+  | { type: 'message_start'; inputTokens: number }
+  | { type: 'text_delta'; text: string }
+  | { type: 'message_stop'; outputTokens: number; stopReason: ModelStopReason };
+
+/**
+ * Provider contract used by AgentCore
+ */
+export interface ModelProvider {
+  /** Short provider identifier used in logs (e.g. 'anthropic', 'fake') */
+  readonly name: string;
+
+  /**
+   * Generate a complete response
+   *
+   * @param request - Completion request
+   * @returns Response text, usage and stop reason
+   */
+  complete(request: ModelRequest): Promise<ModelResponse>;
+
+  /**
+   * Generate a response as a stream of events
+   *
+   * @param request - Completion request
+   * @returns Async iterable of stream events
+   */
+  stream(request: ModelRequest): AsyncIterable<ModelStreamEvent>;
+}
+
+/**
+ * Flatten message content to plain text (tool blocks are summarized)
+ */
+export function messageText(content: ModelMessage['content']): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+
+  return content
+    .map(block => {
+      switch (block.type) {
+        case 'text':
+          return block.text;
+        case 'tool_use':
+          return JSON.stringify({ tool: block.name, input: block.input });
+        case 'tool_result':
+          return block.content;
+      }
+    })
+    .join('\n');
+}
+
+/**
+ * Normalize a provider-specific stop reason
+ */
+export function toModelStopReason(reason: string | null | undefined): ModelStopReason {
+  switch (reason) {
+    case 'end_turn':
+    case 'max_tokens':
+    case 'stop_sequence':
+    case 'tool_use':
+      return reason;
+    default:
+      return 'unknown';
+  }
+}
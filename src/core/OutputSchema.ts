@@ -0,0 +1,223 @@
+import { z } from 'zod';
+import { WorkflowRepository } from '../database/repositories/WorkflowRepository.js';
+import { config } from '../config/env.js';
+
+/**
+ * Result of validating an agent's output against its schema
+ */
+export type OutputValidation =
+  | { success: true; data: Record<string, unknown> }
+  | { success: false; errors: string[] };
+
+/**
+ * OutputSchema - JSON schema an agent's final output must satisfy
+ *
+ * Declared by a role (agent_roles.output_schema) or a workflow node
+ * (metadata.output_schema). The schema is compiled to zod; the supported
+ * subset is type (incl. type arrays), properties, required,
+ * additionalProperties: false, items, enum, const, anyOf/oneOf and the
+ * common string/number/array bounds. The root must be an object schema so
+ * that the validated output can be stored as a workflow node result.
+ *
+ * Executors ask for output matching the schema, validate the answer and
+ * re-prompt with the validation errors up to `maxAttempts` times.
+ */
+export class OutputSchema {
+  private validator: z.ZodTypeAny;
+
+  /**
+   * @param jsonSchema - JSON schema with an object root
+   * @param maxAttempts - Answers accepted before giving up (defaults to AGENT_OUTPUT_ATTEMPTS)
+   * @throws Error if the root is not an object schema or uses an unsupported type
+   */
+  constructor(
+    readonly jsonSchema: Record<string, unknown>,
+    readonly maxAttempts: number = config.agent.outputAttempts
+  ) {
+    if (jsonSchema.type !== 'object') {
+      throw new Error('Output schema must describe an object (type: "object")');
+    }
+    this.validator = OutputSchema.compile(jsonSchema);
+  }
+
+  /**
+   * Instructions appended to the agent's system prompt
+   */
+  instructions(): string {
+    return `Your final answer must be a single JSON object matching this JSON schema:
+${JSON.stringify(this.jsonSchema, null, 2)}
+Respond with the JSON object only (optionally in a \`\`\`json block), or pass it as the data of report_result.`;
+  }
+
+  /**
+   * Validate a structured value
+   *
+   * @param value - Candidate output
+   * @returns The validated object, or the validation errors
+   */
+  validate(value: unknown): OutputValidation {
+    const parsed = this.validator.safeParse(value);
+    if (!parsed.success) {
+      return {
+        success: false,
+        errors: parsed.error.issues.map(
+          (issue) => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`
+        ),
+      };
+    }
+    return { success: true, data: parsed.data as Record<string, unknown> };
+  }
+
+  /**
+   * Extract the JSON object from a text answer and validate it
+   *
+   * @param text - Model output (raw JSON or a ```json block)
+   * @returns The validated object, or the parse/validation errors
+   */
+  validateText(text: string): OutputValidation {
+    let value: unknown;
+    try {
+      value = OutputSchema.extractJson(text);
+    } catch (error) {
+      return {
+        success: false,
+        errors: [`(root): ${error instanceof Error ? error.message : String(error)}`],
+      };
+    }
+    return this.validate(value);
+  }
+
+  /**
+   * Message asking the agent to correct a mismatching answer
+   *
+   * @param errors - Validation errors of the previous answer
+   */
+  correctionPrompt(errors: string[]): string {
+    return `Your answer did not match the required output schema:
+${errors.map((error) => `- ${error}`).join('\n')}
+Reply again with a corrected JSON object that matches the schema.`;
+  }
+
+  /**
+   * Parse the JSON object out of a text answer
+   */
+  private static extractJson(text: string): unknown {
+    const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(text);
+    if (fenced) {
+      return JSON.parse(fenced[1]);
+    }
+
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start === -1 || end < start) {
+      throw new Error('Answer does not contain a JSON object');
+    }
+    return JSON.parse(text.slice(start, end + 1));
+  }
+
+  /**
+   * Compile a JSON schema (supported subset) to zod
+   */
+  private static compile(schema: Record<string, unknown>): z.ZodTypeAny {
+    if ('const' in schema) {
+      return z.literal(schema.const as z.Primitive);
+    }
+    if (Array.isArray(schema.enum)) {
+      return OutputSchema.union(schema.enum.map((value) => z.literal(value as z.Primitive)));
+    }
+
+    const variants = (schema.anyOf ?? schema.oneOf) as Record<string, unknown>[] | undefined;
+    if (Array.isArray(variants)) {
+      return OutputSchema.union(variants.map((variant) => OutputSchema.compile(variant)));
+    }
+
+    if (Array.isArray(schema.type)) {
+      return OutputSchema.union(
+        (schema.type as unknown[]).map((type) => OutputSchema.compile({ ...schema, type }))
+      );
+    }
+
+    switch (schema.type) {
+      case 'object': {
+        const properties = (schema.properties ?? {}) as Record<string, Record<string, unknown>>;
+        const required = new Set((schema.required ?? []) as string[]);
+        const shape: Record<string, z.ZodTypeAny> = {};
+        for (const [name, property] of Object.entries(properties)) {
+          const field = OutputSchema.compile(property);
+          shape[name] = required.has(name) ? field : field.optional();
+        }
+        const object = z.object(shape);
+        return schema.additionalProperties === false ? object.strict() : object.passthrough();
+      }
+      case 'array': {
+        let array = z.array(
+          schema.items ? OutputSchema.compile(schema.items as Record<string, unknown>) : z.unknown()
+        );
+        if (typeof schema.minItems === 'number') array = array.min(schema.minItems);
+        if (typeof schema.maxItems === 'number') array = array.max(schema.maxItems);
+        return array;
+      }
+      case 'string': {
+        let string = z.string();
+        if (typeof schema.minLength === 'number') string = string.min(schema.minLength);
+        if (typeof schema.maxLength === 'number') string = string.max(schema.maxLength);
+        if (typeof schema.pattern === 'string') string = string.regex(new RegExp(schema.pattern));
+        return string;
+      }
+      case 'number':
+      case 'integer': {
+        let number = schema.type === 'integer' ? z.number().int() : z.number();
+        if (typeof schema.minimum === 'number') number = number.min(schema.minimum);
+        if (typeof schema.maximum === 'number') number = number.max(schema.maximum);
+        return number;
+      }
+      case 'boolean':
+        return z.boolean();
+      case 'null':
+        return z.null();
+      case undefined:
+        return z.unknown();
+      default:
+        throw new Error(`Unsupported output schema type: ${String(schema.type)}`);
+    }
+  }
+
+  /**
+   * Union of compiled variants (a single variant is returned as is)
+   */
+  private static union(variants: z.ZodTypeAny[]): z.ZodTypeAny {
+    if (variants.length === 0) {
+      return z.never();
+    }
+    if (variants.length === 1) {
+      return variants[0];
+    }
+    return z.union(variants as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+  }
+}
+
+/**
+ * Resolve the output schema for an agent
+ *
+ * Precedence: workflow node metadata.output_schema, then the role's output_schema.
+ *
+ * @param agentId - Agent UUID
+ * @param roleSchema - Role's output schema (null if the role does not declare one)
+ * @param workflowRepo - Workflow repository (for node overrides)
+ * @returns Output schema, or null if the agent's output is free-form
+ * @throws Error if the declared schema is invalid
+ */
+export async function resolveOutputSchema(
+  agentId: string,
+  roleSchema: Record<string, unknown> | null,
+  workflowRepo: WorkflowRepository = new WorkflowRepository()
+): Promise<OutputSchema | null> {
+  const node = await workflowRepo.findNodeByAgentId(agentId);
+  const nodeSchema: unknown = node?.metadata?.output_schema;
+
+  if (nodeSchema && typeof nodeSchema === 'object' && !Array.isArray(nodeSchema)) {
+    return new OutputSchema(nodeSchema as Record<string, unknown>);
+  }
+
+  return roleSchema ? new OutputSchema(roleSchema) : null;
+}
@@ -0,0 +1,175 @@
+import { config } from '../config/env.js';
+import { LLMError, classifyLLMError } from './LLMErrors.js';
+
+/**
+ * Retry policy settings
+ */
+export interface RetryPolicyOptions {
+  /** Total attempts including the first call (1 disables retries) */
+  maxAttempts?: number;
+  /** Backoff before the first retry (ms); doubled for each further retry */
+  baseDelayMs?: number;
+  /** Upper bound for computed backoff (ms) */
+  maxDelayMs?: number;
+  /** Fraction of the backoff that is randomized (0 = none, 1 = full jitter) */
+  jitter?: number;
+  /** Random source in [0, 1) (injectable for deterministic tests) */
+  random?: () => number;
+}
+
+/**
+ * Outcome of a single attempt, reported to RetryOptions.onAttempt
+ */
+export interface RetryAttempt {
+  attempt: number;
+  maxAttempts: number;
+  outcome: 'succeeded' | 'retrying' | 'failed';
+  durationMs: number;
+  /** Classified error (retrying/failed) */
+  error?: unknown;
+  /** Wait before the next attempt (retrying only) */
+  delayMs?: number;
+}
+
+/**
+ * Per-call retry options
+ */
+export interface RetryOptions {
+  /** Cancels the backoff wait (execution deadline or cancellation) */
+  signal?: AbortSignal;
+  /** Called after every attempt */
+  onAttempt?: (attempt: RetryAttempt) => void | Promise<void>;
+  /** Additional veto, e.g. once a stream has emitted output */
+  canRetry?: (error: unknown) => boolean;
+}
+
+/**
+ * RetryPolicy - Retries model provider calls that failed transiently
+ *
+ * Errors are classified with classifyLLMError. Retryable LLMErrors (rate
+ * limits, overloads, timeouts, connection and server errors) are retried
+ * with exponential backoff and jitter; a retry-after header from the
+ * provider replaces the computed backoff. Other errors are thrown at once.
+ *
+ * Usage:
+ * ```typescript
+ * const policy = new RetryPolicy({ maxAttempts: 3 });
+ * const response = await policy.execute(() => provider.complete(request), { signal });
+ * ```
+ */
+export class RetryPolicy {
+  readonly maxAttempts: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private jitter: number;
+  private random: () => number;
+
+  /**
+   * @param options - Policy settings (defaults from LLM_MAX_ATTEMPTS, LLM_RETRY_*)
+   */
+  constructor(options: RetryPolicyOptions = {}) {
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? config.anthropic.retry.maxAttempts);
+    this.baseDelayMs = options.baseDelayMs ?? config.anthropic.retry.baseDelay;
+    this.maxDelayMs = options.maxDelayMs ?? config.anthropic.retry.maxDelay;
+    this.jitter = Math.min(1, Math.max(0, options.jitter ?? 0.5));
+    this.random = options.random ?? Math.random;
+  }
+
+  /**
+   * Run an operation, retrying transient failures
+   *
+   * @param operation - Call to attempt (receives the 1-based attempt number)
+   * @param options - Cancellation, attempt callback and retry veto
+   * @returns The operation's result
+   * @throws The classified error of the last attempt, or the abort reason if cancelled while waiting
+   */
+  async execute<T>(
+    operation: (attempt: number) => Promise<T>,
+    options: RetryOptions = {}
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      const startedAt = Date.now();
+      try {
+        const result = await operation(attempt);
+        await options.onAttempt?.({
+          attempt,
+          maxAttempts: this.maxAttempts,
+          outcome: 'succeeded',
+          durationMs: Date.now() - startedAt,
+        });
+        return result;
+      } catch (caught) {
+        const error = classifyLLMError(caught);
+        const retry =
+          attempt < this.maxAttempts &&
+          !options.signal?.aborted &&
+          error instanceof LLMError &&
+          error.retryable &&
+          (options.canRetry?.(error) ?? true);
+        const delayMs =
+          retry && error instanceof LLMError ? this.delayFor(attempt, error) : undefined;
+
+        await options.onAttempt?.({
+          attempt,
+          maxAttempts: this.maxAttempts,
+          outcome: retry ? 'retrying' : 'failed',
+          durationMs: Date.now() - startedAt,
+          error,
+          ...(delayMs !== undefined ? { delayMs } : {}),
+        });
+
+        if (delayMs === undefined) {
+          throw error;
+        }
+        await RetryPolicy.sleep(delayMs, options.signal);
+      }
+    }
+  }
+
+  /**
+   * Backoff before the attempt after `attempt`
+   *
+   * @param attempt - Attempt that just failed (1-based)
+   * @param error - Its classified error
+   * @returns Delay in ms (the provider's retry-after if given)
+   */
+  delayFor(attempt: number, error: LLMError): number {
+    if (error.retryAfterMs !== null) {
+      return error.retryAfterMs;
+    }
+
+    const backoff = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(backoff * (1 - this.jitter * this.random()));
+  }
+
+  /**
+   * Wait, rejecting with the abort reason if the signal fires
+   */
+  private static sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(RetryPolicy.abortReason(signal));
+        return;
+      }
+
+      const timer = setTimeout(done, ms);
+
+      function done(): void {
+        signal?.removeEventListener('abort', aborted);
+        resolve();
+      }
+
+      function aborted(): void {
+        clearTimeout(timer);
+        reject(RetryPolicy.abortReason(signal));
+      }
+
+      signal?.addEventListener('abort', aborted, { once: true });
+    });
+  }
+
+  private static abortReason(signal?: AbortSignal): Error {
+    const reason: unknown = signal?.reason;
+    return reason instanceof Error ? reason : new Error('Retry wait aborted');
+  }
+}
@@ -1,7 +1,62 @@
 import { WorkflowRepository } from '../database/repositories/WorkflowRepository.js';
+import { AgentRepository } from '../database/repositories/AgentRepository.js';
 import { AgentService } from '../services/AgentService.js';
+import { InvalidAgentTransitionError } from '../services/AgentStateMachine.js';
+import { eventBus } from '../infrastructure/EventBus.js';
 import { logger } from '../utils/Logger.js';
-import type { WorkflowNode } from '../models/WorkflowNode.js';
+import { AgentPriority } from '../models/Agent.js';
+import type { WorkflowGraphStatusType } from '../models/WorkflowGraph.js';
+import { ConditionExpression } from './ConditionExpression.js';
+import {
+  MapNodeSpecSchema,
+  NodeFailurePolicySchema,
+  WorkflowEdgeConditionSchema,
+  type MapNodeSpec,
+  type NodeFailurePolicy,
+  type WorkflowEdgeCondition,
+  type WorkflowNode,
+  type WorkflowNodeStatusType,
+} from '../models/WorkflowNode.js';
+
+/**
+ * State of an edge for its target node
+ * - active: waiting for the upstream node to finish
+ * - satisfied: the edge lets the target run
+ * - failed: the edge can no longer be satisfied
+ */
+type EdgeState = 'active' | 'satisfied' | 'failed';
+
+/** Node statuses that will not change any more */
+const FINAL_NODE_STATUSES: readonly WorkflowNodeStatusType[] = ['completed', 'failed', 'skipped'];
+
+/** Statuses of map children that take one of the map node's concurrency slots */
+const RUNNING_NODE_STATUSES: readonly WorkflowNodeStatusType[] = ['ready', 'spawning', 'executing'];
+
+/**
+ * Pause/resume settings
+ */
+export interface WorkflowControlOptions {
+  /** Who pauses or resumes the workflow (default 'system') */
+  actor?: string;
+  /** Why the workflow is paused */
+  reason?: string;
+  /** Also pause the agents of executing nodes (pausing only) */
+  pauseAgents?: boolean;
+}
+
+/**
+ * Thrown when a workflow cannot move from its current status to the requested one
+ */
+export class InvalidWorkflowTransitionError extends Error {
+  constructor(
+    readonly graphId: string,
+    readonly from: WorkflowGraphStatusType,
+    readonly to: WorkflowGraphStatusType
+  ) {
+    super(`Invalid state transition for workflow ${graphId}: ${from} → ${to}`);
+    this.name = 'InvalidWorkflowTransitionError';
+  }
+}
 
 /**
  * WorkflowEngine
@@ -12,15 +67,41 @@ import type { WorkflowNode } from '../models/WorkflowNode.js';
  * - Dependency resolution
  * - Node spawning with proper sequencing
  * - Parallel execution of independent nodes
+ * - Conditional edges (branches) and skipping of nodes that cannot run
  * - Workflow progress tracking
+ *
+ * Each dependency of a node is an edge with an activation condition
+ * (WorkflowNode.edge_conditions, default sequential on_success). A node is
+ * spawned once all its edges are satisfied and skipped as soon as one of them
+ * can no longer be, which in turn resolves the edges leaving the skipped node.
+ * A finished workflow fails if a node failed without an on_fail or
+ * on_complete edge handling it, and completes otherwise.
+ *
+ * A failing node first recovers per its failure policy
+ * (metadata.failure_policy): its agent is respawned after a backoff, possibly
+ * with another role or model, then replaced by a fallback agent. Only then
+ * does the node fail; on_failure decides whether the workflow tolerates it
+ * ('continue'), waits for the other branches ('fail') or stops at once
+ * ('fail_fast').
+ *
+ * A paused workflow spawns no nodes (nor retries) and does not finish;
+ * resuming it spawns whatever became ready in the meantime.
+ *
+ * Map nodes (metadata.map, see MapNodeSpecSchema) fan out at run time: they
+ * create a child node per element of an array in an upstream result, spawn
+ * at most max_concurrency of them at a time, and complete with the
+ * children's collected results, which their dependents (reduce/join nodes)
+ * receive like any other dependency output.
  */
 export class WorkflowEngine {
   private workflowRepo: WorkflowRepository;
+  private agentRepo: AgentRepository;
   private agentService: AgentService;
   private engineLogger = logger.child({ component: 'WorkflowEngine' });
 
   constructor() {
     this.workflowRepo = new WorkflowRepository();
+    this.agentRepo = new AgentRepository();
     this.agentService = new AgentService();
   }
 
@@ -30,6 +111,7 @@ export class WorkflowEngine {
    * - Acyclic graph (no circular dependencies)
    * - Valid topological ordering
    * - All dependencies reference existing nodes
+   * - Edge conditions belong to dependencies and their expressions parse
    *
    * @param graphId - Workflow graph UUID
    * @returns Validation result with errors if invalid
@@ -71,9 +153,78 @@ export class WorkflowEngine {
             });
           }
         }
+
+        for (const [depId, edge] of Object.entries(node.edge_conditions ?? {})) {
+          if (!deps.includes(depId)) {
+            errors.push({
+              code: 'INVALID_EDGE_CONDITION',
+              details: `Node ${node.id} has a condition for ${depId}, which is not a dependency`,
+            });
+            continue;
+          }
+
+          const parsed = WorkflowEdgeConditionSchema.safeParse(edge);
+          if (!parsed.success) {
+            errors.push({
+              code: 'INVALID_EDGE_CONDITION',
+              details: `Node ${node.id} edge from ${depId}: ${parsed.error.errors[0].message}`,
+            });
+          } else if (parsed.data.condition_expression) {
+            try {
+              new ConditionExpression(parsed.data.condition_expression);
+            } catch (error) {
+              errors.push({
+                code: 'INVALID_CONDITION_EXPRESSION',
+                details: `Node ${node.id} edge from ${depId}: ${(error as Error).message}`,
+              });
+            }
+          }
+        }
+      }
+
+      // 4. Validate failure policies
+      for (const node of nodes) {
+        const policy = NodeFailurePolicySchema.safeParse(node.metadata?.failure_policy ?? {});
+        if (!policy.success) {
+          const issue = policy.error.errors[0];
+          errors.push({
+            code: 'INVALID_FAILURE_POLICY',
+            details: `Node ${node.id} failure_policy.${issue.path.join('.')}: ${issue.message}`,
+          });
+        }
       }
 
-      // 4. Detect cycles using DFS
+      // 5. Validate map nodes (the array must come from a blocking dependency)
+      for (const node of nodes) {
+        if (node.metadata?.map === undefined) {
+          continue;
+        }
+
+        const spec = MapNodeSpecSchema.safeParse(node.metadata.map);
+        if (!spec.success) {
+          const issue = spec.error.errors[0];
+          errors.push({
+            code: 'INVALID_MAP_NODE',
+            details: `Node ${node.id} map.${issue.path.join('.')}: ${issue.message}`,
+          });
+          continue;
+        }
+
+        const deps = Array.isArray(node.dependencies) ? node.dependencies : [];
+        const source = this.getMapSource(node, spec.data);
+        if (
+          !source ||
+          !deps.includes(source) ||
+          this.getEdgeCondition(node, source).dependency_type === 'parallel'
+        ) {
+          errors.push({
+            code: 'INVALID_MAP_NODE',
+            details: `Node ${node.id} map source must be one of its non-parallel dependencies`,
+          });
+        }
+      }
+
+      // 6. Detect cycles using DFS
       const hasCycle = this.detectCycle(nodes, nodeMap);
       if (hasCycle) {
         errors.push({
@@ -82,7 +233,7 @@ export class WorkflowEngine {
         });
       }
 
-      // 5. Verify topological sort is possible
+      // 7. Verify topological sort is possible
       if (!hasCycle) {
         const sorted = this.topologicalSort(nodes, nodeMap);
         if (!sorted) {
@@ -215,7 +366,8 @@ export class WorkflowEngine {
   }
 
   /**
-   * Execute workflow by spawning ONLY nodes with zero dependencies
+   * Execute workflow by spawning ONLY nodes without blocking dependencies
+   * (no dependencies, or only parallel ones)
    *
    * IMPORTANT: This method only spawns the initial nodes. Subsequent nodes
    * are spawned by processCompletedNode() when their dependencies complete.
@@ -242,10 +394,12 @@ export class WorkflowEngine {
       // 2. Load nodes
       const nodes = await this.workflowRepo.findNodesByGraphId(graphId);
 
-      // 3. Find nodes with ZERO dependencies (starting nodes)
+      // 3. Find nodes that wait for no other node (starting nodes)
       const startingNodes = nodes.filter(node => {
         const deps = Array.isArray(node.dependencies) ? node.dependencies : [];
-        return deps.length === 0;
+        return deps.every(
+          depId => this.getEdgeCondition(node, depId).dependency_type === 'parallel'
+        );
       });
 
       if (startingNodes.length === 0) {
@@ -261,21 +415,8 @@ export class WorkflowEngine {
           'Spawning initial workflow node'
         );
 
-        const agentId = await this.agentService.spawnAgent(
-          node.role,
-          node.task_description,
-          node.budget_allocation,
-          parentAgentId
-        );
-
+        const agentId = await this.spawnNode(node, nodes, parentAgentId);
         spawnedAgents.set(node.id, agentId);
-
-        // Update node status
-        await this.workflowRepo.updateNode(node.id, {
-          agent_id: agentId,
-          execution_status: 'executing',
-          spawn_timestamp: new Date(),
-        });
       }
 
       // 5. Mark graph as active
@@ -295,6 +436,10 @@ export class WorkflowEngine {
       await this.workflowRepo.updateGraph(graphId, {
         status: 'failed',
       });
+      eventBus.emit('workflow.failed', {
+        graphId,
+        reason: error instanceof Error ? error.message : String(error),
+      });
 
       throw error;
     }
@@ -304,8 +449,12 @@ export class WorkflowEngine {
    * Process a completed node and spawn dependent nodes if ready
    *
    * This method should be called when an agent completes (via polling or event).
-   * It checks which workflow nodes depend on the completed node and spawns them
-   * if all their dependencies are now satisfied.
+   * It stores the node's result and advances the workflow: dependents whose
+   * edges are now all satisfied are spawned, and those whose conditions can
+   * no longer be met are skipped.
+   *
+   * Nodes that are no longer executing, or whose workflow has finished, are
+   * left alone, so a completion is processed once.
    *
    * @param agentId - Completed agent UUID
    * @param result - Agent's execution result (optional)
@@ -314,131 +463,897 @@ export class WorkflowEngine {
     this.engineLogger.info({ agentId }, 'Processing completed node');
 
     try {
-      // 1. Find the workflow node for this agent
-      const completedNode = await this.workflowRepo.findNodeByAgentId(agentId);
+      // 1. Complete the agent's node, unless it has moved on meanwhile (already
+      //    processed, or its workflow finished)
+      const completedNode = await this.workflowRepo.updateExecutingNode(agentId, {
+        execution_status: 'completed',
+        completion_timestamp: new Date(),
+        result: result || null,
+      });
 
       if (!completedNode) {
-        this.engineLogger.warn({ agentId }, 'No workflow node found for agent');
+        this.engineLogger.warn({ agentId }, 'No executing workflow node found for agent');
         return;
       }
 
-      // 2. Update node status and result
-      await this.workflowRepo.updateNode(completedNode.id, {
-        execution_status: 'completed',
-        completion_timestamp: new Date(),
-        result: result || null,
+      // 2. Let listeners know
+      eventBus.emit('node.completed', {
+        graphId: completedNode.workflow_graph_id,
+        nodeId: completedNode.id,
+        agentId,
       });
 
-      // 3. Find all nodes in the workflow
-      const allNodes = await this.workflowRepo.findNodesByGraphId(completedNode.workflow_graph_id);
+      // 3. Spawn or skip dependents, and finish the workflow when nothing is left
+      await this.advanceWorkflow(completedNode.workflow_graph_id, agentId);
+    } catch (error) {
+      this.engineLogger.error({ error, agentId }, 'Failed to process completed node');
+      throw error;
+    }
+  }
 
-      // 4. Check which nodes are now ready to spawn
-      for (const node of allNodes) {
-        if (node.execution_status !== 'pending') {
-          continue; // Skip already spawned/completed nodes
+  /**
+   * Process a node whose agent failed
+   *
+   * The node first recovers per its failure policy: a retry is scheduled
+   * (respawned by spawnDueRetries() once its backoff has elapsed), or a
+   * fallback agent takes over. Otherwise the node fails: on_fail and
+   * on_complete dependents may now run and dependents waiting for its
+   * success are skipped, or with on_failure 'fail_fast' the workflow is
+   * terminated. Like processCompletedNode(), this only applies to nodes
+   * still executing in an unfinished workflow.
+   *
+   * @param agentId - Failed agent UUID
+   * @param errorMessage - Why the agent failed
+   * @param recoverable - False if the agent was stopped on purpose (no retry or fallback)
+   */
+  async processFailedNode(
+    agentId: string,
+    errorMessage: string,
+    recoverable = true
+  ): Promise<void> {
+    this.engineLogger.info({ agentId, errorMessage }, 'Processing failed node');
+
+    try {
+      // Claim the node while its retry or fallback is decided, unless it has
+      // moved on meanwhile (already processed, or its workflow finished)
+      const failedNode = await this.workflowRepo.updateExecutingNode(agentId, {
+        execution_status: 'spawning',
+      });
+
+      if (!failedNode) {
+        this.engineLogger.warn({ agentId }, 'No executing workflow node found for agent');
+        return;
+      }
+
+      if (recoverable && (await this.recoverNode(failedNode, errorMessage))) {
+        return;
+      }
+
+      await this.failNode(failedNode, errorMessage);
+    } catch (error) {
+      this.engineLogger.error({ error, agentId }, 'Failed to process failed node');
+      throw error;
+    }
+  }
+
+  /**
+   * Respawn the agents of nodes whose retry is due (backoff elapsed)
+   * Called by WorkflowPoller on every cycle and when a workflow is resumed.
+   * A node whose retry agent cannot be spawned (e.g. its parent is out of
+   * budget) fails. Paused workflows retry nothing.
+   *
+   * @param graphId - Workflow graph UUID
+   * @returns Number of nodes retried
+   */
+  async spawnDueRetries(graphId: string): Promise<number> {
+    const graph = await this.workflowRepo.findGraphById(graphId);
+    if (graph?.status !== 'active') {
+      return 0; // Paused (or finished) workflows spawn nothing
+    }
+
+    const waiting = await this.workflowRepo.findNodesByStatus(graphId, 'ready');
+    let retried = 0;
+
+    for (const node of waiting) {
+      const retryAt: unknown = node.metadata?.retry_at;
+      if (!node.agent_id || typeof retryAt !== 'string' || Date.parse(retryAt) > Date.now()) {
+        continue;
+      }
+
+      const policy = this.getFailurePolicy(node);
+      try {
+        const failedAgent = await this.agentService.getAgentStatus(node.agent_id);
+        const agentId = await this.assignAgent(
+          node,
+          policy.retry_role ?? node.role,
+          failedAgent.task_description,
+          failedAgent.parent_id ?? undefined
+        );
+        this.engineLogger.info({ graphId, nodeId: node.id, agentId }, 'Retrying workflow node');
+        retried++;
+      } catch (error) {
+        this.engineLogger.error({ error, graphId, nodeId: node.id }, 'Failed to retry node');
+        await this.failNode(
+          node,
+          `Retry failed: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    return retried;
+  }
+
+  /**
+   * Schedule a retry of a failed node, or hand it to its fallback agent
+   *
+   * @returns False if the node's failure policy has nothing left to try
+   */
+  private async recoverNode(node: WorkflowNode, errorMessage: string): Promise<boolean> {
+    const policy = this.getFailurePolicy(node);
+    const metadata = node.metadata ?? {};
+    const attempts = typeof metadata.retry_attempts === 'number' ? metadata.retry_attempts : 0;
+
+    if (attempts < policy.max_retries) {
+      const delayMs = policy.backoff_ms * policy.backoff_multiplier ** attempts;
+      await this.workflowRepo.updateNode(node.id, {
+        execution_status: 'ready',
+        error_message: errorMessage,
+        metadata: {
+          ...metadata,
+          retry_attempts: attempts + 1,
+          retry_at: new Date(Date.now() + delayMs).toISOString(),
+          ...(policy.retry_model ? { model: policy.retry_model } : {}),
+        },
+      });
+      this.engineLogger.warn(
+        { nodeId: node.id, attempt: attempts + 1, retries: policy.max_retries, delayMs },
+        'Node failed - retry scheduled'
+      );
+
+      if (delayMs === 0) {
+        await this.spawnDueRetries(node.workflow_graph_id);
+      }
+      return true;
+    }
+
+    if (policy.fallback && !metadata.fallback_used && node.agent_id) {
+      const failedAgent = await this.agentService.getAgentStatus(node.agent_id);
+      const agentId = await this.assignAgent(
+        node,
+        policy.fallback.role,
+        policy.fallback.task_description ?? failedAgent.task_description,
+        failedAgent.parent_id ?? undefined,
+        {
+          ...metadata,
+          fallback_used: true,
+          ...(policy.fallback.model ? { model: policy.fallback.model } : {}),
         }
+      );
+      this.engineLogger.warn(
+        { nodeId: node.id, agentId, role: policy.fallback.role, errorMessage },
+        'Node failed - running fallback'
+      );
+      return true;
+    }
 
-        const deps = Array.isArray(node.dependencies) ? node.dependencies : [];
+    return false;
+  }
 
-        // Check if ALL dependencies are completed
-        const allDepsCompleted = deps.every(depId => {
-          const depNode = allNodes.find(n => n.id === depId);
-          return depNode && depNode.execution_status === 'completed';
-        });
+  /**
+   * Mark a node as failed for good and apply its on_failure policy
+   */
+  private async failNode(node: WorkflowNode, errorMessage: string): Promise<void> {
+    const graphId = node.workflow_graph_id;
 
-        if (allDepsCompleted) {
-          // Spawn this node!
-          this.engineLogger.info(
-            { nodeId: node.id, role: node.role, completedDeps: deps },
-            'All dependencies completed, spawning node'
-          );
+    await this.workflowRepo.updateNode(node.id, {
+      execution_status: 'failed',
+      error_message: errorMessage,
+      completion_timestamp: new Date(),
+    });
+    eventBus.emit('node.failed', {
+      graphId,
+      nodeId: node.id,
+      agentId: node.agent_id,
+      error: errorMessage,
+    });
+
+    if (this.getFailurePolicy(node).on_failure === 'fail_fast') {
+      await this.failWorkflow(graphId, `Node ${node.role} failed: ${errorMessage}`);
+      return;
+    }
 
-          // Get parent agent from workflow graph
-          const graph = await this.workflowRepo.findGraphById(node.workflow_graph_id);
-          if (!graph) continue;
+    await this.advanceWorkflow(graphId, node.agent_id ?? undefined);
+  }
 
-          // Gather dependency results for context
-          const depResults = deps.map(depId => {
-            const depNode = allNodes.find(n => n.id === depId);
-            return depNode?.result || {};
-          });
+  /**
+   * Spawn the pending nodes whose edges are all satisfied, skip those with an
+   * edge that can no longer be satisfied (repeating until skips stop
+   * cascading), and finish the workflow once no node is left to run
+   * Map nodes are expanded instead of spawned, their children are spawned up
+   * to the map node's concurrency cap, and a map node whose children have all
+   * finished completes (or fails).
+   * A paused workflow only skips nodes; spawning waits for resumeWorkflow().
+   *
+   * @param graphId - Workflow graph UUID
+   * @param parentAgentId - Agent whose node just finished (parent of spawned agents;
+   *   when omitted, the agent of the node's most recently finished dependency)
+   */
+  private async advanceWorkflow(
+    graphId: string,
+    parentAgentId: string | undefined
+  ): Promise<void> {
+    const graph = await this.workflowRepo.findGraphById(graphId);
+    const paused = graph?.status === 'paused';
+    let nodes = await this.workflowRepo.findNodesByGraphId(graphId);
+    let spawnParentId = parentAgentId;
+    let changed = true;
+
+    while (changed) {
+      changed = false;
+      const nodeMap = new Map(nodes.map(node => [node.id, node]));
+      const runningChildren = new Map<string, number>();
+      for (const node of nodes) {
+        const mapNodeId = this.getMapNodeId(node);
+        if (mapNodeId && RUNNING_NODE_STATUSES.includes(node.execution_status)) {
+          runningChildren.set(mapNodeId, (runningChildren.get(mapNodeId) ?? 0) + 1);
+        }
+      }
 
-          // Enhance task description with dependency outputs
-          let enhancedTask = node.task_description;
-          if (depResults.length > 0 && depResults.some(r => Object.keys(r).length > 0)) {
-            enhancedTask += `\n\nDependency outputs:\n${JSON.stringify(depResults, null, 2)}`;
+      for (const node of nodes) {
+        if (node.execution_status === 'executing' && this.getMapSpec(node)) {
+          const children = nodes.filter(child => this.getMapNodeId(child) === node.id);
+          if (children.every(child => FINAL_NODE_STATUSES.includes(child.execution_status))) {
+            const failure = await this.finishMapNode(node, children);
+            if (failure) {
+              await this.failNode(node, failure);
+              return; // failNode() advanced the workflow
+            }
+            // Its dependents spawn under the map node's parent, not its last child
+            spawnParentId = undefined;
+            changed = true;
           }
+          continue;
+        }
 
-          const newAgentId = await this.agentService.spawnAgent(
-            node.role,
-            enhancedTask,
-            node.budget_allocation,
-            agentId // Use completed agent as parent
-          );
+        if (node.execution_status !== 'pending') {
+          continue; // Skip already spawned/finished nodes
+        }
 
+        const deps = Array.isArray(node.dependencies) ? node.dependencies : [];
+        const edges = deps.map(depId => this.resolveEdge(node, depId, nodeMap.get(depId)));
+        const blocked = edges.find(edge => edge.state === 'failed');
+
+        if (blocked) {
+          this.engineLogger.info(
+            { nodeId: node.id, role: node.role, reason: blocked.reason },
+            'Edge condition cannot be met, skipping node'
+          );
           await this.workflowRepo.updateNode(node.id, {
-            agent_id: newAgentId,
-            execution_status: 'executing',
-            spawn_timestamp: new Date(),
+            execution_status: 'skipped',
+            error_message: blocked.reason,
+            completion_timestamp: new Date(),
           });
+          changed = true;
+        } else if (!paused && edges.every(edge => edge.state === 'satisfied')) {
+          const mapNodeId = this.getMapNodeId(node);
+          const spec = this.getMapSpec(node);
+
+          if (mapNodeId) {
+            const mapNode = nodeMap.get(mapNodeId);
+            const cap = (mapNode && this.getMapSpec(mapNode)?.max_concurrency) ?? Infinity;
+            const running = runningChildren.get(mapNodeId) ?? 0;
+            if (running >= cap) {
+              continue; // Concurrency cap reached: waits for a sibling to finish
+            }
+            runningChildren.set(mapNodeId, running + 1);
+            await this.spawnNode(node, nodes, this.findSpawnParent(node, nodeMap));
+          } else if (spec) {
+            const failure = await this.expandMapNode(node, spec, nodeMap);
+            if (failure) {
+              await this.failNode(node, failure);
+              return; // failNode() advanced the workflow
+            }
+          } else {
+            this.engineLogger.info(
+              { nodeId: node.id, role: node.role, dependencies: deps },
+              'All edge conditions satisfied, spawning node'
+            );
+            await this.spawnNode(
+              node,
+              nodes,
+              spawnParentId ?? this.findSpawnParent(node, nodeMap)
+            );
+          }
+          changed = true;
         }
       }
 
-      // 5. Check if workflow is complete
-      const progress = await this.getWorkflowProgress(completedNode.workflow_graph_id);
-      if (progress.total === progress.completed) {
-        await this.workflowRepo.updateGraph(completedNode.workflow_graph_id, {
-          status: 'completed',
-          completed_at: new Date(),
-        });
-        this.engineLogger.info(
-          { graphId: completedNode.workflow_graph_id },
-          'Workflow execution completed'
+      if (changed) {
+        nodes = await this.workflowRepo.findNodesByGraphId(graphId);
+      }
+    }
+
+    if (nodes.every(node => FINAL_NODE_STATUSES.includes(node.execution_status))) {
+      await this.finishWorkflow(graphId, nodes);
+    }
+  }
+
+  /**
+   * Mark a workflow whose nodes have all finished as completed, or as failed
+   * if one of its nodes failed without a dependent handling the failure
+   * (nodes with on_failure 'continue' never fail the workflow, and failed map
+   * children are accounted for by their map node)
+   */
+  private async finishWorkflow(graphId: string, nodes: WorkflowNode[]): Promise<void> {
+    const graph = await this.workflowRepo.findGraphById(graphId);
+    if (!graph || graph.status !== 'active') {
+      return;
+    }
+
+    const unhandled = nodes.find(
+      failed =>
+        failed.execution_status === 'failed' &&
+        this.getFailurePolicy(failed).on_failure !== 'continue' &&
+        !this.getMapNodeId(failed) &&
+        !nodes.some(node => {
+          if (!Array.isArray(node.dependencies) || !node.dependencies.includes(failed.id)) {
+            return false;
+          }
+          const edge = this.getEdgeCondition(node, failed.id);
+          return (
+            edge.dependency_type !== 'parallel' &&
+            (edge.condition === 'on_fail' || edge.condition === 'on_complete')
+          );
+        })
+    );
+
+    await this.workflowRepo.updateGraph(graphId, {
+      status: unhandled ? 'failed' : 'completed',
+      completed_at: new Date(),
+    });
+
+    if (unhandled) {
+      const reason = `Node ${unhandled.role} (${unhandled.id}) failed: ${
+        unhandled.error_message ?? 'unknown error'
+      }`;
+      this.engineLogger.warn({ graphId, nodeId: unhandled.id }, 'Workflow execution failed');
+      eventBus.emit('workflow.failed', { graphId, reason });
+    } else {
+      this.engineLogger.info({ graphId }, 'Workflow execution completed');
+      eventBus.emit('workflow.completed', { graphId });
+    }
+  }
+
+  /**
+   * Agent of the dependency that finished last (parent of the node's agent)
+   * Children of a map node take the parent their map node would have had, and
+   * a finished map dependency stands for that parent as well.
+   */
+  private findSpawnParent(
+    node: WorkflowNode,
+    nodeMap: Map<string, WorkflowNode>
+  ): string | undefined {
+    const mapNode = nodeMap.get(this.getMapNodeId(node) ?? '');
+    if (mapNode) {
+      return this.findSpawnParent(mapNode, nodeMap);
+    }
+
+    const deps = Array.isArray(node.dependencies) ? node.dependencies : [];
+    const finished = deps
+      .map(depId => nodeMap.get(depId))
+      .filter(
+        (dep): dep is WorkflowNode =>
+          (!!dep?.agent_id || (!!dep && !!this.getMapSpec(dep))) && !!dep.completion_timestamp
+      )
+      .sort(
+        (a, b) =>
+          new Date(b.completion_timestamp!).getTime() - new Date(a.completion_timestamp!).getTime()
+      );
+    const latest = finished[0];
+    if (!latest) {
+      return undefined;
+    }
+    return latest.agent_id ?? this.findSpawnParent(latest, nodeMap);
+  }
+
+  /**
+   * Activation condition of a node's dependency (sequential on_success by default)
+   */
+  private getEdgeCondition(node: WorkflowNode, depId: string): WorkflowEdgeCondition {
+    return WorkflowEdgeConditionSchema.parse(node.edge_conditions?.[depId] ?? {});
+  }
+
+  /**
+   * Failure policy of a node (no retries, on_failure 'fail' by default)
+   */
+  private getFailurePolicy(node: WorkflowNode): NodeFailurePolicy {
+    const policy = NodeFailurePolicySchema.safeParse(node.metadata?.failure_policy ?? {});
+    return policy.success ? policy.data : NodeFailurePolicySchema.parse({});
+  }
+
+  /**
+   * Fan-out settings of a map node (null for other nodes)
+   */
+  private getMapSpec(node: WorkflowNode): MapNodeSpec | null {
+    if (node.metadata?.map === undefined) {
+      return null;
+    }
+    const spec = MapNodeSpecSchema.safeParse(node.metadata.map);
+    return spec.success ? spec.data : null;
+  }
+
+  /**
+   * Upstream node holding a map node's array (its only dependency by default)
+   */
+  private getMapSource(node: WorkflowNode, spec: MapNodeSpec): string | undefined {
+    const deps = Array.isArray(node.dependencies) ? node.dependencies : [];
+    return spec.source ?? (deps.length === 1 ? deps[0] : undefined);
+  }
+
+  /**
+   * Map node that created a node (undefined for nodes of the graph itself)
+   */
+  private getMapNodeId(node: WorkflowNode): string | undefined {
+    const mapNodeId: unknown = node.metadata?.map_node_id;
+    return typeof mapNodeId === 'string' ? mapNodeId : undefined;
+  }
+
+  /**
+   * Create the children of a map node, one per element of its upstream array
+   * Each child gets the map node's role and task (plus its element), an even
+   * share of the map node's budget (or item_budget), and the map node's
+   * other metadata. The map node is executing until its children finish.
+   *
+   * @returns Why the map node fails, or null once its children exist
+   */
+  private async expandMapNode(
+    node: WorkflowNode,
+    spec: MapNodeSpec,
+    nodeMap: Map<string, WorkflowNode>
+  ): Promise<string | null> {
+    const sourceId = this.getMapSource(node, spec);
+    const source = sourceId ? nodeMap.get(sourceId) : undefined;
+
+    let items: unknown = source?.result ?? null;
+    for (const segment of spec.items.split('.')) {
+      items =
+        items !== null && typeof items === 'object'
+          ? (items as Record<string, unknown>)[segment]
+          : undefined;
+    }
+    if (!Array.isArray(items)) {
+      return `Result of ${source?.role ?? 'the map source'} has no array at "${spec.items}"`;
+    }
+
+    const elements: unknown[] = items;
+    const budget = spec.item_budget ?? Math.floor(node.budget_allocation / elements.length);
+    if (elements.length > 0 && budget < 1) {
+      return `Budget of ${node.budget_allocation} tokens is too small for ${elements.length} items`;
+    }
+
+    const childMetadata = { ...node.metadata };
+    delete childMetadata.map;
+
+    for (const [index, item] of elements.entries()) {
+      await this.workflowRepo.createNode({
+        workflow_graph_id: node.workflow_graph_id,
+        role: node.role,
+        task_description:
+          `${node.task_description}\n\n` +
+          `Item ${index + 1} of ${elements.length}:\n${JSON.stringify(item, null, 2)}`,
+        budget_allocation: budget,
+        position: node.position,
+        metadata: { ...childMetadata, map_node_id: node.id, map_index: index, map_item: item },
+      });
+    }
+
+    const graph = await this.workflowRepo.findGraphById(node.workflow_graph_id);
+    if (graph) {
+      await this.workflowRepo.updateGraph(graph.id, {
+        total_nodes: graph.total_nodes + elements.length,
+      });
+    }
+    await this.workflowRepo.updateNode(node.id, {
+      execution_status: 'executing',
+      spawn_timestamp: new Date(),
+    });
+
+    this.engineLogger.info(
+      { nodeId: node.id, role: node.role, items: elements.length, budget },
+      'Map node expanded'
+    );
+    return null;
+  }
+
+  /**
+   * Store the collected results of a map node whose children have all
+   * finished, and complete it unless one of them failed
+   *
+   * @returns Why the map node fails, or null if it completed
+   */
+  private async finishMapNode(
+    node: WorkflowNode,
+    children: WorkflowNode[]
+  ): Promise<string | null> {
+    const ordered = [...children].sort(
+      (a, b) => Number(a.metadata?.map_index) - Number(b.metadata?.map_index)
+    );
+    const results = ordered.map(child => {
+      const item: unknown = child.metadata?.map_item;
+      return {
+        item: item ?? null,
+        status: child.execution_status,
+        result: child.result,
+        error: child.error_message,
+      };
+    });
+    const failed = ordered.filter(
+      child =>
+        child.execution_status === 'failed' &&
+        this.getFailurePolicy(child).on_failure !== 'continue'
+    );
+
+    await this.workflowRepo.updateNode(node.id, { result: { results } });
+    if (failed.length > 0) {
+      return `${failed.length} of ${ordered.length} items failed`;
+    }
+
+    await this.workflowRepo.updateNode(node.id, {
+      execution_status: 'completed',
+      completion_timestamp: new Date(),
+    });
+    eventBus.emit('node.completed', {
+      graphId: node.workflow_graph_id,
+      nodeId: node.id,
+      agentId: null,
+    });
+    this.engineLogger.info({ nodeId: node.id, items: ordered.length }, 'Map node completed');
+    return null;
+  }
+
+  /**
+   * Resolve the edge from an upstream node to a node
+   *
+   * @param node - Target node
+   * @param depId - Upstream node ID
+   * @param upstream - Upstream node (undefined if it does not exist)
+   * @returns Edge state, with the reason the node is skipped when failed
+   */
+  private resolveEdge(
+    node: WorkflowNode,
+    depId: string,
+    upstream: WorkflowNode | undefined
+  ): { state: EdgeState; reason?: string } {
+    const edge = this.getEdgeCondition(node, depId);
+    if (edge.dependency_type === 'parallel') {
+      return { state: 'satisfied' };
+    }
+    if (!upstream || !FINAL_NODE_STATUSES.includes(upstream.execution_status)) {
+      return { state: 'active' };
+    }
+
+    const status = upstream.execution_status;
+    // A tolerated failure (on_failure 'continue') satisfies on_success edges
+    const tolerated =
+      status === 'failed' && this.getFailurePolicy(upstream).on_failure === 'continue';
+    const failed = (reason: string): { state: EdgeState; reason: string } => ({
+      state: 'failed',
+      reason,
+    });
+
+    switch (edge.condition) {
+      case 'on_complete':
+        return { state: 'satisfied' };
+      case 'on_success':
+        if (status === 'completed' || tolerated) {
+          return { state: 'satisfied' };
+        }
+        return failed(
+          `Upstream node ${upstream.role} ${status === 'failed' ? 'failed' : 'was skipped'}`
         );
+      case 'on_fail':
+        return status === 'failed'
+          ? { state: 'satisfied' }
+          : failed(`Upstream node ${upstream.role} did not fail`);
+      case 'conditional': {
+        const expression = edge.condition_expression!;
+        if (status !== 'completed') {
+          return failed(`Upstream node ${upstream.role} did not complete`);
+        }
+        return new ConditionExpression(expression).evaluate(upstream.result)
+          ? { state: 'satisfied' }
+          : failed(`Condition not met: ${expression}`);
+      }
+    }
+  }
+
+  /**
+   * Spawn the agent of a node whose edges are satisfied
+   * The task description is extended with the dependencies' results.
+   *
+   * @param node - Node to spawn
+   * @param allNodes - All nodes of the node's workflow
+   * @param parentAgentId - Parent of the new agent (undefined for a root agent)
+   * @returns Spawned agent UUID
+   */
+  async spawnNode(
+    node: WorkflowNode,
+    allNodes: WorkflowNode[],
+    parentAgentId: string | undefined
+  ): Promise<string> {
+    const deps = Array.isArray(node.dependencies) ? node.dependencies : [];
+
+    // Gather dependency results for context
+    const depResults = deps.map(depId => {
+      const depNode = allNodes.find(n => n.id === depId);
+      return depNode?.result || {};
+    });
+
+    // Enhance task description with dependency outputs
+    let enhancedTask = node.task_description;
+    if (depResults.length > 0 && depResults.some(r => Object.keys(r).length > 0)) {
+      enhancedTask += `\n\nDependency outputs:\n${JSON.stringify(depResults, null, 2)}`;
+    }
+
+    return this.assignAgent(node, node.role, enhancedTask, parentAgentId);
+  }
+
+  /**
+   * Spawn an agent for a node and make it the node's executing agent
+   *
+   * @param node - Node to run
+   * @param role - Role of the agent (the node's role, or a retry/fallback role)
+   * @param task - Task of the agent
+   * @param parentAgentId - Parent of the new agent (undefined for a root agent)
+   * @param metadata - New node metadata (unchanged when omitted)
+   * @returns Spawned agent UUID
+   */
+  private async assignAgent(
+    node: WorkflowNode,
+    role: string,
+    task: string,
+    parentAgentId: string | undefined,
+    metadata?: Record<string, unknown>
+  ): Promise<string> {
+    const newAgentId = await this.agentService.spawnAgent(
+      role,
+      task,
+      node.budget_allocation,
+      parentAgentId
+    );
+
+    // Nodes may run in their own priority class (metadata.priority)
+    const priority = AgentPriority.safeParse(node.metadata?.priority);
+    if (priority.success) {
+      await this.agentService.setAgentPriority(newAgentId, priority.data);
+    }
+
+    await this.workflowRepo.updateNode(node.id, {
+      agent_id: newAgentId,
+      execution_status: 'executing',
+      spawn_timestamp: new Date(),
+      ...(metadata ? { metadata } : {}),
+    });
+
+    return newAgentId;
+  }
+
+  /**
+   * Pause a workflow: no new nodes (or retries) are spawned until it is resumed
+   *
+   * Executing nodes keep running unless pauseAgents is set, in which case
+   * their agents are paused too (at their next safe point). Pausing a paused
+   * workflow changes nothing.
+   *
+   * @param graphId - Workflow graph UUID
+   * @param options - Actor, reason and whether to pause executing agents
+   * @throws InvalidWorkflowTransitionError if the workflow has finished
+   * @throws Error if the workflow does not exist
+   */
+  async pauseWorkflow(graphId: string, options: WorkflowControlOptions = {}): Promise<void> {
+    const actor = options.actor ?? 'system';
+    const reason = options.reason ?? 'Workflow paused';
+    this.engineLogger.info({ graphId, actor, reason }, 'Pausing workflow');
+
+    try {
+      const graph = await this.workflowRepo.findGraphById(graphId);
+      if (!graph) {
+        throw new Error(`Workflow not found: ${graphId}`);
+      }
+      if (graph.status === 'paused') {
+        return;
+      }
+      if (graph.status !== 'active') {
+        throw new InvalidWorkflowTransitionError(graphId, graph.status, 'paused');
+      }
+
+      await this.workflowRepo.updateGraph(graphId, { status: 'paused' });
+
+      let pausedAgents = 0;
+      if (options.pauseAgents) {
+        const executing = await this.workflowRepo.findNodesByStatus(graphId, 'executing');
+        for (const node of executing) {
+          if (node.agent_id && (await this.pauseNodeAgent(node.agent_id, reason))) {
+            await this.workflowRepo.updateNode(node.id, {
+              metadata: { ...node.metadata, paused_by_workflow: true },
+            });
+            pausedAgents++;
+          }
+        }
       }
 
+      eventBus.emit('workflow.paused', { graphId, actor, reason, pausedAgents });
+      this.engineLogger.info({ graphId, pausedAgents }, 'Workflow paused');
     } catch (error) {
-      this.engineLogger.error({ error, agentId }, 'Failed to process completed node');
+      this.engineLogger.error({ error, graphId }, 'Failed to pause workflow');
+      throw error;
+    }
+  }
+
+  /**
+   * Resume a paused workflow
+   *
+   * Agents paused with the workflow are resumed, retries that fell due are
+   * spawned, and nodes whose dependencies finished in the meantime are
+   * spawned (or skipped); a workflow with nothing left to run finishes.
+   * Resuming an active workflow changes nothing.
+   *
+   * @param graphId - Workflow graph UUID
+   * @param options - Actor resuming the workflow
+   * @throws InvalidWorkflowTransitionError if the workflow has finished
+   * @throws Error if the workflow does not exist
+   */
+  async resumeWorkflow(graphId: string, options: WorkflowControlOptions = {}): Promise<void> {
+    const actor = options.actor ?? 'system';
+    this.engineLogger.info({ graphId, actor }, 'Resuming workflow');
+
+    try {
+      const graph = await this.workflowRepo.findGraphById(graphId);
+      if (!graph) {
+        throw new Error(`Workflow not found: ${graphId}`);
+      }
+      if (graph.status === 'active') {
+        return;
+      }
+      if (graph.status !== 'paused') {
+        throw new InvalidWorkflowTransitionError(graphId, graph.status, 'active');
+      }
+
+      await this.workflowRepo.updateGraph(graphId, { status: 'active' });
+
+      const nodes = await this.workflowRepo.findNodesByGraphId(graphId);
+      for (const node of nodes) {
+        if (!node.metadata?.paused_by_workflow) {
+          continue;
+        }
+        const metadata = { ...node.metadata };
+        delete metadata.paused_by_workflow;
+        await this.workflowRepo.updateNode(node.id, { metadata });
+        if (node.agent_id && node.execution_status === 'executing') {
+          await this.agentService.resumeAgent(node.agent_id, 'workflow', 'Workflow resumed');
+        }
+      }
+
+      eventBus.emit('workflow.resumed', { graphId, actor });
+
+      await this.spawnDueRetries(graphId);
+      await this.advanceWorkflow(graphId, undefined);
+
+      this.engineLogger.info({ graphId }, 'Workflow resumed');
+    } catch (error) {
+      this.engineLogger.error({ error, graphId }, 'Failed to resume workflow');
       throw error;
     }
   }
 
   /**
-   * Terminate all active nodes in a workflow (kill switch)
+   * Pause a node's agent unless it has finished or an operator controls it
+   *
+   * @returns Whether the agent was paused
+   */
+  private async pauseNodeAgent(agentId: string, reason: string): Promise<boolean> {
+    if ((await this.agentRepo.getControlState(agentId)) !== 'running') {
+      return false; // Paused (or being stopped) by an operator, who resumes it
+    }
+    try {
+      await this.agentService.pauseAgent(agentId, reason, 'workflow');
+      return true;
+    } catch (error) {
+      if (!(error instanceof InvalidAgentTransitionError)) {
+        throw error;
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Terminate a workflow (kill switch)
    *
-   * Used when workflow fails or needs to be stopped.
+   * The agents of executing nodes are terminated together with the agents
+   * they spawned (their unused budgets return to their parents), every node
+   * that has not finished is skipped with the reason, and the workflow ends
+   * as 'cancelled'.
    *
    * @param graphId - Workflow graph UUID
+   * @param reason - Why the workflow is stopped (recorded on skipped nodes)
+   * @throws InvalidWorkflowTransitionError if the workflow has already finished
+   * @throws Error if the workflow does not exist
    */
-  async terminateWorkflow(graphId: string): Promise<void> {
-    this.engineLogger.info({ graphId }, 'Terminating workflow');
+  async terminateWorkflow(graphId: string, reason = 'Workflow terminated'): Promise<void> {
+    await this.stopWorkflow(graphId, reason, 'cancelled');
+  }
+
+  /**
+   * Stop a workflow that cannot succeed any more (e.g. a stalled workflow)
+   * Like terminateWorkflow(), but the workflow ends as 'failed'.
+   *
+   * @param graphId - Workflow graph UUID
+   * @param reason - Why the workflow failed (recorded on skipped nodes)
+   * @throws InvalidWorkflowTransitionError if the workflow has already finished
+   * @throws Error if the workflow does not exist
+   */
+  async failWorkflow(graphId: string, reason: string): Promise<void> {
+    await this.stopWorkflow(graphId, reason, 'failed');
+  }
+
+  /**
+   * Terminate the running agents, skip the unfinished nodes and end the workflow
+   */
+  private async stopWorkflow(
+    graphId: string,
+    reason: string,
+    status: 'failed' | 'cancelled'
+  ): Promise<void> {
+    this.engineLogger.info({ graphId, reason, status }, 'Terminating workflow');
 
     try {
+      const graph = await this.workflowRepo.findGraphById(graphId);
+      if (!graph) {
+        throw new Error(`Workflow not found: ${graphId}`);
+      }
+      if (graph.status !== 'active' && graph.status !== 'paused') {
+        throw new InvalidWorkflowTransitionError(graphId, graph.status, status);
+      }
+
       const nodes = await this.workflowRepo.findNodesByGraphId(graphId);
+      let terminatedAgents = 0;
 
       for (const node of nodes) {
+        if (FINAL_NODE_STATUSES.includes(node.execution_status)) {
+          continue;
+        }
+
         if (node.agent_id && node.execution_status === 'executing') {
+          const { terminated } = await this.agentService.terminateAgent(
+            node.agent_id,
+            reason,
+            'workflow'
+          );
           this.engineLogger.info(
-            { nodeId: node.id, agentId: node.agent_id },
-            'Terminating node agent'
+            { nodeId: node.id, agentId: node.agent_id, terminated: terminated.length },
+            'Terminated node agent'
           );
-
-          // TODO: Add terminateAgent() to AgentService
-          // await this.agentService.terminateAgent(node.agent_id);
-
-          await this.workflowRepo.updateNode(node.id, {
-            execution_status: 'skipped',
-            error_message: 'Workflow terminated',
-          });
+          terminatedAgents += terminated.length;
         }
+
+        await this.workflowRepo.updateNode(node.id, {
+          execution_status: 'skipped',
+          error_message: reason,
+          completion_timestamp: new Date(),
+        });
       }
 
       await this.workflowRepo.updateGraph(graphId, {
-        status: 'failed',
+        status,
         completed_at: new Date(),
       });
+      if (status === 'cancelled') {
+        eventBus.emit('workflow.cancelled', { graphId, reason });
+      } else {
+        eventBus.emit('workflow.failed', { graphId, reason });
+      }
 
-      this.engineLogger.info({ graphId }, 'Workflow terminated');
+      this.engineLogger.info({ graphId, status, terminatedAgents }, 'Workflow terminated');
     } catch (error) {
       this.engineLogger.error({ error, graphId }, 'Failed to terminate workflow');
       throw error;
@@ -454,6 +1369,8 @@ export class WorkflowEngine {
     executing: number;
     pending: number;
     failed: number;
+    skipped: number;
+    retrying: number;
   }> {
     const nodes = await this.workflowRepo.findNodesByGraphId(graphId);
 
@@ -461,6 +1378,8 @@ export class WorkflowEngine {
     const executing = nodes.filter(n => n.execution_status === 'executing').length;
     const pending = nodes.filter(n => n.execution_status === 'pending').length;
     const failed = nodes.filter(n => n.execution_status === 'failed').length;
+    const skipped = nodes.filter(n => n.execution_status === 'skipped').length;
+    const retrying = nodes.filter(n => n.execution_status === 'ready').length;
 
     return {
       total: nodes.length,
@@ -468,6 +1387,8 @@ export class WorkflowEngine {
       executing,
       pending,
       failed,
+      skipped,
+      retrying,
     };
   }
 }
@@ -9,7 +9,7 @@
  *    - Coordinates between business logic and data access
  *
  * 2. AgentCore (Business Logic Layer) - src/core/AgentCore.ts
- *    - Anthropic API integration
+ *    - LLM integration via pluggable ModelProvider (Anthropic or scripted fake)
  *    - Token counting and budget tracking
  *    - Execution logic and error handling
  *
@@ -22,7 +22,30 @@
  */
 
 export { Agent } from './Agent.js';
-export { AgentCore, TokenCounter, BudgetTracker } from './AgentCore.js';
+export { AgentCore, TokenCounter, BudgetTracker, createModelProvider } from './AgentCore.js';
+export type { AgentExecutionResult, AgentToolCallRecord } from './AgentCore.js';
+export { createOrchestrationTools } from './AgentTools.js';
+export type {
+  AgentTool,
+  AgentToolContext,
+  AgentToolResult,
+  OrchestrationToolDependencies,
+} from './AgentTools.js';
+export { AnthropicModelProvider } from './AnthropicModelProvider.js';
+export { FakeModelProvider } from './FakeModelProvider.js';
+export type { FakeModelTurn, FakeModelProviderOptions } from './FakeModelProvider.js';
+export type {
+  ModelProvider,
+  ModelRequest,
+  ModelResponse,
+  ModelMessage,
+  ModelContentBlock,
+  ModelToolDefinition,
+  ModelToolCall,
+  ModelUsage,
+  ModelStopReason,
+  ModelStreamEvent,
+} from './ModelProvider.js';
 
 // Re-export repository for convenience
 export { AgentRepository, agentRepository } from '../database/repositories/AgentRepository.js';
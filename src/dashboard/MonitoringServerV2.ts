@@ -9,17 +9,39 @@
  * - Room-based subscriptions (per-agent, per-workflow)
  * - Real-time metrics aggregation
  * - Agent control commands
+ *
+ * Updates are pushed as they happen: agent lifecycle, approval, budget and
+ * workflow events arrive over the event bus (shared with the orchestrator
+ * processes), and workflow node, message and agent event changes are
+ * announced by the database (LISTEN/NOTIFY). Metrics are also re-sent every
+ * FALLBACK_POLL_INTERVAL, and recent events are polled only while the
+ * notification listener is disconnected.
  */
 
 import http from 'http';
 import express, { Express, Request, Response, NextFunction } from 'express';
 import { Server as SocketServer, Socket } from 'socket.io';
 import cors from 'cors';
-import { db } from '../infrastructure/SharedDatabase.js';
+import { ZodError } from 'zod';
+import { config } from '../config/env.js';
+import { db, type NotificationPayloads } from '../infrastructure/SharedDatabase.js';
+import { eventBus, type OrchestrationEvents } from '../infrastructure/EventBus.js';
 import { logger } from '../utils/Logger.js';
 import { AgentRepository } from '../database/repositories/AgentRepository.js';
-import { WorkflowRepository } from '../database/repositories/WorkflowRepository.js';
 import { LinearWebhookService } from '../integrations/LinearWebhookService.js';
+import { RoleService } from '../services/RoleService.js';
+import { AgentService, type AgentTermination } from '../services/AgentService.js';
+import { WorkflowService } from '../services/WorkflowService.js';
+import { InvalidWorkflowTransitionError } from '../core/WorkflowEngine.js';
+import { ApprovalRepository } from '../database/repositories/ApprovalRepository.js';
+import { InterventionRepository } from '../database/repositories/InterventionRepository.js';
+import { AgentResultRepository } from '../database/repositories/AgentResultRepository.js';
+import { CheckpointService } from '../services/CheckpointService.js';
+import {
+  AgentStateMachine,
+  InvalidAgentTransitionError,
+} from '../services/AgentStateMachine.js';
+import type { InterventionTypeValue } from '../models/Intervention.js';
 
 // Types
 interface DashboardMetrics {
@@ -32,8 +54,19 @@ interface DashboardMetrics {
   avgDurationMs: number;
   pendingApprovals: number;
   activeWorkflows: number;
+  /** Workflows paused by an operator (no new nodes are spawned) */
+  pausedWorkflows: number;
+  /** Pending agents waiting for the execution worker */
+  queuedAgents: number;
+  /** Wait of the longest-waiting pending agent (ms) */
+  oldestQueueWaitMs: number;
+  /** Average wait of the pending agents (ms) */
+  avgQueueWaitMs: number;
 }
 
+/** Delay collecting a burst of changes into one metrics update (ms) */
+const METRICS_REFRESH_DELAY = 500;
+
 // AgentUpdate type used by broadcast methods
 export interface AgentUpdate {
   agentId: string;
@@ -57,9 +90,19 @@ export class MonitoringServerV2 {
   private serverLogger = logger.child({ component: 'MonitoringServerV2' });
   private agentRepo: AgentRepository;
   private linearWebhookService: LinearWebhookService;
+  private roleService: RoleService;
+  private approvalRepo: ApprovalRepository;
+  private agentService: AgentService;
+  private workflowService: WorkflowService;
+  private interventionRepo: InterventionRepository;
+  private resultRepo: AgentResultRepository;
+  private checkpointService: CheckpointService;
+  private stateMachine: AgentStateMachine;
 
   private metricsInterval: NodeJS.Timeout | null = null;
   private pollingInterval: NodeJS.Timeout | null = null;
+  private metricsRefresh: NodeJS.Timeout | null = null;
+  private unsubscribers: Array<() => void> = [];
 
   constructor(private port: number = 3001) {
     this.app = express();
@@ -74,8 +117,14 @@ export class MonitoringServerV2 {
 
     this.agentRepo = new AgentRepository();
     this.linearWebhookService = new LinearWebhookService();
-    // WorkflowRepository initialized for future workflow monitoring
-    new WorkflowRepository();
+    this.roleService = new RoleService();
+    this.approvalRepo = new ApprovalRepository();
+    this.agentService = new AgentService(this.roleService);
+    this.workflowService = new WorkflowService();
+    this.interventionRepo = new InterventionRepository();
+    this.resultRepo = new AgentResultRepository();
+    this.checkpointService = new CheckpointService();
+    this.stateMachine = new AgentStateMachine();
 
     this.setupWebhookRoutes(); // Must be BEFORE middleware (needs raw body)
     this.setupMiddleware();
@@ -215,6 +264,9 @@ export class MonitoringServerV2 {
         await this.pauseAgent(req.params.id, req.body.reason || 'Manual pause');
         res.json({ success: true, message: 'Agent paused' });
       } catch (error) {
+        if (this.sendControlError(res, error)) {
+          return;
+        }
         this.serverLogger.error({ error }, 'Failed to pause agent');
         res.status(500).json({ error: 'Failed to pause agent' });
       }
@@ -225,6 +277,9 @@ export class MonitoringServerV2 {
         await this.resumeAgent(req.params.id);
         res.json({ success: true, message: 'Agent resumed' });
       } catch (error) {
+        if (this.sendControlError(res, error)) {
+          return;
+        }
         this.serverLogger.error({ error }, 'Failed to resume agent');
         res.status(500).json({ error: 'Failed to resume agent' });
       }
@@ -232,14 +287,30 @@ export class MonitoringServerV2 {
 
     this.app.post('/api/agents/:id/terminate', async (req: Request, res: Response) => {
       try {
-        await this.terminateAgent(req.params.id, req.body.reason || 'Manual termination');
-        res.json({ success: true, message: 'Agent terminated' });
+        const { terminated } = await this.terminateAgent(
+          req.params.id,
+          req.body.reason || 'Manual termination'
+        );
+        res.json({ success: true, message: 'Agent terminated', terminated });
       } catch (error) {
+        if (this.sendControlError(res, error)) {
+          return;
+        }
         this.serverLogger.error({ error }, 'Failed to terminate agent');
         res.status(500).json({ error: 'Failed to terminate agent' });
       }
     });
 
+    // Status history of an agent
+    this.app.get('/api/agents/:id/transitions', async (req: Request, res: Response) => {
+      try {
+        res.json(await this.stateMachine.getHistory(req.params.id));
+      } catch (error) {
+        this.serverLogger.error({ error }, 'Failed to get status transitions');
+        res.status(500).json({ error: 'Failed to get status transitions' });
+      }
+    });
+
     // Agent intervention
     this.app.post('/api/agents/:id/intervention', async (req: Request, res: Response) => {
       try {
@@ -247,6 +318,10 @@ export class MonitoringServerV2 {
         await this.createIntervention(req.params.id, message, intervention_type);
         res.json({ success: true, message: 'Intervention recorded' });
       } catch (error) {
+        if (error instanceof ZodError) {
+          res.status(400).json({ error: 'Invalid intervention', details: error.issues });
+          return;
+        }
         this.serverLogger.error({ error }, 'Failed to create intervention');
         res.status(500).json({ error: 'Failed to create intervention' });
       }
@@ -264,6 +339,73 @@ export class MonitoringServerV2 {
       }
     });
 
+    // Checkpoints: list, inspect, diff and restore
+    this.app.get('/api/agents/:id/checkpoints', async (req: Request, res: Response) => {
+      try {
+        const limit = parseInt(req.query.limit as string) || 50;
+        const checkpoints = await this.checkpointService.listCheckpoints(req.params.id, limit);
+        res.json(checkpoints);
+      } catch (error) {
+        this.serverLogger.error({ error }, 'Failed to list checkpoints');
+        res.status(500).json({ error: 'Failed to list checkpoints' });
+      }
+    });
+
+    this.app.get('/api/checkpoints/:id', async (req: Request, res: Response) => {
+      try {
+        const checkpoint = await this.checkpointService.getCheckpoint(req.params.id);
+        if (!checkpoint) {
+          res.status(404).json({ error: 'Checkpoint not found' });
+          return;
+        }
+        res.json(checkpoint);
+      } catch (error) {
+        this.serverLogger.error({ error }, 'Failed to get checkpoint');
+        res.status(500).json({ error: 'Failed to get checkpoint' });
+      }
+    });
+
+    this.app.get('/api/checkpoints/:id/diff/:otherId', async (req: Request, res: Response) => {
+      try {
+        const diff = await this.checkpointService.diffCheckpoints(req.params.id, req.params.otherId);
+        res.json(diff);
+      } catch (error) {
+        if (error instanceof Error && error.message.startsWith('Checkpoint not found')) {
+          res.status(404).json({ error: error.message });
+          return;
+        }
+        if (error instanceof Error && error.message.includes('different agents')) {
+          res.status(400).json({ error: error.message });
+          return;
+        }
+        this.serverLogger.error({ error }, 'Failed to diff checkpoints');
+        res.status(500).json({ error: 'Failed to diff checkpoints' });
+      }
+    });
+
+    this.app.post('/api/checkpoints/:id/restore', async (req: Request, res: Response) => {
+      try {
+        const { restored_by } = req.body as { restored_by?: string };
+        const restored = await this.checkpointService.restoreCheckpoint(
+          req.params.id,
+          restored_by || 'dashboard'
+        );
+        this.io.to(`agent:${restored.agent_id}`).emit('checkpoint:restored', {
+          agentId: restored.agent_id,
+          checkpointId: restored.id,
+          restoredFrom: req.params.id,
+        });
+        res.status(201).json(restored);
+      } catch (error) {
+        if (error instanceof Error && error.message.startsWith('Checkpoint not found')) {
+          res.status(404).json({ error: error.message });
+          return;
+        }
+        this.serverLogger.error({ error }, 'Failed to restore checkpoint');
+        res.status(500).json({ error: 'Failed to restore checkpoint' });
+      }
+    });
+
     // Pending approvals
     this.app.get('/api/approvals', async (_req: Request, res: Response) => {
       try {
@@ -277,7 +419,11 @@ export class MonitoringServerV2 {
 
     this.app.post('/api/approvals/:id/approve', async (req: Request, res: Response) => {
       try {
-        await this.processApproval(req.params.id, 'approved', req.body.notes);
+        const processed = await this.processApproval(req.params.id, 'approved', req.body.notes);
+        if (!processed) {
+          res.status(409).json({ error: 'Approval request is not pending' });
+          return;
+        }
         res.json({ success: true, message: 'Approval granted' });
       } catch (error) {
         this.serverLogger.error({ error }, 'Failed to approve');
@@ -287,7 +433,11 @@ export class MonitoringServerV2 {
 
     this.app.post('/api/approvals/:id/reject', async (req: Request, res: Response) => {
       try {
-        await this.processApproval(req.params.id, 'rejected', req.body.notes);
+        const processed = await this.processApproval(req.params.id, 'rejected', req.body.notes);
+        if (!processed) {
+          res.status(409).json({ error: 'Approval request is not pending' });
+          return;
+        }
         res.json({ success: true, message: 'Request rejected' });
       } catch (error) {
         this.serverLogger.error({ error }, 'Failed to reject');
@@ -306,6 +456,127 @@ export class MonitoringServerV2 {
       }
     });
 
+    // Workflow control commands
+    this.app.post('/api/workflows/:id/pause', async (req: Request, res: Response) => {
+      try {
+        const { reason, pauseAgents } = req.body as { reason?: string; pauseAgents?: boolean };
+        await this.workflowService.pauseWorkflow(req.params.id, {
+          actor: 'dashboard',
+          reason: reason || 'Manual pause',
+          pauseAgents: pauseAgents === true,
+        });
+        res.json({ success: true, message: 'Workflow paused' });
+      } catch (error) {
+        if (this.sendControlError(res, error)) {
+          return;
+        }
+        this.serverLogger.error({ error }, 'Failed to pause workflow');
+        res.status(500).json({ error: 'Failed to pause workflow' });
+      }
+    });
+
+    this.app.post('/api/workflows/:id/resume', async (req: Request, res: Response) => {
+      try {
+        await this.workflowService.resumeWorkflow(req.params.id, { actor: 'dashboard' });
+        res.json({ success: true, message: 'Workflow resumed' });
+      } catch (error) {
+        if (this.sendControlError(res, error)) {
+          return;
+        }
+        this.serverLogger.error({ error }, 'Failed to resume workflow');
+        res.status(500).json({ error: 'Failed to resume workflow' });
+      }
+    });
+
+    this.app.post('/api/workflows/:id/terminate', async (req: Request, res: Response) => {
+      try {
+        const { reason } = req.body as { reason?: string };
+        await this.workflowService.terminateWorkflow(req.params.id, reason || 'Manual termination');
+        res.json({ success: true, message: 'Workflow terminated' });
+      } catch (error) {
+        if (this.sendControlError(res, error)) {
+          return;
+        }
+        this.serverLogger.error({ error }, 'Failed to terminate workflow');
+        res.status(500).json({ error: 'Failed to terminate workflow' });
+      }
+    });
+
+    // Role registry
+    this.app.get('/api/roles', async (req: Request, res: Response) => {
+      try {
+        const roles = await this.roleService.listRoles(req.query.enabled !== 'true');
+        res.json(roles);
+      } catch (error) {
+        this.serverLogger.error({ error }, 'Failed to list roles');
+        res.status(500).json({ error: 'Failed to list roles' });
+      }
+    });
+
+    this.app.get('/api/roles/:name', async (req: Request, res: Response) => {
+      try {
+        const role = await this.roleService.getRole(req.params.name);
+        if (!role) {
+          res.status(404).json({ error: 'Role not found' });
+          return;
+        }
+        res.json(role);
+      } catch (error) {
+        this.serverLogger.error({ error }, 'Failed to get role');
+        res.status(500).json({ error: 'Failed to get role' });
+      }
+    });
+
+    this.app.post('/api/roles', async (req: Request, res: Response) => {
+      try {
+        const role = await this.roleService.createRole(req.body);
+        res.status(201).json(role);
+      } catch (error) {
+        if (error instanceof ZodError) {
+          res.status(400).json({ error: 'Invalid role definition', details: error.issues });
+          return;
+        }
+        if (error instanceof Error && error.message.includes('already exists')) {
+          res.status(409).json({ error: error.message });
+          return;
+        }
+        this.serverLogger.error({ error }, 'Failed to create role');
+        res.status(500).json({ error: 'Failed to create role' });
+      }
+    });
+
+    this.app.put('/api/roles/:name', async (req: Request, res: Response) => {
+      try {
+        const role = await this.roleService.updateRole(req.params.name, req.body);
+        if (!role) {
+          res.status(404).json({ error: 'Role not found' });
+          return;
+        }
+        res.json(role);
+      } catch (error) {
+        if (error instanceof ZodError) {
+          res.status(400).json({ error: 'Invalid role update', details: error.issues });
+          return;
+        }
+        this.serverLogger.error({ error }, 'Failed to update role');
+        res.status(500).json({ error: 'Failed to update role' });
+      }
+    });
+
+    this.app.delete('/api/roles/:name', async (req: Request, res: Response) => {
+      try {
+        const deleted = await this.roleService.deleteRole(req.params.name);
+        if (!deleted) {
+          res.status(404).json({ error: 'Role not found' });
+          return;
+        }
+        res.json({ success: true, message: 'Role deleted' });
+      } catch (error) {
+        this.serverLogger.error({ error }, 'Failed to delete role');
+        res.status(500).json({ error: 'Failed to delete role' });
+      }
+    });
+
     // SSE fallback endpoint
     this.app.get('/api/stream', (req: Request, res: Response) => {
       this.setupSSE(req, res);
@@ -349,6 +620,38 @@ export class MonitoringServerV2 {
         this.serverLogger.debug({ socketId: socket.id, workflowId }, 'Subscribed to workflow');
       });
 
+      // Workflow control commands via WebSocket
+      socket.on('workflow:pause', async (data: { workflowId: string; pauseAgents?: boolean }) => {
+        try {
+          await this.workflowService.pauseWorkflow(data.workflowId, {
+            actor: 'dashboard',
+            reason: 'Dashboard user',
+            pauseAgents: data.pauseAgents === true,
+          });
+          socket.emit('workflow:paused', { workflowId: data.workflowId, success: true });
+        } catch (error) {
+          this.emitWorkflowError(socket, data.workflowId, error, 'Failed to pause workflow');
+        }
+      });
+
+      socket.on('workflow:resume', async (workflowId: string) => {
+        try {
+          await this.workflowService.resumeWorkflow(workflowId, { actor: 'dashboard' });
+          socket.emit('workflow:resumed', { workflowId, success: true });
+        } catch (error) {
+          this.emitWorkflowError(socket, workflowId, error, 'Failed to resume workflow');
+        }
+      });
+
+      socket.on('workflow:terminate', async (workflowId: string) => {
+        try {
+          await this.workflowService.terminateWorkflow(workflowId, 'Dashboard user');
+          socket.emit('workflow:terminated', { workflowId, success: true });
+        } catch (error) {
+          this.emitWorkflowError(socket, workflowId, error, 'Failed to terminate workflow');
+        }
+      });
+
       // Subscribe to all updates (dashboard overview)
       socket.on('subscribe:all', () => {
         socket.join('dashboard');
@@ -411,27 +714,51 @@ export class MonitoringServerV2 {
       Connection: 'keep-alive',
     });
 
-    // Send initial connection message
-    res.write(`data: ${JSON.stringify({ type: 'connected', timestamp: new Date() })}\n\n`);
+    const send = (type: string, data?: unknown): void => {
+      res.write(`data: ${JSON.stringify({ type, data, timestamp: new Date() })}\n\n`);
+    };
 
-    // Poll for updates every 2 seconds
-    const interval = setInterval(async () => {
-      try {
-        const metrics = await this.getSystemMetrics();
-        res.write(`data: ${JSON.stringify({ type: 'metrics', data: metrics })}\n\n`);
+    // Send initial connection message
+    send('connected');
 
-        // Check for recent events
-        const recentEvents = await this.getRecentEvents();
-        if (recentEvents.length > 0) {
-          res.write(`data: ${JSON.stringify({ type: 'events', data: recentEvents })}\n\n`);
-        }
-      } catch (error) {
-        this.serverLogger.error({ error }, 'SSE polling error');
+    // Push metrics on changes (coalesced), and periodically as a fallback
+    let pending: NodeJS.Timeout | null = null;
+    const sendMetrics = (): void => {
+      if (pending) {
+        return;
       }
-    }, 2000);
+      pending = setTimeout(() => {
+        pending = null;
+        this.getSystemMetrics()
+          .then((metrics) => send('metrics', metrics))
+          .catch((error: unknown) => this.serverLogger.error({ error }, 'SSE metrics error'));
+      }, METRICS_REFRESH_DELAY);
+    };
+
+    const unsubscribers = [
+      eventBus.on('agent.status_changed', (change) => {
+        send('agent_status', this.toStatusUpdate(change));
+        sendMetrics();
+      }),
+      db.subscribe('workflow_node_changed', (change) => {
+        send('workflow_node', change);
+        sendMetrics();
+      }),
+      db.subscribe('agent_event_created', ({ event_id }) => {
+        this.getAgentEvent(event_id)
+          .then((event) => event && send('events', [event]))
+          .catch((error: unknown) => this.serverLogger.error({ error }, 'SSE event error'));
+      }),
+    ];
+    sendMetrics();
+    const interval = setInterval(sendMetrics, config.scheduler.fallbackPollInterval);
 
     req.on('close', () => {
       clearInterval(interval);
+      if (pending) {
+        clearTimeout(pending);
+      }
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
     });
   }
 
@@ -457,9 +784,21 @@ export class MonitoringServerV2 {
       SELECT COUNT(*) as count FROM approval_requests WHERE status = 'pending'
     `).catch(() => ({ rows: [{ count: 0 }] }));
 
-    const workflowCount = await db.query(`
-      SELECT COUNT(*) as count FROM workflow_graphs WHERE status = 'active'
-    `).catch(() => ({ rows: [{ count: 0 }] }));
+    const workflowCount = await db.query<{ count: string; paused: string }>(`
+      SELECT
+        COUNT(*) FILTER (WHERE status = 'active') as count,
+        COUNT(*) FILTER (WHERE status = 'paused') as paused
+      FROM workflow_graphs
+    `).catch(() => ({ rows: [{ count: '0', paused: '0' }] }));
+
+    const queue = await db.query<{ count: string; oldest_ms: string; avg_ms: string }>(`
+      SELECT
+        COUNT(*) as count,
+        COALESCE(MAX(EXTRACT(EPOCH FROM (NOW() - updated_at)) * 1000), 0) as oldest_ms,
+        COALESCE(AVG(EXTRACT(EPOCH FROM (NOW() - updated_at)) * 1000), 0) as avg_ms
+      FROM agents
+      WHERE status = 'pending'
+    `);
 
     const row = result.rows[0];
     return {
@@ -471,7 +810,11 @@ export class MonitoringServerV2 {
       totalTokensUsed: parseInt(row.total_tokens) || 0,
       avgDurationMs: parseFloat(row.avg_duration_ms) || 0,
       pendingApprovals: parseInt(approvalCount.rows[0]?.count) || 0,
-      activeWorkflows: parseInt(workflowCount.rows[0]?.count) || 0,
+      activeWorkflows: parseInt(workflowCount.rows[0].count, 10) || 0,
+      pausedWorkflows: parseInt(workflowCount.rows[0].paused, 10) || 0,
+      queuedAgents: parseInt(queue.rows[0].count, 10) || 0,
+      oldestQueueWaitMs: Math.round(parseFloat(queue.rows[0].oldest_ms)) || 0,
+      avgQueueWaitMs: Math.round(parseFloat(queue.rows[0].avg_ms)) || 0,
     };
   }
 
@@ -506,7 +849,7 @@ export class MonitoringServerV2 {
     const agent = await this.agentRepo.findById(agentId);
     if (!agent) return null;
 
-    const [budget, traces, decisions, events, interventions] = await Promise.all([
+    const [budget, traces, decisions, events, interventions, results] = await Promise.all([
       db.query('SELECT * FROM budgets WHERE agent_id = $1', [agentId]).catch(() => ({ rows: [] })),
       db.query(
         'SELECT * FROM agent_traces WHERE agent_id = $1 ORDER BY trace_index DESC LIMIT 50',
@@ -524,6 +867,7 @@ export class MonitoringServerV2 {
         'SELECT * FROM agent_interventions WHERE agent_id = $1 ORDER BY intervened_at DESC',
         [agentId]
       ).catch(() => ({ rows: [] })),
+      this.resultRepo.findByAgentId(agentId).catch(() => []),
     ]);
 
     return {
@@ -533,6 +877,9 @@ export class MonitoringServerV2 {
       decisions: decisions.rows,
       events: events.rows,
       interventions: interventions.rows,
+      // Latest execution result, plus earlier ones (retries, interactive turns)
+      result: results.at(-1) ?? null,
+      results,
     };
   }
 
@@ -575,7 +922,7 @@ export class MonitoringServerV2 {
         COUNT(n.id) FILTER (WHERE n.execution_status = 'executing') as executing_nodes
       FROM workflow_graphs g
       LEFT JOIN workflow_nodes n ON g.id = n.workflow_graph_id
-      WHERE g.status IN ('active', 'pending')
+      WHERE g.status IN ('active', 'paused', 'pending')
       GROUP BY g.id
       ORDER BY g.created_at DESC
     `);
@@ -592,6 +939,16 @@ export class MonitoringServerV2 {
     return result.rows;
   }
 
+  private async getAgentEvent(
+    eventId: string
+  ): Promise<{ agent_id: string; event_type: string } | null> {
+    const result = await db.query<{ agent_id: string; event_type: string }>(
+      'SELECT * FROM agent_events WHERE id = $1',
+      [eventId]
+    );
+    return result.rows[0] ?? null;
+  }
+
   private async getNotifications(userId: string): Promise<any[]> {
     const result = await db.query(`
       SELECT * FROM notifications
@@ -615,74 +972,121 @@ export class MonitoringServerV2 {
   // Agent Control Methods
   // ===========================================================================
 
+  /**
+   * Request a pause and tell the dashboard
+   */
   private async pauseAgent(agentId: string, reason: string): Promise<void> {
-    await db.query(`
-      UPDATE agents
-      SET control_state = 'paused', paused_at = NOW(), pause_reason = $2
-      WHERE id = $1
-    `, [agentId, reason]);
-
-    await this.recordControlCommand(agentId, 'pause', reason);
+    await this.agentService.pauseAgent(agentId, reason, 'dashboard');
     this.broadcastAgentUpdate(agentId, 'paused');
   }
 
+  /**
+   * Request a resume and tell the dashboard
+   */
   private async resumeAgent(agentId: string): Promise<void> {
-    await db.query(`
-      UPDATE agents
-      SET control_state = 'running', paused_at = NULL, pause_reason = NULL
-      WHERE id = $1
-    `, [agentId]);
-
-    await this.recordControlCommand(agentId, 'resume', 'Manual resume');
+    await this.agentService.resumeAgent(agentId, 'dashboard');
     this.broadcastAgentUpdate(agentId, 'resumed');
   }
 
-  private async terminateAgent(agentId: string, reason: string): Promise<void> {
-    await db.query(`
-      UPDATE agents
-      SET control_state = 'terminated', status = 'failed'
-      WHERE id = $1
-    `, [agentId]);
+  /**
+   * Terminate an agent with the agents it spawned and tell the dashboard
+   */
+  private async terminateAgent(agentId: string, reason: string): Promise<AgentTermination> {
+    const termination = await this.agentService.terminateAgent(agentId, reason, 'dashboard');
+    for (const terminatedId of termination.terminated) {
+      this.broadcastAgentUpdate(terminatedId, 'terminated');
+    }
+    return termination;
+  }
 
-    await this.recordControlCommand(agentId, 'terminate', reason);
-    this.broadcastAgentUpdate(agentId, 'terminated');
+  /**
+   * Tell a socket client that a workflow control command failed
+   * Rejections get the code of their REST status (see sendControlError()):
+   * 'INVALID_TRANSITION' for illegal status changes, 'NOT_FOUND' for unknown
+   * workflows. Anything else is logged and reported as 'INTERNAL_ERROR'.
+   */
+  private emitWorkflowError(
+    socket: Socket,
+    workflowId: string,
+    error: unknown,
+    message: string
+  ): void {
+    if (error instanceof InvalidWorkflowTransitionError) {
+      socket.emit('workflow:error', { workflowId, code: 'INVALID_TRANSITION', error: error.message });
+      return;
+    }
+    if (error instanceof Error && error.message.startsWith('Workflow not found')) {
+      socket.emit('workflow:error', { workflowId, code: 'NOT_FOUND', error: error.message });
+      return;
+    }
+    this.serverLogger.error({ error, graphId: workflowId }, message);
+    socket.emit('workflow:error', { workflowId, code: 'INTERNAL_ERROR', error: message });
   }
 
-  private async recordControlCommand(agentId: string, commandType: string, reason: string): Promise<void> {
-    await db.query(`
-      INSERT INTO agent_control_commands (agent_id, command_type, issued_by, status, executed_at, metadata)
-      VALUES ($1, $2, 'dashboard', 'executed', NOW(), $3)
-    `, [agentId, commandType, JSON.stringify({ reason })]);
+  /**
+   * Answer a rejected control request (unknown agent or workflow, illegal status change)
+   *
+   * @returns True if a response was sent
+   */
+  private sendControlError(res: Response, error: unknown): boolean {
+    if (
+      error instanceof InvalidAgentTransitionError ||
+      error instanceof InvalidWorkflowTransitionError
+    ) {
+      res.status(409).json({ error: error.message });
+      return true;
+    }
+    if (error instanceof Error && /^(Agent|Workflow) not found/.test(error.message)) {
+      res.status(404).json({ error: error.message });
+      return true;
+    }
+    return false;
   }
 
-  private async createIntervention(agentId: string, message: string, type: string): Promise<void> {
-    await db.query(`
-      INSERT INTO agent_interventions (agent_id, intervention_type, intervened_by, message)
-      VALUES ($1, $2, 'dashboard_user', $3)
-    `, [agentId, type || 'guidance', message]);
+  /**
+   * Record an intervention; the running agent picks it up at its next turn
+   */
+  private async createIntervention(agentId: string, message: string, type?: string): Promise<void> {
+    const intervention = await this.interventionRepo.create({
+      agent_id: agentId,
+      intervention_type: (type || 'guidance') as InterventionTypeValue,
+      intervened_by: 'dashboard_user',
+      message,
+    });
 
     // Broadcast intervention to agent subscribers
     this.io.to(`agent:${agentId}`).emit('agent:intervention', {
       agentId,
-      type,
+      interventionId: intervention.id,
+      type: intervention.intervention_type,
       message,
-      timestamp: new Date(),
+      timestamp: intervention.intervened_at,
     });
   }
 
-  private async processApproval(approvalId: string, decision: string, notes?: string): Promise<void> {
-    await db.query(`
-      UPDATE approval_requests
-      SET status = $2, reviewed_by = 'dashboard_user', reviewed_at = NOW(), review_notes = $3
-      WHERE id = $1
-    `, [approvalId, decision, notes || null]);
-
-    // Broadcast approval decision
-    this.io.to('dashboard').emit('approval:processed', {
-      approvalId,
-      decision,
-      timestamp: new Date(),
+  /**
+   * Record a dashboard decision; blocked tool calls waiting on the request pick it up
+   *
+   * @returns False if the request is not pending (already decided or expired)
+   */
+  private async processApproval(
+    approvalId: string,
+    decision: 'approved' | 'rejected',
+    notes?: string
+  ): Promise<boolean> {
+    const request = await this.approvalRepo.decide(approvalId, decision, 'dashboard_user', notes);
+    if (!request) {
+      return false;
+    }
+    eventBus.emit('approval.resolved', {
+      requestId: request.id,
+      entityType: request.entity_type,
+      entityId: request.entity_id,
+      status: request.status,
+      reviewedBy: request.reviewed_by,
     });
+
+    return true;
   }
 
   // ===========================================================================
@@ -695,6 +1099,120 @@ export class MonitoringServerV2 {
     this.io.to('dashboard').emit('agent:update', payload);
   }
 
+  /**
+   * Broadcast fresh metrics shortly, once for a burst of changes
+   */
+  private scheduleMetricsBroadcast(): void {
+    if (this.metricsRefresh) {
+      return;
+    }
+
+    this.metricsRefresh = setTimeout(() => {
+      this.metricsRefresh = null;
+      this.getSystemMetrics()
+        .then((metrics) => this.broadcastMetrics(metrics))
+        .catch((error: unknown) => {
+          this.serverLogger.error({ error }, 'Failed to broadcast metrics');
+        });
+    }, METRICS_REFRESH_DELAY);
+  }
+
+  /**
+   * Forward events and database change notifications to dashboard clients
+   */
+  private subscribeToChanges(): void {
+    this.unsubscribers = [
+      eventBus.on('agent.spawned', (agent) => {
+        this.broadcastAgentUpdate(agent.agentId, 'spawned', agent);
+        this.scheduleMetricsBroadcast();
+      }),
+      eventBus.on('agent.status_changed', (change) => {
+        this.broadcastAgentUpdate(change.agentId, 'status_changed', this.toStatusUpdate(change));
+        this.scheduleMetricsBroadcast();
+      }),
+      eventBus.on('approval.requested', (request) => {
+        this.broadcastNotification({ type: 'approval_required', ...request });
+        this.scheduleMetricsBroadcast();
+      }),
+      eventBus.on('approval.resolved', ({ requestId, status }) => {
+        this.io.to('dashboard').emit('approval:processed', {
+          approvalId: requestId,
+          decision: status,
+          timestamp: new Date(),
+        });
+        this.scheduleMetricsBroadcast();
+      }),
+      eventBus.on('budget.threshold', (usage) => {
+        this.broadcastAgentUpdate(usage.agentId, 'budget_threshold', usage);
+        this.broadcastNotification({ type: 'budget_warning', ...usage });
+      }),
+      eventBus.on('workflow.completed', ({ graphId }) => {
+        this.broadcastWorkflowUpdate(graphId, 'completed');
+      }),
+      eventBus.on('workflow.failed', ({ graphId, reason }) => {
+        this.broadcastWorkflowUpdate(graphId, 'failed', reason);
+      }),
+      eventBus.on('workflow.cancelled', ({ graphId, reason }) => {
+        this.broadcastWorkflowUpdate(graphId, 'cancelled', reason);
+      }),
+      eventBus.on('workflow.paused', ({ graphId, reason }) => {
+        this.broadcastWorkflowUpdate(graphId, 'paused', reason ?? undefined);
+      }),
+      eventBus.on('workflow.resumed', ({ graphId }) => {
+        this.broadcastWorkflowUpdate(graphId, 'active');
+      }),
+      db.subscribe('workflow_node_changed', (change) => {
+        this.broadcastWorkflowNodeUpdate(change);
+        this.scheduleMetricsBroadcast();
+      }),
+      db.subscribe('message_created', (message) => {
+        this.broadcastAgentUpdate(message.recipient_id, 'message_received', message);
+      }),
+      db.subscribe('agent_event_created', ({ event_id }) => {
+        this.getAgentEvent(event_id)
+          .then((event) => {
+            if (event) {
+              this.broadcastAgentUpdate(event.agent_id, event.event_type, event);
+            }
+          })
+          .catch((error: unknown) => {
+            this.serverLogger.error(
+              { error, eventId: event_id },
+              'Failed to broadcast agent event'
+            );
+          });
+      }),
+    ];
+  }
+
+  /**
+   * Shape of an agent status change sent to dashboard clients
+   */
+  private toStatusUpdate(
+    change: OrchestrationEvents['agent.status_changed']
+  ): Record<string, string | null> {
+    return {
+      agent_id: change.agentId,
+      status: change.to,
+      previous_status: change.from,
+      actor: change.actor,
+      reason: change.reason,
+    };
+  }
+
+  private broadcastWorkflowUpdate(graphId: string, status: string, reason?: string): void {
+    const payload = { workflowId: graphId, status, reason, timestamp: new Date() };
+    this.io.to(`workflow:${graphId}`).emit('workflow:update', payload);
+    this.io.to('dashboard').emit('workflow:update', payload);
+    this.scheduleMetricsBroadcast();
+  }
+
+  private broadcastWorkflowNodeUpdate(change: NotificationPayloads['workflow_node_changed']): void {
+    const payload = { ...change, timestamp: new Date() };
+    this.io.to(`workflow:${change.workflow_graph_id}`).emit('workflow:node_update', payload);
+    this.io.to('dashboard').emit('workflow:node_update', payload);
+  }
+
   public broadcastMetrics(metrics: DashboardMetrics): void {
     this.io.to('dashboard').emit('metrics:update', metrics);
   }
@@ -713,23 +1231,26 @@ export class MonitoringServerV2 {
 
   async start(): Promise<void> {
     await db.initialize();
+    eventBus.connect();
 
     return new Promise((resolve) => {
       this.server.listen(this.port, () => {
         this.serverLogger.info({ port: this.port }, 'MonitoringServerV2 started');
 
-        // Start metrics broadcasting (every 2 seconds)
-        this.metricsInterval = setInterval(async () => {
-          try {
-            const metrics = await this.getSystemMetrics();
-            this.broadcastMetrics(metrics);
-          } catch (error) {
-            this.serverLogger.error({ error }, 'Failed to broadcast metrics');
-          }
-        }, 2000);
+        // Push changes as the database announces them
+        this.subscribeToChanges();
 
-        // Start polling for agent updates (every 1 second)
+        // Re-send metrics periodically in case a notification was missed
+        this.metricsInterval = setInterval(
+          () => this.scheduleMetricsBroadcast(),
+          config.scheduler.fallbackPollInterval
+        );
+
+        // Poll for agent events only while notifications are unavailable
         this.pollingInterval = setInterval(async () => {
+          if (db.isListening()) {
+            return;
+          }
           try {
             const events = await this.getRecentEvents();
             if (events.length > 0) {
@@ -754,6 +1275,13 @@ export class MonitoringServerV2 {
     if (this.pollingInterval) {
       clearInterval(this.pollingInterval);
     }
+    if (this.metricsRefresh) {
+      clearTimeout(this.metricsRefresh);
+      this.metricsRefresh = null;
+    }
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+    eventBus.close();
 
     return new Promise((resolve) => {
       this.io.close(() => {
@@ -842,7 +1370,11 @@ export class MonitoringServerV2 {
       </div>
       <div class="metric-card">
         <div class="metric-value" id="active-workflows">0</div>
-        <div class="metric-label">Active Workflows</div>
+        <div class="metric-label">Active Workflows (<span id="paused-workflows">0</span> paused)</div>
+      </div>
+      <div class="metric-card">
+        <div class="metric-value" id="queued-agents">0</div>
+        <div class="metric-label">Queued Agents (oldest <span id="queue-wait">0s</span>)</div>
       </div>
     </div>
 
@@ -895,6 +1427,9 @@ export class MonitoringServerV2 {
       document.getElementById('total-tokens').textContent = metrics.totalTokensUsed.toLocaleString();
       document.getElementById('pending-approvals').textContent = metrics.pendingApprovals;
       document.getElementById('active-workflows').textContent = metrics.activeWorkflows;
+      document.getElementById('paused-workflows').textContent = metrics.pausedWorkflows;
+      document.getElementById('queued-agents').textContent = metrics.queuedAgents;
+      document.getElementById('queue-wait').textContent = Math.round(metrics.oldestQueueWaitMs / 1000) + 's';
     });
 
     socket.on('agent:update', (data) => {
@@ -902,6 +1437,10 @@ export class MonitoringServerV2 {
       fetchAgents();
     });
 
+    socket.on('workflow:update', (data) => {
+      addEvent(\`Workflow \${data.workflowId.slice(0,8)}... \${data.status}\`);
+    });
+
     function addEvent(text) {
       const time = new Date().toLocaleTimeString();
       const div = document.createElement('div');
@@ -959,6 +1498,7 @@ export class MonitoringServerV2 {
       document.getElementById('total-tokens').textContent = m.totalTokensUsed.toLocaleString();
       document.getElementById('pending-approvals').textContent = m.pendingApprovals;
       document.getElementById('active-workflows').textContent = m.activeWorkflows;
+      document.getElementById('paused-workflows').textContent = m.pausedWorkflows;
     });
   </script>
 </body>
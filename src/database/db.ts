@@ -100,6 +100,20 @@ export async function transaction<T>(
   }
 }
 
+/**
+ * Check out a dedicated client from the pool
+ * The caller must release it (client.release()).
+ *
+ * @returns Connected client
+ *
+ * @example
+ * const client = await getClient();
+ * await client.query('LISTEN agent_pending');
+ */
+export async function getClient(): Promise<PoolClient> {
+  return pool.connect();
+}
+
 /**
  * Validate database connection
  *
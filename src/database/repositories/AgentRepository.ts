@@ -1,9 +1,30 @@
 import { query } from '../db.js';
-import type { Agent, CreateAgent, UpdateAgent } from '../../models/Agent.js';
-import { AgentSchema } from '../../models/Agent.js';
+import type {
+  Agent,
+  AgentControlStateType,
+  AgentPriorityType,
+  CreateAgent,
+  UpdateAgent,
+} from '../../models/Agent.js';
+import { AgentControlState, AgentPriority, AgentSchema } from '../../models/Agent.js';
+import { AgentStateMachine } from '../../services/AgentStateMachine.js';
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../../utils/Logger.js';
 
+/**
+ * A pending agent as seen by the execution scheduler
+ */
+export interface QueuedAgent {
+  agentId: string;
+  /** Root agent of the agent's hierarchy */
+  rootId: string;
+  /** Workflow graph the agent runs a node of, if any */
+  workflowId: string | null;
+  priority: AgentPriorityType;
+  /** When the agent became pending */
+  queuedAt: Date;
+}
+
 /**
  * AgentRepository - Data Access Layer for agents table
  *
@@ -17,6 +38,7 @@ import { logger } from '../../utils/Logger.js';
  */
 export class AgentRepository {
   private logger = logger.child({ component: 'AgentRepository' });
+  private stateMachine = new AgentStateMachine();
 
   /**
    * Create a new agent in the database
@@ -128,17 +150,97 @@ export class AgentRepository {
     }
   }
 
+  /**
+   * Find pending agents with their scheduling attributes, oldest first
+   * Agents already claimed by a worker (live lease) are left out.
+   *
+   * @returns Queue of pending agents
+   */
+  async findQueued(): Promise<QueuedAgent[]> {
+    try {
+      const result = await query<{
+        id: string;
+        root_id: string;
+        workflow_graph_id: string | null;
+        priority: string;
+        updated_at: Date;
+      }>(
+        `WITH RECURSIVE lineage AS (
+           SELECT id AS agent_id, id, parent_id FROM agents WHERE status = 'pending'
+           UNION ALL
+           SELECT l.agent_id, p.id, p.parent_id
+           FROM agents p
+           INNER JOIN lineage l ON p.id = l.parent_id
+         )
+         SELECT a.id, l.id AS root_id, a.priority, a.updated_at,
+                (SELECT n.workflow_graph_id FROM workflow_nodes n
+                 WHERE n.agent_id = a.id LIMIT 1) AS workflow_graph_id
+         FROM agents a
+         INNER JOIN lineage l ON l.agent_id = a.id AND l.parent_id IS NULL
+         WHERE a.status = 'pending'
+           AND NOT EXISTS (
+             SELECT 1 FROM worker_leases wl
+             WHERE wl.resource_type = 'agent' AND wl.resource_id = a.id
+               AND wl.expires_at > NOW()
+           )
+         ORDER BY a.updated_at, a.id`
+      );
+
+      return result.rows.map(row => ({
+        agentId: row.id,
+        rootId: row.root_id,
+        workflowId: row.workflow_graph_id,
+        priority: AgentPriority.parse(row.priority),
+        queuedAt: new Date(row.updated_at),
+      }));
+    } catch (error) {
+      this.logger.error({ error }, 'Failed to find queued agents');
+      throw error;
+    }
+  }
+
+  /**
+   * Get an agent's operator control state
+   *
+   * @param id - Agent UUID
+   * @returns Control state ('running' if never set)
+   * @throws Error if agent not found
+   */
+  async getControlState(id: string): Promise<AgentControlStateType> {
+    try {
+      const result = await query<{ control_state: string | null }>(
+        'SELECT control_state FROM agents WHERE id = $1',
+        [id]
+      );
+
+      if (result.rows.length === 0) {
+        throw new Error(`Agent not found: ${id}`);
+      }
+
+      return AgentControlState.parse(result.rows[0].control_state ?? 'running');
+    } catch (error) {
+      this.logger.error({ error, agentId: id }, 'Failed to get agent control state');
+      throw error;
+    }
+  }
+
   /**
    * Update an agent
+   * A status change goes through AgentStateMachine (actor 'system').
    *
    * @param id - Agent UUID
    * @param data - Fields to update
    * @returns Updated agent
    * @throws Error if agent not found
+   * @throws InvalidAgentTransitionError if the status change is not allowed
    */
   async update(id: string, data: UpdateAgent): Promise<Agent> {
     try {
-      // Build dynamic UPDATE query based on provided fields
+      if (data.status !== undefined) {
+        await this.stateMachine.transition(id, data.status, { actor: 'system' });
+      }
+
+      // Build dynamic UPDATE query based on the other provided fields
       const updates: string[] = [];
       const values: any[] = [];
       let paramIndex = 1;
@@ -147,10 +249,6 @@ export class AgentRepository {
         updates.push(`role = $${paramIndex++}`);
         values.push(data.role);
       }
-      if (data.status !== undefined) {
-        updates.push(`status = $${paramIndex++}`);
-        values.push(data.status);
-      }
       if (data.depth_level !== undefined) {
         updates.push(`depth_level = $${paramIndex++}`);
         values.push(data.depth_level);
@@ -0,0 +1,136 @@
+import { query } from '../db.js';
+import {
+  AgentResultRecordSchema,
+  CreateAgentResultSchema,
+  type AgentResultRecord,
+  type CreateAgentResult,
+} from '../../models/AgentResult.js';
+import { logger } from '../../utils/Logger.js';
+
+/**
+ * Raw agent_results row (NUMERIC columns arrive as strings)
+ */
+interface AgentResultRow {
+  id: string;
+  agent_id: string;
+  outcome: string;
+  finish_reason: string | null;
+  error_message: string | null;
+  output: string;
+  structured_output: Record<string, unknown> | null;
+  tokens_used: number;
+  cost_usd: string | number | null;
+  duration_ms: number;
+  created_at: Date;
+}
+
+/**
+ * AgentResultRepository - Data Access Layer for agent_results table
+ *
+ * Each execution appends a row; an agent's latest row is its result.
+ */
+export class AgentResultRepository {
+  private logger = logger.child({ component: 'AgentResultRepository' });
+
+  /**
+   * Record the result of an execution
+   *
+   * @param data - Outcome, output and usage
+   * @returns Created result
+   */
+  async create(data: CreateAgentResult): Promise<AgentResultRecord> {
+    const record = CreateAgentResultSchema.parse(data);
+
+    try {
+      const result = await query<AgentResultRow>(
+        `INSERT INTO agent_results (
+           agent_id, outcome, finish_reason, error_message, output,
+           structured_output, tokens_used, cost_usd, duration_ms
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         RETURNING *`,
+        [
+          record.agent_id,
+          record.outcome,
+          record.finish_reason,
+          record.error_message,
+          record.output,
+          record.structured_output ? JSON.stringify(record.structured_output) : null,
+          record.tokens_used,
+          record.cost_usd,
+          Math.round(record.duration_ms),
+        ]
+      );
+
+      const created = this.mapRowToResult(result.rows[0]);
+      this.logger.info(
+        {
+          resultId: created.id,
+          agentId: created.agent_id,
+          outcome: created.outcome,
+          tokensUsed: created.tokens_used,
+        },
+        'Agent result recorded'
+      );
+      return created;
+    } catch (error) {
+      this.logger.error({ error, agentId: record.agent_id }, 'Failed to record agent result');
+      throw error;
+    }
+  }
+
+  /**
+   * Find an agent's most recent result
+   *
+   * @param agentId - Agent UUID
+   * @returns Latest result or null if the agent has not finished an execution
+   */
+  async findLatestByAgentId(agentId: string): Promise<AgentResultRecord | null> {
+    try {
+      const result = await query<AgentResultRow>(
+        `SELECT * FROM agent_results
+         WHERE agent_id = $1
+         ORDER BY created_at DESC, id DESC
+         LIMIT 1`,
+        [agentId]
+      );
+      return result.rows[0] ? this.mapRowToResult(result.rows[0]) : null;
+    } catch (error) {
+      this.logger.error({ error, agentId }, 'Failed to find latest agent result');
+      throw error;
+    }
+  }
+
+  /**
+   * Find all results of an agent, oldest first
+   *
+   * @param agentId - Agent UUID
+   * @returns Results
+   */
+  async findByAgentId(agentId: string): Promise<AgentResultRecord[]> {
+    try {
+      const result = await query<AgentResultRow>(
+        'SELECT * FROM agent_results WHERE agent_id = $1 ORDER BY created_at, id',
+        [agentId]
+      );
+      return result.rows.map((row) => this.mapRowToResult(row));
+    } catch (error) {
+      this.logger.error({ error, agentId }, 'Failed to find agent results');
+      throw error;
+    }
+  }
+
+  /**
+   * Map database row to AgentResultRecord model with proper type conversion
+   *
+   * @param row - Raw database row
+   * @returns Typed AgentResultRecord object
+   */
+  private mapRowToResult(row: AgentResultRow): AgentResultRecord {
+    return AgentResultRecordSchema.parse({
+      ...row,
+      cost_usd: row.cost_usd === null ? null : Number(row.cost_usd),
+      created_at: new Date(row.created_at),
+    });
+  }
+}
@@ -0,0 +1,71 @@
+import { query } from '../db.js';
+import {
+  AgentStatusTransitionSchema,
+  type AgentStatusTransition,
+} from '../../models/AgentStatusTransition.js';
+import { logger } from '../../utils/Logger.js';
+
+/**
+ * AgentStatusTransitionRepository - Data Access Layer for agent_status_transitions table
+ *
+ * Read side of the status history written by AgentStateMachine.
+ */
+export class AgentStatusTransitionRepository {
+  private logger = logger.child({ component: 'AgentStatusTransitionRepository' });
+
+  /**
+   * Find the status history of an agent, oldest first
+   *
+   * @param agentId - Agent UUID
+   * @returns Transitions in the order they happened
+   */
+  async findByAgentId(agentId: string): Promise<AgentStatusTransition[]> {
+    try {
+      const result = await query<AgentStatusTransition>(
+        `SELECT * FROM agent_status_transitions
+         WHERE agent_id = $1
+         ORDER BY created_at ASC, id ASC`,
+        [agentId]
+      );
+      return result.rows.map((row) => this.mapRowToTransition(row));
+    } catch (error) {
+      this.logger.error({ error, agentId }, 'Failed to find status transitions');
+      throw error;
+    }
+  }
+
+  /**
+   * Find the most recent status change of an agent
+   *
+   * @param agentId - Agent UUID
+   * @returns Latest transition, or null if the status never changed
+   */
+  async findLatest(agentId: string): Promise<AgentStatusTransition | null> {
+    try {
+      const result = await query<AgentStatusTransition>(
+        `SELECT * FROM agent_status_transitions
+         WHERE agent_id = $1
+         ORDER BY created_at DESC, id DESC
+         LIMIT 1`,
+        [agentId]
+      );
+      return result.rows[0] ? this.mapRowToTransition(result.rows[0]) : null;
+    } catch (error) {
+      this.logger.error({ error, agentId }, 'Failed to find latest status transition');
+      throw error;
+    }
+  }
+
+  /**
+   * Map database row to AgentStatusTransition model
+   *
+   * @param row - Raw database row
+   * @returns Typed AgentStatusTransition object
+   */
+  private mapRowToTransition(row: AgentStatusTransition): AgentStatusTransition {
+    return AgentStatusTransitionSchema.parse({
+      ...row,
+      created_at: new Date(row.created_at),
+    });
+  }
+}
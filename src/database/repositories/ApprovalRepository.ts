@@ -0,0 +1,154 @@
+import { query } from '../db.js';
+import {
+  ApprovalRequestSchema,
+  CreateApprovalRequestSchema,
+  type ApprovalRequest,
+  type ApprovalStatusType,
+  type CreateApprovalRequest,
+} from '../../models/ApprovalRequest.js';
+import { logger } from '../../utils/Logger.js';
+
+/**
+ * Raw approval_requests row
+ */
+interface ApprovalRequestRow {
+  id: string;
+  request_type: string;
+  entity_type: string;
+  entity_id: string;
+  requested_by: string | null;
+  request_data: Record<string, unknown>;
+  risk_level: string;
+  estimated_cost: number | null;
+  status: string;
+  reviewed_by: string | null;
+  reviewed_at: Date | null;
+  review_notes: string | null;
+  expires_at: Date | null;
+  requested_at: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * ApprovalRepository - Data Access Layer for approval_requests table
+ *
+ * Requests are created by the system (tool permission gate, delegation
+ * engine) and decided from the dashboard.
+ */
+export class ApprovalRepository {
+  private logger = logger.child({ component: 'ApprovalRepository' });
+
+  /**
+   * Create a pending approval request
+   *
+   * @param data - Request details
+   * @returns Created request
+   */
+  async create(data: CreateApprovalRequest): Promise<ApprovalRequest> {
+    const request = CreateApprovalRequestSchema.parse(data);
+
+    try {
+      const result = await query<ApprovalRequestRow>(
+        `INSERT INTO approval_requests (
+          request_type, entity_type, entity_id, requested_by, request_data,
+          risk_level, estimated_cost, expires_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        RETURNING *`,
+        [
+          request.request_type,
+          request.entity_type,
+          request.entity_id,
+          request.requested_by,
+          JSON.stringify(request.request_data),
+          request.risk_level,
+          request.estimated_cost,
+          request.expires_at,
+        ]
+      );
+
+      const created = this.mapRowToRequest(result.rows[0]);
+      this.logger.info(
+        { approvalId: created.id, requestType: created.request_type, entityId: created.entity_id },
+        'Approval request created'
+      );
+      return created;
+    } catch (error) {
+      this.logger.error({ error, requestType: request.request_type }, 'Failed to create approval request');
+      throw error;
+    }
+  }
+
+  /**
+   * Find an approval request by ID
+   *
+   * @param id - Request ID
+   * @returns Request, or null if not found
+   */
+  async findById(id: string): Promise<ApprovalRequest | null> {
+    try {
+      const result = await query<ApprovalRequestRow>('SELECT * FROM approval_requests WHERE id = $1', [
+        id,
+      ]);
+      return result.rows.length > 0 ? this.mapRowToRequest(result.rows[0]) : null;
+    } catch (error) {
+      this.logger.error({ error, approvalId: id }, 'Failed to find approval request');
+      throw error;
+    }
+  }
+
+  /**
+   * Record a decision on a pending request
+   * Requests that were already decided are left untouched.
+   *
+   * @param id - Request ID
+   * @param status - New status
+   * @param reviewedBy - Reviewer ('dashboard_user', 'system', ...)
+   * @param notes - Optional review notes
+   * @returns Updated request, or null if it was not pending
+   */
+  async decide(
+    id: string,
+    status: Exclude<ApprovalStatusType, 'pending'>,
+    reviewedBy: string,
+    notes?: string
+  ): Promise<ApprovalRequest | null> {
+    try {
+      const result = await query<ApprovalRequestRow>(
+        `UPDATE approval_requests
+         SET status = $2, reviewed_by = $3, reviewed_at = NOW(), review_notes = $4,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1 AND status = 'pending'
+         RETURNING *`,
+        [id, status, reviewedBy, notes ?? null]
+      );
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      this.logger.info({ approvalId: id, status, reviewedBy }, 'Approval request decided');
+      return this.mapRowToRequest(result.rows[0]);
+    } catch (error) {
+      this.logger.error({ error, approvalId: id }, 'Failed to decide approval request');
+      throw error;
+    }
+  }
+
+  /**
+   * Map database row to ApprovalRequest model with proper type conversion
+   *
+   * @param row - Raw database row
+   * @returns Typed ApprovalRequest object
+   */
+  private mapRowToRequest(row: ApprovalRequestRow): ApprovalRequest {
+    return ApprovalRequestSchema.parse({
+      ...row,
+      reviewed_at: row.reviewed_at ? new Date(row.reviewed_at) : null,
+      expires_at: row.expires_at ? new Date(row.expires_at) : null,
+      requested_at: new Date(row.requested_at),
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at),
+    });
+  }
+}
@@ -0,0 +1,134 @@
+import { query } from '../db.js';
+import {
+  CheckpointSchema,
+  CreateCheckpointSchema,
+  type Checkpoint,
+  type CreateCheckpoint,
+} from '../../models/Checkpoint.js';
+import { logger } from '../../utils/Logger.js';
+
+/**
+ * Raw checkpoints row (state is stored in the state_snapshot column)
+ */
+interface CheckpointRow {
+  id: string;
+  agent_id: string;
+  state_snapshot: Record<string, unknown>;
+  label: string | null;
+  created_at: Date;
+}
+
+/**
+ * CheckpointRepository - Data Access Layer for checkpoints table
+ *
+ * Maps the state_snapshot column to Checkpoint.state_data.
+ */
+export class CheckpointRepository {
+  private logger = logger.child({ component: 'CheckpointRepository' });
+
+  /**
+   * Save a checkpoint
+   *
+   * @param data - Agent, state and optional label
+   * @returns Created checkpoint
+   */
+  async create(data: CreateCheckpoint): Promise<Checkpoint> {
+    const checkpoint = CreateCheckpointSchema.parse(data);
+
+    try {
+      const result = await query<CheckpointRow>(
+        `INSERT INTO checkpoints (agent_id, state_snapshot, label)
+         VALUES ($1, $2, $3)
+         RETURNING *`,
+        [checkpoint.agent_id, JSON.stringify(checkpoint.state_data), checkpoint.label ?? null]
+      );
+
+      const created = this.mapRowToCheckpoint(result.rows[0]);
+      this.logger.info(
+        { checkpointId: created.id, agentId: created.agent_id, label: created.label },
+        'Checkpoint saved'
+      );
+      return created;
+    } catch (error) {
+      this.logger.error({ error, agentId: checkpoint.agent_id }, 'Failed to save checkpoint');
+      throw error;
+    }
+  }
+
+  /**
+   * Find a checkpoint by ID
+   *
+   * @param id - Checkpoint UUID
+   * @returns Checkpoint, or null if not found
+   */
+  async findById(id: string): Promise<Checkpoint | null> {
+    try {
+      const result = await query<CheckpointRow>('SELECT * FROM checkpoints WHERE id = $1', [id]);
+      return result.rows.length > 0 ? this.mapRowToCheckpoint(result.rows[0]) : null;
+    } catch (error) {
+      this.logger.error({ error, checkpointId: id }, 'Failed to find checkpoint');
+      throw error;
+    }
+  }
+
+  /**
+   * List an agent's checkpoints, newest first
+   *
+   * @param agentId - Agent UUID
+   * @param limit - Maximum number of checkpoints
+   * @returns Checkpoints
+   */
+  async findByAgentId(agentId: string, limit = 50): Promise<Checkpoint[]> {
+    try {
+      const result = await query<CheckpointRow>(
+        `SELECT * FROM checkpoints
+         WHERE agent_id = $1
+         ORDER BY created_at DESC, id DESC
+         LIMIT $2`,
+        [agentId, limit]
+      );
+      return result.rows.map((row) => this.mapRowToCheckpoint(row));
+    } catch (error) {
+      this.logger.error({ error, agentId }, 'Failed to list checkpoints');
+      throw error;
+    }
+  }
+
+  /**
+   * Find an agent's most recent checkpoint
+   *
+   * @param agentId - Agent UUID
+   * @returns Latest checkpoint, or null if the agent has none
+   */
+  async findLatestByAgentId(agentId: string): Promise<Checkpoint | null> {
+    try {
+      const result = await query<CheckpointRow>(
+        `SELECT * FROM checkpoints
+         WHERE agent_id = $1
+         ORDER BY created_at DESC, id DESC
+         LIMIT 1`,
+        [agentId]
+      );
+      return result.rows.length > 0 ? this.mapRowToCheckpoint(result.rows[0]) : null;
+    } catch (error) {
+      this.logger.error({ error, agentId }, 'Failed to find latest checkpoint');
+      throw error;
+    }
+  }
+
+  /**
+   * Map database row to Checkpoint model with proper type conversion
+   *
+   * @param row - Raw database row
+   * @returns Typed Checkpoint object
+   */
+  private mapRowToCheckpoint(row: CheckpointRow): Checkpoint {
+    return CheckpointSchema.parse({
+      id: row.id,
+      agent_id: row.agent_id,
+      state_data: row.state_snapshot,
+      label: row.label,
+      created_at: new Date(row.created_at),
+    });
+  }
+}
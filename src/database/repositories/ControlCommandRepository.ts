@@ -0,0 +1,203 @@
+import { query } from '../db.js';
+import {
+  ControlCommandSchema,
+  CreateControlCommandSchema,
+  type ControlCommand,
+  type ControlCommandTypeValue,
+  type CreateControlCommand,
+} from '../../models/ControlCommand.js';
+import { logger } from '../../utils/Logger.js';
+
+/**
+ * Raw agent_control_commands row
+ */
+interface ControlCommandRow {
+  id: string;
+  agent_id: string;
+  command_type: string;
+  issued_by: string;
+  issued_at: Date;
+  executed_at: Date | null;
+  status: string;
+  error_message: string | null;
+  metadata: Record<string, unknown> | null;
+}
+
+/**
+ * ControlCommandRepository - Data Access Layer for agent_control_commands table
+ *
+ * Commands are issued as 'pending' (dashboard, system) and claimed by the
+ * agent they target when it reaches a safe point: pending -> executing ->
+ * executed (or failed). Commands superseded before being claimed are cancelled.
+ */
+export class ControlCommandRepository {
+  private logger = logger.child({ component: 'ControlCommandRepository' });
+
+  /**
+   * Issue a pending command
+   *
+   * @param data - Command details
+   * @returns Created command
+   */
+  async create(data: CreateControlCommand): Promise<ControlCommand> {
+    const command = CreateControlCommandSchema.parse(data);
+
+    try {
+      const result = await query<ControlCommandRow>(
+        `INSERT INTO agent_control_commands (agent_id, command_type, issued_by, metadata)
+         VALUES ($1, $2, $3, $4)
+         RETURNING *`,
+        [
+          command.agent_id,
+          command.command_type,
+          command.issued_by,
+          JSON.stringify(command.metadata),
+        ]
+      );
+
+      const created = this.mapRowToCommand(result.rows[0]);
+      this.logger.info(
+        { commandId: created.id, agentId: created.agent_id, commandType: created.command_type },
+        'Control command issued'
+      );
+      return created;
+    } catch (error) {
+      this.logger.error({ error, agentId: command.agent_id }, 'Failed to issue control command');
+      throw error;
+    }
+  }
+
+  /**
+   * Find all commands issued to an agent, oldest first
+   *
+   * @param agentId - Agent UUID
+   * @returns Commands
+   */
+  async findByAgentId(agentId: string): Promise<ControlCommand[]> {
+    try {
+      const result = await query<ControlCommandRow>(
+        'SELECT * FROM agent_control_commands WHERE agent_id = $1 ORDER BY issued_at, id',
+        [agentId]
+      );
+      return result.rows.map((row) => this.mapRowToCommand(row));
+    } catch (error) {
+      this.logger.error({ error, agentId }, 'Failed to find control commands');
+      throw error;
+    }
+  }
+
+  /**
+   * Claim an agent's pending commands of one type (pending -> executing)
+   *
+   * @param agentId - Agent UUID
+   * @param commandType - Command type to claim
+   * @returns Claimed commands (empty if none were pending)
+   */
+  async claimPending(
+    agentId: string,
+    commandType: ControlCommandTypeValue
+  ): Promise<ControlCommand[]> {
+    try {
+      const result = await query<ControlCommandRow>(
+        `UPDATE agent_control_commands
+         SET status = 'executing'
+         WHERE agent_id = $1 AND command_type = $2 AND status = 'pending'
+         RETURNING *`,
+        [agentId, commandType]
+      );
+      return result.rows.map((row) => this.mapRowToCommand(row));
+    } catch (error) {
+      this.logger.error({ error, agentId, commandType }, 'Failed to claim control commands');
+      throw error;
+    }
+  }
+
+  /**
+   * Mark claimed commands as executed
+   *
+   * @param ids - Command IDs
+   */
+  async markExecuted(ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+
+    try {
+      await query(
+        `UPDATE agent_control_commands
+         SET status = 'executed', executed_at = NOW()
+         WHERE id = ANY($1::uuid[]) AND status = 'executing'`,
+        [ids]
+      );
+    } catch (error) {
+      this.logger.error({ error, ids }, 'Failed to mark control commands executed');
+      throw error;
+    }
+  }
+
+  /**
+   * Mark claimed commands as failed
+   *
+   * @param ids - Command IDs
+   * @param errorMessage - Why the agent could not act on them
+   */
+  async markFailed(ids: string[], errorMessage: string): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+
+    try {
+      await query(
+        `UPDATE agent_control_commands
+         SET status = 'failed', error_message = $2
+         WHERE id = ANY($1::uuid[]) AND status IN ('pending', 'executing')`,
+        [ids, errorMessage]
+      );
+    } catch (error) {
+      this.logger.error({ error, ids }, 'Failed to mark control commands failed');
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel an agent's pending commands of one type
+   *
+   * @param agentId - Agent UUID
+   * @param commandType - Command type to cancel
+   * @param reason - Why they were superseded
+   * @returns Number of cancelled commands
+   */
+  async cancelPending(
+    agentId: string,
+    commandType: ControlCommandTypeValue,
+    reason: string
+  ): Promise<number> {
+    try {
+      const result = await query(
+        `UPDATE agent_control_commands
+         SET status = 'cancelled', error_message = $3
+         WHERE agent_id = $1 AND command_type = $2 AND status = 'pending'`,
+        [agentId, commandType, reason]
+      );
+      return result.rowCount ?? 0;
+    } catch (error) {
+      this.logger.error({ error, agentId, commandType }, 'Failed to cancel control commands');
+      throw error;
+    }
+  }
+
+  /**
+   * Map database row to ControlCommand model with proper type conversion
+   *
+   * @param row - Raw database row
+   * @returns Typed ControlCommand object
+   */
+  private mapRowToCommand(row: ControlCommandRow): ControlCommand {
+    return ControlCommandSchema.parse({
+      ...row,
+      metadata: row.metadata ?? {},
+      issued_at: new Date(row.issued_at),
+      executed_at: row.executed_at ? new Date(row.executed_at) : null,
+    });
+  }
+}
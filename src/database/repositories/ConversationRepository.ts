@@ -0,0 +1,148 @@
+import { query } from '../db.js';
+import type { CreateMessage, Message } from '../../models/Message.js';
+import { MessageSchema } from '../../models/Message.js';
+import { logger } from '../../utils/Logger.js';
+
+/**
+ * Raw conversation_messages row
+ */
+interface ConversationMessageRow {
+  id: string;
+  agent_id: string;
+  role: string;
+  content: string;
+  metadata: Record<string, unknown> | null;
+  sequence_no: string;
+  created_at: Date;
+}
+
+/**
+ * ConversationRepository - Data Access Layer for conversation_messages table
+ *
+ * Stores the LLM conversation of each agent, one row per message, in turn order.
+ * Used by AgentCore to persist turns and to rebuild history when a
+ * conversation is continued.
+ */
+export class ConversationRepository {
+  private logger = logger.child({ component: 'ConversationRepository' });
+
+  /**
+   * Append a message to an agent's conversation
+   *
+   * @param data - Message data (see createUserMessage/createAssistantMessage)
+   * @returns Stored message
+   * @throws Error if insert fails
+   */
+  async append(data: CreateMessage): Promise<Message> {
+    try {
+      const result = await query<ConversationMessageRow>(
+        `INSERT INTO conversation_messages (agent_id, role, content, metadata)
+         VALUES ($1, $2, $3, $4)
+         RETURNING *`,
+        [data.agent_id, data.role, data.content, data.metadata ? JSON.stringify(data.metadata) : null]
+      );
+
+      const message = this.mapRowToMessage(result.rows[0]);
+      this.logger.debug(
+        { messageId: message.id, agentId: data.agent_id, role: data.role },
+        'Conversation message stored'
+      );
+
+      return message;
+    } catch (error) {
+      this.logger.error({ error, agentId: data.agent_id }, 'Failed to store conversation message');
+      throw error;
+    }
+  }
+
+  /**
+   * Get an agent's conversation in turn order
+   *
+   * @param agentId - Agent UUID
+   * @param limit - Maximum number of most recent messages (default: all)
+   * @returns Messages, oldest first
+   */
+  async findByAgentId(agentId: string, limit?: number): Promise<Message[]> {
+    try {
+      const result = limit
+        ? await query<ConversationMessageRow>(
+            `SELECT * FROM (
+               SELECT * FROM conversation_messages
+               WHERE agent_id = $1
+               ORDER BY sequence_no DESC
+               LIMIT $2
+             ) recent
+             ORDER BY sequence_no ASC`,
+            [agentId, limit]
+          )
+        : await query<ConversationMessageRow>(
+            `SELECT * FROM conversation_messages
+             WHERE agent_id = $1
+             ORDER BY sequence_no ASC`,
+            [agentId]
+          );
+
+      return result.rows.map(row => this.mapRowToMessage(row));
+    } catch (error) {
+      this.logger.error({ error, agentId }, 'Failed to load conversation');
+      throw error;
+    }
+  }
+
+  /**
+   * Count messages in an agent's conversation
+   *
+   * @param agentId - Agent UUID
+   * @returns Number of stored messages
+   */
+  async countByAgentId(agentId: string): Promise<number> {
+    try {
+      const result = await query<{ count: string }>(
+        'SELECT COUNT(*) as count FROM conversation_messages WHERE agent_id = $1',
+        [agentId]
+      );
+
+      return parseInt(result.rows[0].count, 10);
+    } catch (error) {
+      this.logger.error({ error, agentId }, 'Failed to count conversation messages');
+      throw error;
+    }
+  }
+
+  /**
+   * Delete an agent's conversation
+   *
+   * @param agentId - Agent UUID
+   * @returns Number of deleted messages
+   */
+  async deleteByAgentId(agentId: string): Promise<number> {
+    try {
+      const result = await query(
+        'DELETE FROM conversation_messages WHERE agent_id = $1',
+        [agentId]
+      );
+
+      return result.rowCount ?? 0;
+    } catch (error) {
+      this.logger.error({ error, agentId }, 'Failed to delete conversation');
+      throw error;
+    }
+  }
+
+  /**
+   * Map database row to Message model with proper type conversion
+   *
+   * @param row - Raw database row
+   * @returns Typed Message object
+   */
+  private mapRowToMessage(row: ConversationMessageRow): Message {
+    return MessageSchema.parse({
+      id: row.id,
+      agent_id: row.agent_id,
+      role: row.role,
+      content: row.content,
+      metadata: row.metadata ?? null,
+      created_at: new Date(row.created_at),
+    });
+  }
+}
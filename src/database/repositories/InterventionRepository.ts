@@ -0,0 +1,160 @@
+import { query } from '../db.js';
+import {
+  AgentInterventionSchema,
+  CreateInterventionSchema,
+  type AgentIntervention,
+  type CreateIntervention,
+  type InterventionResolutionType,
+} from '../../models/Intervention.js';
+import { logger } from '../../utils/Logger.js';
+
+/**
+ * Raw agent_interventions row
+ */
+interface InterventionRow {
+  id: string;
+  agent_id: string;
+  intervention_type: string;
+  intervened_by: string;
+  intervened_at: Date;
+  message: string;
+  context: Record<string, unknown> | null;
+  agent_acknowledged_at: Date | null;
+  agent_response: string | null;
+  resolved_at: Date | null;
+  resolution_status: string | null;
+  created_at: Date;
+}
+
+/**
+ * InterventionRepository - Data Access Layer for agent_interventions table
+ *
+ * Interventions are created by humans (dashboard, Linear comments) and
+ * resolved by the agent they target once it has received them.
+ */
+export class InterventionRepository {
+  private logger = logger.child({ component: 'InterventionRepository' });
+
+  /**
+   * Create an intervention
+   *
+   * @param data - Intervention details
+   * @returns Created intervention
+   */
+  async create(data: CreateIntervention): Promise<AgentIntervention> {
+    const intervention = CreateInterventionSchema.parse(data);
+
+    try {
+      const result = await query<InterventionRow>(
+        `INSERT INTO agent_interventions (agent_id, intervention_type, intervened_by, message, context)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING *`,
+        [
+          intervention.agent_id,
+          intervention.intervention_type,
+          intervention.intervened_by,
+          intervention.message,
+          JSON.stringify(intervention.context),
+        ]
+      );
+
+      const created = this.mapRowToIntervention(result.rows[0]);
+      this.logger.info(
+        { interventionId: created.id, agentId: created.agent_id, type: created.intervention_type },
+        'Intervention created'
+      );
+      return created;
+    } catch (error) {
+      this.logger.error({ error, agentId: intervention.agent_id }, 'Failed to create intervention');
+      throw error;
+    }
+  }
+
+  /**
+   * Find an agent's unresolved interventions, oldest first
+   *
+   * @param agentId - Agent UUID
+   * @returns Interventions not yet delivered to the agent
+   */
+  async findUnresolved(agentId: string): Promise<AgentIntervention[]> {
+    try {
+      const result = await query<InterventionRow>(
+        `SELECT * FROM agent_interventions
+         WHERE agent_id = $1 AND resolved_at IS NULL
+         ORDER BY intervened_at, id`,
+        [agentId]
+      );
+      return result.rows.map((row) => this.mapRowToIntervention(row));
+    } catch (error) {
+      this.logger.error({ error, agentId }, 'Failed to find unresolved interventions');
+      throw error;
+    }
+  }
+
+  /**
+   * Find all interventions for an agent, oldest first
+   *
+   * @param agentId - Agent UUID
+   * @returns Interventions
+   */
+  async findByAgentId(agentId: string): Promise<AgentIntervention[]> {
+    try {
+      const result = await query<InterventionRow>(
+        'SELECT * FROM agent_interventions WHERE agent_id = $1 ORDER BY intervened_at, id',
+        [agentId]
+      );
+      return result.rows.map((row) => this.mapRowToIntervention(row));
+    } catch (error) {
+      this.logger.error({ error, agentId }, 'Failed to find interventions');
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve interventions with the agent's response
+   * Interventions that were already resolved are left untouched.
+   *
+   * @param ids - Intervention IDs
+   * @param status - Resolution status
+   * @param agentResponse - What the agent replied after receiving them
+   */
+  async resolve(
+    ids: string[],
+    status: InterventionResolutionType,
+    agentResponse: string | null
+  ): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+
+    try {
+      await query(
+        `UPDATE agent_interventions
+         SET agent_acknowledged_at = NOW(), agent_response = $3,
+             resolved_at = NOW(), resolution_status = $2
+         WHERE id = ANY($1::uuid[]) AND resolved_at IS NULL`,
+        [ids, status, agentResponse]
+      );
+    } catch (error) {
+      this.logger.error({ error, ids }, 'Failed to resolve interventions');
+      throw error;
+    }
+  }
+
+  /**
+   * Map database row to AgentIntervention model with proper type conversion
+   *
+   * @param row - Raw database row
+   * @returns Typed AgentIntervention object
+   */
+  private mapRowToIntervention(row: InterventionRow): AgentIntervention {
+    return AgentInterventionSchema.parse({
+      ...row,
+      context: row.context ?? {},
+      intervened_at: new Date(row.intervened_at),
+      agent_acknowledged_at: row.agent_acknowledged_at ? new Date(row.agent_acknowledged_at) : null,
+      resolved_at: row.resolved_at ? new Date(row.resolved_at) : null,
+      created_at: new Date(row.created_at),
+    });
+  }
+}
@@ -0,0 +1,94 @@
+import { query } from '../db.js';
+import {
+  CreateNotificationSchema,
+  NotificationSchema,
+  type CreateNotification,
+  type Notification,
+} from '../../models/Notification.js';
+import { logger } from '../../utils/Logger.js';
+
+/**
+ * Raw notifications row
+ */
+interface NotificationRow {
+  id: string;
+  target_type: string;
+  target_id: string | null;
+  notification_type: string;
+  title: string;
+  message: string;
+  data: Record<string, unknown> | null;
+  priority: string;
+  created_at: Date;
+  read_at: Date | null;
+  dismissed_at: Date | null;
+  expires_at: Date | null;
+}
+
+/**
+ * NotificationRepository - Data Access Layer for notifications table
+ *
+ * Notifications are written by NotificationService and listed by the dashboard.
+ */
+export class NotificationRepository {
+  private logger = logger.child({ component: 'NotificationRepository' });
+
+  /**
+   * Create a notification
+   *
+   * @param data - Notification details
+   * @returns Created notification
+   */
+  async create(data: CreateNotification): Promise<Notification> {
+    const notification = CreateNotificationSchema.parse(data);
+
+    try {
+      const result = await query<NotificationRow>(
+        `INSERT INTO notifications (
+          target_type, target_id, notification_type, title, message, data, priority, expires_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        RETURNING *`,
+        [
+          notification.target_type,
+          notification.target_id,
+          notification.notification_type,
+          notification.title,
+          notification.message,
+          JSON.stringify(notification.data),
+          notification.priority,
+          notification.expires_at,
+        ]
+      );
+
+      const created = this.mapRowToNotification(result.rows[0]);
+      this.logger.debug(
+        { notificationId: created.id, type: created.notification_type },
+        'Notification created'
+      );
+      return created;
+    } catch (error) {
+      this.logger.error(
+        { error, type: notification.notification_type },
+        'Failed to create notification'
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Map database row to Notification model
+   *
+   * @param row - Raw database row
+   * @returns Typed Notification object
+   */
+  private mapRowToNotification(row: NotificationRow): Notification {
+    return NotificationSchema.parse({
+      ...row,
+      data: row.data ?? {},
+      created_at: new Date(row.created_at),
+      read_at: row.read_at ? new Date(row.read_at) : null,
+      dismissed_at: row.dismissed_at ? new Date(row.dismissed_at) : null,
+      expires_at: row.expires_at ? new Date(row.expires_at) : null,
+    });
+  }
+}
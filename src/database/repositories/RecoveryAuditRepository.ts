@@ -0,0 +1,120 @@
+import { query } from '../db.js';
+import {
+  CreateRecoveryAuditSchema,
+  RecoveryAuditRecordSchema,
+  type CreateRecoveryAudit,
+  type RecoveryAuditRecord,
+} from '../../models/RecoveryAudit.js';
+import { logger } from '../../utils/Logger.js';
+
+/**
+ * RecoveryAuditRepository - Data Access Layer for recovery_audit table
+ *
+ * Append-only log of what startup reconciliation did with orphaned agents
+ * and workflow nodes.
+ */
+export class RecoveryAuditRepository {
+  private logger = logger.child({ component: 'RecoveryAuditRepository' });
+
+  /**
+   * Record a reconciliation decision
+   *
+   * @param data - Entity, action and reason
+   * @returns Created audit record
+   */
+  async create(data: CreateRecoveryAudit): Promise<RecoveryAuditRecord> {
+    const record = CreateRecoveryAuditSchema.parse(data);
+
+    try {
+      const result = await query<RecoveryAuditRecord>(
+        `INSERT INTO recovery_audit (
+           entity_type, entity_id, agent_id, action, previous_status,
+           reason, checkpoint_id, released_tokens
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         RETURNING *`,
+        [
+          record.entity_type,
+          record.entity_id,
+          record.agent_id,
+          record.action,
+          record.previous_status,
+          record.reason,
+          record.checkpoint_id,
+          record.released_tokens,
+        ]
+      );
+
+      const created = this.mapRowToRecord(result.rows[0]);
+      this.logger.info(
+        {
+          auditId: created.id,
+          entityType: created.entity_type,
+          entityId: created.entity_id,
+          action: created.action,
+        },
+        'Recovery recorded'
+      );
+      return created;
+    } catch (error) {
+      this.logger.error(
+        { error, entityType: record.entity_type, entityId: record.entity_id },
+        'Failed to record recovery'
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Find the recoveries of an agent or workflow node, newest first
+   *
+   * @param entityId - Agent or node UUID
+   * @returns Audit records
+   */
+  async findByEntityId(entityId: string): Promise<RecoveryAuditRecord[]> {
+    try {
+      const result = await query<RecoveryAuditRecord>(
+        `SELECT * FROM recovery_audit
+         WHERE entity_id = $1
+         ORDER BY created_at DESC, id DESC`,
+        [entityId]
+      );
+      return result.rows.map((row) => this.mapRowToRecord(row));
+    } catch (error) {
+      this.logger.error({ error, entityId }, 'Failed to find recoveries');
+      throw error;
+    }
+  }
+
+  /**
+   * Find the most recent recoveries
+   *
+   * @param limit - Maximum number of records
+   * @returns Audit records, newest first
+   */
+  async findRecent(limit = 100): Promise<RecoveryAuditRecord[]> {
+    try {
+      const result = await query<RecoveryAuditRecord>(
+        'SELECT * FROM recovery_audit ORDER BY created_at DESC, id DESC LIMIT $1',
+        [limit]
+      );
+      return result.rows.map((row) => this.mapRowToRecord(row));
+    } catch (error) {
+      this.logger.error({ error, limit }, 'Failed to find recent recoveries');
+      throw error;
+    }
+  }
+
+  /**
+   * Map database row to RecoveryAuditRecord model
+   *
+   * @param row - Raw database row
+   * @returns Typed RecoveryAuditRecord object
+   */
+  private mapRowToRecord(row: RecoveryAuditRecord): RecoveryAuditRecord {
+    return RecoveryAuditRecordSchema.parse({
+      ...row,
+      created_at: new Date(row.created_at),
+    });
+  }
+}
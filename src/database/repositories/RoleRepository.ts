@@ -0,0 +1,220 @@
+import { query } from '../db.js';
+import {
+  AgentRoleSchema,
+  CreateAgentRoleSchema,
+  type AgentRole,
+  type CreateAgentRole,
+  type UpdateAgentRole,
+} from '../../models/AgentRole.js';
+import { logger } from '../../utils/Logger.js';
+
+/**
+ * Raw agent_roles row
+ */
+interface AgentRoleRow {
+  id: string;
+  name: string;
+  description: string | null;
+  system_prompt: string;
+  model: string;
+  max_turns: number;
+  permission_mode: string;
+  allowed_tools: string[] | null;
+  tool_policy: Record<string, unknown> | null;
+  default_budget: number;
+  timeout_ms: number | null;
+  output_schema: Record<string, unknown> | null;
+  enabled: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Columns that may be updated, in UPDATE statement order
+ */
+const UPDATABLE_COLUMNS = [
+  'description',
+  'system_prompt',
+  'model',
+  'max_turns',
+  'permission_mode',
+  'allowed_tools',
+  'tool_policy',
+  'default_budget',
+  'timeout_ms',
+  'output_schema',
+  'enabled',
+] as const;
+
+const JSON_COLUMNS = new Set<string>(['allowed_tools', 'tool_policy', 'output_schema']);
+
+/**
+ * RoleRepository - Data Access Layer for agent_roles table
+ *
+ * Roles are addressed by their unique name, which is what agents and
+ * workflow nodes reference.
+ */
+export class RoleRepository {
+  private logger = logger.child({ component: 'RoleRepository' });
+
+  /**
+   * Create a role
+   *
+   * @param data - Role definition (defaults applied for omitted fields)
+   * @returns Created role
+   * @throws Error if validation fails or the name is taken
+   */
+  async create(data: CreateAgentRole): Promise<AgentRole> {
+    const role = CreateAgentRoleSchema.parse(data);
+
+    try {
+      const result = await query<AgentRoleRow>(
+        `INSERT INTO agent_roles (
+          name, description, system_prompt, model, max_turns, permission_mode,
+          allowed_tools, tool_policy, default_budget, timeout_ms, output_schema, enabled
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+        RETURNING *`,
+        [
+          role.name,
+          role.description,
+          role.system_prompt,
+          role.model,
+          role.max_turns,
+          role.permission_mode,
+          role.allowed_tools ? JSON.stringify(role.allowed_tools) : null,
+          role.tool_policy ? JSON.stringify(role.tool_policy) : null,
+          role.default_budget,
+          role.timeout_ms,
+          role.output_schema ? JSON.stringify(role.output_schema) : null,
+          role.enabled,
+        ]
+      );
+
+      this.logger.info({ role: role.name }, 'Role created');
+      return this.mapRowToRole(result.rows[0]);
+    } catch (error) {
+      this.logger.error({ error, role: role.name }, 'Failed to create role');
+      throw error;
+    }
+  }
+
+  /**
+   * Find a role by name
+   *
+   * @param name - Role name
+   * @returns Role, or null if not registered
+   */
+  async findByName(name: string): Promise<AgentRole | null> {
+    try {
+      const result = await query<AgentRoleRow>('SELECT * FROM agent_roles WHERE name = $1', [name]);
+      return result.rows.length > 0 ? this.mapRowToRole(result.rows[0]) : null;
+    } catch (error) {
+      this.logger.error({ error, role: name }, 'Failed to find role');
+      throw error;
+    }
+  }
+
+  /**
+   * List roles ordered by name
+   *
+   * @param includeDisabled - Include disabled roles (default: true)
+   * @returns Roles
+   */
+  async findAll(includeDisabled: boolean = true): Promise<AgentRole[]> {
+    try {
+      const result = await query<AgentRoleRow>(
+        includeDisabled
+          ? 'SELECT * FROM agent_roles ORDER BY name ASC'
+          : 'SELECT * FROM agent_roles WHERE enabled = TRUE ORDER BY name ASC'
+      );
+      return result.rows.map(row => this.mapRowToRole(row));
+    } catch (error) {
+      this.logger.error({ error }, 'Failed to list roles');
+      throw error;
+    }
+  }
+
+  /**
+   * Update a role
+   *
+   * @param name - Role name
+   * @param data - Fields to update
+   * @returns Updated role, or null if not registered
+   * @throws Error if no fields are given or the update fails
+   */
+  async update(name: string, data: UpdateAgentRole): Promise<AgentRole | null> {
+    const updates: string[] = [];
+    const values: unknown[] = [];
+
+    for (const column of UPDATABLE_COLUMNS) {
+      const value = data[column];
+      if (value === undefined) {
+        continue;
+      }
+      values.push(JSON_COLUMNS.has(column) && value !== null ? JSON.stringify(value) : value);
+      updates.push(`${column} = $${values.length}`);
+    }
+
+    if (updates.length === 0) {
+      throw new Error('No fields to update');
+    }
+
+    values.push(name);
+
+    try {
+      const result = await query<AgentRoleRow>(
+        `UPDATE agent_roles
+         SET ${updates.join(', ')}, updated_at = CURRENT_TIMESTAMP
+         WHERE name = $${values.length}
+         RETURNING *`,
+        values
+      );
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      this.logger.info({ role: name, fields: Object.keys(data) }, 'Role updated');
+      return this.mapRowToRole(result.rows[0]);
+    } catch (error) {
+      this.logger.error({ error, role: name }, 'Failed to update role');
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a role
+   *
+   * @param name - Role name
+   * @returns True if a role was deleted
+   */
+  async delete(name: string): Promise<boolean> {
+    try {
+      const result = await query('DELETE FROM agent_roles WHERE name = $1', [name]);
+      const deleted = (result.rowCount ?? 0) > 0;
+
+      if (deleted) {
+        this.logger.info({ role: name }, 'Role deleted');
+      }
+
+      return deleted;
+    } catch (error) {
+      this.logger.error({ error, role: name }, 'Failed to delete role');
+      throw error;
+    }
+  }
+
+  /**
+   * Map database row to AgentRole model with proper type conversion
+   *
+   * @param row - Raw database row
+   * @returns Typed AgentRole object
+   */
+  private mapRowToRole(row: AgentRoleRow): AgentRole {
+    return AgentRoleSchema.parse({
+      ...row,
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at),
+    });
+  }
+}
@@ -0,0 +1,249 @@
+import { query, transaction } from '../db.js';
+import {
+  WorkerLeaseSchema,
+  type LeaseResourceTypeType,
+  type WorkerLease,
+} from '../../models/WorkerLease.js';
+import { logger } from '../../utils/Logger.js';
+
+/**
+ * WorkerLeaseRepository - Data Access Layer for worker_leases table
+ *
+ * A lease gives one orchestrator process exclusive use of an agent or
+ * workflow graph until it expires. Claims are atomic across processes:
+ * candidates are locked with FOR UPDATE SKIP LOCKED, and a resource holds
+ * at most one lease (unique resource_type, resource_id).
+ */
+export class WorkerLeaseRepository {
+  private logger = logger.child({ component: 'WorkerLeaseRepository' });
+
+  /**
+   * Claim pending agents for a worker
+   * Agents that are no longer pending, are locked by another claim or hold
+   * a live lease are skipped.
+   *
+   * @param workerId - Claiming worker
+   * @param agentIds - Candidate agents, in claim order
+   * @param ttlMs - Lease lifetime (ms)
+   * @returns IDs of the claimed agents, in candidate order
+   */
+  async claimAgents(workerId: string, agentIds: string[], ttlMs: number): Promise<string[]> {
+    if (agentIds.length === 0) {
+      return [];
+    }
+
+    try {
+      const claimed = await transaction(async (client) => {
+        const candidates = await client.query<{ id: string }>(
+          `SELECT a.id FROM agents a
+           WHERE a.id = ANY($1::uuid[])
+             AND a.status = 'pending'
+             AND NOT EXISTS (
+               SELECT 1 FROM worker_leases l
+               WHERE l.resource_type = 'agent' AND l.resource_id = a.id AND l.expires_at > NOW()
+             )
+           FOR UPDATE OF a SKIP LOCKED`,
+          [agentIds]
+        );
+        if (candidates.rows.length === 0) {
+          return new Set<string>();
+        }
+
+        // Expired leases of a dead worker are taken over
+        const leased = await client.query<{ resource_id: string }>(
+          `INSERT INTO worker_leases (resource_type, resource_id, worker_id, expires_at)
+           SELECT 'agent', id, $2, NOW() + $3 * INTERVAL '1 millisecond'
+           FROM UNNEST($1::uuid[]) AS id
+           ON CONFLICT (resource_type, resource_id) DO UPDATE
+             SET worker_id = EXCLUDED.worker_id,
+                 acquired_at = NOW(),
+                 heartbeat_at = NOW(),
+                 expires_at = EXCLUDED.expires_at
+             WHERE worker_leases.expires_at <= NOW()
+           RETURNING resource_id`,
+          [candidates.rows.map((row) => row.id), workerId, ttlMs]
+        );
+        return new Set(leased.rows.map((row) => row.resource_id));
+      });
+
+      const claimedIds = agentIds.filter((id) => claimed.has(id));
+      this.logger.debug(
+        { workerId, candidates: agentIds.length, claimed: claimedIds.length },
+        'Agents claimed'
+      );
+      return claimedIds;
+    } catch (error) {
+      this.logger.error({ error, workerId }, 'Failed to claim agents');
+      throw error;
+    }
+  }
+
+  /**
+   * Take or renew the lease on a resource
+   * Succeeds when the resource is unleased, already leased by this worker,
+   * or its lease expired.
+   *
+   * @param resourceType - Kind of resource
+   * @param resourceId - Resource UUID
+   * @param workerId - Claiming worker
+   * @param ttlMs - Lease lifetime (ms)
+   * @returns Whether the worker holds the lease
+   */
+  async acquire(
+    resourceType: LeaseResourceTypeType,
+    resourceId: string,
+    workerId: string,
+    ttlMs: number
+  ): Promise<boolean> {
+    try {
+      const result = await query(
+        `INSERT INTO worker_leases (resource_type, resource_id, worker_id, expires_at)
+         VALUES ($1, $2, $3, NOW() + $4 * INTERVAL '1 millisecond')
+         ON CONFLICT (resource_type, resource_id) DO UPDATE
+           SET worker_id = EXCLUDED.worker_id,
+               acquired_at = CASE
+                 WHEN worker_leases.worker_id = EXCLUDED.worker_id THEN worker_leases.acquired_at
+                 ELSE NOW()
+               END,
+               heartbeat_at = NOW(),
+               expires_at = EXCLUDED.expires_at
+           WHERE worker_leases.worker_id = EXCLUDED.worker_id
+              OR worker_leases.expires_at <= NOW()
+         RETURNING id`,
+        [resourceType, resourceId, workerId, ttlMs]
+      );
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      this.logger.error({ error, resourceType, resourceId, workerId }, 'Failed to acquire lease');
+      throw error;
+    }
+  }
+
+  /**
+   * Extend all leases of a worker (heartbeat)
+   *
+   * @param workerId - Worker
+   * @param ttlMs - New lease lifetime from now (ms)
+   * @returns Number of leases renewed
+   */
+  async renew(workerId: string, ttlMs: number): Promise<number> {
+    try {
+      const result = await query(
+        `UPDATE worker_leases
+         SET heartbeat_at = NOW(), expires_at = NOW() + $2 * INTERVAL '1 millisecond'
+         WHERE worker_id = $1`,
+        [workerId, ttlMs]
+      );
+      return result.rowCount ?? 0;
+    } catch (error) {
+      this.logger.error({ error, workerId }, 'Failed to renew leases');
+      throw error;
+    }
+  }
+
+  /**
+   * Release a worker's lease on a resource
+   * A lease since taken over by another worker is left alone.
+   *
+   * @param resourceType - Kind of resource
+   * @param resourceId - Resource UUID
+   * @param workerId - Worker
+   */
+  async release(
+    resourceType: LeaseResourceTypeType,
+    resourceId: string,
+    workerId: string
+  ): Promise<void> {
+    try {
+      await query(
+        `DELETE FROM worker_leases
+         WHERE resource_type = $1 AND resource_id = $2 AND worker_id = $3`,
+        [resourceType, resourceId, workerId]
+      );
+    } catch (error) {
+      this.logger.error({ error, resourceType, resourceId, workerId }, 'Failed to release lease');
+      throw error;
+    }
+  }
+
+  /**
+   * Release all leases of a worker
+   *
+   * @param workerId - Worker
+   * @returns Number of leases released
+   */
+  async releaseAll(workerId: string): Promise<number> {
+    try {
+      const result = await query('DELETE FROM worker_leases WHERE worker_id = $1', [workerId]);
+      return result.rowCount ?? 0;
+    } catch (error) {
+      this.logger.error({ error, workerId }, 'Failed to release leases');
+      throw error;
+    }
+  }
+
+  /**
+   * Remove and return expired leases
+   * Each expired lease is returned to exactly one caller, so only one
+   * worker reclaims its resource.
+   *
+   * @param resourceType - Kind of resource
+   * @returns Expired leases, oldest expiry first
+   */
+  async takeExpired(resourceType: LeaseResourceTypeType): Promise<WorkerLease[]> {
+    try {
+      const result = await query<WorkerLease>(
+        `DELETE FROM worker_leases
+         WHERE id IN (
+           SELECT id FROM worker_leases
+           WHERE resource_type = $1 AND expires_at <= NOW()
+           FOR UPDATE SKIP LOCKED
+         )
+         RETURNING *`,
+        [resourceType]
+      );
+      return result.rows
+        .map((row) => this.mapRowToLease(row))
+        .sort((a, b) => a.expires_at.getTime() - b.expires_at.getTime());
+    } catch (error) {
+      this.logger.error({ error, resourceType }, 'Failed to take expired leases');
+      throw error;
+    }
+  }
+
+  /**
+   * Find the leases that have not expired
+   *
+   * @param resourceType - Kind of resource
+   * @returns Live leases
+   */
+  async findLive(resourceType: LeaseResourceTypeType): Promise<WorkerLease[]> {
+    try {
+      const result = await query<WorkerLease>(
+        `SELECT * FROM worker_leases
+         WHERE resource_type = $1 AND expires_at > NOW()
+         ORDER BY acquired_at`,
+        [resourceType]
+      );
+      return result.rows.map((row) => this.mapRowToLease(row));
+    } catch (error) {
+      this.logger.error({ error, resourceType }, 'Failed to find live leases');
+      throw error;
+    }
+  }
+
+  /**
+   * Map database row to WorkerLease model
+   *
+   * @param row - Raw database row
+   * @returns Typed WorkerLease object
+   */
+  private mapRowToLease(row: WorkerLease): WorkerLease {
+    return WorkerLeaseSchema.parse({
+      ...row,
+      acquired_at: new Date(row.acquired_at),
+      heartbeat_at: new Date(row.heartbeat_at),
+      expires_at: new Date(row.expires_at),
+    });
+  }
+}
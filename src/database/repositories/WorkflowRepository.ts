@@ -153,9 +153,9 @@ export class WorkflowRepository {
       INSERT INTO workflow_nodes (
         workflow_graph_id, agent_id, role, task_description,
         budget_allocation, dependencies, execution_status,
-        position, metadata
+        position, metadata, edge_conditions
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
       RETURNING *
     `;
 
@@ -169,6 +169,7 @@ export class WorkflowRepository {
       data.execution_status || 'pending',
       data.position,
       data.metadata ? JSON.stringify(data.metadata) : null,
+      JSON.stringify(data.edge_conditions || {}),
     ]);
 
     return result.rows[0];
@@ -209,9 +210,54 @@ export class WorkflowRepository {
    * Update workflow node
    */
   async updateNode(id: string, data: UpdateWorkflowNode): Promise<WorkflowNode> {
+    const values: unknown[] = [];
+    const updates = this.buildNodeUpdates(data, values);
+
+    values.push(id);
+    const query = `
+      UPDATE workflow_nodes
+      SET ${updates.join(', ')}
+      WHERE id = $${values.length}
+      RETURNING *
+    `;
+
+    const result = await db.query<WorkflowNode>(query, values);
+    return result.rows[0];
+  }
+
+  /**
+   * Update the node of an agent only while it is executing in an unfinished
+   * (active or paused) workflow
+   * Of several processes finishing the same node, only the first one gets it.
+   *
+   * @returns The updated node, or null if the node or its workflow has moved on
+   */
+  async updateExecutingNode(agentId: string, data: UpdateWorkflowNode): Promise<WorkflowNode | null> {
+    const values: unknown[] = [];
+    const updates = this.buildNodeUpdates(data, values);
+
+    values.push(agentId);
+    const query = `
+      UPDATE workflow_nodes n
+      SET ${updates.join(', ')}
+      FROM workflow_graphs g
+      WHERE n.agent_id = $${values.length}
+        AND n.execution_status = 'executing'
+        AND g.id = n.workflow_graph_id
+        AND g.status IN ('active', 'paused')
+      RETURNING n.*
+    `;
+
+    const result = await db.query<WorkflowNode>(query, values);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * SET clauses of a node update (their parameters are appended to values)
+   */
+  private buildNodeUpdates(data: UpdateWorkflowNode, values: unknown[]): string[] {
     const updates: string[] = [];
-    const values: any[] = [];
-    let paramIndex = 1;
+    let paramIndex = values.length + 1;
 
     if (data.agent_id !== undefined) {
       updates.push(`agent_id = $${paramIndex++}`);
@@ -233,6 +279,10 @@ export class WorkflowRepository {
       updates.push(`dependencies = $${paramIndex++}`);
       values.push(JSON.stringify(data.dependencies));
     }
+    if (data.edge_conditions !== undefined) {
+      updates.push(`edge_conditions = $${paramIndex++}`);
+      values.push(JSON.stringify(data.edge_conditions));
+    }
     if (data.execution_status !== undefined) {
       updates.push(`execution_status = $${paramIndex++}`);
       values.push(data.execution_status);
@@ -266,16 +316,7 @@ export class WorkflowRepository {
       throw new Error('No fields to update');
     }
 
-    values.push(id);
-    const query = `
-      UPDATE workflow_nodes
-      SET ${updates.join(', ')}
-      WHERE id = $${paramIndex}
-      RETURNING *
-    `;
-
-    const result = await db.query<WorkflowNode>(query, values);
-    return result.rows[0];
+    return updates;
   }
 
   /**
@@ -15,6 +15,8 @@ export interface Workspace {
   worktree_path: string;
   branch_name: string;
   isolation_status: IsolationStatus;
+  /** WorkspaceConfig settings (null = defaults) */
+  config: Record<string, unknown> | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -129,6 +131,42 @@ export class WorkspaceRepository {
     }
   }
 
+  /**
+   * Find the configuration that applies to an agent
+   * Agents without a configured workspace inherit the nearest ancestor's.
+   *
+   * @param agent_id - Agent UUID
+   * @returns Workspace config, or null if no workspace in the lineage has one
+   */
+  async findConfigForAgent(agent_id: string): Promise<Record<string, unknown> | null> {
+    const query = `
+      WITH RECURSIVE lineage AS (
+        SELECT id, parent_id, 0 AS distance FROM agents WHERE id = $1
+        UNION ALL
+        SELECT a.id, a.parent_id, l.distance + 1
+        FROM agents a
+        JOIN lineage l ON a.id = l.parent_id
+      )
+      SELECT w.config
+      FROM lineage l
+      JOIN workspaces w ON w.agent_id = l.id
+      WHERE w.config IS NOT NULL
+      ORDER BY l.distance
+      LIMIT 1
+    `;
+
+    try {
+      const result = await pool.query<{ config: Record<string, unknown> }>(query, [agent_id]);
+      return result.rows[0]?.config ?? null;
+    } catch (error) {
+      this.workspaceLogger.error(
+        { error, agent_id },
+        'Failed to find workspace config for agent'
+      );
+      throw error;
+    }
+  }
+
   /**
    * Find workspace by worktree path
    *
@@ -207,6 +245,7 @@ export class WorkspaceRepository {
       worktree_path?: string;
       branch_name?: string;
       isolation_status?: IsolationStatus;
+      config?: Record<string, unknown> | null;
     }
   ): Promise<Workspace> {
     const fields: string[] = [];
@@ -228,6 +267,11 @@ export class WorkspaceRepository {
       values.push(updates.isolation_status);
     }
 
+    if (updates.config !== undefined) {
+      fields.push(`config = $${paramIndex++}`);
+      values.push(updates.config === null ? null : JSON.stringify(updates.config));
+    }
+
     if (fields.length === 0) {
       throw new Error('No fields to update');
     }
@@ -4,32 +4,129 @@
  * This class bridges the orchestration system with actual task execution.
  * It takes an agent ID, loads its configuration, and runs the task using
  * Claude Code's agent capabilities with proper workspace isolation.
+ *
+ * Each session gets an in-process orchestrator MCP server scoped to the
+ * agent, so SDK agents can spawn children, message relatives, check their
+ * budget and post progress.
+ *
+ * Tool requests go through a ToolPermissionGate (canUseTool) that applies
+ * the role's tool policy and blocks on dashboard approval when required.
+ *
+ * Sessions run under a wall-clock deadline (workflow node, role or
+ * AGENT_TIMEOUT); when it passes the SDK query is aborted and the result has
+ * outcome 'timed_out' with the output collected so far.
+ *
+ * A terminated agent's session is aborted as soon as the status change is
+ * published (in any process sharing the event bus), and at the latest at
+ * the next safe point; the result is 'failed' with finish reason 'terminated'.
+ *
+ * Operator pause/resume (agents.control_state) is checked between SDK
+ * messages: a paused session is interrupted, checkpointed with its SDK
+ * session id, and continued in the same session once resumed. The same
+ * safe points save auto-checkpoints at the workspace's checkpoint_interval.
+ *
+ * With an output schema (workflow node or role), the SDK is asked for
+ * matching structured output; answers that still fail validation are sent
+ * back in the same session with the errors, up to the schema's attempt limit.
+ *
+ * Human interventions are injected through SDK hooks: as additional context
+ * after the next tool call or prompt, or by keeping the session from stopping
+ * until the agent has read them. The agent's next reply acknowledges them.
  */
 
-import { query, type Query, type SDKMessage, type Options } from '@anthropic-ai/claude-agent-sdk';
+import {
+  query,
+  type HookCallback,
+  type Options,
+  type Query,
+  type SDKMessage,
+  type SDKUserMessage,
+} from '@anthropic-ai/claude-agent-sdk';
 import type { Agent } from '../models/Agent.js';
 import { AgentRepository } from '../database/repositories/AgentRepository.js';
+import { AgentResultRepository } from '../database/repositories/AgentResultRepository.js';
 import { WorkspaceRepository } from '../database/repositories/WorkspaceRepository.js';
 import { AgentTracer } from '../monitoring/AgentTracer.js';
+import {
+  RoleService,
+  resolveNodeModel,
+  type RoleExecutionSettings,
+} from '../services/RoleService.js';
+import { SessionCassette, type CassetteOptions } from './SessionCassette.js';
+import {
+  createOrchestratorMcpServer,
+  ORCHESTRATOR_MCP_SERVER_NAME,
+  ORCHESTRATOR_MCP_TOOLS,
+} from './OrchestratorMcpServer.js';
+import { ExecutionDeadline, resolveAgentTimeoutMs } from '../core/ExecutionDeadline.js';
+import { AgentControl } from '../core/AgentControl.js';
+import { resolveOutputSchema, type OutputSchema } from '../core/OutputSchema.js';
+import { ToolPolicyEngine } from './ToolPolicyEngine.js';
+import { ToolPermissionGate } from './ToolPermissionGate.js';
+import { eventBus } from '../infrastructure/EventBus.js';
 import { logger } from '../utils/Logger.js';
 
+/**
+ * How an execution ended
+ */
+export type AgentOutcome = 'completed' | 'failed' | 'timed_out';
+
 export interface AgentResult {
   success: boolean;
+  outcome: AgentOutcome;
   output: string;
+  /** Structured output of the SDK result, if any */
+  structuredOutput?: Record<string, unknown> | null;
+  /** SDK result subtype ('success', 'error_max_turns', ...), 'timed_out' or 'error' */
+  finishReason?: string;
   error?: string;
   tokensUsed: number;
   durationMs: number;
   costUsd: number;
 }
 
+/**
+ * An open SDK message stream
+ */
+interface SdkSession {
+  messages: AsyncIterable<SDKMessage> | Iterable<SDKMessage>;
+  /** Live query handle (null when replaying a cassette) */
+  query: Query | null;
+  /** Cassette being recorded, if any */
+  cassette: SessionCassette | null;
+}
+
+/**
+ * Prompt sent when a paused session is continued
+ */
+const RESUME_PROMPT =
+  'Execution was paused by an operator and has now been resumed. ' +
+  'Continue the task from where you left off.';
+
 export class AgentExecutor {
   private agentRepo: AgentRepository;
   private workspaceRepo: WorkspaceRepository;
+  private resultRepo = new AgentResultRepository();
+  private cassetteOptions: CassetteOptions;
+  private roleService: RoleService;
   private executionLogger = logger.child({ component: 'AgentExecutor' });
 
-  constructor(agentRepo?: AgentRepository, workspaceRepo?: WorkspaceRepository) {
+  /**
+   * @param agentRepo - Agent repository
+   * @param workspaceRepo - Workspace repository
+   * @param cassetteOptions - Record/replay settings (defaults to AGENT_CASSETTE_MODE / AGENT_CASSETTE_DIR)
+   * @param roleService - Role registry providing prompt, model and SDK options per role
+   */
+  constructor(
+    agentRepo?: AgentRepository,
+    workspaceRepo?: WorkspaceRepository,
+    cassetteOptions?: CassetteOptions,
+    roleService?: RoleService
+  ) {
     this.agentRepo = agentRepo || new AgentRepository();
     this.workspaceRepo = workspaceRepo || new WorkspaceRepository();
+    this.cassetteOptions = cassetteOptions || SessionCassette.optionsFromEnv();
+    this.roleService = roleService || new RoleService();
   }
 
   /**
@@ -57,153 +154,513 @@ export class AgentExecutor {
       const workspace = await this.workspaceRepo.findByAgentId(agentId);
       const workspacePath = workspace?.worktree_path || process.cwd();
 
-      // 3. Prepare execution options
+      // 3. Prepare execution options from the role registry
+      const roleSettings = await this.roleService.resolveSettings(agent.role);
       const options: Options = {
         cwd: workspacePath,
-        model: this.getModelForRole(agent.role),
-        maxTurns: 20,
-        permissionMode: 'acceptEdits',
-        systemPrompt: this.buildSystemPrompt(agent, workspacePath),
+        model: (await resolveNodeModel(agentId)) ?? roleSettings.model,
+        maxTurns: roleSettings.maxTurns,
+        permissionMode: roleSettings.permissionMode,
+        systemPrompt: this.buildSystemPrompt(agent, roleSettings, workspacePath),
+        mcpServers: {
+          [ORCHESTRATOR_MCP_SERVER_NAME]: createOrchestratorMcpServer(agentId),
+        },
+        allowedTools: [...(roleSettings.allowedTools ?? []), ...ORCHESTRATOR_MCP_TOOLS],
       };
 
-      this.executionLogger.debug({ agentId, workspacePath, options }, 'Executing with options');
+      // Roles that bypass permissions keep the SDK behaviour; all others are
+      // gated by the tool policy. Role tools are left out of allowedTools so
+      // that the SDK consults the gate for them instead of auto-approving.
+      if (roleSettings.permissionMode !== 'bypassPermissions') {
+        const engine = new ToolPolicyEngine(
+          roleSettings.toolPolicy,
+          workspacePath,
+          roleSettings.allowedTools
+        );
+        options.permissionMode = roleSettings.permissionMode === 'plan' ? 'plan' : 'default';
+        options.allowedTools = [...ORCHESTRATOR_MCP_TOOLS];
+        options.canUseTool = new ToolPermissionGate(agentId, engine).canUseTool;
+      }
+
+      this.executionLogger.debug(
+        { agentId, workspacePath, model: options.model, maxTurns: options.maxTurns },
+        'Executing with options'
+      );
+
+      const outputSchema = await resolveOutputSchema(agentId, roleSettings.outputSchema);
+      if (outputSchema) {
+        options.outputFormat = { type: 'json_schema', schema: outputSchema.jsonSchema };
+      }
+
+      // 4. Execute using Claude Agent SDK with tracing, under the agent's deadline;
+      //    terminating the agent aborts the execution
+      const timeoutMs = await resolveAgentTimeoutMs(agentId, roleSettings.timeoutMs);
+      const termination = new AbortController();
+      const deadline = new ExecutionDeadline(timeoutMs, termination.signal);
+      const abortController = new AbortController();
+      deadline.signal.addEventListener('abort', () => abortController.abort(deadline.signal.reason), {
+        once: true,
+      });
+      options.abortController = abortController;
 
-      // 4. Execute using Claude Agent SDK with tracing
       const tracer = new AgentTracer(agentId);
+      const control = new AgentControl(agentId, { tracer });
+      options.hooks = this.buildInterventionHooks(control);
       await tracer.logEvent({
         eventType: 'execution_started',
         message: `Agent execution started: ${agent.role}`,
-        data: { role: agent.role, task: agent.task_description },
+        data: { role: agent.role, task: agent.task_description, timeoutMs },
       });
 
-      const result = await this.runQuery(agent, options, tracer);
+      const stopOnTermination = eventBus.on('agent.status_changed', (change) => {
+        if (change.agentId === agentId && change.to === 'terminated') {
+          termination.abort(
+            new Error(`Agent terminated${change.reason ? `: ${change.reason}` : ''}`)
+          );
+        }
+      });
+
+      let result: Omit<AgentResult, 'durationMs'>;
+      try {
+        result = await this.runQuery(
+          agent,
+          options,
+          tracer,
+          deadline,
+          control,
+          outputSchema,
+          termination
+        );
+      } finally {
+        stopOnTermination();
+        deadline.clear();
+      }
 
       const durationMs = Date.now() - startTime;
 
       // Log completion event
       await tracer.logEvent({
-        eventType: result.success ? 'completed' : 'failed',
-        message: result.success
-          ? `Agent execution completed successfully`
-          : `Agent execution failed: ${result.error}`,
+        eventType: result.outcome,
+        message:
+          result.outcome === 'completed'
+            ? `Agent execution completed successfully`
+            : result.outcome === 'timed_out'
+              ? `Agent execution timed out after ${timeoutMs}ms`
+              : `Agent execution failed: ${result.error}`,
         data: { tokensUsed: result.tokensUsed, costUsd: result.costUsd, durationMs },
       });
 
       this.executionLogger.info(
-        { agentId, success: result.success, durationMs },
+        { agentId, success: result.success, outcome: result.outcome, durationMs },
         'Agent execution completed'
       );
 
-      return {
-        ...result,
-        durationMs,
-      };
+      return await this.recordResult(agentId, { ...result, durationMs });
     } catch (error) {
       const durationMs = Date.now() - startTime;
       const errorMessage = error instanceof Error ? error.message : String(error);
 
       this.executionLogger.error({ agentId, error: errorMessage }, 'Agent execution failed');
 
-      return {
+      return this.recordResult(agentId, {
         success: false,
+        outcome: 'failed',
         output: '',
+        finishReason: 'error',
         error: errorMessage,
         tokensUsed: 0,
         durationMs,
         costUsd: 0,
-      };
+      });
     }
   }
 
   /**
-   * Run the Claude Agent SDK query and collect results
+   * Store the result in agent_results
+   * Failing to store it is logged; the result is returned either way.
    */
-  private async runQuery(agent: Agent, options: Options, tracer: AgentTracer): Promise<Omit<AgentResult, 'durationMs'>> {
-    const agentQuery: Query = query({
-      prompt: agent.task_description,
+  private async recordResult(agentId: string, result: AgentResult): Promise<AgentResult> {
+    try {
+      await this.resultRepo.create({
+        agent_id: agentId,
+        outcome: result.outcome,
+        finish_reason: result.finishReason ?? null,
+        error_message: result.error ?? null,
+        output: result.output,
+        structured_output: result.structuredOutput ?? null,
+        tokens_used: result.tokensUsed,
+        cost_usd: result.costUsd,
+        duration_ms: result.durationMs,
+      });
+    } catch (error) {
+      this.executionLogger.error({ agentId, error }, 'Failed to record agent result');
+    }
+    return result;
+  }
+
+  /**
+   * Open the SDK message stream for an agent
+   *
+   * Depending on the cassette mode this is the live query(), the live query()
+   * wrapped in a recorder, or a recorded cassette played back.
+   */
+  private async openStream(agent: Agent, options: Options): Promise<SdkSession> {
+    const { mode } = this.cassetteOptions;
+
+    if (mode === 'replay') {
+      const filePath = SessionCassette.resolvePath(this.cassetteOptions, agent.id);
+      this.executionLogger.info({ agentId: agent.id, filePath }, 'Replaying SDK session from cassette');
+      const cassette = await SessionCassette.load(filePath);
+      return { messages: cassette.replay(), query: null, cassette: null };
+    }
+
+    // SDK MCP servers are only served in streaming input mode
+    const agentQuery = query({
+      prompt: AgentExecutor.promptStream(agent.task_description),
       options,
     });
 
+    if (mode === 'record') {
+      const filePath = SessionCassette.resolvePath(this.cassetteOptions, agent.id);
+      this.executionLogger.info({ agentId: agent.id, filePath }, 'Recording SDK session to cassette');
+      const cassette = SessionCassette.create(filePath, agent.id, agent.role, agent.task_description);
+      return { messages: cassette.record(agentQuery), query: agentQuery, cassette };
+    }
+
+    return { messages: agentQuery, query: agentQuery, cassette: null };
+  }
+
+  /**
+   * Continue an interrupted SDK session, or re-prompt a finished one
+   * Recording sessions keep appending to the same cassette.
+   */
+  private resumeStream(
+    session: SdkSession,
+    options: Options,
+    sessionId: string,
+    prompt: string = RESUME_PROMPT
+  ): SdkSession {
+    const agentQuery = query({
+      prompt: AgentExecutor.promptStream(prompt),
+      options: { ...options, resume: sessionId },
+    });
+
+    return {
+      messages: session.cassette ? session.cassette.record(agentQuery) : agentQuery,
+      query: agentQuery,
+      cassette: session.cassette,
+    };
+  }
+
+  /**
+   * SDK hooks that deliver pending interventions into the live session
+   *
+   * - PostToolUse / UserPromptSubmit: added as context for the next turn
+   * - Stop: the session is kept going so the agent can respond to them
+   */
+  private buildInterventionHooks(control: AgentControl): Options['hooks'] {
+    const addContext: HookCallback = async (input) => {
+      if (input.hook_event_name !== 'PostToolUse' && input.hook_event_name !== 'UserPromptSubmit') {
+        return {};
+      }
+
+      const guidance = await control.deliverInterventions();
+      return guidance
+        ? {
+            hookSpecificOutput: {
+              hookEventName: input.hook_event_name,
+              additionalContext: guidance,
+            },
+          }
+        : {};
+    };
+
+    const holdStop: HookCallback = async () => {
+      const guidance = await control.deliverInterventions();
+      return guidance ? { decision: 'block', reason: guidance } : {};
+    };
+
+    return {
+      PostToolUse: [{ hooks: [addContext] }],
+      UserPromptSubmit: [{ hooks: [addContext] }],
+      Stop: [{ hooks: [holdStop] }],
+    };
+  }
+
+  /**
+   * Structured output as a JSON object (non-objects are not stored)
+   */
+  private static asRecord(value: unknown): Record<string, unknown> | null {
+    return value && typeof value === 'object' && !Array.isArray(value)
+      ? (value as Record<string, unknown>)
+      : null;
+  }
+
+  /**
+   * Wrap a prompt as a single-message input stream
+   */
+  private static promptStream(prompt: string): AsyncIterable<SDKUserMessage> {
+    const message: SDKUserMessage = {
+      type: 'user',
+      message: { role: 'user', content: prompt },
+      parent_tool_use_id: null,
+      session_id: '',
+    };
+
+    return {
+      [Symbol.asyncIterator](): AsyncIterator<SDKUserMessage> {
+        let sent = false;
+        return {
+          next: (): Promise<IteratorResult<SDKUserMessage>> => {
+            if (sent) {
+              return Promise.resolve({ done: true, value: undefined });
+            }
+            sent = true;
+            return Promise.resolve({ done: false, value: message });
+          },
+        };
+      },
+    };
+  }
+
+  /**
+   * Run the Claude Agent SDK query and collect results
+   * When the deadline passes, the output collected so far is returned as 'timed_out'.
+   * Tokens and cost add up over all segments of a paused and resumed session.
+   * Aborting `termination` stops the session (the agent was terminated).
+   */
+  private async runQuery(
+    agent: Agent,
+    options: Options,
+    tracer: AgentTracer,
+    deadline: ExecutionDeadline,
+    control: AgentControl,
+    outputSchema: OutputSchema | null,
+    termination: AbortController
+  ): Promise<Omit<AgentResult, 'durationMs'>> {
     let output = '';
+    let outputAttempts = 0;
     let tokensUsed = 0;
     let costUsd = 0;
+    let sessionId: string | null = null;
+    let messageCount = 0;
+    const snapshot = (): Record<string, unknown> => ({
+      status: agent.status,
+      session_id: sessionId,
+      output,
+      tokens_used: tokensUsed,
+      cost_usd: costUsd,
+      message_count: messageCount,
+    });
+    const safePoint = { signal: deadline.signal, deadline };
 
     try {
-      for await (const message of agentQuery) {
-        this.executionLogger.debug(
-          { agentId: agent.id, messageType: message.type },
-          'Received SDK message'
-        );
-
-        // Log every SDK message as a trace
-        const content = tracer.extractContent(message);
-        const tokens =
-          message.type === 'result' && 'usage' in message
-            ? { input: message.usage.input_tokens, output: message.usage.output_tokens }
-            : undefined;
-        await tracer.logTrace(message.type, content, message, tokens);
-
-        // Collect assistant responses
-        if (message.type === 'assistant') {
-          const text = this.extractTextFromAssistant(message);
-          if (text) {
-            output += text + '\n';
+      let session = await this.openStream(agent, options);
+
+      for (;;) {
+        let interrupted = false;
+        let correction: string | null = null;
+
+        for await (const message of session.messages) {
+          deadline.signal.throwIfAborted();
+          sessionId = message.session_id || sessionId;
+          messageCount++;
+
+          this.executionLogger.debug(
+            { agentId: agent.id, messageType: message.type },
+            'Received SDK message'
+          );
+
+          // Log every SDK message as a trace
+          const content = tracer.extractContent(message);
+          const tokens =
+            message.type === 'result' && 'usage' in message
+              ? { input: message.usage.input_tokens, output: message.usage.output_tokens }
+              : undefined;
+          await tracer.logTrace(message.type, content, message, tokens);
+
+          // Collect assistant responses
+          if (message.type === 'assistant') {
+            const text = this.extractTextFromAssistant(message);
+            if (text) {
+              output += text + '\n';
+              await control.acknowledgeInterventions(text);
+            }
+
+            // Extract and log thinking/reasoning
+            const thinking = tracer.extractThinking(message);
+            if (thinking) {
+              await tracer.logDecision({
+                decisionType: 'reasoning',
+                reasoning: thinking,
+              });
+            }
+
+            // Extract and log tool usage
+            const toolUse = tracer.extractToolUse(message);
+            if (toolUse) {
+              // Note: We can't intercept tool execution here, but we log the intent
+              await tracer.logEvent({
+                eventType: 'tool_use',
+                message: `Tool requested: ${toolUse.name}`,
+                data: { toolName: toolUse.name, input: toolUse.input },
+              });
+            }
           }
 
-          // Extract and log thinking/reasoning
-          const thinking = tracer.extractThinking(message);
-          if (thinking) {
-            await tracer.logDecision({
-              decisionType: 'reasoning',
-              reasoning: thinking,
-            });
+          // Handle final result
+          if (message.type === 'result') {
+            tokensUsed += message.usage.input_tokens + message.usage.output_tokens;
+            costUsd += message.total_cost_usd;
+            await control.acknowledgeInterventions(
+              message.subtype === 'success' ? message.result : null
+            );
+
+            if (interrupted) {
+              // End of the turn we interrupted for a pause
+              break;
+            }
+
+            if (message.subtype === 'success') {
+              let structuredOutput = AgentExecutor.asRecord(message.structured_output);
+
+              if (outputSchema) {
+                const validation =
+                  message.structured_output !== undefined
+                    ? outputSchema.validate(message.structured_output)
+                    : outputSchema.validateText(message.result);
+
+                if (!validation.success) {
+                  outputAttempts++;
+                  if (outputAttempts >= outputSchema.maxAttempts) {
+                    return {
+                      success: false,
+                      outcome: 'failed',
+                      output: message.result || output,
+                      finishReason: 'schema_mismatch',
+                      error:
+                        `Output did not match schema after ${outputAttempts} attempts: ` +
+                        validation.errors.join('; '),
+                      tokensUsed,
+                      costUsd,
+                    };
+                  }
+
+                  this.executionLogger.info(
+                    { agentId: agent.id, attempt: outputAttempts, errors: validation.errors },
+                    'Output did not match schema, re-prompting'
+                  );
+                  correction = outputSchema.correctionPrompt(validation.errors);
+                  // A replayed cassette already contains the corrected turn
+                  if (session.query) {
+                    break;
+                  }
+                  continue;
+                }
+                structuredOutput = validation.data;
+              }
+
+              return {
+                success: true,
+                outcome: 'completed',
+                output: message.result || output,
+                structuredOutput,
+                finishReason: message.subtype,
+                tokensUsed,
+                costUsd,
+              };
+            } else {
+              // Error during execution
+              const errors = 'errors' in message ? message.errors.join('\n') : 'Unknown error';
+              return {
+                success: false,
+                outcome: 'failed',
+                output,
+                finishReason: message.subtype,
+                error: `Execution error: ${message.subtype}\n${errors}`,
+                tokensUsed,
+                costUsd,
+              };
+            }
           }
 
-          // Extract and log tool usage
-          const toolUse = tracer.extractToolUse(message);
-          if (toolUse) {
-            // Note: We can't intercept tool execution here, but we log the intent
-            await tracer.logEvent({
-              eventType: 'tool_use',
-              message: `Tool requested: ${toolUse.name}`,
-              data: { toolName: toolUse.name, input: toolUse.input },
-            });
+          // Safe point between messages: a terminated agent stops; for a pause
+          // a live session is interrupted first, a replayed one simply waits
+          if (await control.isTerminationRequested()) {
+            termination.abort(new Error('Agent terminated'));
+            deadline.signal.throwIfAborted();
+          }
+          if (session.query) {
+            if (!interrupted && (await control.isPauseRequested())) {
+              await session.query.interrupt();
+              interrupted = true;
+            }
+          } else {
+            await control.pauseIfRequested(snapshot, safePoint);
           }
+          await control.checkpointIfDue(snapshot);
         }
 
-        // Handle final result
-        if (message.type === 'result') {
-          tokensUsed = message.usage.input_tokens + message.usage.output_tokens;
-          costUsd = message.total_cost_usd;
-
-          if (message.subtype === 'success') {
-            return {
-              success: true,
-              output: message.result || output,
-              tokensUsed,
-              costUsd,
-            };
-          } else {
-            // Error during execution
-            const errors = 'errors' in message ? message.errors.join('\n') : 'Unknown error';
-            return {
-              success: false,
-              output,
-              error: `Execution error: ${message.subtype}\n${errors}`,
-              tokensUsed,
-              costUsd,
-            };
+        if (correction && session.query) {
+          if (!sessionId) {
+            throw new Error('Cannot re-prompt: SDK session id is unknown');
           }
+          session = this.resumeStream(session, options, sessionId, correction);
+          continue;
+        }
+
+        // If we exit the loop without a result message, something went wrong
+        if (!interrupted) {
+          throw new Error('Query completed without result message');
         }
-      }
 
-      // If we exit the loop without a result message, something went wrong
-      throw new Error('Query completed without result message');
+        const checkpoint = await control.pause(snapshot(), safePoint);
+        const resumeSessionId =
+          typeof checkpoint.state_data.session_id === 'string'
+            ? checkpoint.state_data.session_id
+            : sessionId;
+        if (!resumeSessionId) {
+          throw new Error('Cannot resume: SDK session id is unknown');
+        }
+        session = this.resumeStream(session, options, resumeSessionId);
+      }
     } catch (error) {
+      if (deadline.timedOut) {
+        this.executionLogger.warn(
+          { agentId: agent.id, timeoutMs: deadline.timeoutMs, outputLength: output.length },
+          'Agent execution timed out'
+        );
+        return {
+          success: false,
+          outcome: 'timed_out',
+          output,
+          finishReason: 'timed_out',
+          error: `Execution timed out after ${deadline.timeoutMs}ms`,
+          tokensUsed,
+          costUsd,
+        };
+      }
+
       const errorMessage = error instanceof Error ? error.message : String(error);
+      if (termination.signal.aborted) {
+        const reason: unknown = termination.signal.reason;
+        this.executionLogger.warn({ agentId: agent.id }, 'Agent execution terminated');
+        return {
+          success: false,
+          outcome: 'failed',
+          output,
+          finishReason: 'terminated',
+          error: reason instanceof Error ? reason.message : 'Agent terminated',
+          tokensUsed,
+          costUsd,
+        };
+      }
+
       return {
         success: false,
+        outcome: 'failed',
         output,
+        finishReason: 'error',
         error: errorMessage,
         tokensUsed,
         costUsd,
@@ -227,58 +684,23 @@ export class AgentExecutor {
   }
 
   /**
-   * Build system prompt based on agent role
+   * Build system prompt from the role's registered prompt
    */
-  private buildSystemPrompt(agent: Agent, workspacePath: string): string {
-    const basePrompt = `You are an AI agent with the role: ${agent.role}.`;
-
-    const rolePrompts: Record<string, string> = {
-      'spec-writer': `Your task is to write clear, detailed specifications.
-Focus on requirements, constraints, and success criteria.
-Use markdown format with sections for Overview, Requirements, and Acceptance Criteria.`,
-
-      'implementer': `Your task is to implement code based on specifications.
-Write clean, well-structured code with proper error handling.
-Follow best practices and use TypeScript types correctly.`,
-
-      'tester': `Your task is to write comprehensive tests.
-Use Vitest for testing and aim for high coverage.
-Test both happy paths and edge cases.`,
-
-      'reviewer': `Your task is to review code for quality and correctness.
-Check for bugs, security issues, and code style.
-Provide constructive feedback with specific suggestions.`,
-
-      'file-writer': `Your task is to create and write files.
-Ensure file content is exactly as requested.
-Use proper file permissions and encoding.`,
-    };
-
-    const roleSpecificPrompt = rolePrompts[agent.role] || '';
-
-    let prompt = basePrompt;
-    if (roleSpecificPrompt) {
-      prompt += '\n\n' + roleSpecificPrompt;
+  private buildSystemPrompt(
+    agent: Agent,
+    roleSettings: RoleExecutionSettings,
+    workspacePath: string
+  ): string {
+    let prompt = `You are an AI agent with the role: ${agent.role}.`;
+    if (roleSettings.systemPrompt) {
+      prompt += '\n\n' + roleSettings.systemPrompt;
     }
 
     prompt += `\n\nYou are working in the directory: ${workspacePath}`;
     prompt += `\nAll file operations should be relative to this directory.`;
+    prompt += `\n\nUse the ${ORCHESTRATOR_MCP_SERVER_NAME} tools to delegate sub-tasks to child agents, ` +
+      `message related agents, check your remaining budget and post progress updates.`;
 
     return prompt;
   }
-
-  /**
-   * Get appropriate Claude model for agent role
-   */
-  private getModelForRole(role: string): string {
-    const modelMap: Record<string, string> = {
-      'spec-writer': 'claude-3-5-sonnet-20241022',
-      'implementer': 'claude-3-5-sonnet-20241022',
-      'reviewer': 'claude-3-5-sonnet-20241022',
-      'tester': 'claude-3-5-sonnet-20241022',
-      'file-writer': 'claude-3-5-haiku-20241022', // Haiku for simple tasks
-    };
-
-    return modelMap[role] || 'claude-3-5-sonnet-20241022';
-  }
 }
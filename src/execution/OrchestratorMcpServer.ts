@@ -0,0 +1,280 @@
+/**
+ * OrchestratorMcpServer - In-process MCP server for Claude Agent SDK agents
+ *
+ * Gives SDK-driven agents (coding agents running in worktrees) access to the
+ * orchestration layer. Every tool is scoped to the agent the server was
+ * created for: children are spawned under it, messages are sent from it, and
+ * budget/progress queries refer to it.
+ *
+ * Tools (exposed to the model as mcp__orchestrator__<name>):
+ * - spawn_child - delegate a sub-task to a child agent
+ * - list_relatives - parent, children and siblings of the calling agent
+ * - message_agent - send a message to the parent, a child or a sibling
+ * - read_inbox - receive pending messages
+ * - get_budget - remaining token budget
+ * - post_progress - report progress (trace event + workflow node metadata)
+ */
+
+import {
+  createSdkMcpServer,
+  tool,
+  type McpSdkServerConfigWithInstance,
+} from '@anthropic-ai/claude-agent-sdk';
+import { z } from 'zod';
+import { Agent } from '../core/Agent.js';
+import { BudgetService } from '../services/BudgetService.js';
+import { HierarchyService } from '../services/HierarchyService.js';
+import { SharedQueue } from '../infrastructure/SharedQueue.js';
+import { WorkflowRepository } from '../database/repositories/WorkflowRepository.js';
+import { AgentTracer } from '../monitoring/AgentTracer.js';
+import { logger } from '../utils/Logger.js';
+
+export const ORCHESTRATOR_MCP_SERVER_NAME = 'orchestrator';
+
+/**
+ * Fully qualified tool names, for Options.allowedTools
+ */
+export const ORCHESTRATOR_MCP_TOOLS = [
+  'spawn_child',
+  'list_relatives',
+  'message_agent',
+  'read_inbox',
+  'get_budget',
+  'post_progress',
+].map((name) => `mcp__${ORCHESTRATOR_MCP_SERVER_NAME}__${name}`);
+
+/**
+ * Services backing the MCP tools
+ */
+export interface OrchestratorMcpDependencies {
+  budgetService?: BudgetService;
+  hierarchyService?: HierarchyService;
+  queue?: SharedQueue;
+  workflowRepo?: WorkflowRepository;
+  tracer?: AgentTracer;
+}
+
+type ToolResult = { content: Array<{ type: 'text'; text: string }>; isError?: boolean };
+
+/**
+ * Tool definition as accepted by createSdkMcpServer
+ */
+export type OrchestratorMcpTool = NonNullable<
+  Parameters<typeof createSdkMcpServer>[0]['tools']
+>[number];
+
+const mcpLogger = logger.child({ component: 'OrchestratorMcpServer' });
+
+let defaultQueue: SharedQueue | null = null;
+
+/**
+ * Process-wide queue used when no queue is injected
+ */
+function getDefaultQueue(): SharedQueue {
+  if (!defaultQueue) {
+    defaultQueue = new SharedQueue();
+  }
+  return defaultQueue;
+}
+
+/**
+ * Run a tool handler, converting its outcome into an MCP tool result.
+ * Errors are reported to the model instead of failing the session.
+ */
+async function runTool(
+  agentId: string,
+  name: string,
+  handler: () => Promise<unknown>
+): Promise<ToolResult> {
+  try {
+    const data = await handler();
+    mcpLogger.debug({ agentId, tool: name }, 'Orchestrator tool executed');
+    return { content: [{ type: 'text', text: JSON.stringify(data ?? null) }] };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    mcpLogger.warn({ agentId, tool: name, error: message }, 'Orchestrator tool failed');
+    return { content: [{ type: 'text', text: message }], isError: true };
+  }
+}
+
+/**
+ * Create the orchestrator MCP server for one agent
+ *
+ * @param agentId - Agent the tools act on behalf of
+ * @param deps - Optional service overrides
+ * @returns SDK MCP server config for Options.mcpServers
+ */
+export function createOrchestratorMcpServer(
+  agentId: string,
+  deps: OrchestratorMcpDependencies = {}
+): McpSdkServerConfigWithInstance {
+  return createSdkMcpServer({
+    name: ORCHESTRATOR_MCP_SERVER_NAME,
+    version: '1.0.0',
+    tools: createOrchestratorMcpTools(agentId, deps),
+  });
+}
+
+/**
+ * Create the orchestrator tool definitions for one agent
+ *
+ * @param agentId - Agent the tools act on behalf of
+ * @param deps - Optional service overrides
+ * @returns Tool definitions (handlers can be invoked directly)
+ */
+export function createOrchestratorMcpTools(
+  agentId: string,
+  deps: OrchestratorMcpDependencies = {}
+): OrchestratorMcpTool[] {
+  const budgetService = deps.budgetService ?? new BudgetService();
+  const hierarchyService = deps.hierarchyService ?? new HierarchyService();
+  const workflowRepo = deps.workflowRepo ?? new WorkflowRepository();
+  const tracer = deps.tracer ?? new AgentTracer(agentId);
+  const queue = (): SharedQueue => deps.queue ?? getDefaultQueue();
+
+  /**
+   * Agents the caller may message: parent, children and siblings
+   */
+  const getRelatives = async (): Promise<{
+    parent: string | null;
+    children: string[];
+    siblings: string[];
+  }> => {
+    const [parent, children, siblings] = await Promise.all([
+      hierarchyService.getParent(agentId),
+      hierarchyService.getChildren(agentId),
+      hierarchyService.getSiblings(agentId),
+    ]);
+    return { parent, children, siblings };
+  };
+
+  return [
+    tool(
+      'spawn_child',
+      'Spawn a child agent for a sub-task. Its budget is taken from your own budget. Returns the child agent ID.',
+      {
+        role: z.string().min(1).describe('Role of the child agent (e.g. implementer, tester)'),
+        task_description: z.string().min(1).describe('Self-contained task for the child agent'),
+        budget: z.number().int().positive().describe('Token budget to allocate to the child'),
+      },
+      (args) =>
+        runTool(agentId, 'spawn_child', async () => {
+          const childId = await new Agent(agentId).spawnSubordinate(
+            args.role,
+            args.task_description,
+            args.budget
+          );
+          await tracer.logEvent({
+            eventType: 'child_spawned',
+            message: `Spawned ${args.role} child via MCP`,
+            data: { childId, role: args.role, budget: args.budget },
+          });
+          return { agent_id: childId, role: args.role, budget: args.budget };
+        })
+    ),
+    tool('list_relatives', 'List your parent, children and sibling agent IDs.', {}, () =>
+      runTool(agentId, 'list_relatives', getRelatives)
+    ),
+    tool(
+      'message_agent',
+      'Send a message to your parent, one of your children or a sibling agent.',
+      {
+        to: z.string().uuid().describe('Recipient agent ID'),
+        message: z.string().min(1).describe('Message text'),
+        priority: z.number().int().min(0).max(10).optional().describe('Priority 0-10 (default 0)'),
+      },
+      (args) =>
+        runTool(agentId, 'message_agent', async () => {
+          const { parent, children, siblings } = await getRelatives();
+          if (args.to !== parent && !children.includes(args.to) && !siblings.includes(args.to)) {
+            throw new Error(`Agent ${args.to} is not your parent, child or sibling`);
+          }
+
+          const sent = await queue().send(
+            agentId,
+            args.to,
+            { type: 'message', content: args.message },
+            args.priority ?? 0
+          );
+          return { message_id: sent.id, to: args.to };
+        })
+    ),
+    tool(
+      'read_inbox',
+      'Read pending messages sent to you, highest priority first. Messages are marked delivered.',
+      {
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(50)
+          .optional()
+          .describe('Maximum number of messages (default 10)'),
+      },
+      (args) =>
+        runTool(agentId, 'read_inbox', async () => {
+          const messages = await queue().receive(agentId, args.limit ?? 10);
+          for (const message of messages) {
+            await queue().markDelivered(message.id);
+          }
+          return messages.map((message) => ({
+            id: message.id,
+            from: message.sender_id,
+            payload: message.payload,
+            priority: message.priority,
+            sent_at: message.created_at,
+          }));
+        })
+    ),
+    tool(
+      'get_budget',
+      'Get your token budget: allocated, used, reserved for children and remaining.',
+      {},
+      () =>
+        runTool(agentId, 'get_budget', async () => {
+          const budget = await budgetService.getBudget(agentId);
+          if (!budget) {
+            return { tracked: false };
+          }
+          return {
+            tracked: true,
+            allocated: budget.allocated,
+            used: budget.used,
+            reserved: budget.reserved,
+            remaining: budget.allocated - budget.used - budget.reserved,
+          };
+        })
+    ),
+    tool(
+      'post_progress',
+      'Report progress on your task. Visible on the dashboard and on your workflow node.',
+      {
+        message: z.string().min(1).describe('What you have done or are doing'),
+        percent: z.number().min(0).max(100).optional().describe('Estimated completion percentage'),
+      },
+      (args) =>
+        runTool(agentId, 'post_progress', async () => {
+          const progress = {
+            message: args.message,
+            percent: args.percent ?? null,
+            updated_at: new Date().toISOString(),
+          };
+
+          await tracer.logEvent({
+            eventType: 'progress',
+            message: args.message,
+            data: progress,
+          });
+
+          const node = await workflowRepo.findNodeByAgentId(agentId);
+          if (node) {
+            await workflowRepo.updateNode(node.id, {
+              metadata: { ...(node.metadata ?? {}), progress },
+            });
+          }
+
+          return { recorded: true, workflow_node_id: node?.id ?? null };
+        })
+    ),
+  ];
+}
@@ -0,0 +1,160 @@
+/**
+ * SessionCassette - Record/replay for Claude Agent SDK sessions
+ *
+ * A cassette is a JSON file holding the complete SDKMessage stream of one
+ * agent session. In record mode the live query() stream is passed through
+ * unchanged while every message is captured; in replay mode the recorded
+ * messages are fed back in order, so AgentExecutor can be exercised
+ * deterministically without network access.
+ */
+
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import { logger } from '../utils/Logger.js';
+
+/**
+ * Cassette operating mode
+ * - off: talk to the live SDK, no recording
+ * - record: talk to the live SDK and write the stream to a cassette
+ * - replay: read the stream from a cassette, never touch the SDK
+ */
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+export interface CassetteOptions {
+  mode: CassetteMode;
+  /** Directory for per-agent cassettes (`<dir>/<agentId>.json`) */
+  dir?: string;
+  /** Explicit cassette file; takes precedence over `dir` */
+  path?: string;
+}
+
+/**
+ * On-disk cassette format
+ */
+export interface CassetteData {
+  version: 1;
+  agentId: string;
+  role: string;
+  prompt: string;
+  recordedAt: string;
+  messages: SDKMessage[];
+  /** Error thrown by the live stream, re-thrown on replay */
+  error?: string;
+}
+
+const cassetteLogger = logger.child({ component: 'SessionCassette' });
+
+export class SessionCassette {
+  constructor(
+    public readonly filePath: string,
+    private data: CassetteData
+  ) {}
+
+  /**
+   * Resolve cassette options from AGENT_CASSETTE_MODE / AGENT_CASSETTE_DIR
+   */
+  static optionsFromEnv(): CassetteOptions {
+    const mode = process.env.AGENT_CASSETTE_MODE;
+    return {
+      mode: mode === 'record' || mode === 'replay' ? mode : 'off',
+      dir: process.env.AGENT_CASSETTE_DIR || './cassettes',
+    };
+  }
+
+  /**
+   * Resolve the cassette file for an agent
+   *
+   * @throws Error if neither `path` nor `dir` is configured
+   */
+  static resolvePath(options: CassetteOptions, agentId: string): string {
+    if (options.path) {
+      return options.path;
+    }
+    if (!options.dir) {
+      throw new Error('Cassette directory or path must be configured');
+    }
+    return path.join(options.dir, `${agentId}.json`);
+  }
+
+  /**
+   * Start a new, empty cassette for recording
+   */
+  static create(filePath: string, agentId: string, role: string, prompt: string): SessionCassette {
+    return new SessionCassette(filePath, {
+      version: 1,
+      agentId,
+      role,
+      prompt,
+      recordedAt: new Date().toISOString(),
+      messages: [],
+    });
+  }
+
+  /**
+   * Load a cassette from disk
+   *
+   * @throws Error if the file is missing or not a valid cassette
+   */
+  static async load(filePath: string): Promise<SessionCassette> {
+    const raw = await fs.readFile(filePath, 'utf-8');
+    const data = JSON.parse(raw) as CassetteData;
+
+    if (data.version !== 1 || !Array.isArray(data.messages)) {
+      throw new Error(`Invalid cassette file: ${filePath}`);
+    }
+
+    return new SessionCassette(filePath, data);
+  }
+
+  get messages(): readonly SDKMessage[] {
+    return this.data.messages;
+  }
+
+  get error(): string | undefined {
+    return this.data.error;
+  }
+
+  /**
+   * Write the cassette to disk
+   */
+  async save(): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, JSON.stringify(this.data, null, 2), 'utf-8');
+    cassetteLogger.info(
+      { filePath: this.filePath, messageCount: this.data.messages.length },
+      'Cassette saved'
+    );
+  }
+
+  /**
+   * Pass a live stream through while capturing every message.
+   * The cassette is saved when the stream ends, is abandoned, or throws.
+   */
+  async *record(source: AsyncIterable<SDKMessage>): AsyncGenerator<SDKMessage> {
+    try {
+      for await (const message of source) {
+        this.data.messages.push(message);
+        yield message;
+      }
+    } catch (error) {
+      this.data.error = error instanceof Error ? error.message : String(error);
+      throw error;
+    } finally {
+      await this.save();
+    }
+  }
+
+  /**
+   * Yield the recorded messages in order, then re-throw the recorded error (if any)
+   */
+  *replay(): Generator<SDKMessage> {
+    for (const message of this.data.messages) {
+      yield message;
+    }
+
+    if (this.data.error) {
+      throw new Error(this.data.error);
+    }
+  }
+}
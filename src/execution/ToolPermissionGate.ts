@@ -0,0 +1,196 @@
+/**
+ * ToolPermissionGate - canUseTool hook for Claude Agent SDK sessions
+ *
+ * Every tool request of an SDK agent is evaluated by the ToolPolicyEngine:
+ * - allow: the tool runs
+ * - deny: the model is told why; the denial is recorded in the agent trace
+ * - ask: an approval_requests row is created and the tool call blocks until
+ *   the request is approved or rejected from the dashboard, or expires
+ */
+
+import type { CanUseTool, PermissionResult } from '@anthropic-ai/claude-agent-sdk';
+import { ApprovalRepository } from '../database/repositories/ApprovalRepository.js';
+import { eventBus } from '../infrastructure/EventBus.js';
+import { AgentTracer } from '../monitoring/AgentTracer.js';
+import { config } from '../config/env.js';
+import { logger } from '../utils/Logger.js';
+import type { ToolPolicyEngine, ToolPolicyResult } from './ToolPolicyEngine.js';
+
+/**
+ * Gate settings and service overrides
+ */
+export interface ToolPermissionGateOptions {
+  approvalRepo?: ApprovalRepository;
+  tracer?: AgentTracer;
+  /** How long an approval may stay pending (default: APPROVAL_TIMEOUT) */
+  approvalTimeoutMs?: number;
+  /** How often a pending approval is re-checked (default: APPROVAL_POLL_INTERVAL) */
+  pollIntervalMs?: number;
+}
+
+export class ToolPermissionGate {
+  private approvalRepo: ApprovalRepository;
+  private tracer: AgentTracer;
+  private approvalTimeoutMs: number;
+  private pollIntervalMs: number;
+  private gateLogger = logger.child({ component: 'ToolPermissionGate' });
+
+  /**
+   * @param agentId - Agent whose tool requests are gated
+   * @param engine - Policy engine for the agent's role and worktree
+   * @param options - Gate settings and service overrides
+   */
+  constructor(
+    private agentId: string,
+    private engine: ToolPolicyEngine,
+    options: ToolPermissionGateOptions = {}
+  ) {
+    this.approvalRepo = options.approvalRepo || new ApprovalRepository();
+    this.tracer = options.tracer || new AgentTracer(agentId);
+    this.approvalTimeoutMs = options.approvalTimeoutMs ?? config.interactive.approvalTimeout;
+    this.pollIntervalMs = options.pollIntervalMs ?? config.interactive.approvalPollInterval;
+  }
+
+  /**
+   * SDK canUseTool callback (pass as Options.canUseTool)
+   */
+  canUseTool: CanUseTool = async (toolName, input, { signal, toolUseID }) => {
+    const evaluation = this.engine.evaluate(toolName, input);
+
+    switch (evaluation.decision) {
+      case 'allow':
+        return { behavior: 'allow', updatedInput: input };
+
+      case 'deny':
+        await this.recordDenial(toolName, input, evaluation.reason);
+        return { behavior: 'deny', message: evaluation.reason };
+
+      case 'ask':
+        return this.requestApproval(toolName, input, evaluation, toolUseID, signal);
+    }
+  };
+
+  /**
+   * Create an approval request and wait for its decision
+   */
+  private async requestApproval(
+    toolName: string,
+    input: Record<string, unknown>,
+    evaluation: ToolPolicyResult,
+    toolUseID: string,
+    signal: AbortSignal
+  ): Promise<PermissionResult> {
+    const request = await this.approvalRepo.create({
+      request_type: evaluation.requestType,
+      entity_type: 'agent',
+      entity_id: this.agentId,
+      requested_by: this.agentId,
+      request_data: {
+        tool_name: toolName,
+        tool_input: input,
+        tool_use_id: toolUseID,
+        reason: evaluation.reason,
+        ...(evaluation.path !== undefined && { path: evaluation.path }),
+      },
+      risk_level: evaluation.requestType === 'external_api_call' ? 'high' : 'medium',
+      expires_at: new Date(Date.now() + this.approvalTimeoutMs),
+    });
+
+    await this.tracer.logEvent({
+      eventType: 'approval_requested',
+      message: `Approval requested for ${toolName}: ${evaluation.reason}`,
+      data: { approvalId: request.id, toolName, requestType: evaluation.requestType },
+    });
+    eventBus.emit('approval.requested', {
+      requestId: request.id,
+      requestType: request.request_type,
+      entityType: request.entity_type,
+      entityId: request.entity_id,
+      riskLevel: request.risk_level,
+      summary: `${toolName}: ${evaluation.reason}`,
+      expiresAt: request.expires_at?.toISOString() ?? null,
+    });
+
+    const deadline = Date.now() + this.approvalTimeoutMs;
+
+    while (Date.now() < deadline && !signal.aborted) {
+      const current = await this.approvalRepo.findById(request.id);
+
+      if (current?.status === 'approved' || current?.status === 'auto_approved') {
+        await this.tracer.logEvent({
+          eventType: 'approval_resolved',
+          message: `Approval granted for ${toolName}`,
+          data: { approvalId: request.id, toolName, reviewedBy: current.reviewed_by },
+        });
+        return { behavior: 'allow', updatedInput: input };
+      }
+
+      if (current?.status === 'rejected' || current?.status === 'expired' || !current) {
+        const notes = current?.review_notes ? `: ${current.review_notes}` : '';
+        const reason = `Request to use ${toolName} was ${current?.status ?? 'withdrawn'}${notes}`;
+        await this.recordDenial(toolName, input, reason, request.id);
+        return { behavior: 'deny', message: reason };
+      }
+
+      await this.sleep(Math.min(this.pollIntervalMs, Math.max(deadline - Date.now(), 0)), signal);
+    }
+
+    const outcome = signal.aborted ? 'aborted' : 'expired';
+    const expired = await this.approvalRepo.decide(
+      request.id,
+      'expired',
+      'system',
+      `Agent session ${outcome}`
+    );
+    if (expired) {
+      eventBus.emit('approval.resolved', {
+        requestId: expired.id,
+        entityType: expired.entity_type,
+        entityId: expired.entity_id,
+        status: expired.status,
+        reviewedBy: expired.reviewed_by,
+      });
+    }
+
+    const reason = signal.aborted
+      ? `Request to use ${toolName} was abandoned because the session was aborted`
+      : `Request to use ${toolName} was not reviewed within ${this.approvalTimeoutMs}ms`;
+    await this.recordDenial(toolName, input, reason, request.id);
+    return { behavior: 'deny', message: reason, interrupt: signal.aborted };
+  }
+
+  /**
+   * Record a denied tool request in the agent trace
+   */
+  private async recordDenial(
+    toolName: string,
+    input: Record<string, unknown>,
+    reason: string,
+    approvalId?: string
+  ): Promise<void> {
+    this.gateLogger.info({ agentId: this.agentId, toolName, reason }, 'Tool request denied');
+
+    await this.tracer.logEvent({
+      eventType: 'permission_denied',
+      message: `Tool denied: ${toolName}`,
+      data: { toolName, input, reason, ...(approvalId && { approvalId }) },
+    });
+  }
+
+  /**
+   * Wait between approval checks, waking early if the session is aborted
+   */
+  private sleep(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(done, ms);
+
+      function done(): void {
+        clearTimeout(timer);
+        signal.removeEventListener('abort', done);
+        resolve();
+      }
+
+      signal.addEventListener('abort', done, { once: true });
+    });
+  }
+}
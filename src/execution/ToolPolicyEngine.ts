@@ -0,0 +1,335 @@
+/**
+ * ToolPolicyEngine - Evaluates SDK tool requests against a role's policy
+ *
+ * Evaluation order (first match wins):
+ * 1. Orchestrator MCP tools are always allowed (they are scoped to the agent)
+ * 2. Tool deny list
+ * 3. File tools: paths outside the worktree are denied, then path globs
+ * 4. Bash: command patterns (every chained or substituted command must pass;
+ *    commands with substitutions, subshells or redirections are never allowed
+ *    without approval once the role has Bash rules)
+ * 5. Tool ask list, then tool allow list (plus the role's allowed_tools)
+ * 6. Policy default_decision
+ *
+ * Patterns use globs: '*' matches anything in tool names and Bash commands;
+ * in paths '*' stays within one directory and '**' spans directories.
+ */
+
+import { isAbsolute, relative, resolve, sep } from 'path';
+import {
+  ToolPolicySchema,
+  type PatternRules,
+  type ToolDecisionType,
+  type ToolPolicy,
+  type ToolPolicyInput,
+} from '../models/ToolPolicy.js';
+import type { ApprovalRequestTypeValue } from '../models/ApprovalRequest.js';
+import { ORCHESTRATOR_MCP_TOOLS } from './OrchestratorMcpServer.js';
+
+/**
+ * Result of evaluating one tool request
+ */
+export interface ToolPolicyResult {
+  decision: ToolDecisionType;
+  /** Human-readable reason (shown to the model on denial and to reviewers) */
+  reason: string;
+  /** Approval request type used when the decision is 'ask' */
+  requestType: ApprovalRequestTypeValue;
+  /** Worktree-relative path for file tools */
+  path?: string;
+}
+
+/**
+ * Tools whose input names a file or directory, and the input field holding it
+ */
+const FILE_TOOL_PATH_FIELDS: Record<string, string[]> = {
+  Read: ['file_path'],
+  Write: ['file_path'],
+  Edit: ['file_path'],
+  MultiEdit: ['file_path'],
+  NotebookEdit: ['notebook_path'],
+  Glob: ['path'],
+  Grep: ['path'],
+  LS: ['path'],
+};
+
+/**
+ * Tools that reach outside the machine
+ */
+const EXTERNAL_TOOLS = new Set(['WebFetch', 'WebSearch']);
+
+/**
+ * Separators between chained shell commands (including background '&'), and
+ * the bounds of substituted commands and subshells, whose inner commands are
+ * checked like chained ones
+ */
+const COMMAND_SEPARATOR = /\s*(?:&&|\|\||;|\||&|\n|\$\(|`|\(|\))\s*/;
+
+/**
+ * Shell syntax that runs or redirects more than the command itself:
+ * command substitution ($(...) or backticks), subshells and redirections
+ */
+const UNCHECKED_SHELL_SYNTAX = /\$\(|`|[()<>]/;
+
+/**
+ * Convert a glob pattern to an anchored regular expression
+ *
+ * @param pattern - Glob pattern
+ * @param pathMode - Treat '/' as a segment separator ('*' stops at it, '**' crosses it)
+ */
+export function globToRegExp(pattern: string, pathMode: boolean = false): RegExp {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        i++;
+        if (pathMode && pattern[i + 1] === '/') {
+          // '**/' matches zero or more directories
+          i++;
+          source += '(?:.*/)?';
+        } else {
+          source += '.*';
+        }
+      } else {
+        source += pathMode ? '[^/]*' : '.*';
+      }
+    } else if (char === '?') {
+      source += pathMode ? '[^/]' : '.';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Find the first pattern matching a value
+ */
+function findMatch(
+  patterns: string[],
+  value: string,
+  pathMode: boolean = false
+): string | undefined {
+  return patterns.find((pattern) => globToRegExp(pattern, pathMode).test(value));
+}
+
+/**
+ * Evaluate a value against allow/deny/ask pattern lists
+ *
+ * @returns Decision and matching pattern, or null if no list matches
+ */
+function matchRules(
+  rules: PatternRules,
+  value: string,
+  pathMode: boolean = false
+): { decision: ToolDecisionType; pattern: string } | null {
+  for (const decision of ['deny', 'ask', 'allow'] as const) {
+    const pattern = findMatch(rules[decision], value, pathMode);
+    if (pattern) {
+      return { decision, pattern };
+    }
+  }
+  return null;
+}
+
+export class ToolPolicyEngine {
+  private policy: ToolPolicy;
+  private worktreePath: string;
+  private roleTools: string[];
+  private defaultDecision: ToolDecisionType;
+
+  /**
+   * @param policy - Role tool policy (null = no extra rules)
+   * @param worktreePath - Agent's worktree; file access is confined to it
+   * @param roleTools - Role allowed_tools (null = role does not restrict tools)
+   */
+  constructor(
+    policy: ToolPolicyInput | null,
+    worktreePath: string,
+    roleTools: string[] | null = null
+  ) {
+    this.policy = ToolPolicySchema.parse(policy ?? {});
+    this.worktreePath = resolve(worktreePath);
+    this.roleTools = roleTools ?? [];
+    this.defaultDecision = this.policy.default_decision ?? (roleTools ? 'deny' : 'allow');
+  }
+
+  /**
+   * Evaluate a tool request
+   *
+   * @param toolName - SDK tool name
+   * @param input - Tool input
+   * @returns Decision with reason
+   */
+  evaluate(toolName: string, input: Record<string, unknown>): ToolPolicyResult {
+    const requestType = ToolPolicyEngine.requestTypeFor(toolName);
+    const result = (
+      decision: ToolDecisionType,
+      reason: string,
+      path?: string
+    ): ToolPolicyResult => ({
+      decision,
+      reason,
+      requestType,
+      ...(path !== undefined && { path }),
+    });
+
+    if (ORCHESTRATOR_MCP_TOOLS.includes(toolName)) {
+      return result('allow', 'Orchestrator tools are always available');
+    }
+
+    const deniedBy = findMatch(this.policy.deny, toolName);
+    if (deniedBy) {
+      return result('deny', `Tool ${toolName} is denied for this role (rule: ${deniedBy})`);
+    }
+
+    // File tools: confine to the worktree, then apply path globs
+    const pathFields = FILE_TOOL_PATH_FIELDS[toolName];
+    if (pathFields) {
+      const rawPath = pathFields.map((field) => input[field]).find((v) => typeof v === 'string');
+      if (typeof rawPath === 'string') {
+        const path = this.toWorktreePath(rawPath);
+        if (path === null) {
+          return result(
+            'deny',
+            `Path ${rawPath} is outside the agent worktree ${this.worktreePath}`
+          );
+        }
+
+        const pathRule = matchRules(this.policy.paths, path, true);
+        if (pathRule && pathRule.decision !== 'allow') {
+          return result(
+            pathRule.decision,
+            `Path ${path} matches ${pathRule.decision} rule ${pathRule.pattern}`,
+            path
+          );
+        }
+        if (this.policy.paths.allow.length > 0 && !pathRule) {
+          return result('deny', `Path ${path} is not in the allowed paths for this role`, path);
+        }
+      }
+    }
+
+    // Bash: every chained command must pass
+    if (toolName === 'Bash' && typeof input.command === 'string') {
+      const bashResult = this.evaluateCommand(input.command);
+      if (bashResult) {
+        return result(bashResult.decision, bashResult.reason);
+      }
+    }
+
+    const askedBy = findMatch(this.policy.ask, toolName);
+    if (askedBy) {
+      return result('ask', `Tool ${toolName} requires approval (rule: ${askedBy})`);
+    }
+
+    if (findMatch(this.policy.allow, toolName) || this.roleTools.includes(toolName)) {
+      return result('allow', `Tool ${toolName} is allowed for this role`);
+    }
+
+    switch (this.defaultDecision) {
+      case 'allow':
+        return result('allow', `No rule for ${toolName}; allowed by default`);
+      case 'ask':
+        return result('ask', `Tool ${toolName} is not pre-approved for this role`);
+      case 'deny':
+        return result('deny', `Tool ${toolName} is not allowed for this role`);
+    }
+  }
+
+  /**
+   * Evaluate a shell command against the Bash rules
+   *
+   * @returns Decision, or null if no rule applies and tool rules should decide
+   */
+  private evaluateCommand(command: string): { decision: ToolDecisionType; reason: string } | null {
+    const segments = command
+      .split(COMMAND_SEPARATOR)
+      .map((segment) => segment.trim())
+      .filter(Boolean);
+
+    let asked: { decision: ToolDecisionType; reason: string } | null = null;
+    let allowedCount = 0;
+
+    for (const segment of segments) {
+      const rule = matchRules(this.policy.bash, segment);
+      if (rule?.decision === 'deny') {
+        return {
+          decision: 'deny',
+          reason: `Command "${segment}" is denied (rule: ${rule.pattern})`,
+        };
+      }
+      if (rule?.decision === 'ask' && !asked) {
+        asked = {
+          decision: 'ask',
+          reason: `Command "${segment}" requires approval (rule: ${rule.pattern})`,
+        };
+      }
+      if (rule?.decision === 'allow') {
+        allowedCount++;
+      }
+    }
+
+    if (asked) {
+      return asked;
+    }
+
+    const { allow, ask, deny } = this.policy.bash;
+    if (UNCHECKED_SHELL_SYNTAX.test(command) && allow.length + ask.length + deny.length > 0) {
+      return {
+        decision: 'ask',
+        reason: `Command "${command}" uses substitutions, subshells or redirections`,
+      };
+    }
+
+    if (segments.length > 0 && allowedCount === segments.length) {
+      return { decision: 'allow', reason: 'Command matches allowed patterns' };
+    }
+
+    if (allow.length > 0) {
+      // An allow list restricts Bash to the listed commands
+      return {
+        decision: 'ask',
+        reason: `Command "${command}" is not in the allowed commands for this role`,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Resolve a tool path to a worktree-relative path
+   *
+   * @returns Relative path ('.' for the worktree itself), or null if outside the worktree
+   */
+  private toWorktreePath(rawPath: string): string | null {
+    const absolute = resolve(this.worktreePath, rawPath);
+    const relativePath = relative(this.worktreePath, absolute);
+
+    if (relativePath === '') {
+      return '.';
+    }
+    if (relativePath.split(sep)[0] === '..' || isAbsolute(relativePath)) {
+      return null;
+    }
+    return relativePath.split('\\').join('/');
+  }
+
+  /**
+   * Approval request type for a tool: network-facing tools and third-party
+   * MCP tools are external API calls, everything else touches the worktree.
+   */
+  static requestTypeFor(toolName: string): ApprovalRequestTypeValue {
+    if (EXTERNAL_TOOLS.has(toolName)) {
+      return 'external_api_call';
+    }
+    if (toolName.startsWith('mcp__') && !ORCHESTRATOR_MCP_TOOLS.includes(toolName)) {
+      return 'external_api_call';
+    }
+    return 'file_operation';
+  }
+}
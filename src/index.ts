@@ -1,8 +1,15 @@
 import { config, validateConfig } from './config/env.js';
 import { logger } from './utils/Logger.js';
 import { db } from './infrastructure/SharedDatabase.js';
+import { eventBus } from './infrastructure/EventBus.js';
+import { LinearSyncService } from './integrations/LinearSyncService.js';
 import { InteractiveCLI } from './cli/InteractiveCLI.js';
 import { WorkflowPoller } from './services/WorkflowPoller.js';
+import { ReconciliationService } from './services/ReconciliationService.js';
+import { AgentExecutionWorker } from './services/AgentExecutionWorker.js';
+import { WorkerLeaseService } from './services/WorkerLeaseService.js';
+import { NotificationService } from './services/NotificationService.js';
+import { createModelProvider } from './core/AgentCore.js';
 
 /**
  * Multi-Agent Orchestration System
@@ -12,6 +19,15 @@ import { WorkflowPoller } from './services/WorkflowPoller.js';
 // Global workflow poller instance
 let workflowPoller: WorkflowPoller | null = null;
 
+// Global agent execution worker instance
+let executionWorker: AgentExecutionWorker | null = null;
+
+// Leases of this process, shared by the poller and the worker
+let workerLeases: WorkerLeaseService | null = null;
+
+// Event bus subscriptions (Linear sync, notifications)
+let eventSubscriptions: Array<() => void> = [];
+
 async function main() {
   try {
     // Validate environment configuration
@@ -25,15 +41,45 @@ async function main() {
     await db.initialize();
     logger.info('✓ Database connection established');
 
+    // Share lifecycle events with the dashboard and other processes, and react to them
+    eventBus.connect();
+    eventSubscriptions = [
+      new LinearSyncService().subscribe(),
+      new NotificationService().subscribe(),
+    ];
+    logger.info('✓ Event bus connected');
+
+    // Recover agents and workflow nodes left in flight by a previous crash
+    const reconciliation = await new ReconciliationService().reconcile();
+    logger.info(
+      `✓ Startup reconciliation (${reconciliation.policy}): ` +
+        `${reconciliation.records.length} recovered, ${reconciliation.errors.length} failed`
+    );
+
+    // Claim agents and workflows through leases so several processes can share the database
+    workerLeases = new WorkerLeaseService();
+    logger.info(`Worker ID: ${workerLeases.workerId}`);
+
     // Start workflow poller for event-driven workflow execution
-    workflowPoller = new WorkflowPoller(5000); // Poll every 5 seconds
+    // (woken by database notifications; the interval is only a fallback)
+    workflowPoller = new WorkflowPoller(config.scheduler.fallbackPollInterval, 3, workerLeases);
     await workflowPoller.start();
     logger.info('✓ Workflow poller started');
 
+    // Start executing pending agents (concurrency-limited)
+    executionWorker = new AgentExecutionWorker(
+      config.scheduler.fallbackPollInterval,
+      undefined,
+      undefined,
+      workerLeases
+    );
+    await executionWorker.start();
+    logger.info('✓ Agent execution worker started');
+
     // Start interactive CLI
     if (config.interactive.enabled) {
       logger.info('Starting Interactive CLI...');
-      const cli = new InteractiveCLI();
+      const cli = new InteractiveCLI(createModelProvider(config.anthropic.provider));
       await cli.start();
     } else {
       logger.info('Interactive mode is disabled. Set INTERACTIVE_ENABLED=true to enable.');
@@ -59,20 +105,40 @@ process.on('uncaughtException', (error) => {
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   logger.info('SIGTERM received, shutting down gracefully');
+  if (executionWorker) {
+    await executionWorker.stop();
+    logger.info('✓ Agent execution worker stopped');
+  }
   if (workflowPoller) {
     await workflowPoller.stop();
     logger.info('✓ Workflow poller stopped');
   }
+  if (workerLeases) {
+    await workerLeases.stop();
+    logger.info('✓ Worker leases released');
+  }
+  eventSubscriptions.forEach((unsubscribe) => unsubscribe());
+  eventBus.close();
   await db.shutdown();
   process.exit(0);
 });
 
 process.on('SIGINT', async () => {
   logger.info('SIGINT received, shutting down gracefully');
+  if (executionWorker) {
+    await executionWorker.stop();
+    logger.info('✓ Agent execution worker stopped');
+  }
   if (workflowPoller) {
     await workflowPoller.stop();
     logger.info('✓ Workflow poller stopped');
   }
+  if (workerLeases) {
+    await workerLeases.stop();
+    logger.info('✓ Worker leases released');
+  }
+  eventSubscriptions.forEach((unsubscribe) => unsubscribe());
+  eventBus.close();
   await db.shutdown();
   process.exit(0);
 });
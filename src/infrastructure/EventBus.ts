@@ -0,0 +1,302 @@
+import { randomUUID } from 'crypto';
+import { db } from './SharedDatabase.js';
+import type { AgentStatusType } from '../models/Agent.js';
+import { logger } from '../utils/Logger.js';
+
+/**
+ * Orchestration lifecycle events and their payloads
+ * Payloads are plain JSON (IDs, statuses, ISO timestamps) so they can be
+ * shared with other processes; subscribers load details they need.
+ */
+export interface OrchestrationEvents {
+  /** Agent created (pending) */
+  'agent.spawned': {
+    agentId: string;
+    role: string;
+    parentId: string | null;
+    depthLevel: number;
+    tokenLimit: number;
+  };
+  /** Agent status changed (AgentStateMachine) */
+  'agent.status_changed': {
+    agentId: string;
+    from: AgentStatusType;
+    to: AgentStatusType;
+    actor: string;
+    reason: string | null;
+  };
+  /** Workflow node finished and its dependents were released (map nodes have no agent) */
+  'node.completed': {
+    graphId: string;
+    nodeId: string;
+    agentId: string | null;
+  };
+  /** Workflow node failed for good */
+  'node.failed': {
+    graphId: string;
+    nodeId: string;
+    agentId: string | null;
+    error: string;
+  };
+  /** All nodes of a workflow completed */
+  'workflow.completed': {
+    graphId: string;
+  };
+  /** Workflow failed (could not start, a node failed, or it stalled) */
+  'workflow.failed': {
+    graphId: string;
+    reason: string;
+  };
+  /** Workflow terminated: its agents were stopped and its remaining nodes skipped */
+  'workflow.cancelled': {
+    graphId: string;
+    reason: string;
+  };
+  /** Workflow paused: no new nodes are spawned until it is resumed */
+  'workflow.paused': {
+    graphId: string;
+    actor: string;
+    reason: string | null;
+    pausedAgents: number;
+  };
+  /** Paused workflow resumed */
+  'workflow.resumed': {
+    graphId: string;
+    actor: string;
+  };
+  /** Agent's token usage crossed a threshold (share of its allocation) */
+  'budget.threshold': {
+    agentId: string;
+    threshold: number;
+    used: number;
+    allocated: number;
+  };
+  /** Human decision requested (tool use by an agent, delegation of a Linear issue, ...) */
+  'approval.requested': {
+    requestId: string;
+    requestType: string;
+    entityType: string;
+    entityId: string;
+    riskLevel: string;
+    summary: string;
+    expiresAt: string | null;
+  };
+  /** Approval request approved, rejected or expired */
+  'approval.resolved': {
+    requestId: string;
+    entityType: string;
+    entityId: string;
+    status: string;
+    reviewedBy: string | null;
+  };
+}
+
+export type OrchestrationEventName = keyof OrchestrationEvents;
+
+export type EventHandler<E extends OrchestrationEventName> = (
+  payload: OrchestrationEvents[E]
+) => void | Promise<void>;
+
+/**
+ * Subscription settings
+ */
+export interface SubscribeOptions {
+  /**
+   * Also receive events emitted in other connected processes (default true).
+   * Subscribers with side effects that run in every process (e.g. Linear sync)
+   * set it to false so each event is handled once.
+   */
+  remote?: boolean;
+}
+
+interface Subscription<T> {
+  handler: (value: T) => void | Promise<void>;
+  remote: boolean;
+}
+
+/**
+ * Any event, as seen by onAny() subscribers
+ */
+export type OrchestrationEvent = {
+  [E in OrchestrationEventName]: { event: E; payload: OrchestrationEvents[E] };
+}[OrchestrationEventName];
+
+/** NOTIFY payloads are limited to 8000 bytes */
+const MAX_SHARED_EVENT_BYTES = 7900;
+
+/**
+ * EventBus - Typed in-process publish/subscribe for lifecycle events
+ *
+ * Services emit events after the change they describe is stored; the
+ * dashboard, Linear sync, notifications and plugins subscribe. Handlers run
+ * after emit() returns; their errors (thrown or rejected) are logged and
+ * never reach the emitter or other handlers.
+ *
+ * connect() shares events with the buses of other orchestrator processes
+ * (e.g. the dashboard) over PostgreSQL NOTIFY: local events are published,
+ * and events published elsewhere are delivered to local subscribers.
+ *
+ * @example
+ * ```typescript
+ * const unsubscribe = eventBus.on('agent.status_changed', ({ agentId, to }) => {
+ *   console.log(`${agentId} is now ${to}`);
+ * });
+ * ```
+ */
+export class EventBus {
+  /** Identifies this bus's events to the other processes */
+  readonly id = randomUUID();
+  private subscriptions = new Map<OrchestrationEventName, Set<Subscription<unknown>>>();
+  private anySubscriptions = new Set<Subscription<OrchestrationEvent>>();
+  private disconnect: (() => void) | null = null;
+  private busLogger = logger.child({ component: 'EventBus' });
+
+  /**
+   * Subscribe to an event
+   *
+   * @param event - Event name
+   * @param handler - Called with the payload of each event
+   * @param options - Subscription settings
+   * @returns Function removing the subscription
+   */
+  on<E extends OrchestrationEventName>(
+    event: E,
+    handler: EventHandler<E>,
+    options: SubscribeOptions = {}
+  ): () => void {
+    const subscription: Subscription<unknown> = {
+      handler: handler as (payload: unknown) => void | Promise<void>,
+      remote: options.remote ?? true,
+    };
+    let subscriptions = this.subscriptions.get(event);
+    if (!subscriptions) {
+      subscriptions = new Set();
+      this.subscriptions.set(event, subscriptions);
+    }
+    subscriptions.add(subscription);
+
+    return () => {
+      this.subscriptions.get(event)?.delete(subscription);
+    };
+  }
+
+  /**
+   * Subscribe to every event (e.g. plugins, audit sinks)
+   *
+   * @param handler - Called with the name and payload of each event
+   * @param options - Subscription settings
+   * @returns Function removing the subscription
+   */
+  onAny(
+    handler: (event: OrchestrationEvent) => void | Promise<void>,
+    options: SubscribeOptions = {}
+  ): () => void {
+    const subscription = { handler, remote: options.remote ?? true };
+    this.anySubscriptions.add(subscription);
+    return () => {
+      this.anySubscriptions.delete(subscription);
+    };
+  }
+
+  /**
+   * Publish an event to the subscribers (and to connected processes)
+   *
+   * @param event - Event name
+   * @param payload - Event payload
+   */
+  emit<E extends OrchestrationEventName>(event: E, payload: OrchestrationEvents[E]): void {
+    this.deliver({ event, payload } as OrchestrationEvent, false);
+
+    if (this.disconnect) {
+      this.share(event, payload);
+    }
+  }
+
+  /**
+   * Share events with the buses of other processes
+   * Calling it again while connected has no effect.
+   *
+   * @throws Error if the database is not initialized
+   */
+  connect(): void {
+    if (this.disconnect) {
+      return;
+    }
+
+    this.disconnect = db.subscribe('orchestration_event', ({ origin, event, payload }) => {
+      if (origin !== this.id) {
+        this.deliver({ event, payload } as OrchestrationEvent, true);
+      }
+    });
+    this.busLogger.info({ busId: this.id }, 'Event bus connected');
+  }
+
+  /**
+   * Stop sharing events with other processes
+   */
+  close(): void {
+    this.disconnect?.();
+    this.disconnect = null;
+  }
+
+  /**
+   * Number of subscribers of an event (including onAny subscribers)
+   */
+  listenerCount(event: OrchestrationEventName): number {
+    return (this.subscriptions.get(event)?.size ?? 0) + this.anySubscriptions.size;
+  }
+
+  /**
+   * Run the handlers of an event once the emitter has continued
+   *
+   * @param event - Event name and payload
+   * @param remote - Whether the event was emitted in another process
+   */
+  private deliver(event: OrchestrationEvent, remote: boolean): void {
+    const accepts = (subscription: { remote: boolean }): boolean => !remote || subscription.remote;
+    const handlers = [...(this.subscriptions.get(event.event) ?? [])].filter(accepts);
+    const anyHandlers = [...this.anySubscriptions].filter(accepts);
+    if (handlers.length === 0 && anyHandlers.length === 0) {
+      return;
+    }
+
+    queueMicrotask(() => {
+      for (const { handler } of handlers) {
+        this.invoke(event.event, () => handler(event.payload));
+      }
+      for (const { handler } of anyHandlers) {
+        this.invoke(event.event, () => handler(event));
+      }
+    });
+  }
+
+  private invoke(event: OrchestrationEventName, call: () => void | Promise<void>): void {
+    try {
+      Promise.resolve(call()).catch((error: unknown) => {
+        this.busLogger.error({ error, event }, 'Event handler failed');
+      });
+    } catch (error) {
+      this.busLogger.error({ error, event }, 'Event handler failed');
+    }
+  }
+
+  /**
+   * Publish a local event to the other processes
+   */
+  private share<E extends OrchestrationEventName>(event: E, payload: OrchestrationEvents[E]): void {
+    const message = { origin: this.id, event, payload };
+    if (Buffer.byteLength(JSON.stringify(message)) > MAX_SHARED_EVENT_BYTES) {
+      this.busLogger.warn({ event }, 'Event too large to share with other processes');
+      return;
+    }
+
+    db.notify('orchestration_event', message).catch((error: unknown) => {
+      this.busLogger.warn({ error, event }, 'Failed to share event with other processes');
+    });
+  }
+}
+
+/**
+ * Process-wide event bus
+ */
+export const eventBus = new EventBus();
@@ -1,6 +1,69 @@
-import { query, transaction, validateConnection, closePool, getPoolStats } from '../database/db.js';
+import {
+  query,
+  transaction,
+  validateConnection,
+  closePool,
+  getPoolStats,
+  getClient,
+} from '../database/db.js';
 import { logger } from '../utils/Logger.js';
-import type { QueryResult, PoolClient, QueryResultRow } from 'pg';
+import type { QueryResult, PoolClient, QueryResultRow, Notification } from 'pg';
+
+/**
+ * Payloads of the NOTIFY channels raised by database triggers
+ * (migration 018_add_change_notifications) and by EventBus
+ */
+export interface NotificationPayloads {
+  /** Agent inserted or its status changed */
+  agent_status_changed: {
+    agent_id: string;
+    parent_id: string | null;
+    status: string;
+    previous_status: string | null;
+  };
+  /** Agent inserted as, or changed to, pending */
+  agent_pending: {
+    agent_id: string;
+    parent_id: string | null;
+  };
+  /** Workflow node inserted or its execution_status changed */
+  workflow_node_changed: {
+    node_id: string;
+    workflow_graph_id: string;
+    agent_id: string | null;
+    execution_status: string;
+    previous_status: string | null;
+  };
+  /** Message inserted */
+  message_created: {
+    message_id: string;
+    sender_id: string;
+    recipient_id: string;
+    thread_id: string | null;
+  };
+  /** agent_events row inserted */
+  agent_event_created: {
+    event_id: string;
+    agent_id: string;
+    event_type: string;
+  };
+  /** Orchestration event shared by a connected EventBus */
+  orchestration_event: {
+    /** ID of the publishing bus */
+    origin: string;
+    event: string;
+    payload: unknown;
+  };
+}
+
+export type NotificationChannel = keyof NotificationPayloads;
+
+export type NotificationHandler<C extends NotificationChannel> = (
+  payload: NotificationPayloads[C]
+) => void;
+
+/** Delay before reconnecting a lost notification listener (ms) */
+const LISTENER_RECONNECT_DELAY = 5000;
 
 /**
  * Shared Database Manager
@@ -14,6 +77,7 @@ import type { QueryResult, PoolClient, QueryResultRow } from 'pg';
  * - Centralized access point for all repositories
  * - Monitoring and health check capabilities
  * - Graceful shutdown support
+ * - Shared LISTEN connection dispatching NOTIFY payloads to subscribers
  *
  * @example
  * ```typescript
@@ -37,6 +101,9 @@ import type { QueryResult, PoolClient, QueryResultRow } from 'pg';
  * // Get pool statistics
  * const stats = db.getStats();
  *
+ * // React to changes instead of polling
+ * const unsubscribe = db.subscribe('agent_pending', ({ agent_id }) => wake(agent_id));
+ *
  * // Shutdown on application exit
  * await db.shutdown();
  * ```
@@ -44,6 +111,10 @@ import type { QueryResult, PoolClient, QueryResultRow } from 'pg';
 export class SharedDatabase {
   private static instance: SharedDatabase;
   private isInitialized = false;
+  private listener: PoolClient | null = null;
+  private listenerConnecting: Promise<PoolClient> | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private subscribers = new Map<NotificationChannel, Set<(payload: unknown) => void>>();
 
   private constructor() {}
 
@@ -133,6 +204,75 @@ export class SharedDatabase {
     return transaction(callback);
   }
 
+  /**
+   * Subscribe to a NOTIFY channel
+   *
+   * All subscriptions share one dedicated connection, opened on the first
+   * subscription and re-established (with its LISTENs) when it is lost.
+   * Notifications sent while disconnected are lost, so subscribers should
+   * keep a slow polling fallback.
+   *
+   * @param channel - Channel raised by the change-notification triggers
+   * @param handler - Called with the parsed payload of each notification
+   * @returns Function removing the subscription
+   * @throws Error if database is not initialized
+   *
+   * @example
+   * const unsubscribe = db.subscribe('agent_status_changed', ({ agent_id, status }) => {
+   *   console.log(`${agent_id} is now ${status}`);
+   * });
+   */
+  public subscribe<C extends NotificationChannel>(
+    channel: C,
+    handler: NotificationHandler<C>
+  ): () => void {
+    this.ensureInitialized();
+
+    const dispatch = handler as (payload: unknown) => void;
+    let handlers = this.subscribers.get(channel);
+    if (!handlers) {
+      handlers = new Set();
+      this.subscribers.set(channel, handlers);
+      this.listenerQuery(`LISTEN ${channel}`);
+    }
+    handlers.add(dispatch);
+
+    return () => {
+      const current = this.subscribers.get(channel);
+      if (!current?.delete(dispatch) || current.size > 0) {
+        return;
+      }
+      this.subscribers.delete(channel);
+      if (this.listener) {
+        this.listenerQuery(`UNLISTEN ${channel}`);
+      }
+    };
+  }
+
+  /**
+   * Send a notification to the subscribers of a channel in every process
+   *
+   * @param channel - Channel to notify
+   * @param payload - Payload (serialized as JSON; must stay below 8000 bytes)
+   * @throws Error if database is not initialized or the payload is too large
+   */
+  public async notify<C extends NotificationChannel>(
+    channel: C,
+    payload: NotificationPayloads[C]
+  ): Promise<void> {
+    this.ensureInitialized();
+    await query('SELECT pg_notify($1, $2)', [channel, JSON.stringify(payload)]);
+  }
+
+  /**
+   * Whether the notification listener is connected
+   *
+   * @returns True while notifications are being received
+   */
+  public isListening(): boolean {
+    return this.listener !== null;
+  }
+
   /**
    * Get pool statistics
    *
@@ -195,6 +335,7 @@ export class SharedDatabase {
     }
 
     logger.info('Shutting down database connections...');
+    this.stopListener();
     await closePool();
     this.isInitialized = false;
     logger.info('Database shutdown complete');
@@ -214,6 +355,133 @@ export class SharedDatabase {
     return this.isInitialized;
   }
 
+  /**
+   * Run a LISTEN/UNLISTEN on the listener connection, connecting it if needed
+   * Failures are logged; the connection is retried while subscriptions exist.
+   */
+  private listenerQuery(text: string): void {
+    this.connectListener()
+      .then((client) => client.query(text))
+      .catch((error: unknown) => {
+        logger.error({ error, statement: text }, 'Notification listener query failed');
+      });
+  }
+
+  /**
+   * Get the listener connection, opening it and listening on all
+   * subscribed channels if there is none
+   */
+  private async connectListener(): Promise<PoolClient> {
+    if (this.listener) {
+      return this.listener;
+    }
+    if (this.listenerConnecting) {
+      return this.listenerConnecting;
+    }
+
+    this.listenerConnecting = (async (): Promise<PoolClient> => {
+      const client = await getClient();
+      client.on('notification', (message) => this.dispatch(message));
+      client.on('error', (error) => this.handleListenerError(client, error));
+
+      try {
+        for (const channel of this.subscribers.keys()) {
+          await client.query(`LISTEN ${channel}`);
+        }
+      } catch (error) {
+        client.release(error instanceof Error ? error : true);
+        throw error;
+      }
+
+      this.listener = client;
+      logger.info({ channels: [...this.subscribers.keys()] }, 'Notification listener connected');
+      return client;
+    })();
+
+    try {
+      return await this.listenerConnecting;
+    } catch (error) {
+      this.scheduleReconnect();
+      throw error;
+    } finally {
+      this.listenerConnecting = null;
+    }
+  }
+
+  /**
+   * Deliver a notification to the channel's subscribers
+   */
+  private dispatch(message: Notification): void {
+    const handlers = this.subscribers.get(message.channel as NotificationChannel);
+    if (!handlers || !message.payload) {
+      return;
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(message.payload);
+    } catch (error) {
+      logger.warn({ error, channel: message.channel }, 'Ignoring malformed notification payload');
+      return;
+    }
+
+    for (const handler of handlers) {
+      try {
+        handler(payload);
+      } catch (error) {
+        logger.error({ error, channel: message.channel }, 'Notification handler failed');
+      }
+    }
+  }
+
+  /**
+   * Drop a broken listener connection and reconnect later
+   */
+  private handleListenerError(client: PoolClient, error: Error): void {
+    logger.warn({ error }, 'Notification listener connection lost');
+    if (this.listener === client) {
+      this.listener = null;
+      client.removeAllListeners('notification');
+      client.release(error);
+    }
+    this.scheduleReconnect();
+  }
+
+  /**
+   * Reconnect the listener after a delay while there are subscribers
+   */
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer || !this.isInitialized || this.subscribers.size === 0) {
+      return;
+    }
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connectListener().catch((error: unknown) => {
+        logger.error({ error }, 'Notification listener reconnect failed');
+      });
+    }, LISTENER_RECONNECT_DELAY);
+  }
+
+  /**
+   * Close the listener connection and drop all subscriptions
+   */
+  private stopListener(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.subscribers.clear();
+
+    if (this.listener) {
+      const client = this.listener;
+      this.listener = null;
+      client.removeAllListeners('notification');
+      client.removeAllListeners('error');
+      client.release();
+    }
+  }
+
   /**
    * Ensure database is initialized before operations
    *
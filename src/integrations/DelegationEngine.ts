@@ -12,6 +12,7 @@
  */
 
 import { db } from '../infrastructure/SharedDatabase.js';
+import { eventBus } from '../infrastructure/EventBus.js';
 import { logger } from '../utils/Logger.js';
 import { AgentService } from '../services/AgentService.js';
 import { WorkflowService } from '../services/WorkflowService.js';
@@ -381,8 +382,13 @@ export class DelegationEngine {
   ): Promise<string> {
     const expiresAt = new Date();
     expiresAt.setMinutes(expiresAt.getMinutes() + (data.approval_timeout || 60));
+    const { linear_issue: issue, delegation_rule: rule } = data as {
+      linear_issue?: { identifier?: string };
+      delegation_rule?: { agentRole?: string; riskLevel?: string };
+    };
+    const riskLevel = rule?.riskLevel || 'medium';
 
-    const result = await db.query(`
+    const result = await db.query<{ id: string }>(`
       INSERT INTO approval_requests (
         request_type, entity_type, entity_id, requested_by, request_data,
         risk_level, estimated_cost, expires_at
@@ -392,7 +398,7 @@ export class DelegationEngine {
       requestType,
       entityId,
       JSON.stringify(data),
-      data.delegation_rule?.riskLevel || 'medium',
+      riskLevel,
       data.budget || null,
       expiresAt,
     ]);
@@ -401,6 +407,15 @@ export class DelegationEngine {
       { approvalId: result.rows[0].id, requestType, entityId },
       'Approval request created'
     );
+    eventBus.emit('approval.requested', {
+      requestId: result.rows[0].id,
+      requestType,
+      entityType: 'linear_issue',
+      entityId,
+      riskLevel,
+      summary: `Delegate ${issue?.identifier || entityId} to ${rule?.agentRole || 'an agent'}`,
+      expiresAt: expiresAt.toISOString(),
+    });
 
     return result.rows[0].id;
   }
@@ -2,13 +2,15 @@
  * LinearSyncService
  * Orchestrates bidirectional synchronization between agents and Linear issues.
  *
- * Agent → Linear sync:
+ * Agent → Linear sync (driven by 'agent.status_changed' events, see subscribe()):
  * - Updates Linear issue status when agent completes/fails
  * - Posts agent results as comments on Linear issues
  * - Logs all sync events for audit
  */
 
 import { db } from '../infrastructure/SharedDatabase.js';
+import { eventBus, type EventBus } from '../infrastructure/EventBus.js';
+import { TERMINAL_AGENT_STATUSES } from '../models/Agent.js';
 import { logger } from '../utils/Logger.js';
 import { LinearApiClient, WorkflowState } from './LinearApiClient.js';
 
@@ -16,7 +18,7 @@ const serviceLogger = logger.child({ component: 'LinearSyncService' });
 
 export interface AgentCompletionData {
   agentId: string;
-  status: 'completed' | 'failed' | 'terminated';
+  status: 'completed' | 'failed' | 'terminated' | 'timed_out';
   result?: string;
   tokensUsed?: number;
   durationMs?: number;
@@ -41,6 +43,13 @@ interface LinearMapping {
   sync_direction: string;
 }
 
+interface CompletionDetails {
+  tokens_used: number;
+  created_at: Date;
+  completed_at: Date | null;
+  output: string | null;
+}
+
 interface StatusMapping {
   linear_state_id: string;
   linear_state_name: string;
@@ -58,9 +67,42 @@ export class LinearSyncService {
     }
   }
 
+  /**
+   * Sync agents to Linear when they reach a final status
+   * Only changes made in this process are handled, so processes sharing
+   * events do not sync an agent twice. The result, token usage and duration
+   * are loaded from the database.
+   *
+   * @param bus - Event bus to subscribe to (default: the process-wide bus)
+   * @returns Function removing the subscription
+   */
+  subscribe(bus: EventBus = eventBus): () => void {
+    return bus.on('agent.status_changed', async ({ agentId, to, reason }) => {
+      if (!TERMINAL_AGENT_STATUSES.includes(to)) {
+        return;
+      }
+
+      try {
+        const details = await this.getCompletionDetails(agentId);
+        await this.handleAgentCompletion({
+          agentId,
+          status: to as AgentCompletionData['status'],
+          result: details?.output ?? undefined,
+          tokensUsed: details?.tokens_used,
+          durationMs: details?.completed_at
+            ? details.completed_at.getTime() - details.created_at.getTime()
+            : undefined,
+          errorMessage: reason ?? undefined,
+        });
+      } catch (error) {
+        serviceLogger.warn({ error, agentId }, 'Linear sync failed (non-blocking)');
+      }
+    }, { remote: false });
+  }
+
   /**
    * Handle agent completion - main entry point for Agent → Linear sync
-   * Called when an agent reaches completed/failed/terminated status
+   * Called when an agent reaches completed/failed/terminated/timed_out status
    */
   async handleAgentCompletion(data: AgentCompletionData): Promise<SyncResult> {
     const { agentId, status, result, tokensUsed, durationMs, errorMessage } = data;
@@ -246,8 +288,16 @@ export class LinearSyncService {
     errorMessage?: string;
     issueIdentifier: string;
   }): string {
-    const statusEmoji = data.status === 'completed' ? '✅' : data.status === 'failed' ? '❌' : '⏹️';
-    const statusLabel = data.status.charAt(0).toUpperCase() + data.status.slice(1);
+    const statusEmoji =
+      data.status === 'completed'
+        ? '✅'
+        : data.status === 'failed'
+          ? '❌'
+          : data.status === 'timed_out'
+            ? '⏱️'
+            : '⏹️';
+    const statusLabel =
+      data.status.charAt(0).toUpperCase() + data.status.slice(1).replace('_', ' ');
 
     let comment = `## ${statusEmoji} Agent ${statusLabel}\n\n`;
 
@@ -277,7 +327,7 @@ export class LinearSyncService {
       } else {
         comment += data.result + '\n';
       }
-    } else if (data.status === 'failed' && data.errorMessage) {
+    } else if ((data.status === 'failed' || data.status === 'timed_out') && data.errorMessage) {
       comment += '### Error\n\n';
       comment += '```\n' + data.errorMessage + '\n```\n';
     }
@@ -301,6 +351,23 @@ export class LinearSyncService {
     return result.rows[0] || null;
   }
 
+  /**
+   * Get the usage, timing and latest result of an agent
+   */
+  private async getCompletionDetails(agentId: string): Promise<CompletionDetails | null> {
+    const result = await db.query<CompletionDetails>(
+      `SELECT a.tokens_used, a.created_at, a.completed_at,
+              (SELECT r.output FROM agent_results r
+               WHERE r.agent_id = a.id
+               ORDER BY r.created_at DESC, r.id DESC
+               LIMIT 1) AS output
+       FROM agents a
+       WHERE a.id = $1`,
+      [agentId]
+    );
+    return result.rows[0] || null;
+  }
+
   /**
    * Get status mapping from database
    */
@@ -14,6 +14,11 @@
 import crypto from 'crypto';
 import { db } from '../infrastructure/SharedDatabase.js';
 import { logger } from '../utils/Logger.js';
+import {
+  AgentStateMachine,
+  InvalidAgentTransitionError,
+} from '../services/AgentStateMachine.js';
+import type { AgentStatusType } from '../models/Agent.js';
 
 // Types
 export interface LinearWebhookPayload {
@@ -95,6 +100,7 @@ export interface ProcessedEvent {
 
 export class LinearWebhookService {
   private serviceLogger = logger.child({ component: 'LinearWebhookService' });
+  private stateMachine = new AgentStateMachine();
 
   // ===========================================================================
   // Webhook Verification
@@ -399,7 +405,7 @@ export class LinearWebhookService {
 
   private async syncStatusFromLinear(mappingId: string, state: { id: string; name: string }): Promise<void> {
     // Get status mapping
-    const statusMapping = await db.query(
+    const statusMapping = await db.query<{ agent_status: AgentStatusType }>(
       `SELECT agent_status FROM linear_status_mappings
        WHERE linear_state_name = $1 AND sync_linear_to_agent = TRUE
        ORDER BY priority DESC LIMIT 1`,
@@ -422,19 +428,43 @@ export class LinearWebhookService {
     );
 
     // Get agent ID and update agent status
-    const mapping = await db.query(`SELECT agent_id FROM linear_agent_mappings WHERE id = $1`, [mappingId]);
-    if (mapping.rows[0]?.agent_id) {
-      await db.query(
-        `UPDATE agents SET status = $2, updated_at = NOW() WHERE id = $1`,
-        [mapping.rows[0].agent_id, agentStatus]
-      );
+    const mapping = await db.query<{ agent_id: string | null }>(
+      `SELECT agent_id FROM linear_agent_mappings WHERE id = $1`,
+      [mappingId]
+    );
+    const agentId = mapping.rows[0]?.agent_id;
+    let rejection: string | null = null;
+    if (agentId) {
+      try {
+        await this.stateMachine.transition(agentId, agentStatus, {
+          actor: 'linear',
+          reason: `Linear issue moved to ${state.name}`,
+        });
+      } catch (error) {
+        if (!(error instanceof InvalidAgentTransitionError)) {
+          throw error;
+        }
+        // Linear cannot revive a finished agent; the mismatch stays flagged
+        rejection = error.message;
+        this.serviceLogger.warn(
+          { agentId, stateName: state.name, agentStatus },
+          'Status from Linear not applied'
+        );
+      }
     }
 
     // Log sync event
     await db.query(
-      `INSERT INTO linear_sync_events (mapping_id, direction, event_type, linear_data, sync_status)
-       VALUES ($1, 'linear_to_agent', 'status_update', $2, 'success')`,
-      [mappingId, JSON.stringify({ state, agentStatus })]
+      `INSERT INTO linear_sync_events (
+         mapping_id, direction, event_type, linear_data, sync_status, error_message
+       )
+       VALUES ($1, 'linear_to_agent', 'status_update', $2, $3, $4)`,
+      [
+        mappingId,
+        JSON.stringify({ state, agentStatus }),
+        rejection ? 'skipped' : 'success',
+        rejection,
+      ]
     );
   }
 
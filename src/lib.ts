@@ -6,7 +6,33 @@
 
 // Core Agent System
 export { Agent } from './core/Agent.js';
-export { WorkflowEngine } from './core/WorkflowEngine.js';
+export { AgentCore, createModelProvider } from './core/AgentCore.js';
+export { AnthropicModelProvider } from './core/AnthropicModelProvider.js';
+export { FakeModelProvider } from './core/FakeModelProvider.js';
+export { createOrchestrationTools } from './core/AgentTools.js';
+export { AgentControl } from './core/AgentControl.js';
+export { OutputSchema } from './core/OutputSchema.js';
+export type { OutputValidation } from './core/OutputSchema.js';
+export { ConditionExpression } from './core/ConditionExpression.js';
+export type { ConditionOperator } from './core/ConditionExpression.js';
+export { RetryPolicy } from './core/RetryPolicy.js';
+export type { RetryAttempt, RetryPolicyOptions } from './core/RetryPolicy.js';
+export {
+  LLMError,
+  RateLimitError,
+  OverloadedError,
+  LLMTimeoutError,
+  LLMConnectionError,
+  LLMServerError,
+  InvalidRequestError,
+  LLMAuthenticationError,
+  classifyLLMError,
+} from './core/LLMErrors.js';
+export type { LLMErrorKind } from './core/LLMErrors.js';
+export type { AgentTool } from './core/AgentTools.js';
+export type { ModelProvider, ModelRequest, ModelResponse } from './core/ModelProvider.js';
+export { WorkflowEngine, InvalidWorkflowTransitionError } from './core/WorkflowEngine.js';
+export type { WorkflowControlOptions } from './core/WorkflowEngine.js';
 
 // Services
 export { AgentService } from './services/AgentService.js';
@@ -14,14 +40,39 @@ export { BudgetService } from './services/BudgetService.js';
 export { HierarchyService } from './services/HierarchyService.js';
 export { WorkflowService } from './services/WorkflowService.js';
 export { WorkflowPoller } from './services/WorkflowPoller.js';
+export { RoleService } from './services/RoleService.js';
+export { CheckpointService } from './services/CheckpointService.js';
+export type { CheckpointDiff } from './services/CheckpointService.js';
+export { ReconciliationService } from './services/ReconciliationService.js';
+export type { RecoveryPolicy, ReconciliationReport } from './services/ReconciliationService.js';
+export { WorkerLeaseService } from './services/WorkerLeaseService.js';
+export type { WorkerLeaseOptions } from './services/WorkerLeaseService.js';
+export {
+  AgentStateMachine,
+  InvalidAgentTransitionError,
+  canTransition,
+} from './services/AgentStateMachine.js';
+export type { AgentTransitionOptions } from './services/AgentStateMachine.js';
+export { NotificationService } from './services/NotificationService.js';
 
 // Repositories
 export { AgentRepository } from './database/repositories/AgentRepository.js';
 export { BudgetRepository } from './database/repositories/BudgetRepository.js';
 export { HierarchyRepository } from './database/repositories/HierarchyRepository.js';
 export { MessageRepository } from './database/repositories/MessageRepository.js';
+export { ConversationRepository } from './database/repositories/ConversationRepository.js';
 export { WorkspaceRepository } from './database/repositories/WorkspaceRepository.js';
 export { WorkflowRepository } from './database/repositories/WorkflowRepository.js';
+export { RoleRepository } from './database/repositories/RoleRepository.js';
+export { ApprovalRepository } from './database/repositories/ApprovalRepository.js';
+export { ControlCommandRepository } from './database/repositories/ControlCommandRepository.js';
+export { CheckpointRepository } from './database/repositories/CheckpointRepository.js';
+export { InterventionRepository } from './database/repositories/InterventionRepository.js';
+export { AgentResultRepository } from './database/repositories/AgentResultRepository.js';
+export { RecoveryAuditRepository } from './database/repositories/RecoveryAuditRepository.js';
+export { WorkerLeaseRepository } from './database/repositories/WorkerLeaseRepository.js';
+export { AgentStatusTransitionRepository } from './database/repositories/AgentStatusTransitionRepository.js';
+export { NotificationRepository } from './database/repositories/NotificationRepository.js';
 
 // Models
 export type { Agent as AgentModel } from './models/Agent.js';
@@ -29,12 +80,38 @@ export type { Budget } from './models/Budget.js';
 export type { Hierarchy } from './models/Hierarchy.js';
 export type { Message } from './models/Message.js';
 export type { Workspace } from './models/Workspace.js';
+export type { AgentRole } from './models/AgentRole.js';
+export type { ApprovalRequest } from './models/ApprovalRequest.js';
+export type { ToolPolicy } from './models/ToolPolicy.js';
+export type { ControlCommand } from './models/ControlCommand.js';
+export type { Checkpoint } from './models/Checkpoint.js';
+export type { AgentIntervention } from './models/Intervention.js';
+export type { AgentResultRecord } from './models/AgentResult.js';
+export type { RecoveryAuditRecord } from './models/RecoveryAudit.js';
+export type { WorkerLease } from './models/WorkerLease.js';
+export type { AgentStatusTransition } from './models/AgentStatusTransition.js';
+export type { Notification } from './models/Notification.js';
 export type { WorkflowGraph } from './models/WorkflowGraph.js';
-export type { WorkflowNode } from './models/WorkflowNode.js';
+export type {
+  WorkflowNode,
+  WorkflowEdgeCondition,
+  NodeFailurePolicy,
+  MapNodeSpec,
+} from './models/WorkflowNode.js';
 export type { WorkflowTemplate } from './models/WorkflowTemplate.js';
 
 // Database
 export { db } from './infrastructure/SharedDatabase.js';
 
+// Events
+export { EventBus, eventBus } from './infrastructure/EventBus.js';
+export type {
+  OrchestrationEvents,
+  OrchestrationEventName,
+  OrchestrationEvent,
+  EventHandler,
+  SubscribeOptions,
+} from './infrastructure/EventBus.js';
+
 // Utilities
 export { logger } from './utils/Logger.js';
@@ -4,13 +4,69 @@ import { z } from 'zod';
  * Agent status enum
  * - pending: Agent is waiting to start execution
  * - executing: Agent is currently running its task
+ * - paused: Agent is held by an operator (before starting, or suspended at a safe point)
  * - completed: Agent successfully completed its task
  * - failed: Agent encountered an error and failed
  * - terminated: Agent was manually terminated before completion
+ * - timed_out: Agent hit its execution deadline (partial output is kept)
  */
-export const AgentStatus = z.enum(['pending', 'executing', 'completed', 'failed', 'terminated']);
+export const AgentStatus = z.enum([
+  'pending',
+  'executing',
+  'paused',
+  'completed',
+  'failed',
+  'terminated',
+  'timed_out',
+]);
 export type AgentStatusType = z.infer<typeof AgentStatus>;
 
+/**
+ * Statuses in which an agent has finished running
+ */
+export const TERMINAL_AGENT_STATUSES: readonly AgentStatusType[] = [
+  'completed',
+  'failed',
+  'terminated',
+  'timed_out',
+];
+
+/**
+ * Status changes allowed by AgentStateMachine
+ * - pending agents start, are held, or end without running (e.g. cancelled)
+ * - executing agents finish, are suspended, or are requeued after a crash
+ * - paused agents continue where they were held, or end
+ * - finished agents may only be terminated (cleanup)
+ * Setting the current status again is a no-op, not a transition.
+ */
+export const AGENT_STATUS_TRANSITIONS: Readonly<
+  Record<AgentStatusType, readonly AgentStatusType[]>
+> = {
+  pending: ['executing', 'paused', 'completed', 'failed', 'terminated', 'timed_out'],
+  executing: ['pending', 'paused', 'completed', 'failed', 'terminated', 'timed_out'],
+  paused: ['pending', 'executing', 'failed', 'terminated', 'timed_out'],
+  completed: ['terminated'],
+  failed: ['terminated'],
+  timed_out: ['terminated'],
+  terminated: [],
+};
+
+/**
+ * Agent control state enum (agents.control_state, set by operators)
+ * - running: Agent proceeds normally
+ * - paused: Agent suspends at its next safe point until resumed
+ * - terminating / terminated: Agent is being or has been stopped
+ */
+export const AgentControlState = z.enum(['running', 'paused', 'terminating', 'terminated']);
+export type AgentControlStateType = z.infer<typeof AgentControlState>;
+
+/**
+ * Scheduling priority class of an agent (agents.priority)
+ * Pending agents of a higher class always start first.
+ */
+export const AgentPriority = z.enum(['high', 'normal', 'low']);
+export type AgentPriorityType = z.infer<typeof AgentPriority>;
+
 /**
  * Agent model schema
  * Represents an autonomous agent in the multi-agent system
@@ -0,0 +1,62 @@
+import { z } from 'zod';
+
+/**
+ * How an execution ended (mirrors the agent's terminal status)
+ */
+export const AgentResultOutcome = z.enum(['completed', 'failed', 'timed_out']);
+
+export type AgentResultOutcomeType = z.infer<typeof AgentResultOutcome>;
+
+/**
+ * AgentResultRecord model schema
+ * What one agent execution produced (agent_results row)
+ */
+export const AgentResultRecordSchema = z.object({
+  /** Unique identifier */
+  id: z.string().uuid(),
+
+  /** Agent that produced the result */
+  agent_id: z.string().uuid(),
+
+  outcome: AgentResultOutcome,
+
+  /** Model stop reason, 'report_result', 'timed_out', ... */
+  finish_reason: z.string().max(50).nullable(),
+
+  /** Why the execution failed, if it did */
+  error_message: z.string().nullable(),
+
+  /** Output text (partial output for failed and timed-out executions) */
+  output: z.string(),
+
+  /** Structured payload (e.g. report_result data) */
+  structured_output: z.record(z.unknown()).nullable(),
+
+  tokens_used: z.number().int().min(0),
+
+  /** Cost reported by the provider, null when not reported */
+  cost_usd: z.number().min(0).nullable(),
+
+  duration_ms: z.number().int().min(0),
+
+  created_at: z.date(),
+});
+
+export type AgentResultRecord = z.infer<typeof AgentResultRecordSchema>;
+
+/**
+ * Schema for recording a result
+ */
+export const CreateAgentResultSchema = z.object({
+  agent_id: z.string().uuid(),
+  outcome: AgentResultOutcome,
+  finish_reason: z.string().max(50).nullable().default(null),
+  error_message: z.string().nullable().default(null),
+  output: z.string().default(''),
+  structured_output: z.record(z.unknown()).nullable().default(null),
+  tokens_used: z.number().int().min(0).default(0),
+  cost_usd: z.number().min(0).nullable().default(null),
+  duration_ms: z.number().int().min(0).default(0),
+});
+
+export type CreateAgentResult = z.input<typeof CreateAgentResultSchema>;
@@ -0,0 +1,101 @@
+import { z } from 'zod';
+import { ToolPolicySchema } from './ToolPolicy.js';
+
+/**
+ * Claude Agent SDK permission modes
+ */
+export const RolePermissionMode = z.enum(['default', 'acceptEdits', 'bypassPermissions', 'plan']);
+
+export type RolePermissionModeType = z.infer<typeof RolePermissionMode>;
+
+/**
+ * AgentRole model schema
+ * Registry entry describing how agents of a role are executed
+ */
+export const AgentRoleSchema = z.object({
+  /** Unique identifier */
+  id: z.string().uuid(),
+
+  /** Role name used by agents and workflow nodes (e.g. 'implementer') */
+  name: z
+    .string()
+    .min(1)
+    .max(100)
+    .regex(/^[a-z0-9][a-z0-9_-]*$/, 'Role name must be lowercase letters, digits, - or _'),
+
+  /** Human-readable description */
+  description: z.string().nullable(),
+
+  /** Role-specific system prompt */
+  system_prompt: z.string().min(1),
+
+  /** Model used for agents of this role */
+  model: z.string().min(1),
+
+  /** Maximum SDK turns per execution */
+  max_turns: z.number().int().positive(),
+
+  /** SDK permission mode */
+  permission_mode: RolePermissionMode,
+
+  /** Tools the role may use (null = SDK defaults) */
+  allowed_tools: z.array(z.string().min(1)).nullable(),
+
+  /** Tool permission policy (null = role tools allowed, worktree paths only) */
+  tool_policy: ToolPolicySchema.nullable(),
+
+  /** Token budget used when a spawn does not specify one */
+  default_budget: z.number().int().positive(),
+
+  /** Execution deadline in ms (null = AGENT_TIMEOUT; workflow nodes may override) */
+  timeout_ms: z.number().int().positive().nullable(),
+
+  /** Optional JSON schema for the role's final output */
+  output_schema: z.record(z.unknown()).nullable(),
+
+  /** Disabled roles cannot be spawned */
+  enabled: z.boolean(),
+
+  /** Creation timestamp */
+  created_at: z.date(),
+
+  /** Last update timestamp */
+  updated_at: z.date(),
+});
+
+export type AgentRole = z.infer<typeof AgentRoleSchema>;
+
+/**
+ * Schema for creating a role (defaults mirror the table defaults)
+ */
+export const CreateAgentRoleSchema = AgentRoleSchema.omit({
+  id: true,
+  created_at: true,
+  updated_at: true,
+}).extend({
+  description: z.string().nullable().default(null),
+  max_turns: z.number().int().positive().default(20),
+  permission_mode: RolePermissionMode.default('acceptEdits'),
+  allowed_tools: z.array(z.string().min(1)).nullable().default(null),
+  tool_policy: ToolPolicySchema.nullable().default(null),
+  default_budget: z.number().int().positive().default(100000),
+  timeout_ms: z.number().int().positive().nullable().default(null),
+  output_schema: z.record(z.unknown()).nullable().default(null),
+  enabled: z.boolean().default(true),
+});
+
+export type CreateAgentRole = z.input<typeof CreateAgentRoleSchema>;
+
+/**
+ * Schema for updating a role (name is immutable)
+ */
+export const UpdateAgentRoleSchema = AgentRoleSchema.omit({
+  id: true,
+  name: true,
+  created_at: true,
+  updated_at: true,
+})
+  .partial()
+  .strict();
+
+export type UpdateAgentRole = z.infer<typeof UpdateAgentRoleSchema>;
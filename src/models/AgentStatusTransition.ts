@@ -0,0 +1,27 @@
+import { z } from 'zod';
+import { AgentStatus } from './Agent.js';
+
+/**
+ * AgentStatusTransition model schema
+ * One status change of an agent (agent_status_transitions row)
+ */
+export const AgentStatusTransitionSchema = z.object({
+  /** Unique identifier */
+  id: z.string().uuid(),
+
+  agent_id: z.string().uuid(),
+
+  from_status: AgentStatus,
+
+  to_status: AgentStatus,
+
+  /** Component or user that made the change (e.g. 'dashboard', 'worker:<id>') */
+  actor: z.string().min(1).max(255),
+
+  /** Why the status changed */
+  reason: z.string().nullable(),
+
+  created_at: z.date(),
+});
+
+export type AgentStatusTransition = z.infer<typeof AgentStatusTransitionSchema>;
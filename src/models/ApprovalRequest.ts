@@ -0,0 +1,90 @@
+import { z } from 'zod';
+
+/**
+ * Approval request types (approval_requests.request_type)
+ */
+export const ApprovalRequestType = z.enum([
+  'spawn_agent',
+  'workflow_start',
+  'budget_increase',
+  'file_operation',
+  'external_api_call',
+  'database_write',
+  'high_risk_task',
+  'custom',
+]);
+
+export type ApprovalRequestTypeValue = z.infer<typeof ApprovalRequestType>;
+
+/**
+ * Approval request review status
+ */
+export const ApprovalStatus = z.enum(['pending', 'approved', 'rejected', 'expired', 'auto_approved']);
+
+export type ApprovalStatusType = z.infer<typeof ApprovalStatus>;
+
+/**
+ * Risk level shown to reviewers
+ */
+export const ApprovalRiskLevel = z.enum(['low', 'medium', 'high', 'critical']);
+
+export type ApprovalRiskLevelType = z.infer<typeof ApprovalRiskLevel>;
+
+/**
+ * ApprovalRequest model schema
+ * Human-in-the-loop approval for a sensitive operation
+ */
+export const ApprovalRequestSchema = z.object({
+  /** Unique identifier */
+  id: z.string().uuid(),
+
+  /** What is being approved */
+  request_type: ApprovalRequestType,
+
+  /** Kind of entity the request is about ('agent', 'workflow', ...) */
+  entity_type: z.string().min(1).max(50),
+
+  /** ID of that entity */
+  entity_id: z.string().uuid(),
+
+  /** Who asked (agent ID, 'system', ...) */
+  requested_by: z.string().nullable(),
+
+  /** Full context for the reviewer */
+  request_data: z.record(z.unknown()),
+
+  risk_level: ApprovalRiskLevel,
+
+  /** Token cost estimate */
+  estimated_cost: z.number().int().nullable(),
+
+  status: ApprovalStatus,
+  reviewed_by: z.string().nullable(),
+  reviewed_at: z.date().nullable(),
+  review_notes: z.string().nullable(),
+
+  /** Pending requests past this time are treated as expired */
+  expires_at: z.date().nullable(),
+
+  requested_at: z.date(),
+  created_at: z.date(),
+  updated_at: z.date(),
+});
+
+export type ApprovalRequest = z.infer<typeof ApprovalRequestSchema>;
+
+/**
+ * Schema for creating an approval request
+ */
+export const CreateApprovalRequestSchema = z.object({
+  request_type: ApprovalRequestType,
+  entity_type: z.string().min(1).max(50),
+  entity_id: z.string().uuid(),
+  requested_by: z.string().nullable().default(null),
+  request_data: z.record(z.unknown()),
+  risk_level: ApprovalRiskLevel.default('medium'),
+  estimated_cost: z.number().int().nullable().default(null),
+  expires_at: z.date().nullable().default(null),
+});
+
+export type CreateApprovalRequest = z.input<typeof CreateApprovalRequestSchema>;
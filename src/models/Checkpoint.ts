@@ -37,6 +37,7 @@ export type CreateCheckpoint = z.infer<typeof CreateCheckpointSchema>;
 
 /**
  * Schema for checkpoint state data structure
+ * Executions may add their own keys (e.g. partial_content, session_id); they are kept.
  */
 export const CheckpointStateSchema = z.object({
   /** Current agent status at checkpoint time */
@@ -57,6 +58,9 @@ export const CheckpointStateSchema = z.object({
   /** Current step in task execution */
   execution_step: z.number().int().min(0).optional(),
 
+  /** Model conversation so far (an execution continues from it) */
+  conversation: z.array(z.record(z.unknown())).optional(),
+
   /** List of completed subtasks */
   completed_subtasks: z.array(z.string()).optional(),
 
@@ -79,7 +83,7 @@ export const CheckpointStateSchema = z.object({
 
   /** Additional custom state */
   custom: z.record(z.unknown()).optional(),
-});
+}).passthrough();
 
 export type CheckpointState = z.infer<typeof CheckpointStateSchema>;
 
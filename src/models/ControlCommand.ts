@@ -0,0 +1,72 @@
+import { z } from 'zod';
+
+/**
+ * Control command types (agent_control_commands.command_type)
+ */
+export const ControlCommandType = z.enum([
+  'pause',
+  'resume',
+  'terminate',
+  'kill',
+  'intervention',
+  'priority_change',
+]);
+
+export type ControlCommandTypeValue = z.infer<typeof ControlCommandType>;
+
+/**
+ * Control command lifecycle
+ * - pending: Issued, not yet picked up by the agent
+ * - executing: Picked up by the agent at a safe point
+ * - executed: Acted on (executed_at is set)
+ * - failed: The agent could not act on it
+ * - cancelled: Superseded before the agent picked it up
+ */
+export const ControlCommandStatus = z.enum([
+  'pending',
+  'executing',
+  'executed',
+  'failed',
+  'cancelled',
+]);
+
+export type ControlCommandStatusType = z.infer<typeof ControlCommandStatus>;
+
+/**
+ * ControlCommand model schema
+ * An operator command issued to a running agent
+ */
+export const ControlCommandSchema = z.object({
+  /** Unique identifier */
+  id: z.string().uuid(),
+
+  /** Target agent */
+  agent_id: z.string().uuid(),
+
+  command_type: ControlCommandType,
+
+  /** Who issued the command ('dashboard', user email or 'system') */
+  issued_by: z.string().min(1).max(255),
+  issued_at: z.date(),
+
+  status: ControlCommandStatus,
+  executed_at: z.date().nullable(),
+  error_message: z.string().nullable(),
+
+  /** Additional context (reason, ...) */
+  metadata: z.record(z.unknown()),
+});
+
+export type ControlCommand = z.infer<typeof ControlCommandSchema>;
+
+/**
+ * Schema for issuing a control command
+ */
+export const CreateControlCommandSchema = z.object({
+  agent_id: z.string().uuid(),
+  command_type: ControlCommandType,
+  issued_by: z.string().min(1).max(255),
+  metadata: z.record(z.unknown()).default({}),
+});
+
+export type CreateControlCommand = z.input<typeof CreateControlCommandSchema>;
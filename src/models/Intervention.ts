@@ -0,0 +1,71 @@
+import { z } from 'zod';
+
+/**
+ * Intervention types (agent_interventions.intervention_type)
+ */
+export const InterventionType = z.enum([
+  'guidance',
+  'correction',
+  'approval',
+  'clarification',
+  'abort',
+  'redirect',
+]);
+
+export type InterventionTypeValue = z.infer<typeof InterventionType>;
+
+/**
+ * How an intervention was resolved
+ */
+export const InterventionResolution = z.enum(['acknowledged', 'applied', 'ignored', 'failed']);
+
+export type InterventionResolutionType = z.infer<typeof InterventionResolution>;
+
+/**
+ * AgentIntervention model schema
+ * A message from a human (dashboard, Linear comment) to a running agent
+ */
+export const AgentInterventionSchema = z.object({
+  /** Unique identifier */
+  id: z.string().uuid(),
+
+  /** Target agent */
+  agent_id: z.string().uuid(),
+
+  intervention_type: InterventionType,
+
+  /** Who intervened ('dashboard_user', 'Linear: <name>', ...) */
+  intervened_by: z.string().min(1).max(255),
+  intervened_at: z.date(),
+
+  /** The human's message to the agent */
+  message: z.string().min(1),
+
+  /** Where the intervention came from and what the agent was doing */
+  context: z.record(z.unknown()),
+
+  /** When the agent received the message, and what it replied */
+  agent_acknowledged_at: z.date().nullable(),
+  agent_response: z.string().nullable(),
+
+  /** Set once the intervention is resolved (null = not yet delivered) */
+  resolved_at: z.date().nullable(),
+  resolution_status: InterventionResolution.nullable(),
+
+  created_at: z.date(),
+});
+
+export type AgentIntervention = z.infer<typeof AgentInterventionSchema>;
+
+/**
+ * Schema for creating an intervention
+ */
+export const CreateInterventionSchema = z.object({
+  agent_id: z.string().uuid(),
+  intervention_type: InterventionType.default('guidance'),
+  intervened_by: z.string().min(1).max(255),
+  message: z.string().min(1),
+  context: z.record(z.unknown()).default({}),
+});
+
+export type CreateIntervention = z.input<typeof CreateInterventionSchema>;
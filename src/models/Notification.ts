@@ -0,0 +1,72 @@
+import { z } from 'zod';
+
+/**
+ * Who a notification is for (notifications.target_type)
+ */
+export const NotificationTarget = z.enum(['user', 'role', 'broadcast']);
+
+export type NotificationTargetType = z.infer<typeof NotificationTarget>;
+
+/**
+ * What a notification is about (notifications.notification_type)
+ */
+export const NotificationType = z.enum([
+  'agent_completed',
+  'agent_failed',
+  'approval_required',
+  'budget_warning',
+  'workflow_completed',
+  'intervention_needed',
+  'system_alert',
+  'custom',
+]);
+
+export type NotificationTypeValue = z.infer<typeof NotificationType>;
+
+export const NotificationPriority = z.enum(['low', 'normal', 'high', 'urgent']);
+
+export type NotificationPriorityType = z.infer<typeof NotificationPriority>;
+
+/**
+ * Notification model schema
+ * A message for dashboard users
+ */
+export const NotificationSchema = z.object({
+  /** Unique identifier */
+  id: z.string().uuid(),
+
+  target_type: NotificationTarget,
+  /** User ID or role name (null for broadcasts) */
+  target_id: z.string().nullable(),
+
+  notification_type: NotificationType,
+  title: z.string().min(1).max(255),
+  message: z.string().min(1),
+  /** IDs of the agent, workflow or request the notification is about */
+  data: z.record(z.unknown()),
+
+  priority: NotificationPriority,
+
+  created_at: z.date(),
+  read_at: z.date().nullable(),
+  dismissed_at: z.date().nullable(),
+  expires_at: z.date().nullable(),
+});
+
+export type Notification = z.infer<typeof NotificationSchema>;
+
+/**
+ * Schema for creating a notification
+ */
+export const CreateNotificationSchema = z.object({
+  target_type: NotificationTarget.default('broadcast'),
+  target_id: z.string().nullable().default(null),
+  notification_type: NotificationType,
+  title: z.string().min(1).max(255),
+  message: z.string().min(1),
+  data: z.record(z.unknown()).default({}),
+  priority: NotificationPriority.default('normal'),
+  expires_at: z.date().nullable().default(null),
+});
+
+export type CreateNotification = z.input<typeof CreateNotificationSchema>;
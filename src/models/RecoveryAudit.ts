@@ -0,0 +1,70 @@
+import { z } from 'zod';
+
+/**
+ * What startup reconciliation did with an orphaned agent or workflow node
+ * - resumed: agent requeued to continue from its latest checkpoint
+ * - requeued: agent requeued to start over from its task
+ * - respawned: workflow node given a new agent
+ * - failed: agent or node failed with the recorded reason
+ */
+export const RecoveryAction = z.enum(['resumed', 'requeued', 'respawned', 'failed']);
+
+export type RecoveryActionType = z.infer<typeof RecoveryAction>;
+
+/**
+ * Kind of entity a recovery applies to
+ */
+export const RecoveryEntityType = z.enum(['agent', 'workflow_node']);
+
+export type RecoveryEntityTypeType = z.infer<typeof RecoveryEntityType>;
+
+/**
+ * RecoveryAuditRecord model schema
+ * One reconciliation decision (recovery_audit row)
+ */
+export const RecoveryAuditRecordSchema = z.object({
+  /** Unique identifier */
+  id: z.string().uuid(),
+
+  entity_type: RecoveryEntityType,
+
+  /** Agent or workflow node ID */
+  entity_id: z.string().uuid(),
+
+  /** Agent that carries on the work, if any */
+  agent_id: z.string().uuid().nullable(),
+
+  action: RecoveryAction,
+
+  /** Status the entity was left in by the crashed process */
+  previous_status: z.string().max(50),
+
+  /** Why the entity was considered orphaned and what was done */
+  reason: z.string(),
+
+  /** Checkpoint a resumed agent continues from */
+  checkpoint_id: z.string().uuid().nullable(),
+
+  /** Tokens returned to the parent's budget */
+  released_tokens: z.number().int().min(0),
+
+  created_at: z.date(),
+});
+
+export type RecoveryAuditRecord = z.infer<typeof RecoveryAuditRecordSchema>;
+
+/**
+ * Schema for recording a reconciliation decision
+ */
+export const CreateRecoveryAuditSchema = z.object({
+  entity_type: RecoveryEntityType,
+  entity_id: z.string().uuid(),
+  agent_id: z.string().uuid().nullable().default(null),
+  action: RecoveryAction,
+  previous_status: z.string().max(50),
+  reason: z.string(),
+  checkpoint_id: z.string().uuid().nullable().default(null),
+  released_tokens: z.number().int().min(0).default(0),
+});
+
+export type CreateRecoveryAudit = z.input<typeof CreateRecoveryAuditSchema>;
@@ -0,0 +1,59 @@
+import { z } from 'zod';
+
+/**
+ * Outcome of evaluating a tool request
+ * - allow: run the tool
+ * - deny: refuse the tool (the model is told why)
+ * - ask: block until a human approves or rejects the request
+ */
+export const ToolDecision = z.enum(['allow', 'deny', 'ask']);
+
+export type ToolDecisionType = z.infer<typeof ToolDecision>;
+
+const PatternList = z.array(z.string().min(1)).default([]);
+
+/**
+ * Allow/deny/ask pattern lists
+ * Deny wins over ask, ask wins over allow.
+ */
+export const PatternRulesSchema = z
+  .object({
+    allow: PatternList,
+    deny: PatternList,
+    ask: PatternList,
+  })
+  .strict();
+
+export type PatternRules = z.infer<typeof PatternRulesSchema>;
+
+/**
+ * ToolPolicy schema
+ * Per-role rules evaluated for every tool request of an SDK agent
+ */
+export const ToolPolicySchema = z
+  .object({
+    /** Tool name patterns (e.g. 'Write', 'mcp__github__*') */
+    allow: PatternList,
+    deny: PatternList,
+    ask: PatternList,
+
+    /**
+     * Path globs relative to the agent's worktree (e.g. 'src/**', '*.md').
+     * Paths outside the worktree are always denied.
+     */
+    paths: PatternRulesSchema.default({}),
+
+    /** Bash command patterns (e.g. 'npm test*', 'git push*') */
+    bash: PatternRulesSchema.default({}),
+
+    /**
+     * Decision when no rule matches
+     * (default: deny if the role restricts its tools, allow otherwise)
+     */
+    default_decision: ToolDecision.optional(),
+  })
+  .strict();
+
+export type ToolPolicy = z.infer<typeof ToolPolicySchema>;
+
+export type ToolPolicyInput = z.input<typeof ToolPolicySchema>;
@@ -0,0 +1,37 @@
+import { z } from 'zod';
+
+/**
+ * Kind of resource a worker can lease
+ * - agent: a pending agent the worker executes
+ * - workflow_graph: an active workflow the worker polls
+ */
+export const LeaseResourceType = z.enum(['agent', 'workflow_graph']);
+
+export type LeaseResourceTypeType = z.infer<typeof LeaseResourceType>;
+
+/**
+ * WorkerLease model schema
+ * A resource claimed by one orchestrator process (worker_leases row)
+ */
+export const WorkerLeaseSchema = z.object({
+  /** Unique identifier */
+  id: z.string().uuid(),
+
+  resource_type: LeaseResourceType,
+
+  /** Agent or workflow graph ID */
+  resource_id: z.string().uuid(),
+
+  /** Process holding the lease */
+  worker_id: z.string().min(1).max(255),
+
+  acquired_at: z.date(),
+
+  /** Last renewal */
+  heartbeat_at: z.date(),
+
+  /** Reclaimable by other workers after this time */
+  expires_at: z.date(),
+});
+
+export type WorkerLease = z.infer<typeof WorkerLeaseSchema>;
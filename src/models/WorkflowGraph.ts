@@ -3,11 +3,12 @@ import { z } from 'zod';
 /**
  * Workflow graph status enum
  * - active: Workflow is currently executing
- * - paused: Workflow execution is paused
+ * - paused: No new nodes are spawned until the workflow is resumed
  * - completed: All nodes successfully executed
  * - failed: One or more nodes failed
+ * - cancelled: Workflow was terminated before it finished
  */
-export const WorkflowGraphStatus = z.enum(['active', 'paused', 'completed', 'failed']);
+export const WorkflowGraphStatus = z.enum(['active', 'paused', 'completed', 'failed', 'cancelled']);
 export type WorkflowGraphStatusType = z.infer<typeof WorkflowGraphStatus>;
 
 /**
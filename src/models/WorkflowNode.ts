@@ -3,12 +3,12 @@ import { z } from 'zod';
 /**
  * Workflow node execution status enum
  * - pending: Node is waiting for dependencies
- * - ready: Dependencies satisfied, ready to spawn
- * - spawning: Agent is being spawned for this node
- * - executing: Node's agent is currently running
+ * - ready: Dependencies satisfied, ready to spawn (a failed node waiting to be retried)
+ * - spawning: Agent is being spawned for this node (or a failed agent's retry is being decided)
+ * - executing: Node's agent is currently running (for a map node: its children are)
  * - completed: Node's agent successfully completed
  * - failed: Node's agent encountered an error
- * - skipped: Node was skipped due to upstream failures
+ * - skipped: Node will not run (upstream failure, or an edge condition that cannot be met)
  */
 export const WorkflowNodeStatus = z.enum([
   'pending',
@@ -21,6 +21,119 @@ export const WorkflowNodeStatus = z.enum([
 ]);
 export type WorkflowNodeStatusType = z.infer<typeof WorkflowNodeStatus>;
 
+/**
+ * How a node depends on an upstream node
+ * - sequential: waits for the upstream node to finish, then checks the condition
+ * - parallel: may run concurrently with the upstream node (the edge never blocks)
+ * - conditional: like sequential; used for edges whose condition picks a branch
+ */
+export const DependencyType = z.enum(['sequential', 'parallel', 'conditional']);
+export type DependencyTypeValue = z.infer<typeof DependencyType>;
+
+/**
+ * When an edge lets its target run, given the upstream node's outcome
+ * - on_complete: upstream finished in any way (completed, failed or skipped)
+ * - on_success: upstream completed
+ * - on_fail: upstream failed
+ * - conditional: upstream completed and condition_expression holds for its result
+ */
+export const EdgeCondition = z.enum(['on_complete', 'on_success', 'on_fail', 'conditional']);
+export type EdgeConditionType = z.infer<typeof EdgeCondition>;
+
+/**
+ * Activation condition of one dependency of a node
+ */
+export const WorkflowEdgeConditionSchema = z
+  .object({
+    dependency_type: DependencyType.default('sequential'),
+    condition: EdgeCondition.default('on_success'),
+    /**
+     * Comparison against the upstream node's result (condition 'conditional'),
+     * e.g. "reviewer.verdict == 'changes_requested'" (see ConditionExpression)
+     */
+    condition_expression: z.string().min(1).optional(),
+  })
+  .refine((edge) => edge.condition !== 'conditional' || edge.condition_expression, {
+    message: 'condition_expression is required for conditional edges',
+    path: ['condition_expression'],
+  });
+export type WorkflowEdgeCondition = z.infer<typeof WorkflowEdgeConditionSchema>;
+
+/**
+ * What a node's failure means for the rest of the workflow
+ * - fail: dependents waiting for its success are skipped; the workflow fails
+ *   unless an on_fail or on_complete edge handles the failure
+ * - continue: the failure is tolerated; dependents run as if the node had
+ *   succeeded and the workflow can still complete
+ * - fail_fast: the workflow fails at once; running siblings are cancelled and
+ *   all nodes that have not run are skipped
+ */
+export const NodeFailureMode = z.enum(['fail', 'continue', 'fail_fast']);
+export type NodeFailureModeType = z.infer<typeof NodeFailureMode>;
+
+/**
+ * How a node recovers from its agent failing (WorkflowNode.metadata.failure_policy)
+ * Retries come first, then the fallback; the node fails once both are used up.
+ */
+export const NodeFailurePolicySchema = z.object({
+  /** Agents respawned for the node after failures */
+  max_retries: z.number().int().min(0).default(0),
+
+  /** Delay before the first retry (ms) */
+  backoff_ms: z.number().int().min(0).default(0),
+
+  /** Factor applied to the delay for each further retry */
+  backoff_multiplier: z.number().min(1).default(2),
+
+  /** Role of the retry agents (default: the node's role) */
+  retry_role: z.string().min(1).max(100).optional(),
+
+  /** Model of the retry agents (default: the node's or role's model) */
+  retry_model: z.string().min(1).optional(),
+
+  /** Agent run in the node's place once retries are used up; its result is the node's */
+  fallback: z
+    .object({
+      role: z.string().min(1).max(100),
+      /** Task of the fallback agent (default: the failed agent's task) */
+      task_description: z.string().min(1).optional(),
+      model: z.string().min(1).optional(),
+    })
+    .optional(),
+
+  /** What the node's failure means for the workflow */
+  on_failure: NodeFailureMode.default('fail'),
+});
+export type NodeFailurePolicy = z.infer<typeof NodeFailurePolicySchema>;
+
+/**
+ * Fan-out of a map node over an array in an upstream node's result
+ * (WorkflowNode.metadata.map)
+ *
+ * A map node runs no agent itself. Once its edges are satisfied it creates
+ * one child node per array element (same role and task, plus the element),
+ * and it completes once all children have finished, with their collected
+ * results ({ results: [{ item, status, result, error }] }) as its own result.
+ * Its dependents are the reduce/join nodes: they receive those results as the
+ * map node's output. Children inherit the map node's other metadata, e.g. its
+ * failure policy; the map node fails if one of them fails (unless on_failure
+ * is 'continue').
+ */
+export const MapNodeSpecSchema = z.object({
+  /** Upstream node whose result holds the array (default: the map node's only dependency) */
+  source: z.string().min(1).optional(),
+
+  /** Dotted path of the array in the upstream result (e.g. "files" or "plan.subtasks") */
+  items: z.string().regex(/^[A-Za-z0-9_-]+(\.[A-Za-z0-9_-]+)*$/, 'Invalid result path'),
+
+  /** Children running at the same time (default: all of them) */
+  max_concurrency: z.number().int().positive().optional(),
+
+  /** Tokens of each child (default: the map node's budget split evenly) */
+  item_budget: z.number().int().positive().optional(),
+});
+export type MapNodeSpec = z.infer<typeof MapNodeSpecSchema>;
+
 /**
  * WorkflowNode model schema
  * Represents an individual agent position within a workflow graph.
@@ -48,6 +161,12 @@ export const WorkflowNodeSchema = z.object({
   /** List of node IDs this node depends on */
   dependencies: z.array(z.string().uuid()).default([]),
 
+  /**
+   * Activation conditions keyed by dependency node ID
+   * Dependencies without an entry are sequential on_success edges.
+   */
+  edge_conditions: z.record(z.string().uuid(), WorkflowEdgeConditionSchema).default({}),
+
   /** Node execution state */
   execution_status: WorkflowNodeStatus.default('pending'),
 
@@ -66,7 +185,16 @@ export const WorkflowNodeSchema = z.object({
   /** Display position for visualization */
   position: z.number().int().min(0),
 
-  /** Node-specific metadata */
+  /**
+   * Node-specific metadata
+   * timeout_ms overrides the agent deadline (a timeout counts as a failure);
+   * priority ('high' | 'normal' | 'low') is the scheduling class of the node's agent;
+   * model overrides the role's model; failure_policy is a NodeFailurePolicy
+   * (retry_attempts, retry_at and fallback_used track its progress);
+   * paused_by_workflow marks an agent paused with its workflow; map makes the
+   * node a map node (a MapNodeSpec), whose children carry map_node_id,
+   * map_index and map_item.
+   */
   metadata: z.record(z.any()).nullable(),
 
   /** Node creation timestamp */
@@ -84,6 +212,7 @@ export const CreateWorkflowNodeSchema = WorkflowNodeSchema.omit({
 }).partial({
   agent_id: true,
   dependencies: true,
+  edge_conditions: true,
   execution_status: true,
   spawn_timestamp: true,
   completion_timestamp: true,
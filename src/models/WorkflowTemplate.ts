@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { DependencyType, EdgeCondition } from './WorkflowNode.js';
 
 /**
  * Node template structure for workflow templates
@@ -23,7 +24,12 @@ export const NodeTemplateSchema = z.object({
   /** Display position */
   position: z.number().int().min(0),
 
-  /** Optional metadata */
+  /**
+   * Optional metadata (e.g. output_schema: JSON schema the node's output must satisfy,
+   * priority: scheduling class of the node's agent, failure_policy: retries, fallback
+   * and on_failure mode, see NodeFailurePolicySchema; map: fan-out over an upstream
+   * result, whose source names a template node, see MapNodeSpecSchema)
+   */
   metadata: z.record(z.any()).optional(),
 });
 export type NodeTemplate = z.infer<typeof NodeTemplateSchema>;
@@ -41,6 +47,18 @@ export const EdgePatternSchema = z.object({
 
   /** Optional edge label */
   label: z.string().optional(),
+
+  /** How the target depends on the source (default 'sequential') */
+  dependency_type: DependencyType.optional(),
+
+  /** When the edge lets the target run (default 'on_success') */
+  condition: EdgeCondition.optional(),
+
+  /**
+   * Comparison against the source node's result, for condition 'conditional'
+   * (e.g. "review.verdict == 'changes_requested'")
+   */
+  condition_expression: z.string().min(1).optional(),
 });
 export type EdgePattern = z.infer<typeof EdgePatternSchema>;
 
@@ -73,7 +73,7 @@ export const WorkspaceConfigSchema = z.object({
   /** Default token limit for agents in this workspace */
   default_token_limit: z.number().int().min(0).optional(),
 
-  /** Allowed agent roles in this workspace */
+  /** Registered roles allowed in this workspace (default: all enabled roles) */
   allowed_roles: z.array(z.string()).optional(),
 
   /** Auto-save checkpoint interval in minutes */
@@ -95,24 +95,35 @@ export function isWorkspaceActive(workspace: Workspace): boolean {
   return workspace.status === 'active';
 }
 
+/**
+ * Workspace settings used when a workspace does not configure them
+ */
+export const DEFAULT_WORKSPACE_CONFIG: WorkspaceConfig = {
+  max_depth: 5,
+  default_token_limit: 100000,
+  checkpoint_interval: 30,
+  collaboration_enabled: true,
+};
+
 /**
  * Helper to get workspace config with defaults
  */
 export function getWorkspaceConfig(workspace: Workspace): WorkspaceConfig {
-  const defaultConfig: WorkspaceConfig = {
-    max_depth: 5,
-    default_token_limit: 100000,
-    allowed_roles: ['researcher', 'coder', 'reviewer', 'tester', 'planner'],
-    checkpoint_interval: 30,
-    collaboration_enabled: true,
-  };
+  return resolveWorkspaceConfig(workspace.config);
+}
 
-  if (!workspace.config) {
-    return defaultConfig;
+/**
+ * Helper to validate stored workspace settings and apply defaults
+ *
+ * @throws ZodError if the stored settings are invalid
+ */
+export function resolveWorkspaceConfig(config: Record<string, unknown> | null): WorkspaceConfig {
+  if (!config) {
+    return DEFAULT_WORKSPACE_CONFIG;
   }
 
   return {
-    ...defaultConfig,
-    ...workspace.config,
-  } as WorkspaceConfig;
+    ...DEFAULT_WORKSPACE_CONFIG,
+    ...WorkspaceConfigSchema.parse(config),
+  };
 }
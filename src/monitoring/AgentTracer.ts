@@ -39,7 +39,7 @@ export interface DecisionInfo {
 }
 
 export interface EventInfo {
-  eventType: 'spawned' | 'started' | 'status_change' | 'child_spawned' | 'completed' | 'failed' | 'execution_started' | 'tool_use';
+  eventType: 'spawned' | 'started' | 'status_change' | 'child_spawned' | 'completed' | 'failed' | 'timed_out' | 'execution_started' | 'tool_use' | 'progress' | 'permission_denied' | 'approval_requested' | 'approval_resolved' | 'paused' | 'resumed' | 'intervention_delivered' | 'intervention_applied' | 'llm_attempt' | 'checkpoint_saved';
   message: string;
   data?: any;
 }
@@ -1,30 +1,71 @@
 /**
  * AgentExecutionWorker - Polls for pending agents and executes them
  *
- * This worker runs in the background and continuously checks for agents
- * in 'pending' status. When found, it triggers their execution.
+ * This worker runs in the background and checks for agents in 'pending'
+ * status whenever the database announces one (agent_pending notification)
+ * or one of its executions finishes, plus every pollIntervalMs as a safety
+ * net for missed notifications. When found, it triggers their execution.
  *
  * This enables fully autonomous multi-agent operation where spawning an
  * agent automatically triggers its execution without manual intervention.
+ *
+ * Which pending agents start is decided by an AgentScheduler: at most
+ * MAX_CONCURRENT_AGENTS run at once (and MAX_AGENTS_PER_TREE /
+ * MAX_AGENTS_PER_WORKFLOW per hierarchy and workflow), higher priority
+ * classes first, with hierarchies taking turns. The limits apply per process.
+ *
+ * Several processes can run workers against one database: selected agents
+ * are claimed through a WorkerLeaseService before they start, so each agent
+ * runs once, and every poll reclaims agents whose worker lease expired.
  */
 
 import { AgentService } from './AgentService.js';
-import { AgentRepository } from '../database/repositories/AgentRepository.js';
+import {
+  AgentScheduler,
+  type QueueStats,
+  type ScheduledAgent,
+  type SchedulerLimits,
+} from './AgentScheduler.js';
+import { WorkerLeaseService } from './WorkerLeaseService.js';
+import { AgentRepository, type QueuedAgent } from '../database/repositories/AgentRepository.js';
+import { db } from '../infrastructure/SharedDatabase.js';
 import { logger } from '../utils/Logger.js';
 
 export class AgentExecutionWorker {
   private agentService: AgentService;
   private agentRepo: AgentRepository;
+  private scheduler: AgentScheduler;
+  private leases: WorkerLeaseService;
+  private ownsLeases: boolean;
   private intervalId: NodeJS.Timeout | null = null;
+  private unsubscribe: (() => void) | null = null;
   private isPolling = false;
+  private activePoll: Promise<void> | null = null;
+  private wakeRequested = false;
   private pollIntervalMs: number;
   private workerLogger = logger.child({ component: 'AgentExecutionWorker' });
-  private runningAgents = new Set<string>();
+  private runningAgents = new Map<string, ScheduledAgent>();
+  private queue: QueuedAgent[] = [];
 
-  constructor(pollIntervalMs: number = 5000, agentService?: AgentService) {
+  /**
+   * @param pollIntervalMs - How often to look for pending agents without a notification (ms)
+   * @param agentService - Service that runs agents
+   * @param scheduler - Scheduler deciding which agents start (limits from the environment)
+   * @param leases - Lease service of this process (one is created and stopped with
+   *   the worker when omitted)
+   */
+  constructor(
+    pollIntervalMs: number = 5000,
+    agentService?: AgentService,
+    scheduler?: AgentScheduler,
+    leases?: WorkerLeaseService
+  ) {
     this.pollIntervalMs = pollIntervalMs;
     this.agentService = agentService || new AgentService();
     this.agentRepo = new AgentRepository();
+    this.scheduler = scheduler || new AgentScheduler();
+    this.ownsLeases = !leases;
+    this.leases = leases || new WorkerLeaseService();
   }
 
   /**
@@ -37,25 +78,30 @@ export class AgentExecutionWorker {
     }
 
     this.isPolling = true;
-    this.workerLogger.info({ pollIntervalMs: this.pollIntervalMs }, 'Agent execution worker starting');
+    this.leases.start();
+    this.workerLogger.info(
+      {
+        pollIntervalMs: this.pollIntervalMs,
+        limits: this.scheduler.limits,
+        workerId: this.leases.workerId,
+      },
+      'Agent execution worker starting'
+    );
 
     // Run first poll immediately
     await this.pollOnce();
 
-    // Then poll at intervals
-    this.intervalId = setInterval(async () => {
-      try {
-        await this.pollOnce();
-      } catch (error) {
-        this.workerLogger.error({ error }, 'Polling cycle failed');
-      }
-    }, this.pollIntervalMs);
+    // Then poll whenever an agent becomes pending, and at intervals as a fallback
+    this.unsubscribe = db.subscribe('agent_pending', () => this.wake());
+    this.intervalId = setInterval(() => this.wake(), this.pollIntervalMs);
 
     this.workerLogger.info('Agent execution worker started');
   }
 
   /**
    * Stop the execution worker
+   * Running agents are not interrupted. A lease service owned by the worker is
+   * stopped, releasing its leases.
    */
   async stop(): Promise<void> {
     if (!this.isPolling) {
@@ -68,12 +114,21 @@ export class AgentExecutionWorker {
       clearInterval(this.intervalId);
       this.intervalId = null;
     }
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+
+    if (this.ownsLeases) {
+      await this.leases.stop();
+    }
 
     this.workerLogger.info('Agent execution worker stopped');
   }
 
   /**
-   * Poll once for pending agents and execute them
+   * Poll once for pending agents and start those the scheduler selects
+   * Agents another worker claimed first are skipped.
    */
   async pollOnce(): Promise<void> {
     if (!this.isPolling) {
@@ -81,67 +136,140 @@ export class AgentExecutionWorker {
     }
 
     try {
-      // Find all pending agents
-      const pendingAgents = await this.agentRepo.findByStatus('pending');
+      // Requeue (or fail) agents whose worker died
+      const reclaimed = await this.leases.reclaimExpired();
+      if (reclaimed.length > 0) {
+        this.workerLogger.warn(
+          { count: reclaimed.length },
+          'Reclaimed agents of expired worker leases'
+        );
+      }
 
-      if (pendingAgents.length === 0) {
+      // Find all pending agents not claimed by a worker
+      this.queue = (await this.agentRepo.findQueued()).filter(
+        agent => !this.runningAgents.has(agent.agentId)
+      );
+
+      if (this.queue.length === 0) {
         this.workerLogger.debug('No pending agents found');
         return;
       }
 
+      const selected = this.scheduler.select(this.queue, [...this.runningAgents.values()]);
+      const claimed = new Set(
+        await this.leases.claimAgents(selected.map(agent => agent.agentId))
+      );
+      const toStart = selected.filter(agent => claimed.has(agent.agentId));
+      this.scheduler.markStarted(toStart);
+
       this.workerLogger.info(
-        { count: pendingAgents.length },
+        {
+          queued: this.queue.length,
+          starting: toStart.length,
+          claimedElsewhere: selected.length - toStart.length,
+          running: this.runningAgents.size,
+        },
         'Found pending agents'
       );
 
-      // Execute each pending agent (if not already running)
-      for (const agent of pendingAgents) {
-        // Skip if agent is already being executed
-        if (this.runningAgents.has(agent.id)) {
-          this.workerLogger.debug({ agentId: agent.id }, 'Agent already running, skipping');
-          continue;
-        }
-
-        // Mark as running
-        this.runningAgents.add(agent.id);
-
-        this.workerLogger.info(
-          { agentId: agent.id, role: agent.role },
-          'Starting agent execution'
-        );
-
-        // Execute agent asynchronously
-        this.agentService
-          .runAgent(agent.id)
-          .then(() => {
-            this.workerLogger.info({ agentId: agent.id }, 'Agent execution completed');
-            this.runningAgents.delete(agent.id);
-          })
-          .catch((error) => {
-            this.workerLogger.error(
-              { agentId: agent.id, error },
-              'Agent execution failed'
-            );
-            this.runningAgents.delete(agent.id);
-          });
+      for (const agent of toStart) {
+        this.startAgent(agent);
       }
+      this.queue = this.queue.filter(agent => !this.runningAgents.has(agent.agentId));
     } catch (error) {
       this.workerLogger.error({ error }, 'Failed to poll for pending agents');
     }
   }
 
+  /**
+   * Poll now, or right after the poll in progress
+   * A burst of wakeups collapses into at most one extra poll.
+   */
+  private wake(): void {
+    if (!this.isPolling) {
+      return;
+    }
+    if (this.activePoll) {
+      this.wakeRequested = true;
+      return;
+    }
+
+    this.activePoll = this.pollOnce().finally(() => {
+      this.activePoll = null;
+      if (this.wakeRequested) {
+        this.wakeRequested = false;
+        this.wake();
+      }
+    });
+  }
+
+  /**
+   * Execute a claimed agent asynchronously, holding its slot and lease until
+   * it finishes
+   */
+  private startAgent(agent: QueuedAgent): void {
+    this.runningAgents.set(agent.agentId, {
+      agentId: agent.agentId,
+      rootId: agent.rootId,
+      workflowId: agent.workflowId,
+    });
+
+    this.workerLogger.info(
+      {
+        agentId: agent.agentId,
+        priority: agent.priority,
+        rootId: agent.rootId,
+        workflowId: agent.workflowId,
+        waitMs: Date.now() - agent.queuedAt.getTime(),
+      },
+      'Starting agent execution'
+    );
+
+    this.agentService
+      .runAgent(agent.agentId, `worker:${this.leases.workerId}`)
+      .then(result => {
+        this.workerLogger.info(
+          { agentId: agent.agentId, outcome: result.outcome },
+          'Agent execution completed'
+        );
+      })
+      .catch((error: unknown) => {
+        this.workerLogger.error(
+          { agentId: agent.agentId, error },
+          'Agent execution failed'
+        );
+      })
+      .finally(() => {
+        this.runningAgents.delete(agent.agentId);
+        this.wake();
+        this.leases.release('agent', agent.agentId).catch((error: unknown) => {
+          this.workerLogger.warn(
+            { agentId: agent.agentId, error },
+            'Failed to release agent lease'
+          );
+        });
+      });
+  }
+
   /**
    * Get current worker status
+   * Queue figures are as of the last poll.
    */
   getStatus(): {
     isRunning: boolean;
+    workerId: string;
     runningAgentCount: number;
     pollIntervalMs: number;
+    limits: SchedulerLimits;
+    queue: QueueStats;
   } {
     return {
       isRunning: this.isPolling,
+      workerId: this.leases.workerId,
       runningAgentCount: this.runningAgents.size,
       pollIntervalMs: this.pollIntervalMs,
+      limits: this.scheduler.limits,
+      queue: this.scheduler.stats(this.queue),
     };
   }
 }
@@ -0,0 +1,231 @@
+import { config } from '../config/env.js';
+import type { QueuedAgent } from '../database/repositories/AgentRepository.js';
+import type { AgentPriorityType } from '../models/Agent.js';
+
+/**
+ * Concurrency limits of the scheduler
+ */
+export interface SchedulerLimits {
+  /** Agents running at once */
+  maxConcurrent: number;
+  /** Agents of one root agent's hierarchy running at once (0 = no limit) */
+  maxPerTree: number;
+  /** Agents of one workflow running at once (0 = no limit) */
+  maxPerWorkflow: number;
+}
+
+/**
+ * A running agent, as counted against the limits
+ */
+export type ScheduledAgent = Pick<QueuedAgent, 'agentId' | 'rootId' | 'workflowId'>;
+
+/**
+ * Queue depth and wait times
+ */
+export interface QueueStats {
+  /** Pending agents */
+  depth: number;
+  depthByPriority: Record<AgentPriorityType, number>;
+  /** Wait of the longest-waiting pending agent (ms) */
+  oldestWaitMs: number;
+  /** Average wait of the pending agents (ms) */
+  averageWaitMs: number;
+  /** Agents started by this scheduler */
+  started: number;
+  /** Average time started agents spent in the queue (ms) */
+  averageStartWaitMs: number;
+}
+
+/** Priority classes, highest first */
+const PRIORITY_ORDER: readonly AgentPriorityType[] = ['high', 'normal', 'low'];
+
+/**
+ * AgentScheduler - Decides which pending agents start next
+ *
+ * Higher priority classes always go first. Within a class, hierarchies
+ * (root agents) take turns: the tree served least recently starts its
+ * longest-waiting agent, so one large tree cannot starve the others.
+ * An agent is passed over while its tree or workflow is at its limit;
+ * agents behind it (including lower classes) may start instead.
+ *
+ * Usage:
+ * ```typescript
+ * const scheduler = new AgentScheduler({ maxConcurrent: 10 });
+ * const selected = scheduler.select(await agentRepo.findQueued(), running);
+ * scheduler.markStarted(selected.filter((agent) => claimed.has(agent.agentId)));
+ * ```
+ */
+export class AgentScheduler {
+  readonly limits: SchedulerLimits;
+  private lastServed = new Map<string, number>();
+  private turn = 0;
+  private started = 0;
+  private startWaitTotalMs = 0;
+
+  /**
+   * @param limits - Concurrency limits (defaults from MAX_CONCURRENT_AGENTS, MAX_AGENTS_PER_*)
+   */
+  constructor(limits: Partial<SchedulerLimits> = {}) {
+    this.limits = {
+      maxConcurrent: Math.max(1, limits.maxConcurrent ?? config.scheduler.maxConcurrent),
+      maxPerTree: Math.max(0, limits.maxPerTree ?? config.scheduler.maxPerTree),
+      maxPerWorkflow: Math.max(0, limits.maxPerWorkflow ?? config.scheduler.maxPerWorkflow),
+    };
+  }
+
+  /**
+   * Pick the agents to start now
+   * Nothing is recorded: trees only use up their turn, and agents only count
+   * as started, once markStarted() is called for the agents actually started.
+   *
+   * @param queue - Pending agents (not already running)
+   * @param running - Agents currently running
+   * @returns Agents to start, in start order
+   */
+  select(queue: QueuedAgent[], running: ScheduledAgent[]): QueuedAgent[] {
+    const perTree = new Map<string, number>();
+    const perWorkflow = new Map<string, number>();
+    for (const agent of running) {
+      this.count(perTree, perWorkflow, agent);
+    }
+    this.forgetIdleTrees(queue, running);
+
+    // Waiting agents per class and tree, oldest first
+    const waiting = new Map<AgentPriorityType, Map<string, QueuedAgent[]>>(
+      PRIORITY_ORDER.map((priority) => [priority, new Map()])
+    );
+    for (const agent of [...queue].sort((a, b) => a.queuedAt.getTime() - b.queuedAt.getTime())) {
+      const trees = waiting.get(agent.priority)!;
+      trees.set(agent.rootId, [...(trees.get(agent.rootId) ?? []), agent]);
+    }
+
+    const selected: QueuedAgent[] = [];
+    const served = new Map(this.lastServed);
+    let turn = this.turn;
+    let slots = this.limits.maxConcurrent - running.length;
+
+    while (slots > 0) {
+      const next = this.pickNext(waiting, served, perTree, perWorkflow);
+      if (!next) {
+        break;
+      }
+
+      const trees = waiting.get(next.priority)!;
+      trees.set(
+        next.rootId,
+        trees.get(next.rootId)!.filter((agent) => agent !== next)
+      );
+      this.count(perTree, perWorkflow, next);
+      served.set(next.rootId, ++turn);
+      selected.push(next);
+      slots--;
+    }
+
+    return selected;
+  }
+
+  /**
+   * Record that selected agents were started: their trees used up their
+   * turn and their wait counts towards the statistics
+   *
+   * @param agents - Started agents, in start order
+   * @param now - Current time (for wait statistics)
+   */
+  markStarted(agents: QueuedAgent[], now: number = Date.now()): void {
+    for (const agent of agents) {
+      this.lastServed.set(agent.rootId, ++this.turn);
+      this.started++;
+      this.startWaitTotalMs += Math.max(0, now - agent.queuedAt.getTime());
+    }
+  }
+
+  /**
+   * Queue depth and wait times
+   *
+   * @param queue - Pending agents
+   * @param now - Current time
+   */
+  stats(queue: QueuedAgent[], now: number = Date.now()): QueueStats {
+    const waits = queue.map((agent) => Math.max(0, now - agent.queuedAt.getTime()));
+    const depthByPriority = Object.fromEntries(
+      PRIORITY_ORDER.map((priority) => [
+        priority,
+        queue.filter((agent) => agent.priority === priority).length,
+      ])
+    ) as Record<AgentPriorityType, number>;
+
+    return {
+      depth: queue.length,
+      depthByPriority,
+      oldestWaitMs: waits.length > 0 ? Math.max(...waits) : 0,
+      averageWaitMs:
+        waits.length > 0
+          ? Math.round(waits.reduce((sum, wait) => sum + wait, 0) / waits.length)
+          : 0,
+      started: this.started,
+      averageStartWaitMs: this.started > 0 ? Math.round(this.startWaitTotalMs / this.started) : 0,
+    };
+  }
+
+  /**
+   * Next agent to start: highest class first, then the least recently
+   * served tree with an agent whose tree and workflow have room
+   */
+  private pickNext(
+    waiting: Map<AgentPriorityType, Map<string, QueuedAgent[]>>,
+    served: Map<string, number>,
+    perTree: Map<string, number>,
+    perWorkflow: Map<string, number>
+  ): QueuedAgent | null {
+    for (const priority of PRIORITY_ORDER) {
+      const trees = [...waiting.get(priority)!.entries()]
+        .filter(([rootId, agents]) => agents.length > 0 && this.hasRoom(perTree, rootId, 'tree'))
+        .sort(
+          ([rootA, agentsA], [rootB, agentsB]) =>
+            (served.get(rootA) ?? 0) - (served.get(rootB) ?? 0) ||
+            agentsA[0].queuedAt.getTime() - agentsB[0].queuedAt.getTime()
+        );
+
+      for (const [, agents] of trees) {
+        const agent = agents.find(
+          (candidate) =>
+            candidate.workflowId === null ||
+            this.hasRoom(perWorkflow, candidate.workflowId, 'workflow')
+        );
+        if (agent) {
+          return agent;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private hasRoom(counts: Map<string, number>, key: string, scope: 'tree' | 'workflow'): boolean {
+    const limit = scope === 'tree' ? this.limits.maxPerTree : this.limits.maxPerWorkflow;
+    return limit === 0 || (counts.get(key) ?? 0) < limit;
+  }
+
+  private count(
+    perTree: Map<string, number>,
+    perWorkflow: Map<string, number>,
+    agent: ScheduledAgent
+  ): void {
+    perTree.set(agent.rootId, (perTree.get(agent.rootId) ?? 0) + 1);
+    if (agent.workflowId) {
+      perWorkflow.set(agent.workflowId, (perWorkflow.get(agent.workflowId) ?? 0) + 1);
+    }
+  }
+
+  /**
+   * Drop the turn of trees with nothing queued or running
+   */
+  private forgetIdleTrees(queue: QueuedAgent[], running: ScheduledAgent[]): void {
+    const active = new Set([...queue, ...running].map((agent) => agent.rootId));
+    for (const rootId of this.lastServed.keys()) {
+      if (!active.has(rootId)) {
+        this.lastServed.delete(rootId);
+      }
+    }
+  }
+}
@@ -1,13 +1,44 @@
 import { v4 as uuidv4 } from 'uuid';
 import { db } from '../infrastructure/SharedDatabase.js';
+import { eventBus } from '../infrastructure/EventBus.js';
 import { logger } from '../utils/Logger.js';
 import { GitWorktree } from '../infrastructure/GitWorktree.js';
 import { WorkspaceRepository } from '../database/repositories/WorkspaceRepository.js';
-import { LinearSyncService } from '../integrations/LinearSyncService.js';
-import type { Agent, AgentStatusType } from '../models/Agent.js';
+import { ConversationRepository } from '../database/repositories/ConversationRepository.js';
+import { AgentResultRepository } from '../database/repositories/AgentResultRepository.js';
+import { ControlCommandRepository } from '../database/repositories/ControlCommandRepository.js';
+import { RoleService } from './RoleService.js';
+import { BudgetService } from './BudgetService.js';
+import {
+  AgentStateMachine,
+  InvalidAgentTransitionError,
+  type AgentTransitionOptions,
+} from './AgentStateMachine.js';
+import { AgentExecutor, type AgentResult } from '../execution/AgentExecutor.js';
+import {
+  AgentPriority,
+  TERMINAL_AGENT_STATUSES,
+  type Agent,
+  type AgentPriorityType,
+  type AgentStatusType,
+} from '../models/Agent.js';
+import type { AgentResultRecord, CreateAgentResult } from '../models/AgentResult.js';
 import type { Budget } from '../models/Budget.js';
 import type { Message } from '../models/Message.js';
 
+/**
+ * Outcome of terminating an agent and its descendants
+ */
+export interface AgentTermination {
+  /** Agents moved to 'terminated', descendants first */
+  terminated: string[];
+  /** Unused tokens returned to the parents of the terminated agents */
+  reclaimedTokens: number;
+}
+
+/** Statuses of agents that can still run */
+const LIVE_AGENT_STATUSES: readonly AgentStatusType[] = ['pending', 'executing', 'paused'];
+
 /**
  * Agent Service
  * Handles agent lifecycle management, communication, and status tracking
@@ -15,27 +46,48 @@ import type { Message } from '../models/Message.js';
 export class AgentService {
   private gitWorktree: GitWorktree;
   private workspaceRepo: WorkspaceRepository;
+  private conversationRepo: ConversationRepository;
+  private resultRepo: AgentResultRepository;
+  private commandRepo: ControlCommandRepository;
+  private roleService: RoleService;
+  private budgetService: BudgetService;
+  private stateMachine: AgentStateMachine;
+  private executor?: AgentExecutor;
 
-  constructor() {
+  /**
+   * @param roleService - Role registry used for spawn-time validation
+   */
+  constructor(roleService?: RoleService) {
     this.gitWorktree = new GitWorktree();
     this.workspaceRepo = new WorkspaceRepository();
+    this.conversationRepo = new ConversationRepository();
+    this.resultRepo = new AgentResultRepository();
+    this.commandRepo = new ControlCommandRepository();
+    this.roleService = roleService || new RoleService();
+    this.budgetService = new BudgetService();
+    this.stateMachine = new AgentStateMachine();
   }
 
   /**
    * Spawn a new agent with the given role and task
    *
-   * @param role - The role/type of the agent (e.g., 'assistant', 'researcher', 'coder')
+   * @param role - Registered role name (e.g., 'assistant', 'researcher', 'coder')
    * @param taskDescription - Description of the task the agent should perform
-   * @param tokenLimit - Maximum tokens this agent can use (default: 100000)
+   * @param requestedTokenLimit - Maximum tokens this agent can use (default: the role's default budget)
    * @param parentId - Optional parent agent ID for hierarchical relationships
    * @returns The ID of the newly created agent
+   * @throws Error if the role is unknown (strict validation), disabled, or budget is invalid
    */
   async spawnAgent(
     role: string,
     taskDescription: string,
-    tokenLimit: number = 100000,
+    requestedTokenLimit?: number,
     parentId?: string
   ): Promise<string> {
+    // Validate role against the registry
+    const roleDefinition = await this.roleService.validateForSpawn(role);
+    const tokenLimit = requestedTokenLimit ?? roleDefinition?.default_budget ?? 100000;
+
     // Validate token limit
     if (tokenLimit <= 0) {
       throw new Error('Token limit must be greater than 0');
@@ -45,16 +97,19 @@ export class AgentService {
     const now = new Date();
 
     try {
-      await db.transaction(async (client) => {
+      const depthLevel = await db.transaction(async (client) => {
         // Determine depth level and validate parent budget if spawning child
         let depthLevel = 0;
+        let priority: AgentPriorityType = 'normal';
         if (parentId) {
-          const parentResult = await client.query<Agent>(
-            'SELECT depth_level FROM agents WHERE id = $1',
+          const parentResult = await client.query<Agent & { priority: AgentPriorityType }>(
+            'SELECT depth_level, priority FROM agents WHERE id = $1',
             [parentId]
           );
           if (parentResult.rows.length > 0) {
             depthLevel = parentResult.rows[0].depth_level + 1;
+            // Children are scheduled in their parent's priority class
+            priority = parentResult.rows[0].priority;
           }
 
           // Validate parent has sufficient budget before spawning child
@@ -92,9 +147,9 @@ export class AgentService {
 
         // Create agent
         await client.query(
-          `INSERT INTO agents (id, role, status, depth_level, parent_id, task_description, created_at, updated_at, completed_at)
-           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
-          [agentId, role, 'pending', depthLevel, parentId || null, taskDescription, now, now, null]
+          `INSERT INTO agents (id, role, status, depth_level, parent_id, task_description, priority, created_at, updated_at, completed_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+          [agentId, role, 'pending', depthLevel, parentId || null, taskDescription, priority, now, now, null]
         );
 
         // Create budget
@@ -106,6 +161,14 @@ export class AgentService {
         );
 
         logger.info({ agentId, role, parentId, depthLevel }, 'Agent spawned successfully');
+        return depthLevel;
+      });
+      eventBus.emit('agent.spawned', {
+        agentId,
+        role,
+        parentId: parentId || null,
+        depthLevel,
+        tokenLimit,
       });
 
       // Create isolated workspace for agent (outside transaction)
@@ -166,58 +229,352 @@ export class AgentService {
   }
 
   /**
-   * Update agent status
+   * Update agent status through the state machine
+   * Unknown agents are ignored; setting the current status again is a no-op.
+   * Subscribers of 'agent.status_changed' (e.g. Linear sync) react to the change.
    *
    * @param agentId - The ID of the agent
    * @param status - The new status
-   * @param result - Optional result data (for completed agents)
+   * @param _result - Unused; results are stored by AgentExecutor (agent_results)
    * @param errorMessage - Optional error message (for failed agents)
+   * @param change - Actor and reason recorded with the transition (default actor 'system',
+   *   reason errorMessage)
+   * @throws InvalidAgentTransitionError if the agent may not move to the status
    */
   async updateAgentStatus(
     agentId: string,
     status: AgentStatusType,
-    result?: string,
-    errorMessage?: string
+    _result?: string,
+    errorMessage?: string,
+    change: Partial<AgentTransitionOptions> = {}
   ): Promise<void> {
     try {
-      const now = new Date();
-      const completedAt = status === 'completed' || status === 'failed' || status === 'terminated' ? now : null;
+      const agentResult = await db.query('SELECT 1 FROM agents WHERE id = $1', [agentId]);
+      if (agentResult.rows.length === 0) {
+        logger.warn({ agentId, status }, 'Status update for unknown agent ignored');
+        return;
+      }
 
-      // Get agent info for duration calculation
-      const agentResult = await db.query<{ created_at: Date; tokens_used: number }>(
-        'SELECT created_at, tokens_used FROM agents WHERE id = $1',
-        [agentId]
+      const transition = await this.stateMachine.transition(agentId, status, {
+        actor: change.actor ?? 'system',
+        reason: change.reason ?? errorMessage ?? null,
+        from: change.from,
+      });
+      if (!transition) {
+        return;
+      }
+
+      logger.info({ agentId, status }, 'Agent status updated');
+    } catch (error) {
+      logger.error({ error, agentId, status }, 'Failed to update agent status');
+      throw error;
+    }
+  }
+
+  /**
+   * Run a pending agent to completion with the Claude Agent SDK
+   *
+   * Claims the agent (pending -> executing), executes it with AgentExecutor,
+   * which records the result, and sets the final status from the outcome.
+   *
+   * @param agentId - The ID of the agent
+   * @param actor - Who runs the agent (recorded with its status changes)
+   * @returns The execution result
+   * @throws InvalidAgentTransitionError if the agent is not pending (e.g. already claimed)
+   */
+  async runAgent(agentId: string, actor = 'executor'): Promise<AgentResult> {
+    await this.stateMachine.transition(agentId, 'executing', {
+      actor,
+      reason: 'Execution started',
+      from: ['pending'],
+    });
+
+    this.executor ??= new AgentExecutor();
+    let result: AgentResult;
+    try {
+      result = await this.executor.execute(agentId);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.finishRun(agentId, 'failed', undefined, message, actor);
+      throw error;
+    }
+    await this.finishRun(agentId, result.outcome, result.output, result.error, actor);
+    return result;
+  }
+
+  /**
+   * Set the final status of a run
+   * An agent stopped during the run (e.g. terminated by an operator) keeps its status.
+   */
+  private async finishRun(
+    agentId: string,
+    status: AgentStatusType,
+    result: string | undefined,
+    errorMessage: string | undefined,
+    actor: string
+  ): Promise<void> {
+    try {
+      await this.updateAgentStatus(agentId, status, result, errorMessage, { actor });
+    } catch (error) {
+      if (!(error instanceof InvalidAgentTransitionError)) {
+        throw error;
+      }
+      logger.warn(
+        { agentId, status, currentStatus: error.from },
+        'Agent stopped during its run; final status not applied'
       );
-      const agent = agentResult.rows[0];
-      const durationMs = agent ? now.getTime() - new Date(agent.created_at).getTime() : undefined;
+    }
+  }
+
+  /**
+   * Set the scheduling priority class of an agent
+   *
+   * @param agentId - The ID of the agent
+   * @param priority - Priority class
+   * @throws Error if the agent does not exist
+   */
+  async setAgentPriority(agentId: string, priority: AgentPriorityType): Promise<void> {
+    const updated = await db.query(
+      'UPDATE agents SET priority = $1 WHERE id = $2',
+      [AgentPriority.parse(priority), agentId]
+    );
+    if (updated.rowCount === 0) {
+      throw new Error(`Agent not found: ${agentId}`);
+    }
+    logger.info({ agentId, priority }, 'Agent priority updated');
+  }
+
+  /**
+   * Request a pause; a pending agent is held back right away, a running agent
+   * suspends at its next safe point and moves the pending command to executed
+   * once it has checkpointed
+   *
+   * @param agentId - The ID of the agent
+   * @param reason - Why the agent is paused
+   * @param actor - Who pauses the agent (e.g. 'dashboard', 'workflow')
+   * @throws InvalidAgentTransitionError if the agent has already finished
+   * @throws Error if the agent does not exist
+   */
+  async pauseAgent(agentId: string, reason: string, actor = 'dashboard'): Promise<void> {
+    try {
+      const agent = await this.getAgentStatus(agentId);
+      if (TERMINAL_AGENT_STATUSES.includes(agent.status)) {
+        throw new InvalidAgentTransitionError(agentId, agent.status, 'paused');
+      }
+      if (agent.status === 'pending') {
+        await this.stateMachine
+          .transition(agentId, 'paused', { actor, reason, from: ['pending'] })
+          .catch((error: unknown) => {
+            // Started meanwhile: the execution pauses at its next safe point
+            if (!(error instanceof InvalidAgentTransitionError)) {
+              throw error;
+            }
+          });
+      }
 
       await db.query(
-        'UPDATE agents SET status = $1, updated_at = $2, completed_at = $3 WHERE id = $4',
-        [status, now, completedAt, agentId]
+        `UPDATE agents
+         SET control_state = 'paused', paused_at = NOW(), paused_by = $2, pause_reason = $3
+         WHERE id = $1`,
+        [agentId, actor, reason]
       );
+      await this.commandRepo.create({
+        agent_id: agentId,
+        command_type: 'pause',
+        issued_by: actor,
+        metadata: { reason },
+      });
+      logger.info({ agentId, actor, reason }, 'Agent pause requested');
+    } catch (error) {
+      logger.error({ error, agentId }, 'Failed to pause agent');
+      throw error;
+    }
+  }
 
-      logger.info({ agentId, status }, 'Agent status updated');
+  /**
+   * Request a resume; a pause the agent has not reached yet is cancelled and
+   * an agent held back before it started is queued again
+   *
+   * @param agentId - The ID of the agent
+   * @param actor - Who resumes the agent (e.g. 'dashboard', 'workflow')
+   * @param reason - Why the agent is resumed
+   */
+  async resumeAgent(agentId: string, actor = 'dashboard', reason = 'Manual resume'): Promise<void> {
+    try {
+      await db.query(
+        `UPDATE agents
+         SET control_state = 'running', paused_at = NULL, paused_by = NULL, pause_reason = NULL
+         WHERE id = $1`,
+        [agentId]
+      );
 
-      // Trigger Linear sync on completion (non-blocking)
-      if (status === 'completed' || status === 'failed' || status === 'terminated') {
-        const linearSync = new LinearSyncService();
-        linearSync.handleAgentCompletion({
-          agentId,
-          status: status as 'completed' | 'failed' | 'terminated',
-          result,
-          tokensUsed: agent?.tokens_used,
-          durationMs,
-          errorMessage,
-        }).catch(err => {
-          logger.warn({ err, agentId }, 'Linear sync failed (non-blocking)');
+      if ((await this.stateMachine.getStatusBeforePause(agentId)) === 'pending') {
+        await this.stateMachine.transition(agentId, 'pending', {
+          actor,
+          reason,
+          from: ['paused'],
         });
       }
+
+      const cancelled = await this.commandRepo.cancelPending(
+        agentId,
+        'pause',
+        'Resumed before the agent reached a safe point'
+      );
+      if (cancelled === 0) {
+        await this.commandRepo.create({
+          agent_id: agentId,
+          command_type: 'resume',
+          issued_by: actor,
+          metadata: { reason },
+        });
+      }
+      logger.info({ agentId, actor }, 'Agent resume requested');
     } catch (error) {
-      logger.error({ error, agentId, status }, 'Failed to update agent status');
+      logger.error({ error, agentId }, 'Failed to resume agent');
       throw error;
     }
   }
 
+  /**
+   * Terminate an agent and every live agent it spawned, directly or indirectly
+   *
+   * Descendants are terminated first. A live execution is aborted: AgentExecutor
+   * listens for the status change and checks the control state ('terminated')
+   * at its safe points, which also ends a wait while paused. The unused part
+   * of each terminated agent's budget returns to its parent
+   * (reclaim_child_budget trigger). Agents that have already finished are
+   * left unchanged.
+   *
+   * @param agentId - The ID of the agent
+   * @param reason - Why the agent is terminated (recorded with the transitions)
+   * @param actor - Who terminates the agent (e.g. 'dashboard', 'workflow')
+   * @returns The terminated agents and the tokens returned to their parents
+   * @throws Error if the agent does not exist
+   */
+  async terminateAgent(
+    agentId: string,
+    reason: string,
+    actor = 'system'
+  ): Promise<AgentTermination> {
+    try {
+      const tree = await db.query<{
+        id: string;
+        status: AgentStatusType;
+        parent_id: string | null;
+        unused: number | null;
+      }>(
+        `WITH RECURSIVE tree AS (
+           SELECT id FROM agents WHERE id = $1
+           UNION
+           SELECT a.id FROM agents a INNER JOIN tree t ON a.parent_id = t.id
+         )
+         SELECT a.id, a.status, a.parent_id,
+                CASE WHEN b.reclaimed THEN 0 ELSE b.allocated - b.used END AS unused
+         FROM agents a
+         INNER JOIN tree USING (id)
+         LEFT JOIN budgets b ON b.agent_id = a.id
+         ORDER BY a.depth_level DESC, a.created_at DESC`,
+        [agentId]
+      );
+      if (!tree.rows.some((agent) => agent.id === agentId)) {
+        throw new Error(`Agent not found: ${agentId}`);
+      }
+
+      const termination: AgentTermination = { terminated: [], reclaimedTokens: 0 };
+      for (const agent of tree.rows) {
+        if (
+          !LIVE_AGENT_STATUSES.includes(agent.status) ||
+          !(await this.stopAgent(agent.id, reason, actor))
+        ) {
+          continue;
+        }
+        termination.terminated.push(agent.id);
+        if (agent.parent_id) {
+          termination.reclaimedTokens += Math.max(agent.unused ?? 0, 0);
+        }
+      }
+
+      logger.info(
+        {
+          agentId,
+          actor,
+          reason,
+          terminated: termination.terminated.length,
+          reclaimedTokens: termination.reclaimedTokens,
+        },
+        'Agent terminated'
+      );
+      return termination;
+    } catch (error) {
+      logger.error({ error, agentId }, 'Failed to terminate agent');
+      throw error;
+    }
+  }
+
+  /**
+   * Terminate a single live agent and record the command
+   *
+   * @returns False if the agent finished in the meantime
+   */
+  private async stopAgent(agentId: string, reason: string, actor: string): Promise<boolean> {
+    try {
+      await this.stateMachine.transition(agentId, 'terminated', {
+        actor,
+        reason,
+        from: LIVE_AGENT_STATUSES,
+      });
+    } catch (error) {
+      if (!(error instanceof InvalidAgentTransitionError)) {
+        throw error;
+      }
+      return false;
+    }
+
+    await db.query(`UPDATE agents SET control_state = 'terminated' WHERE id = $1`, [agentId]);
+    await this.commandRepo.cancelPending(agentId, 'pause', 'Agent terminated');
+    await this.commandRepo.create({
+      agent_id: agentId,
+      command_type: 'terminate',
+      issued_by: actor,
+      metadata: { reason },
+    });
+    // Carried out above: settle it (and any earlier terminate request) at once
+    const claimed = await this.commandRepo.claimPending(agentId, 'terminate');
+    await this.commandRepo.markExecuted(claimed.map((command) => command.id));
+    return true;
+  }
+
+  /**
+   * Record the result of an agent execution
+   *
+   * @param data - Outcome, output, structured payload and usage
+   * @returns The stored result
+   */
+  async recordResult(data: CreateAgentResult): Promise<AgentResultRecord> {
+    return this.resultRepo.create(data);
+  }
+
+  /**
+   * Get an agent's result (from its most recent execution)
+   *
+   * @param agentId - The ID of the agent
+   * @returns The latest result, or null if the agent has not finished an execution
+   */
+  async getAgentResult(agentId: string): Promise<AgentResultRecord | null> {
+    return this.resultRepo.findLatestByAgentId(agentId);
+  }
+
+  /**
+   * Get the results of all of an agent's executions, oldest first
+   *
+   * @param agentId - The ID of the agent
+   * @returns Results
+   */
+  async getAgentResults(agentId: string): Promise<AgentResultRecord[]> {
+    return this.resultRepo.findByAgentId(agentId);
+  }
+
   /**
    * Store a message for an agent
    *
@@ -234,17 +591,15 @@ export class AgentService {
     metadata?: Record<string, unknown>
   ): Promise<string> {
     try {
-      const messageId = uuidv4();
-      const now = new Date();
-
-      await db.query(
-        `INSERT INTO messages (id, agent_id, role, content, metadata, created_at)
-         VALUES ($1, $2, $3, $4, $5, $6)`,
-        [messageId, agentId, role, content, JSON.stringify(metadata || null), now]
-      );
+      const message = await this.conversationRepo.append({
+        agent_id: agentId,
+        role,
+        content,
+        metadata: metadata ?? null,
+      });
 
-      logger.debug({ messageId, agentId, role }, 'Message stored');
-      return messageId;
+      logger.debug({ messageId: message.id, agentId, role }, 'Message stored');
+      return message.id;
     } catch (error) {
       logger.error({ error, agentId }, 'Failed to store message');
       throw error;
@@ -255,17 +610,12 @@ export class AgentService {
    * Get all messages for an agent
    *
    * @param agentId - The ID of the agent
-   * @param limit - Maximum number of messages to return (default: 100)
-   * @returns Array of messages
+   * @param limit - Maximum number of most recent messages to return (default: 100)
+   * @returns Array of messages, oldest first
    */
   async getMessages(agentId: string, limit: number = 100): Promise<Message[]> {
     try {
-      const result = await db.query<Message>(
-        'SELECT * FROM messages WHERE agent_id = $1 ORDER BY created_at ASC LIMIT $2',
-        [agentId, limit]
-      );
-
-      return result.rows;
+      return await this.conversationRepo.findByAgentId(agentId, limit);
     } catch (error) {
       logger.error({ error, agentId }, 'Failed to get messages');
       throw error;
@@ -312,15 +662,19 @@ export class AgentService {
       const cost = tokensUsed * costPerToken;
       const now = new Date();
 
-      await db.query(
+      const result = await db.query<Budget>(
         `UPDATE budgets
          SET used = used + $1,
              updated_at = $2
-         WHERE agent_id = $3`,
+         WHERE agent_id = $3
+         RETURNING *`,
         [tokensUsed, now, agentId]
       );
 
       logger.debug({ agentId, tokensUsed, cost }, 'Token usage updated');
+      if (result.rows[0]) {
+        this.budgetService.checkThresholds(result.rows[0], tokensUsed);
+      }
     } catch (error) {
       logger.error({ error, agentId }, 'Failed to update token usage');
       throw error;
@@ -0,0 +1,203 @@
+import { db } from '../infrastructure/SharedDatabase.js';
+import { eventBus, type EventBus } from '../infrastructure/EventBus.js';
+import { AgentStatusTransitionRepository } from '../database/repositories/AgentStatusTransitionRepository.js';
+import {
+  AGENT_STATUS_TRANSITIONS,
+  TERMINAL_AGENT_STATUSES,
+  type AgentStatusType,
+} from '../models/Agent.js';
+import {
+  AgentStatusTransitionSchema,
+  type AgentStatusTransition,
+} from '../models/AgentStatusTransition.js';
+import { logger } from '../utils/Logger.js';
+
+/**
+ * Who changes the status and why
+ */
+export interface AgentTransitionOptions {
+  /** Component or user making the change (e.g. 'dashboard', 'worker:<id>') */
+  actor: string;
+  reason?: string | null;
+  /** Only change the status if the agent is currently in one of these */
+  from?: readonly AgentStatusType[];
+}
+
+/**
+ * Services used by AgentStateMachine
+ */
+export interface AgentStateMachineDependencies {
+  transitionRepo?: AgentStatusTransitionRepository;
+  events?: EventBus;
+}
+
+/**
+ * Thrown when a status change is not allowed from the agent's current status
+ */
+export class InvalidAgentTransitionError extends Error {
+  constructor(
+    readonly agentId: string,
+    readonly from: AgentStatusType,
+    readonly to: AgentStatusType,
+    message?: string
+  ) {
+    super(
+      message ??
+        `Invalid state transition for agent ${agentId}: ${from} → ${to}. ` +
+          `Valid transitions: ${AGENT_STATUS_TRANSITIONS[from].join(', ') || 'none'}`
+    );
+    this.name = 'InvalidAgentTransitionError';
+  }
+}
+
+/**
+ * Whether an agent may move from one status to another
+ *
+ * @param from - Current status
+ * @param to - Requested status
+ */
+export function canTransition(from: AgentStatusType, to: AgentStatusType): boolean {
+  return AGENT_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * AgentStateMachine
+ * The single writer of agents.status.
+ *
+ * Each change locks the agent row, checks the move against
+ * AGENT_STATUS_TRANSITIONS, updates the status (setting completed_at on
+ * terminal statuses) and appends an agent_status_transitions row with the
+ * actor and reason, all in one transaction. Concurrent writers therefore
+ * see each other's changes: a claim with `from: ['pending']` fails once
+ * another worker has started the agent. Committed changes are published
+ * as 'agent.status_changed' events.
+ */
+export class AgentStateMachine {
+  private transitionRepo: AgentStatusTransitionRepository;
+  private events: EventBus;
+  private machineLogger = logger.child({ component: 'AgentStateMachine' });
+
+  /**
+   * @param deps - Repositories (created on demand when omitted)
+   */
+  constructor(deps: AgentStateMachineDependencies = {}) {
+    this.transitionRepo = deps.transitionRepo || new AgentStatusTransitionRepository();
+    this.events = deps.events || eventBus;
+  }
+
+  /**
+   * Move an agent to a new status
+   * Requesting the status the agent already has changes nothing.
+   *
+   * @param agentId - Agent UUID
+   * @param to - New status
+   * @param options - Actor, reason and expected current statuses
+   * @returns The recorded transition, or null if the agent already had the status
+   * @throws InvalidAgentTransitionError if the move is not allowed
+   * @throws Error if the agent does not exist
+   */
+  async transition(
+    agentId: string,
+    to: AgentStatusType,
+    options: AgentTransitionOptions
+  ): Promise<AgentStatusTransition | null> {
+    try {
+      const transition = await db.transaction(async (client) => {
+        const current = await client.query<{ status: AgentStatusType }>(
+          'SELECT status FROM agents WHERE id = $1 FOR UPDATE',
+          [agentId]
+        );
+        if (current.rows.length === 0) {
+          throw new Error(`Agent not found: ${agentId}`);
+        }
+
+        const from = current.rows[0].status;
+        if (options.from && !options.from.includes(from)) {
+          throw new InvalidAgentTransitionError(
+            agentId,
+            from,
+            to,
+            `Agent ${agentId} is ${from}, not ${options.from.join(' or ')}`
+          );
+        }
+        if (from === to) {
+          return null;
+        }
+        if (!canTransition(from, to)) {
+          throw new InvalidAgentTransitionError(agentId, from, to);
+        }
+
+        await client.query(
+          `UPDATE agents
+           SET status = $2,
+               updated_at = NOW(),
+               completed_at = CASE WHEN $3 THEN COALESCE(completed_at, NOW()) ELSE NULL END
+           WHERE id = $1`,
+          [agentId, to, TERMINAL_AGENT_STATUSES.includes(to)]
+        );
+        const recorded = await client.query<AgentStatusTransition>(
+          `INSERT INTO agent_status_transitions (agent_id, from_status, to_status, actor, reason)
+           VALUES ($1, $2, $3, $4, $5)
+           RETURNING *`,
+          [agentId, from, to, options.actor, options.reason ?? null]
+        );
+        return AgentStatusTransitionSchema.parse({
+          ...recorded.rows[0],
+          created_at: new Date(recorded.rows[0].created_at),
+        });
+      });
+
+      if (transition) {
+        this.machineLogger.info(
+          {
+            agentId,
+            from: transition.from_status,
+            to,
+            actor: options.actor,
+            reason: options.reason,
+          },
+          'Agent status changed'
+        );
+        this.events.emit('agent.status_changed', {
+          agentId,
+          from: transition.from_status,
+          to: transition.to_status,
+          actor: transition.actor,
+          reason: transition.reason,
+        });
+      }
+      return transition;
+    } catch (error) {
+      if (error instanceof InvalidAgentTransitionError) {
+        this.machineLogger.warn(
+          { agentId, from: error.from, to, actor: options.actor },
+          'Agent status change rejected'
+        );
+      } else {
+        this.machineLogger.error({ error, agentId, to }, 'Failed to change agent status');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Status history of an agent, oldest first
+   *
+   * @param agentId - Agent UUID
+   * @returns Recorded transitions
+   */
+  async getHistory(agentId: string): Promise<AgentStatusTransition[]> {
+    return this.transitionRepo.findByAgentId(agentId);
+  }
+
+  /**
+   * Status a paused agent was held in (pending or executing)
+   *
+   * @param agentId - Agent UUID
+   * @returns The status before the latest pause, or null if the agent is not paused
+   */
+  async getStatusBeforePause(agentId: string): Promise<AgentStatusType | null> {
+    const latest = await this.transitionRepo.findLatest(agentId);
+    return latest?.to_status === 'paused' ? latest.from_status : null;
+  }
+}
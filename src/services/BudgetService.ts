@@ -1,5 +1,7 @@
 import { BudgetRepository, Budget } from '../database/repositories/BudgetRepository.js';
 import { db } from '../infrastructure/SharedDatabase.js';
+import { eventBus } from '../infrastructure/EventBus.js';
+import { config } from '../config/env.js';
 import { logger } from '../utils/Logger.js';
 
 /**
@@ -11,6 +13,8 @@ import { logger } from '../utils/Logger.js';
  * - Track token consumption
  * - Validate budget constraints
  * - Provide budget status information
+ * - Report usage crossing the warning threshold or the full allocation
+ *   ('budget.threshold' events)
  */
 export class BudgetService {
   private budgetRepo: BudgetRepository;
@@ -94,6 +98,7 @@ export class BudgetService {
         },
         'Tokens consumed'
       );
+      this.checkThresholds(budget, tokens);
 
       return budget;
     } catch (error) {
@@ -105,6 +110,36 @@ export class BudgetService {
     }
   }
 
+  /**
+   * Emit 'budget.threshold' for each threshold the latest consumption crossed
+   * Thresholds are shares of the allocation: the configured warning share and 1.
+   *
+   * @param budget - Budget after the consumption
+   * @param consumed - Tokens just consumed
+   */
+  checkThresholds(budget: Budget, consumed: number): void {
+    if (budget.allocated <= 0) {
+      return;
+    }
+
+    const previous = budget.used - consumed;
+    for (const threshold of [config.agent.budgetWarningThreshold, 1]) {
+      const limit = budget.allocated * threshold;
+      if (previous < limit && budget.used >= limit) {
+        this.serviceLogger.warn(
+          { agent_id: budget.agent_id, threshold, used: budget.used, allocated: budget.allocated },
+          'Budget threshold reached'
+        );
+        eventBus.emit('budget.threshold', {
+          agentId: budget.agent_id,
+          threshold,
+          used: budget.used,
+          allocated: budget.allocated,
+        });
+      }
+    }
+  }
+
   /**
    * Get remaining available budget for an agent
    * Returns the number of tokens available (allocated - used - reserved)
@@ -0,0 +1,286 @@
+import { AgentRepository } from '../database/repositories/AgentRepository.js';
+import { AgentResultRepository } from '../database/repositories/AgentResultRepository.js';
+import { CheckpointRepository } from '../database/repositories/CheckpointRepository.js';
+import { WorkspaceRepository } from '../database/repositories/WorkspaceRepository.js';
+import {
+  CheckpointStateSchema,
+  compareCheckpoints,
+  createAutoCheckpoint,
+  type Checkpoint,
+  type CheckpointState,
+} from '../models/Checkpoint.js';
+import { resolveWorkspaceConfig } from '../models/Workspace.js';
+import { BudgetService } from './BudgetService.js';
+import { logger } from '../utils/Logger.js';
+
+/**
+ * Services used by CheckpointService
+ */
+export interface CheckpointServiceDependencies {
+  checkpointRepo?: CheckpointRepository;
+  agentRepo?: AgentRepository;
+  resultRepo?: AgentResultRepository;
+  workspaceRepo?: WorkspaceRepository;
+  budgetService?: BudgetService;
+}
+
+/**
+ * Differences between two checkpoints of an agent
+ */
+export interface CheckpointDiff {
+  from: Checkpoint;
+  to: Checkpoint;
+  /** Milliseconds between the two checkpoints */
+  timeDiff: number;
+  /** Keys only present in `to` */
+  added: string[];
+  /** Keys only present in `from` */
+  removed: string[];
+  /** Keys present in both with different values */
+  changed: Record<string, { before: unknown; after: unknown }>;
+}
+
+/** Cost estimate for budget snapshots (same default as AgentService.updateTokenUsage) */
+const COST_PER_TOKEN = 0.000003;
+
+/** Subagent statuses that no longer count as pending work */
+const FINISHED_STATUSES = new Set(['completed', 'failed', 'terminated', 'timed_out']);
+
+/**
+ * CheckpointService
+ * Snapshots agent state into the checkpoints table and lets operators list,
+ * diff and restore them.
+ *
+ * A snapshot combines the execution's own state (conversation, tool history,
+ * step) with the agent's budget and the completed and pending subtasks of its
+ * subordinates. Running executions snapshot automatically every
+ * WorkspaceConfig.checkpoint_interval minutes (see AgentControl), and an
+ * execution of an agent that stopped without a result continues from its
+ * latest checkpoint (findResumePoint).
+ *
+ * Restoring copies an older checkpoint's state into a new, latest
+ * checkpoint; a paused agent resumes from it and a restarted one continues
+ * from it.
+ */
+export class CheckpointService {
+  private checkpointRepo: CheckpointRepository;
+  private agentRepo: AgentRepository;
+  private resultRepo: AgentResultRepository;
+  private workspaceRepo: WorkspaceRepository;
+  private budgetService: BudgetService;
+  private serviceLogger = logger.child({ component: 'CheckpointService' });
+
+  /**
+   * @param deps - Repositories and services (created on demand when omitted)
+   */
+  constructor(deps: CheckpointServiceDependencies = {}) {
+    this.checkpointRepo = deps.checkpointRepo || new CheckpointRepository();
+    this.agentRepo = deps.agentRepo || new AgentRepository();
+    this.resultRepo = deps.resultRepo || new AgentResultRepository();
+    this.workspaceRepo = deps.workspaceRepo || new WorkspaceRepository();
+    this.budgetService = deps.budgetService || new BudgetService();
+  }
+
+  /**
+   * Auto-checkpoint interval for an agent
+   * Taken from the nearest workspace config in the agent's lineage.
+   *
+   * @param agentId - Agent UUID
+   * @returns Interval in ms (0 disables automatic checkpoints)
+   */
+  async getIntervalMs(agentId: string): Promise<number> {
+    const workspaceConfig = resolveWorkspaceConfig(
+      await this.workspaceRepo.findConfigForAgent(agentId)
+    );
+    return (workspaceConfig.checkpoint_interval ?? 0) * 60_000;
+  }
+
+  /**
+   * Build the checkpoint state of an agent
+   *
+   * @param agentId - Agent UUID
+   * @param execution - State owned by the running execution (conversation, tool_history, ...)
+   * @returns Validated checkpoint state
+   * @throws Error if the agent does not exist
+   */
+  async captureState(
+    agentId: string,
+    execution: Record<string, unknown> = {}
+  ): Promise<CheckpointState> {
+    const [agent, budget, subordinates] = await Promise.all([
+      this.agentRepo.findById(agentId),
+      this.budgetService.getBudget(agentId),
+      this.agentRepo.findByParentId(agentId),
+    ]);
+
+    return CheckpointStateSchema.parse({
+      status: agent.status,
+      task_description: agent.task_description,
+      depth_level: agent.depth_level,
+      parent_id: agent.parent_id,
+      completed_subtasks: subordinates
+        .filter((subordinate) => subordinate.status === 'completed')
+        .map((subordinate) => subordinate.task_description),
+      pending_subtasks: subordinates
+        .filter((subordinate) => !FINISHED_STATUSES.has(subordinate.status))
+        .map((subordinate) => subordinate.task_description),
+      ...(budget
+        ? {
+            budget_snapshot: {
+              tokens_used: budget.used,
+              token_limit: budget.allocated,
+              estimated_cost: Number((budget.used * COST_PER_TOKEN).toFixed(6)),
+            },
+          }
+        : {}),
+      ...execution,
+    });
+  }
+
+  /**
+   * Snapshot an agent under a label
+   *
+   * @param agentId - Agent UUID
+   * @param execution - State owned by the running execution
+   * @param label - Human-readable label
+   * @returns Created checkpoint
+   */
+  async createCheckpoint(
+    agentId: string,
+    execution: Record<string, unknown> = {},
+    label: string | null = null
+  ): Promise<Checkpoint> {
+    const state = await this.captureState(agentId, execution);
+    return this.checkpointRepo.create({ agent_id: agentId, state_data: state, label });
+  }
+
+  /**
+   * Snapshot an agent as an auto-checkpoint (label auto-checkpoint-<timestamp>)
+   *
+   * @param agentId - Agent UUID
+   * @param execution - State owned by the running execution
+   * @returns Created checkpoint
+   */
+  async autoCheckpoint(
+    agentId: string,
+    execution: Record<string, unknown> = {}
+  ): Promise<Checkpoint> {
+    const state = await this.captureState(agentId, execution);
+    return this.checkpointRepo.create(createAutoCheckpoint(agentId, state));
+  }
+
+  /**
+   * List an agent's checkpoints, newest first
+   *
+   * @param agentId - Agent UUID
+   * @param limit - Maximum number of checkpoints
+   */
+  async listCheckpoints(agentId: string, limit = 50): Promise<Checkpoint[]> {
+    return this.checkpointRepo.findByAgentId(agentId, limit);
+  }
+
+  /**
+   * Get a checkpoint by ID
+   *
+   * @returns Checkpoint, or null if not found
+   */
+  async getCheckpoint(checkpointId: string): Promise<Checkpoint | null> {
+    return this.checkpointRepo.findById(checkpointId);
+  }
+
+  /**
+   * Compare two checkpoints of the same agent
+   *
+   * @param fromId - Older checkpoint
+   * @param toId - Newer checkpoint
+   * @returns Added, removed and changed state keys
+   * @throws Error if a checkpoint does not exist or they belong to different agents
+   */
+  async diffCheckpoints(fromId: string, toId: string): Promise<CheckpointDiff> {
+    const [from, to] = await Promise.all([
+      this.requireCheckpoint(fromId),
+      this.requireCheckpoint(toId),
+    ]);
+
+    if (from.agent_id !== to.agent_id) {
+      throw new Error('Cannot diff checkpoints of different agents');
+    }
+
+    const comparison = compareCheckpoints(from, to);
+    const changed: CheckpointDiff['changed'] = {};
+    for (const key of comparison.changedKeys) {
+      if (key in to.state_data) {
+        changed[key] = { before: from.state_data[key], after: to.state_data[key] };
+      }
+    }
+
+    return {
+      from,
+      to,
+      timeDiff: comparison.timeDiff,
+      added: Object.keys(to.state_data).filter((key) => !(key in from.state_data)),
+      removed: Object.keys(from.state_data).filter((key) => !(key in to.state_data)),
+      changed,
+    };
+  }
+
+  /**
+   * Roll an agent back to a checkpoint
+   * The state is copied into a new checkpoint, which becomes the agent's latest.
+   *
+   * @param checkpointId - Checkpoint to restore
+   * @param restoredBy - Who requested the rollback
+   * @returns The new checkpoint
+   * @throws Error if the checkpoint does not exist
+   */
+  async restoreCheckpoint(checkpointId: string, restoredBy = 'operator'): Promise<Checkpoint> {
+    const checkpoint = await this.requireCheckpoint(checkpointId);
+
+    const restored = await this.checkpointRepo.create({
+      agent_id: checkpoint.agent_id,
+      state_data: checkpoint.state_data,
+      label: `restore-${checkpoint.id}`,
+    });
+
+    this.serviceLogger.info(
+      { agentId: checkpoint.agent_id, checkpointId, restoredId: restored.id, restoredBy },
+      'Checkpoint restored'
+    );
+    return restored;
+  }
+
+  /**
+   * Checkpoint an execution of the agent should continue from
+   * That is the latest checkpoint with a conversation, if it is newer than
+   * the agent's latest result (the previous execution stopped without one,
+   * or an operator restored a checkpoint since).
+   *
+   * @param agentId - Agent UUID
+   * @returns Checkpoint to continue from, or null to start from the task
+   */
+  async findResumePoint(agentId: string): Promise<Checkpoint | null> {
+    const [checkpoint, result] = await Promise.all([
+      this.checkpointRepo.findLatestByAgentId(agentId),
+      this.resultRepo.findLatestByAgentId(agentId),
+    ]);
+
+    if (!checkpoint || !Array.isArray(checkpoint.state_data.conversation)) {
+      return null;
+    }
+    if (result && result.created_at >= checkpoint.created_at) {
+      return null;
+    }
+    return checkpoint;
+  }
+
+  /**
+   * Find a checkpoint or throw
+   */
+  private async requireCheckpoint(checkpointId: string): Promise<Checkpoint> {
+    const checkpoint = await this.checkpointRepo.findById(checkpointId);
+    if (!checkpoint) {
+      throw new Error(`Checkpoint not found: ${checkpointId}`);
+    }
+    return checkpoint;
+  }
+}
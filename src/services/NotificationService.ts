@@ -0,0 +1,147 @@
+import { NotificationRepository } from '../database/repositories/NotificationRepository.js';
+import { eventBus, type EventBus } from '../infrastructure/EventBus.js';
+import type { CreateNotification, NotificationPriorityType } from '../models/Notification.js';
+import { logger } from '../utils/Logger.js';
+
+/**
+ * Services used by NotificationService
+ */
+export interface NotificationServiceDependencies {
+  notificationRepo?: NotificationRepository;
+  events?: EventBus;
+}
+
+/** Notification priority of an approval request's risk level */
+const APPROVAL_PRIORITY: Record<string, NotificationPriorityType> = {
+  low: 'normal',
+  medium: 'normal',
+  high: 'high',
+  critical: 'urgent',
+};
+
+/**
+ * NotificationService
+ * Turns orchestration events into dashboard notifications (notifications table).
+ *
+ * Broadcast notifications are written for failed and timed-out agents,
+ * approval requests, budget thresholds and finished workflows. Only events
+ * emitted in this process are handled, so each is notified once when
+ * several processes share events.
+ */
+export class NotificationService {
+  private notificationRepo: NotificationRepository;
+  private events: EventBus;
+  private notificationLogger = logger.child({ component: 'NotificationService' });
+
+  /**
+   * @param deps - Repository and event bus (defaults when omitted)
+   */
+  constructor(deps: NotificationServiceDependencies = {}) {
+    this.notificationRepo = deps.notificationRepo || new NotificationRepository();
+    this.events = deps.events || eventBus;
+  }
+
+  /**
+   * Start writing notifications for events
+   *
+   * @returns Function removing the subscriptions
+   */
+  subscribe(): () => void {
+    const options = { remote: false };
+    const unsubscribers = [
+      this.events.on(
+        'agent.status_changed',
+        ({ agentId, to, reason }) => {
+          if (to !== 'failed' && to !== 'timed_out') {
+            return;
+          }
+          return this.notify({
+            notification_type: 'agent_failed',
+            title: to === 'failed' ? 'Agent failed' : 'Agent timed out',
+            message:
+              `Agent ${agentId} ${to === 'failed' ? 'failed' : 'timed out'}` +
+              (reason ? `: ${reason}` : ''),
+            data: { agent_id: agentId, status: to },
+            priority: 'high',
+          });
+        },
+        options
+      ),
+      this.events.on(
+        'approval.requested',
+        ({ requestId, requestType, entityType, entityId, riskLevel, summary, expiresAt }) =>
+          this.notify({
+            notification_type: 'approval_required',
+            title: `Approval required: ${requestType}`,
+            message: summary,
+            data: { request_id: requestId, entity_type: entityType, entity_id: entityId },
+            priority: APPROVAL_PRIORITY[riskLevel] ?? 'normal',
+            expires_at: expiresAt ? new Date(expiresAt) : null,
+          }),
+        options
+      ),
+      this.events.on(
+        'budget.threshold',
+        ({ agentId, threshold, used, allocated }) =>
+          this.notify({
+            notification_type: 'budget_warning',
+            title: threshold >= 1 ? 'Budget exhausted' : 'Budget warning',
+            message: `Agent ${agentId} used ${used} of ${allocated} tokens`,
+            data: { agent_id: agentId, threshold, used, allocated },
+            priority: threshold >= 1 ? 'high' : 'normal',
+          }),
+        options
+      ),
+      this.events.on(
+        'workflow.completed',
+        ({ graphId }) =>
+          this.notify({
+            notification_type: 'workflow_completed',
+            title: 'Workflow completed',
+            message: `Workflow ${graphId} completed`,
+            data: { workflow_graph_id: graphId },
+          }),
+        options
+      ),
+      this.events.on(
+        'workflow.failed',
+        ({ graphId, reason }) =>
+          this.notify({
+            notification_type: 'system_alert',
+            title: 'Workflow failed',
+            message: `Workflow ${graphId} failed: ${reason}`,
+            data: { workflow_graph_id: graphId },
+            priority: 'high',
+          }),
+        options
+      ),
+      this.events.on(
+        'workflow.cancelled',
+        ({ graphId, reason }) =>
+          this.notify({
+            notification_type: 'system_alert',
+            title: 'Workflow cancelled',
+            message: `Workflow ${graphId} cancelled: ${reason}`,
+            data: { workflow_graph_id: graphId },
+          }),
+        options
+      ),
+    ];
+
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }
+
+  /**
+   * Write a broadcast notification; failures are logged
+   */
+  private async notify(notification: CreateNotification): Promise<void> {
+    try {
+      await this.notificationRepo.create(notification);
+    } catch (error) {
+      this.notificationLogger.warn(
+        { error, type: notification.notification_type },
+        'Failed to create notification'
+      );
+    }
+  }
+}
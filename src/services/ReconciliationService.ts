@@ -0,0 +1,393 @@
+import { config } from '../config/env.js';
+import { WorkflowEngine } from '../core/WorkflowEngine.js';
+import { AgentRepository } from '../database/repositories/AgentRepository.js';
+import { RecoveryAuditRepository } from '../database/repositories/RecoveryAuditRepository.js';
+import { WorkerLeaseRepository } from '../database/repositories/WorkerLeaseRepository.js';
+import { WorkflowRepository } from '../database/repositories/WorkflowRepository.js';
+import type { Agent } from '../models/Agent.js';
+import type { RecoveryAuditRecord } from '../models/RecoveryAudit.js';
+import type { LeaseResourceTypeType } from '../models/WorkerLease.js';
+import type { WorkflowNode } from '../models/WorkflowNode.js';
+import { AgentService } from './AgentService.js';
+import { AgentStateMachine } from './AgentStateMachine.js';
+import { BudgetService } from './BudgetService.js';
+import { CheckpointService } from './CheckpointService.js';
+import { logger } from '../utils/Logger.js';
+
+/**
+ * What to do with agents a crashed process left executing
+ * - resume: requeue, continuing from the latest checkpoint (or the task if there is none)
+ * - requeue: requeue, starting over from the task
+ * - fail: fail with a reason; unused budget returns to the parent
+ */
+export type RecoveryPolicy = 'resume' | 'requeue' | 'fail';
+
+/**
+ * Services used by ReconciliationService
+ */
+export interface ReconciliationServiceDependencies {
+  agentRepo?: AgentRepository;
+  workflowRepo?: WorkflowRepository;
+  auditRepo?: RecoveryAuditRepository;
+  leaseRepo?: WorkerLeaseRepository;
+  agentService?: AgentService;
+  stateMachine?: AgentStateMachine;
+  budgetService?: BudgetService;
+  checkpointService?: CheckpointService;
+  workflowEngine?: WorkflowEngine;
+}
+
+/**
+ * Outcome of a reconciliation pass
+ */
+export interface ReconciliationReport {
+  policy: RecoveryPolicy;
+  /** One audit record per reconciled agent or node */
+  records: RecoveryAuditRecord[];
+  /** Entities that could not be reconciled (left as they were) */
+  errors: Array<{ entityId: string; error: string }>;
+}
+
+/** Reason recorded for agents and nodes left in flight */
+const INTERRUPTED_REASON = 'Execution interrupted by an orchestrator restart';
+
+/** Node statuses only held while the orchestrator is spawning the node */
+const SPAWNING_NODE_STATUSES = new Set(['ready', 'spawning']);
+
+/**
+ * ReconciliationService
+ * Recovers agents and workflow nodes left in flight by a crashed process.
+ *
+ * Runs once at startup, before the pollers. This process executes nothing at
+ * that point, so every agent still 'executing' (or 'paused' at a safe point of
+ * its execution) without a live worker lease (see WorkerLeaseService) is
+ * orphaned and is handled by the recovery policy (RECOVERY_POLICY). Agents
+ * and workflow graphs leased by other running processes are left to them.
+ * Workflow nodes are orphaned when their spawn was interrupted: they are
+ * 'ready' or 'spawning', 'executing' without an agent (map nodes never have
+ * one), or still 'pending' although all their dependencies completed.
+ * Such nodes are respawned, or failed under the 'fail' policy.
+ *
+ * Every decision is written to recovery_audit. Failing an agent returns its
+ * unused budget to the parent (reclaim_child_budget trigger); the released
+ * amount is part of the audit record.
+ *
+ * WorkerLeaseService applies the same policy to agents whose worker lease
+ * expired while the orchestrator is running.
+ */
+export class ReconciliationService {
+  private agentRepo: AgentRepository;
+  private workflowRepo: WorkflowRepository;
+  private auditRepo: RecoveryAuditRepository;
+  private leaseRepo: WorkerLeaseRepository;
+  private agentService: AgentService;
+  private stateMachine: AgentStateMachine;
+  private budgetService: BudgetService;
+  private checkpointService: CheckpointService;
+  private workflowEngine: WorkflowEngine;
+  private reconcileLogger = logger.child({ component: 'ReconciliationService' });
+
+  /**
+   * @param policy - Recovery policy for orphaned agents (default RECOVERY_POLICY)
+   * @param deps - Repositories and services (created on demand when omitted)
+   */
+  constructor(
+    readonly policy: RecoveryPolicy = config.agent.recoveryPolicy,
+    deps: ReconciliationServiceDependencies = {}
+  ) {
+    this.agentRepo = deps.agentRepo || new AgentRepository();
+    this.workflowRepo = deps.workflowRepo || new WorkflowRepository();
+    this.auditRepo = deps.auditRepo || new RecoveryAuditRepository();
+    this.leaseRepo = deps.leaseRepo || new WorkerLeaseRepository();
+    this.agentService = deps.agentService || new AgentService();
+    this.stateMachine = deps.stateMachine || new AgentStateMachine();
+    this.budgetService = deps.budgetService || new BudgetService();
+    this.checkpointService = deps.checkpointService || new CheckpointService();
+    this.workflowEngine = deps.workflowEngine || new WorkflowEngine();
+  }
+
+  /**
+   * Reconcile all orphaned agents, then all orphaned workflow nodes
+   * A failure to reconcile one entity is reported and does not stop the pass.
+   *
+   * @returns Audit records and errors of this pass
+   */
+  async reconcile(): Promise<ReconciliationReport> {
+    const report: ReconciliationReport = { policy: this.policy, records: [], errors: [] };
+
+    const leasedAgents = await this.findLeased('agent');
+    const orphanedAgents = [
+      ...(await this.agentRepo.findByStatus('executing')),
+      ...(await this.findSuspendedExecutions()),
+    ].filter((agent) => !leasedAgents.has(agent.id));
+    for (const agent of orphanedAgents) {
+      await this.attempt(report, agent.id, () => this.reconcileAgent(agent));
+    }
+
+    const leasedGraphs = await this.findLeased('workflow_graph');
+    const activeGraphs = (await this.workflowRepo.findGraphsByStatus('active')).filter(
+      (graph) => !leasedGraphs.has(graph.id)
+    );
+    for (const graph of activeGraphs) {
+      const nodes = await this.workflowRepo.findNodesByGraphId(graph.id);
+      const orphanedNodes = nodes.filter((node) => this.isOrphanedNode(node, nodes));
+
+      for (const node of orphanedNodes) {
+        await this.attempt(report, node.id, () => this.reconcileNode(node, nodes));
+      }
+      if (this.policy === 'fail' && orphanedNodes.length > 0) {
+        await this.terminateIfStalled(graph.id);
+      }
+    }
+
+    this.reconcileLogger.info(
+      {
+        policy: this.policy,
+        agents: orphanedAgents.length,
+        reconciled: report.records.length,
+        errors: report.errors.length,
+      },
+      'Startup reconciliation finished'
+    );
+    return report;
+  }
+
+  /**
+   * Apply the recovery policy to an agent left executing (or paused mid-execution)
+   *
+   * @param agent - Orphaned agent
+   * @param reason - Why the agent's execution was lost
+   * @returns Audit record of the decision
+   */
+  async reconcileAgent(
+    agent: Agent,
+    reason: string = INTERRUPTED_REASON
+  ): Promise<RecoveryAuditRecord> {
+    if (this.policy === 'fail') {
+      return this.failAgent(agent, reason);
+    }
+
+    const checkpoint =
+      this.policy === 'resume' ? await this.checkpointService.findResumePoint(agent.id) : null;
+
+    if (!checkpoint) {
+      // Record the interrupted execution so the next one starts from the task
+      await this.agentService.recordResult({
+        agent_id: agent.id,
+        outcome: 'failed',
+        finish_reason: 'interrupted',
+        error_message: reason,
+      });
+    }
+    await this.agentService.updateAgentStatus(agent.id, 'pending', undefined, undefined, {
+      actor: 'reconciliation',
+      reason,
+    });
+
+    this.reconcileLogger.warn(
+      { agentId: agent.id, role: agent.role, checkpointId: checkpoint?.id },
+      checkpoint ? 'Orphaned agent resumed from checkpoint' : 'Orphaned agent requeued'
+    );
+
+    return this.auditRepo.create({
+      entity_type: 'agent',
+      entity_id: agent.id,
+      agent_id: agent.id,
+      action: checkpoint ? 'resumed' : 'requeued',
+      previous_status: agent.status,
+      reason: checkpoint
+        ? `${reason}; resuming from checkpoint ${checkpoint.label ?? checkpoint.id}`
+        : `${reason}; restarting from the task`,
+      checkpoint_id: checkpoint?.id ?? null,
+    });
+  }
+
+  /**
+   * Respawn an orphaned workflow node, or fail it under the 'fail' policy
+   *
+   * @param node - Orphaned node
+   * @param allNodes - All nodes of the node's workflow
+   * @returns Audit record of the decision
+   */
+  async reconcileNode(node: WorkflowNode, allNodes: WorkflowNode[]): Promise<RecoveryAuditRecord> {
+    if (this.policy === 'fail') {
+      await this.workflowRepo.updateNode(node.id, {
+        execution_status: 'failed',
+        error_message: INTERRUPTED_REASON,
+        completion_timestamp: new Date(),
+      });
+
+      this.reconcileLogger.warn(
+        { nodeId: node.id, graphId: node.workflow_graph_id },
+        'Orphaned workflow node failed'
+      );
+
+      return this.auditRepo.create({
+        entity_type: 'workflow_node',
+        entity_id: node.id,
+        agent_id: node.agent_id,
+        action: 'failed',
+        previous_status: node.execution_status,
+        reason: INTERRUPTED_REASON,
+      });
+    }
+
+    const parentAgentId = await this.findNodeParent(node, allNodes);
+    const agentId = await this.workflowEngine.spawnNode(node, allNodes, parentAgentId);
+
+    this.reconcileLogger.warn(
+      { nodeId: node.id, graphId: node.workflow_graph_id, agentId },
+      'Orphaned workflow node respawned'
+    );
+
+    return this.auditRepo.create({
+      entity_type: 'workflow_node',
+      entity_id: node.id,
+      agent_id: agentId,
+      action: 'respawned',
+      previous_status: node.execution_status,
+      reason: `${INTERRUPTED_REASON} while spawning the node`,
+    });
+  }
+
+  /**
+   * Fail an orphaned agent and return its unused budget to the parent
+   */
+  private async failAgent(agent: Agent, reason: string): Promise<RecoveryAuditRecord> {
+    const parentBefore = agent.parent_id
+      ? await this.budgetService.getBudget(agent.parent_id)
+      : null;
+
+    await this.agentService.recordResult({
+      agent_id: agent.id,
+      outcome: 'failed',
+      finish_reason: 'interrupted',
+      error_message: reason,
+    });
+    await this.agentService.updateAgentStatus(agent.id, 'failed', undefined, reason, {
+      actor: 'reconciliation',
+    });
+
+    const parentAfter = agent.parent_id
+      ? await this.budgetService.getBudget(agent.parent_id)
+      : null;
+    const releasedTokens =
+      parentBefore && parentAfter ? Math.max(0, parentBefore.reserved - parentAfter.reserved) : 0;
+
+    this.reconcileLogger.warn(
+      { agentId: agent.id, role: agent.role, releasedTokens },
+      'Orphaned agent failed'
+    );
+
+    return this.auditRepo.create({
+      entity_type: 'agent',
+      entity_id: agent.id,
+      agent_id: agent.id,
+      action: 'failed',
+      previous_status: agent.status,
+      reason,
+      released_tokens: releasedTokens,
+    });
+  }
+
+  /**
+   * Whether a node's spawn was interrupted
+   * Pending nodes without dependencies are left alone: the graph may not
+   * have been started yet.
+   */
+  private isOrphanedNode(node: WorkflowNode, allNodes: WorkflowNode[]): boolean {
+    if (node.execution_status === 'ready' && node.metadata?.retry_at) {
+      return false; // Waiting for a retry (WorkflowEngine.spawnDueRetries)
+    }
+    if (SPAWNING_NODE_STATUSES.has(node.execution_status)) {
+      return true;
+    }
+    if (node.execution_status === 'executing') {
+      return !node.agent_id && !node.metadata?.map; // Map nodes run no agent
+    }
+    if (node.execution_status !== 'pending' || node.dependencies.length === 0) {
+      return false;
+    }
+    return node.dependencies.every(
+      (depId) => allNodes.find((n) => n.id === depId)?.execution_status === 'completed'
+    );
+  }
+
+  /**
+   * Parent for a respawned node's agent, as WorkflowEngine would have chosen it:
+   * the agent of a completed dependency, or for starting nodes the parent of
+   * the other starting nodes' agents.
+   */
+  private async findNodeParent(
+    node: WorkflowNode,
+    allNodes: WorkflowNode[]
+  ): Promise<string | undefined> {
+    if (node.dependencies.length > 0) {
+      const depId = node.dependencies[node.dependencies.length - 1];
+      return allNodes.find((n) => n.id === depId)?.agent_id ?? undefined;
+    }
+
+    const sibling = allNodes.find(
+      (n) => n.id !== node.id && n.dependencies.length === 0 && n.agent_id
+    );
+    if (!sibling?.agent_id) {
+      return undefined;
+    }
+    const siblingAgent = await this.agentRepo.findById(sibling.agent_id);
+    return siblingAgent.parent_id ?? undefined;
+  }
+
+  /**
+   * Fail a workflow whose nodes can no longer make progress
+   */
+  private async terminateIfStalled(graphId: string): Promise<void> {
+    const progress = await this.workflowEngine.getWorkflowProgress(graphId);
+    if (
+      progress.failed > 0 &&
+      progress.executing === 0 &&
+      progress.pending === 0 &&
+      progress.retrying === 0
+    ) {
+      await this.workflowEngine.failWorkflow(graphId, 'Workflow stalled after a node failure');
+    }
+  }
+
+  /**
+   * IDs of the resources of a kind held by a live worker lease
+   */
+  private async findLeased(resourceType: LeaseResourceTypeType): Promise<Set<string>> {
+    const leases = await this.leaseRepo.findLive(resourceType);
+    return new Set(leases.map((lease) => lease.resource_id));
+  }
+
+  /**
+   * Paused agents that were executing when they paused
+   * Agents paused before they started stay paused until an operator resumes them.
+   */
+  private async findSuspendedExecutions(): Promise<Agent[]> {
+    const suspended: Agent[] = [];
+    for (const agent of await this.agentRepo.findByStatus('paused')) {
+      if ((await this.stateMachine.getStatusBeforePause(agent.id)) === 'executing') {
+        suspended.push(agent);
+      }
+    }
+    return suspended;
+  }
+
+  /**
+   * Run one reconciliation, collecting its audit record or error
+   */
+  private async attempt(
+    report: ReconciliationReport,
+    entityId: string,
+    reconcile: () => Promise<RecoveryAuditRecord>
+  ): Promise<void> {
+    try {
+      report.records.push(await reconcile());
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.reconcileLogger.error({ entityId, error }, 'Failed to reconcile orphaned entity');
+      report.errors.push({ entityId, error: message });
+    }
+  }
+}
@@ -0,0 +1,230 @@
+import { RoleRepository } from '../database/repositories/RoleRepository.js';
+import { WorkflowRepository } from '../database/repositories/WorkflowRepository.js';
+import { config } from '../config/env.js';
+import { logger } from '../utils/Logger.js';
+import {
+  CreateAgentRoleSchema,
+  UpdateAgentRoleSchema,
+  type AgentRole,
+  type RolePermissionModeType,
+} from '../models/AgentRole.js';
+import type { ToolPolicy } from '../models/ToolPolicy.js';
+
+/**
+ * How unknown roles are handled at spawn time
+ * - strict: reject the spawn
+ * - warn: log a warning and spawn with default settings
+ */
+export type RoleValidationMode = 'strict' | 'warn';
+
+/**
+ * Execution settings resolved for a role
+ */
+export interface RoleExecutionSettings {
+  /** Role name */
+  name: string;
+  /** Role-specific system prompt (empty when the role is not registered) */
+  systemPrompt: string;
+  model: string;
+  maxTurns: number;
+  permissionMode: RolePermissionModeType;
+  /** Tools the role may use (null = SDK defaults) */
+  allowedTools: string[] | null;
+  /** Tool permission policy (null = role tools allowed, worktree paths only) */
+  toolPolicy: ToolPolicy | null;
+  defaultBudget: number;
+  /** Execution deadline override (null = AGENT_TIMEOUT) */
+  timeoutMs: number | null;
+  outputSchema: Record<string, unknown> | null;
+  /** False when the role is not in the registry and defaults were used */
+  registered: boolean;
+}
+
+/**
+ * Settings used for roles that are not registered (warn mode only)
+ */
+const DEFAULT_ROLE_SETTINGS: Omit<RoleExecutionSettings, 'name'> = {
+  systemPrompt: '',
+  model: 'claude-3-5-sonnet-20241022',
+  maxTurns: 20,
+  permissionMode: 'acceptEdits',
+  allowedTools: null,
+  toolPolicy: null,
+  defaultBudget: 100000,
+  timeoutMs: null,
+  outputSchema: null,
+  registered: false,
+};
+
+/**
+ * RoleService
+ * Role registry: CRUD for role definitions, spawn-time validation and
+ * resolution of per-role execution settings (prompt, model, SDK options).
+ */
+export class RoleService {
+  private roleRepo: RoleRepository;
+  private serviceLogger = logger.child({ component: 'RoleService' });
+
+  /**
+   * @param roleRepo - Role repository
+   * @param validationMode - Unknown-role handling (defaults to ROLE_VALIDATION)
+   */
+  constructor(
+    roleRepo?: RoleRepository,
+    private validationMode: RoleValidationMode = config.agent.roleValidation
+  ) {
+    this.roleRepo = roleRepo || new RoleRepository();
+  }
+
+  // ========================================================================
+  // Registry CRUD
+  // ========================================================================
+
+  /**
+   * List registered roles
+   *
+   * @param includeDisabled - Include disabled roles (default: true)
+   */
+  async listRoles(includeDisabled: boolean = true): Promise<AgentRole[]> {
+    return this.roleRepo.findAll(includeDisabled);
+  }
+
+  /**
+   * Get a role by name
+   *
+   * @returns Role, or null if not registered
+   */
+  async getRole(name: string): Promise<AgentRole | null> {
+    return this.roleRepo.findByName(name);
+  }
+
+  /**
+   * Register a new role
+   *
+   * @param data - Role definition (validated against CreateAgentRoleSchema)
+   * @returns Created role
+   * @throws ZodError if the definition is invalid
+   * @throws Error if a role with the same name exists
+   */
+  async createRole(data: unknown): Promise<AgentRole> {
+    const definition = CreateAgentRoleSchema.parse(data);
+
+    const existing = await this.roleRepo.findByName(definition.name);
+    if (existing) {
+      throw new Error(`Role "${definition.name}" already exists`);
+    }
+
+    return this.roleRepo.create(definition);
+  }
+
+  /**
+   * Update a role definition
+   *
+   * @param name - Role name
+   * @param data - Fields to update
+   * @returns Updated role, or null if not registered
+   * @throws ZodError if the update is invalid
+   */
+  async updateRole(name: string, data: unknown): Promise<AgentRole | null> {
+    return this.roleRepo.update(name, UpdateAgentRoleSchema.parse(data));
+  }
+
+  /**
+   * Remove a role from the registry
+   * Existing agents keep their role name; new spawns of it are rejected in strict mode.
+   *
+   * @returns True if the role was deleted
+   */
+  async deleteRole(name: string): Promise<boolean> {
+    return this.roleRepo.delete(name);
+  }
+
+  // ========================================================================
+  // Spawn-time validation
+  // ========================================================================
+
+  /**
+   * Validate that a role may be spawned
+   *
+   * @param name - Role name
+   * @param allowedRoles - Optional workspace restriction (WorkspaceConfig.allowed_roles)
+   * @returns Registered role, or null if unknown and validation mode is 'warn'
+   * @throws Error if the role is disabled, not allowed, or unknown in strict mode
+   */
+  async validateForSpawn(name: string, allowedRoles?: string[]): Promise<AgentRole | null> {
+    if (allowedRoles && !allowedRoles.includes(name)) {
+      throw new Error(
+        `Role "${name}" is not allowed in this workspace. Allowed roles: ${allowedRoles.join(', ')}`
+      );
+    }
+
+    const role = await this.roleRepo.findByName(name);
+
+    if (!role) {
+      if (this.validationMode === 'strict') {
+        const known = (await this.roleRepo.findAll(false)).map(r => r.name);
+        throw new Error(
+          `Unknown agent role "${name}". Registered roles: ${known.join(', ') || '(none)'}`
+        );
+      }
+
+      this.serviceLogger.warn({ role: name }, 'Spawning agent with unregistered role');
+      return null;
+    }
+
+    if (!role.enabled) {
+      throw new Error(`Agent role "${name}" is disabled`);
+    }
+
+    return role;
+  }
+
+  /**
+   * Resolve execution settings for a role
+   * Unregistered roles get defaults (they can only exist via warn mode or
+   * roles deleted after spawn).
+   *
+   * @param name - Role name
+   * @returns Execution settings
+   */
+  async resolveSettings(name: string): Promise<RoleExecutionSettings> {
+    const role = await this.roleRepo.findByName(name);
+
+    if (!role) {
+      this.serviceLogger.warn({ role: name }, 'Role not registered, using default settings');
+      return { name, ...DEFAULT_ROLE_SETTINGS };
+    }
+
+    return {
+      name: role.name,
+      systemPrompt: role.system_prompt,
+      model: role.model,
+      maxTurns: role.max_turns,
+      permissionMode: role.permission_mode,
+      allowedTools: role.allowed_tools,
+      toolPolicy: role.tool_policy,
+      defaultBudget: role.default_budget,
+      timeoutMs: role.timeout_ms,
+      outputSchema: role.output_schema,
+      registered: true,
+    };
+  }
+}
+
+/**
+ * Model override of an agent's workflow node (metadata.model)
+ * Set per node, or by the node's failure policy for retry and fallback agents.
+ *
+ * @param agentId - Agent UUID
+ * @param workflowRepo - Workflow repository (for node overrides)
+ * @returns The model, or null if the agent uses its role's model
+ */
+export async function resolveNodeModel(
+  agentId: string,
+  workflowRepo: WorkflowRepository = new WorkflowRepository()
+): Promise<string | null> {
+  const node = await workflowRepo.findNodeByAgentId(agentId);
+  const model: unknown = node?.metadata?.model;
+
+  return typeof model === 'string' && model.length > 0 ? model : null;
+}
@@ -0,0 +1,192 @@
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { config } from '../config/env.js';
+import { AgentRepository } from '../database/repositories/AgentRepository.js';
+import { WorkerLeaseRepository } from '../database/repositories/WorkerLeaseRepository.js';
+import type { RecoveryAuditRecord } from '../models/RecoveryAudit.js';
+import type { LeaseResourceTypeType } from '../models/WorkerLease.js';
+import { ReconciliationService } from './ReconciliationService.js';
+import { logger } from '../utils/Logger.js';
+
+/**
+ * Lease settings of a worker process
+ */
+export interface WorkerLeaseOptions {
+  /** Lease owner ID (default WORKER_ID, or host:pid:random) */
+  workerId?: string;
+  /** Lease lifetime (ms, default WORKER_LEASE_TTL) */
+  ttlMs?: number;
+  /** Heartbeat interval (ms, default WORKER_HEARTBEAT_INTERVAL) */
+  heartbeatIntervalMs?: number;
+}
+
+/**
+ * Services used by WorkerLeaseService
+ */
+export interface WorkerLeaseServiceDependencies {
+  leaseRepo?: WorkerLeaseRepository;
+  agentRepo?: AgentRepository;
+  reconciliationService?: ReconciliationService;
+}
+
+/**
+ * WorkerLeaseService
+ * Lets several orchestrator processes share one database.
+ *
+ * Each process is a worker with its own ID. It claims pending agents before
+ * executing them and takes a lease on a workflow graph while polling it, so
+ * no agent or graph is handled by two processes. A heartbeat renews the
+ * worker's leases every WORKER_HEARTBEAT_INTERVAL; a worker that stops
+ * renewing (crash, lost connection) loses them after WORKER_LEASE_TTL.
+ *
+ * Agents whose lease expired while executing are reclaimed by the other
+ * workers: the recovery policy (RECOVERY_POLICY) requeues them from their
+ * latest checkpoint or the task, or fails them, as on startup. The TTL should
+ * span several heartbeats so a briefly stalled worker keeps its agents.
+ */
+export class WorkerLeaseService {
+  readonly workerId: string;
+  readonly ttlMs: number;
+  readonly heartbeatIntervalMs: number;
+  private leaseRepo: WorkerLeaseRepository;
+  private agentRepo: AgentRepository;
+  private reconciliationService: ReconciliationService;
+  private heartbeatId: NodeJS.Timeout | null = null;
+  private leaseLogger = logger.child({ component: 'WorkerLeaseService' });
+
+  /**
+   * @param options - Worker ID and lease timings (defaults from the environment)
+   * @param deps - Repositories and services (created on demand when omitted)
+   */
+  constructor(options: WorkerLeaseOptions = {}, deps: WorkerLeaseServiceDependencies = {}) {
+    this.workerId =
+      options.workerId ??
+      config.scheduler.workerId ??
+      `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+    this.ttlMs = options.ttlMs ?? config.scheduler.leaseTtl;
+    this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? config.scheduler.heartbeatInterval;
+    this.leaseRepo = deps.leaseRepo || new WorkerLeaseRepository();
+    this.agentRepo = deps.agentRepo || new AgentRepository();
+    this.reconciliationService = deps.reconciliationService || new ReconciliationService();
+  }
+
+  /**
+   * Start renewing this worker's leases
+   * Calling it again while running has no effect.
+   */
+  start(): void {
+    if (this.heartbeatId) {
+      return;
+    }
+
+    this.heartbeatId = setInterval(() => {
+      void this.heartbeat();
+    }, this.heartbeatIntervalMs);
+
+    this.leaseLogger.info(
+      { workerId: this.workerId, ttlMs: this.ttlMs, heartbeatIntervalMs: this.heartbeatIntervalMs },
+      'Worker heartbeat started'
+    );
+  }
+
+  /**
+   * Stop renewing and release all of this worker's leases
+   * Call it once this worker's executions have finished: an agent left
+   * executing without a lease is only recovered by the next startup
+   * reconciliation.
+   */
+  async stop(): Promise<void> {
+    if (this.heartbeatId) {
+      clearInterval(this.heartbeatId);
+      this.heartbeatId = null;
+    }
+
+    const released = await this.leaseRepo.releaseAll(this.workerId);
+    this.leaseLogger.info({ workerId: this.workerId, released }, 'Worker leases released');
+  }
+
+  /**
+   * Renew all of this worker's leases
+   *
+   * @returns Number of leases renewed (0 if the renewal failed)
+   */
+  async heartbeat(): Promise<number> {
+    try {
+      return await this.leaseRepo.renew(this.workerId, this.ttlMs);
+    } catch (error) {
+      this.leaseLogger.error({ error, workerId: this.workerId }, 'Worker heartbeat failed');
+      return 0;
+    }
+  }
+
+  /**
+   * Claim pending agents for this worker
+   *
+   * @param agentIds - Candidate agents, in claim order
+   * @returns IDs of the agents this worker may execute
+   */
+  async claimAgents(agentIds: string[]): Promise<string[]> {
+    return this.leaseRepo.claimAgents(this.workerId, agentIds, this.ttlMs);
+  }
+
+  /**
+   * Take or renew this worker's lease on a resource
+   *
+   * @param resourceType - Kind of resource
+   * @param resourceId - Resource UUID
+   * @returns Whether this worker holds the lease
+   */
+  async acquire(resourceType: LeaseResourceTypeType, resourceId: string): Promise<boolean> {
+    return this.leaseRepo.acquire(resourceType, resourceId, this.workerId, this.ttlMs);
+  }
+
+  /**
+   * Release this worker's lease on a resource
+   *
+   * @param resourceType - Kind of resource
+   * @param resourceId - Resource UUID
+   */
+  async release(resourceType: LeaseResourceTypeType, resourceId: string): Promise<void> {
+    await this.leaseRepo.release(resourceType, resourceId, this.workerId);
+  }
+
+  /**
+   * Reclaim agents whose worker stopped renewing its lease
+   * Agents still executing (or suspended at a pause) get the recovery policy;
+   * the expired leases of agents that never started or already finished are
+   * just dropped.
+   *
+   * @returns Audit records of the reclaimed agents
+   */
+  async reclaimExpired(): Promise<RecoveryAuditRecord[]> {
+    const expired = await this.leaseRepo.takeExpired('agent');
+    const records: RecoveryAuditRecord[] = [];
+
+    for (const lease of expired) {
+      try {
+        const agent = await this.agentRepo.findById(lease.resource_id);
+        if (agent.status !== 'executing' && agent.status !== 'paused') {
+          continue;
+        }
+
+        this.leaseLogger.warn(
+          { agentId: agent.id, leaseWorkerId: lease.worker_id, expiredAt: lease.expires_at },
+          'Reclaiming agent of an expired lease'
+        );
+        records.push(
+          await this.reconciliationService.reconcileAgent(
+            agent,
+            `Lease of worker ${lease.worker_id} expired at ${lease.expires_at.toISOString()}`
+          )
+        );
+      } catch (error) {
+        this.leaseLogger.error(
+          { error, agentId: lease.resource_id, leaseWorkerId: lease.worker_id },
+          'Failed to reclaim agent of an expired lease'
+        );
+      }
+    }
+
+    return records;
+  }
+}
@@ -1,8 +1,17 @@
 import { WorkflowEngine } from '../core/WorkflowEngine.js';
 import { WorkflowRepository } from '../database/repositories/WorkflowRepository.js';
 import { AgentRepository } from '../database/repositories/AgentRepository.js';
+import { AgentService } from './AgentService.js';
+import { RoleService } from './RoleService.js';
+import { WorkerLeaseService } from './WorkerLeaseService.js';
+import type { AgentResultRecord } from '../models/AgentResult.js';
+import type { WorkflowNode } from '../models/WorkflowNode.js';
+import { db } from '../infrastructure/SharedDatabase.js';
 import { logger } from '../utils/Logger.js';
 
+/** Agent statuses the poller acts on */
+const FINAL_AGENT_STATUSES = new Set(['completed', 'failed', 'terminated', 'timed_out']);
+
 /**
  * WorkflowPoller
  * Polls for completed agents and triggers workflow continuation.
@@ -10,7 +19,22 @@ import { logger } from '../utils/Logger.js';
  * This service bridges agent completion with workflow orchestration by:
  * - Detecting when workflow agents complete
  * - Triggering processCompletedNode() for event-driven continuation
- * - Handling workflow failures and timeouts
+ * - Handling node failures and timeouts (WorkflowEngine.processFailedNode)
+ *
+ * A cycle runs whenever an agent reaches a final status (agent_status_changed
+ * notification) and every pollIntervalMs as a fallback for missed ones.
+ *
+ * Several processes can poll one database: a graph is only processed while
+ * this process holds its workflow_graph lease (WorkerLeaseService), so each
+ * completed node is continued once.
+ *
+ * Failed and timed-out nodes are retried per their failure policy
+ * (WorkflowEngine.processFailedNode), and retries whose backoff has elapsed
+ * are spawned at the start of each cycle.
+ *
+ * A completed node's result is the agent's latest agent_results row, which
+ * WorkflowEngine passes on to dependent nodes. Nodes with an output schema
+ * (metadata.output_schema or the role's) store the validated object itself.
  *
  * Usage:
  * - Start polling: await poller.start()
@@ -21,19 +45,36 @@ export class WorkflowPoller {
   private workflowEngine: WorkflowEngine;
   private workflowRepo: WorkflowRepository;
   private agentRepo: AgentRepository;
+  private agentService: AgentService;
+  private roleService: RoleService;
+  private leases: WorkerLeaseService;
+  private ownsLeases: boolean;
   private pollerLogger = logger.child({ component: 'WorkflowPoller' });
 
   private intervalId: NodeJS.Timeout | null = null;
+  private unsubscribe: (() => void) | null = null;
   private isPolling = false;
+  private activePoll: Promise<void> | null = null;
+  private wakeRequested = false;
 
   // Configurable polling settings
   private pollIntervalMs: number;
   private maxRetries: number;
 
-  constructor(pollIntervalMs = 5000, maxRetries = 3) {
+  /**
+   * @param pollIntervalMs - How often to poll active workflows without a notification (ms)
+   * @param maxRetries - Retry limit reported by getStatus()
+   * @param leases - Lease service of this process (one is created and stopped with
+   *   the poller when omitted)
+   */
+  constructor(pollIntervalMs = 5000, maxRetries = 3, leases?: WorkerLeaseService) {
     this.workflowEngine = new WorkflowEngine();
     this.workflowRepo = new WorkflowRepository();
     this.agentRepo = new AgentRepository();
+    this.agentService = new AgentService();
+    this.roleService = new RoleService();
+    this.ownsLeases = !leases;
+    this.leases = leases || new WorkerLeaseService();
     this.pollIntervalMs = pollIntervalMs;
     this.maxRetries = maxRetries;
   }
@@ -48,19 +89,22 @@ export class WorkflowPoller {
     }
 
     this.isPolling = true;
-    this.pollerLogger.info({ intervalMs: this.pollIntervalMs }, 'Starting workflow poller');
+    this.leases.start();
+    this.pollerLogger.info(
+      { intervalMs: this.pollIntervalMs, workerId: this.leases.workerId },
+      'Starting workflow poller'
+    );
 
     // Run initial poll
     await this.pollOnce();
 
-    // Start interval
-    this.intervalId = setInterval(async () => {
-      try {
-        await this.pollOnce();
-      } catch (error) {
-        this.pollerLogger.error({ error }, 'Polling cycle failed');
+    // Poll when a workflow agent finishes, and at intervals as a fallback
+    this.unsubscribe = db.subscribe('agent_status_changed', ({ status }) => {
+      if (FINAL_AGENT_STATUSES.has(status)) {
+        this.wake();
       }
-    }, this.pollIntervalMs);
+    });
+    this.intervalId = setInterval(() => this.wake(), this.pollIntervalMs);
   }
 
   /**
@@ -78,6 +122,14 @@ export class WorkflowPoller {
       clearInterval(this.intervalId);
       this.intervalId = null;
     }
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+
+    if (this.ownsLeases) {
+      await this.leases.stop();
+    }
 
     this.pollerLogger.info('Workflow poller stopped');
   }
@@ -100,9 +152,19 @@ export class WorkflowPoller {
 
       this.pollerLogger.info({ count: activeGraphs.length }, 'Found active workflows');
 
-      // 2. For each active workflow, check for newly completed nodes
+      // 2. For each active workflow not polled by another process,
+      //    check for newly completed nodes
       for (const graph of activeGraphs) {
-        await this.processWorkflow(graph.id);
+        if (!(await this.leases.acquire('workflow_graph', graph.id))) {
+          this.pollerLogger.debug({ graphId: graph.id }, 'Workflow leased by another worker');
+          continue;
+        }
+
+        try {
+          await this.processWorkflow(graph.id);
+        } finally {
+          await this.leases.release('workflow_graph', graph.id);
+        }
       }
 
     } catch (error) {
@@ -111,16 +173,45 @@ export class WorkflowPoller {
     }
   }
 
+  /**
+   * Run a polling cycle now, or right after the one in progress
+   * A burst of wakeups collapses into at most one extra cycle.
+   */
+  private wake(): void {
+    if (!this.isPolling) {
+      return;
+    }
+    if (this.activePoll) {
+      this.wakeRequested = true;
+      return;
+    }
+
+    this.activePoll = this.pollOnce()
+      .catch((error: unknown) => {
+        this.pollerLogger.error({ error }, 'Polling cycle failed');
+      })
+      .finally(() => {
+        this.activePoll = null;
+        if (this.wakeRequested) {
+          this.wakeRequested = false;
+          this.wake();
+        }
+      });
+  }
+
   /**
    * Process a single workflow graph
    * Checks for completed agents and triggers continuation
    */
   private async processWorkflow(graphId: string): Promise<void> {
     try {
-      // 1. Get all nodes for this workflow
+      // 1. Respawn failed nodes whose retry backoff has elapsed
+      await this.workflowEngine.spawnDueRetries(graphId);
+
+      // 2. Get all nodes for this workflow
       const nodes = await this.workflowRepo.findNodesByGraphId(graphId);
 
-      // 2. Find nodes that are 'executing' but have completed agents
+      // 3. Find nodes that are 'executing' but have completed agents
       const executingNodes = nodes.filter(n => n.execution_status === 'executing' && n.agent_id);
 
       if (executingNodes.length === 0) {
@@ -133,7 +224,7 @@ export class WorkflowPoller {
         'Checking executing nodes'
       );
 
-      // 3. Check agent status for each executing node
+      // 4. Check agent status for each executing node
       for (const node of executingNodes) {
         const agent = await this.agentRepo.findById(node.agent_id!);
 
@@ -145,40 +236,52 @@ export class WorkflowPoller {
           continue;
         }
 
-        // 4. If agent completed, trigger workflow continuation
+        // 5. If agent completed, trigger workflow continuation
         if (agent.status === 'completed') {
           this.pollerLogger.info(
             { graphId, nodeId: node.id, agentId: agent.id, role: node.role },
             'Agent completed - triggering workflow continuation'
           );
 
-          // Extract result from agent (currently stored in node.result)
-          // TODO: Add metadata field to Agent model for result storage
-          const result = node.result || undefined;
+          // Hand the agent's stored result to dependent nodes
+          const result = await this.agentService.getAgentResult(agent.id);
 
           // Trigger event-driven continuation
-          await this.workflowEngine.processCompletedNode(agent.id, result);
+          await this.workflowEngine.processCompletedNode(
+            agent.id,
+            result ? await this.toNodeResult(node, result) : (node.result ?? undefined)
+          );
         }
 
-        // 5. If agent failed, mark node as failed
-        else if (agent.status === 'failed') {
+        // 6. If agent failed or was terminated, retry or fail the node
+        //    (per its failure policy)
+        else if (agent.status === 'failed' || agent.status === 'terminated') {
           this.pollerLogger.warn(
-            { graphId, nodeId: node.id, agentId: agent.id, role: node.role },
+            { graphId, nodeId: node.id, agentId: agent.id, role: node.role, status: agent.status },
             'Agent failed - marking node as failed'
           );
 
-          await this.workflowRepo.updateNode(node.id, {
-            execution_status: 'failed',
-            error_message: 'Agent failed',
-            completion_timestamp: new Date(),
-          });
-
-          // Check if workflow should be terminated (all nodes failed/completed)
-          await this.checkWorkflowFailure(graphId);
+          const result = await this.agentService.getAgentResult(agent.id);
+          const errorMessage =
+            result?.error_message ||
+            (agent.status === 'terminated' ? 'Agent terminated' : 'Agent failed');
+          await this.workflowEngine.processFailedNode(
+            agent.id,
+            errorMessage,
+            agent.status === 'failed' // Terminated agents are not retried
+          );
         }
 
-        // 6. Check for timeouts (optional - requires timeout tracking)
-        // TODO: Add timeout handling
+        // 7. If agent hit its deadline, retry or fail the node
+        //    (a timeout is one attempt of its failure policy)
+        else if (agent.status === 'timed_out') {
+          this.pollerLogger.warn(
+            { graphId, nodeId: node.id, agentId: agent.id, role: node.role },
+            'Agent timed out - marking node as failed'
+          );
+
+          await this.workflowEngine.processFailedNode(agent.id, 'Agent timed out');
+        }
       }
 
     } catch (error) {
@@ -190,25 +293,29 @@ export class WorkflowPoller {
   }
 
   /**
-   * Check if workflow should be marked as failed
-   * Called when a node fails
+   * Shape of an agent result as stored in WorkflowNode.result
+   * This is what dependent nodes receive, so usage figures are left out.
+   * Schema-validated output is stored as is so dependents can rely on its fields.
    */
-  private async checkWorkflowFailure(graphId: string): Promise<void> {
-    try {
-      const progress = await this.workflowEngine.getWorkflowProgress(graphId);
-
-      // If there are failed nodes and no pending/executing nodes, workflow failed
-      if (progress.failed > 0 && progress.executing === 0 && progress.pending === 0) {
-        this.pollerLogger.error(
-          { graphId, failedCount: progress.failed },
-          'Workflow failed - terminating'
-        );
-
-        await this.workflowEngine.terminateWorkflow(graphId);
+  private async toNodeResult(
+    node: WorkflowNode,
+    result: AgentResultRecord
+  ): Promise<Record<string, unknown>> {
+    if (result.structured_output) {
+      const hasSchema =
+        Boolean(node.metadata?.output_schema) ||
+        (await this.roleService.resolveSettings(node.role)).outputSchema !== null;
+      if (hasSchema) {
+        return result.structured_output;
       }
-    } catch (error) {
-      this.pollerLogger.error({ error, graphId }, 'Failed to check workflow failure');
     }
+
+    return {
+      result_id: result.id,
+      output: result.output,
+      data: result.structured_output,
+      finish_reason: result.finish_reason,
+    };
   }
 
   /**
@@ -1,13 +1,17 @@
 import { WorkflowRepository } from '../database/repositories/WorkflowRepository.js';
-import { WorkflowEngine } from '../core/WorkflowEngine.js';
+import { WorkflowEngine, type WorkflowControlOptions } from '../core/WorkflowEngine.js';
+import { ConditionExpression } from '../core/ConditionExpression.js';
 import { logger } from '../utils/Logger.js';
 import type {
   WorkflowGraph,
   CreateWorkflowGraph,
 } from '../models/WorkflowGraph.js';
-import type {
-  WorkflowNode,
-  CreateWorkflowNode,
+import {
+  MapNodeSpecSchema,
+  WorkflowEdgeConditionSchema,
+  type WorkflowNode,
+  type CreateWorkflowNode,
+  type WorkflowEdgeCondition,
 } from '../models/WorkflowNode.js';
 import type {
   WorkflowTemplate,
@@ -57,6 +61,20 @@ export class WorkflowService {
         );
       }
 
+      // Validate conditional edges (expression required, and must parse)
+      for (const edge of data.edge_patterns) {
+        const condition = WorkflowEdgeConditionSchema.safeParse(edge);
+        if (!condition.success) {
+          throw new Error(
+            `Edge ${edge.source_node_id} → ${edge.target_node_id}: ` +
+              condition.error.errors[0].message
+          );
+        }
+        if (condition.data.condition_expression) {
+          new ConditionExpression(condition.data.condition_expression);
+        }
+      }
+
       const template = await this.workflowRepo.createTemplate(data);
 
       this.serviceLogger.info(
@@ -155,24 +173,51 @@ export class WorkflowService {
         nodeIdMap.set(nodeTemplate.node_id, node.id);
       }
 
-      // 4. Update node dependencies with actual UUIDs
+      // 4. Update node dependencies (and conditions of their edges) with actual UUIDs
+      //    An edge pattern makes its source a dependency of its target, and a
+      //    map node's source names a template node as well.
       for (let i = 0; i < template.node_templates.length; i++) {
         const nodeTemplate = template.node_templates[i];
         const node = nodes[i];
+        const edges = template.edge_patterns.filter(
+          edge => edge.target_node_id === nodeTemplate.node_id
+        );
 
-        if (nodeTemplate.dependencies && nodeTemplate.dependencies.length > 0) {
-          const mappedDeps = nodeTemplate.dependencies
-            .map(depId => nodeIdMap.get(depId))
-            .filter(id => id !== undefined) as string[];
-
-          if (mappedDeps.length > 0) {
-            // Update node with mapped dependencies
-            const updatedNode = await this.workflowRepo.updateNode(node.id, {
-              dependencies: mappedDeps,
+        const mappedDeps = [
+          ...new Set([
+            ...(nodeTemplate.dependencies || []),
+            ...edges.map(edge => edge.source_node_id),
+          ]),
+        ]
+          .map(depId => nodeIdMap.get(depId))
+          .filter(id => id !== undefined) as string[];
+
+        const edgeConditions: Record<string, WorkflowEdgeCondition> = {};
+        for (const edge of edges) {
+          const sourceId = nodeIdMap.get(edge.source_node_id);
+          if (sourceId && (edge.dependency_type || edge.condition || edge.condition_expression)) {
+            edgeConditions[sourceId] = WorkflowEdgeConditionSchema.parse({
+              dependency_type: edge.dependency_type,
+              condition: edge.condition,
+              condition_expression: edge.condition_expression,
             });
-            nodes[i] = updatedNode;
           }
         }
+
+        const map = MapNodeSpecSchema.safeParse(nodeTemplate.metadata?.map);
+        const mapSource = map.success && map.data.source && nodeIdMap.get(map.data.source);
+
+        if (mappedDeps.length > 0) {
+          // Update node with mapped dependencies
+          const updatedNode = await this.workflowRepo.updateNode(node.id, {
+            dependencies: mappedDeps,
+            edge_conditions: edgeConditions,
+            ...(mapSource
+              ? { metadata: { ...nodeTemplate.metadata, map: { ...map.data, source: mapSource } } }
+              : {}),
+          });
+          nodes[i] = updatedNode;
+        }
       }
 
       // 5. Increment template usage count
@@ -232,6 +277,43 @@ export class WorkflowService {
     return await this.workflowEngine.validateWorkflowGraph(graphId);
   }
 
+  /**
+   * Pause a workflow: no new nodes are spawned until it is resumed
+   *
+   * @param graphId - Workflow graph UUID
+   * @param options - Actor, reason and whether to pause executing agents too
+   * @throws InvalidWorkflowTransitionError if the workflow has finished
+   * @throws Error if the workflow does not exist
+   */
+  async pauseWorkflow(graphId: string, options: WorkflowControlOptions = {}): Promise<void> {
+    await this.workflowEngine.pauseWorkflow(graphId, options);
+  }
+
+  /**
+   * Resume a paused workflow and spawn the nodes that became ready
+   *
+   * @param graphId - Workflow graph UUID
+   * @param options - Actor resuming the workflow
+   * @throws InvalidWorkflowTransitionError if the workflow has finished
+   * @throws Error if the workflow does not exist
+   */
+  async resumeWorkflow(graphId: string, options: WorkflowControlOptions = {}): Promise<void> {
+    await this.workflowEngine.resumeWorkflow(graphId, options);
+  }
+
+  /**
+   * Terminate a workflow: its agents (and the agents they spawned) are stopped,
+   * unfinished nodes are skipped and the workflow ends as 'cancelled'
+   *
+   * @param graphId - Workflow graph UUID
+   * @param reason - Why the workflow is terminated
+   * @throws InvalidWorkflowTransitionError if the workflow has already finished
+   * @throws Error if the workflow does not exist
+   */
+  async terminateWorkflow(graphId: string, reason?: string): Promise<void> {
+    await this.workflowEngine.terminateWorkflow(graphId, reason);
+  }
+
   /**
    * Get workflow execution progress
    */
@@ -492,7 +492,7 @@ describe('US6: Workflow Composition - Integration Tests', () => {
 
       // Check workflow status
       const terminatedGraph = await workflowRepo.findGraphById(graph.id);
-      expect(terminatedGraph?.status).toBe('failed');
+      expect(terminatedGraph?.status).toBe('cancelled');
 
       // Check executing nodes marked as skipped
       const nodeB = await workflowRepo.findNodeById(nodes[1].id);
@@ -0,0 +1,303 @@
+// Configure test environment before imports
+import '../setup/test-env-setup.js';
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { Agent } from '../../src/core/Agent.js';
+import { AgentCore } from '../../src/core/AgentCore.js';
+import { createOrchestrationTools, type AgentTool } from '../../src/core/AgentTools.js';
+import { FakeModelProvider } from '../../src/core/FakeModelProvider.js';
+import { AgentService } from '../../src/services/AgentService.js';
+import { db } from '../../src/infrastructure/SharedDatabase.js';
+import type { Agent as AgentModel } from '../../src/models/Agent.js';
+
+/**
+ * Integration Tests: Pluggable Model Provider
+ *
+ * Exercises AgentCore and the Agent lifecycle offline with FakeModelProvider:
+ * - Canned completions, usage numbers and stop reasons
+ * - Streaming deltas
+ * - spawn → execute → complete without an API key
+ * - Conversation persistence and continue()
+ * - Tool-use loop with built-in orchestration tools
+ */
+
+const testAgent: AgentModel = {
+  id: '00000000-0000-4000-8000-000000000001',
+  role: 'researcher',
+  status: 'executing',
+  depth_level: 0,
+  parent_id: null,
+  task_description: 'Summarize the findings',
+  created_at: new Date(),
+  updated_at: new Date(),
+  completed_at: null,
+};
+
+describe('AgentCore with FakeModelProvider', () => {
+  it('should return scripted completion, usage and stop reason', async () => {
+    const provider = new FakeModelProvider([
+      { content: 'Findings summarized', usage: { inputTokens: 120, outputTokens: 30 } },
+      { content: 'Cut off', stopReason: 'max_tokens', usage: { inputTokens: 10, outputTokens: 5 } },
+    ]);
+    const core = new AgentCore(provider, null);
+
+    const first = await core.execute(testAgent);
+    expect(first.content).toBe('Findings summarized');
+    expect(first.tokensUsed).toBe(150);
+    expect(first.finishReason).toBe('end_turn');
+
+    const second = await core.execute(testAgent);
+    expect(second.finishReason).toBe('max_tokens');
+    expect(second.tokensUsed).toBe(15);
+
+    expect(provider.requests).toHaveLength(2);
+    expect(provider.requests[0].messages[0].content).toBe('Summarize the findings');
+    expect(provider.requests[0].system).toContain('researcher');
+  });
+
+  it('should stream scripted deltas', async () => {
+    const provider = new FakeModelProvider([
+      { content: 'Hello world', chunks: ['Hel', 'lo ', 'world'], usage: { inputTokens: 8, outputTokens: 3 } },
+    ]);
+    const core = new AgentCore(provider, null);
+    const chunks: string[] = [];
+
+    const result = await core.executeStreaming(testAgent, chunk => chunks.push(chunk));
+
+    expect(chunks).toEqual(['Hel', 'lo ', 'world']);
+    expect(result.content).toBe('Hello world');
+    expect(result.tokensUsed).toBe(11);
+    expect(result.finishReason).toBe('end_turn');
+  });
+
+  it('should surface scripted errors and exhaustion', async () => {
+    const provider = new FakeModelProvider([{ content: '', error: new Error('rate limited') }]);
+    const core = new AgentCore(provider, null);
+
+    await expect(core.execute(testAgent)).rejects.toThrow('rate limited');
+    await expect(core.execute(testAgent)).rejects.toThrow('script exhausted');
+  });
+
+  it('should track budget from scripted usage', async () => {
+    const provider = new FakeModelProvider([
+      { content: 'Done', usage: { inputTokens: 400, outputTokens: 100 } },
+    ]);
+    const core = new AgentCore(provider, null);
+    core.initializeBudget(5000);
+
+    await core.execute(testAgent);
+
+    expect(core.getBudgetStats()?.used).toBe(500);
+  });
+});
+
+describe('AgentCore tool-use loop', () => {
+  const echoTool: AgentTool = {
+    definition: {
+      name: 'echo',
+      description: 'Echo the input',
+      inputSchema: { type: 'object', properties: { text: { type: 'string' } } },
+    },
+    execute: input => Promise.resolve({ output: { echoed: input.text } }),
+  };
+
+  it('should execute tool calls and feed results back to the model', async () => {
+    const provider = new FakeModelProvider([
+      {
+        content: 'Let me check',
+        toolCalls: [{ id: 'call_1', name: 'echo', input: { text: 'ping' } }],
+        usage: { inputTokens: 10, outputTokens: 5 },
+      },
+      { content: 'Echo said ping', usage: { inputTokens: 20, outputTokens: 5 } },
+    ]);
+    const core = new AgentCore(provider, null);
+
+    const result = await core.execute(testAgent, [echoTool]);
+
+    expect(result.content).toBe('Echo said ping');
+    expect(result.tokensUsed).toBe(40);
+    expect(result.toolCalls).toEqual([{ name: 'echo', input: { text: 'ping' }, isError: false }]);
+    expect(provider.requests[0].tools?.map(tool => tool.name)).toEqual(['echo']);
+    expect(provider.requests[1].messages.slice(1)).toEqual([
+      {
+        role: 'assistant',
+        content: [
+          { type: 'text', text: 'Let me check' },
+          { type: 'tool_use', id: 'call_1', name: 'echo', input: { text: 'ping' } },
+        ],
+      },
+      {
+        role: 'user',
+        content: [{ type: 'tool_result', tool_use_id: 'call_1', content: '{"echoed":"ping"}' }],
+      },
+    ]);
+  });
+
+  it('should return tool failures to the model as errors', async () => {
+    const provider = new FakeModelProvider([
+      { content: '', toolCalls: [{ id: 'call_1', name: 'missing_tool' }] },
+      { content: 'Recovered' },
+    ]);
+    const core = new AgentCore(provider, null);
+
+    const result = await core.execute(testAgent, [echoTool]);
+
+    expect(result.content).toBe('Recovered');
+    expect(result.toolCalls[0].isError).toBe(true);
+    expect(provider.requests[1].messages[2].content).toEqual([
+      { type: 'tool_result', tool_use_id: 'call_1', content: 'Unknown tool: missing_tool', is_error: true },
+    ]);
+  });
+
+  it('should finish when the model calls report_result', async () => {
+    const provider = new FakeModelProvider([
+      {
+        content: '',
+        toolCalls: [{ name: 'report_result', input: { result: 'All done', data: { files: 2 } } }],
+      },
+    ]);
+    const core = new AgentCore(provider, null);
+    const tools = createOrchestrationTools({
+      spawnSubordinate: () => Promise.reject(new Error('not used')),
+    });
+
+    const result = await core.execute(testAgent, tools);
+
+    expect(result.content).toBe('All done');
+    expect(result.finishReason).toBe('report_result');
+    expect(result.reportedData).toEqual({ files: 2 });
+    expect(provider.remaining()).toBe(0);
+  });
+
+  it('should stop after the iteration limit', async () => {
+    const provider = new FakeModelProvider(
+      [{ content: '', toolCalls: [{ name: 'echo', input: { text: 'again' } }] }],
+      { loop: true }
+    );
+    const core = new AgentCore(provider, null);
+    process.env.AGENT_MAX_TOOL_ITERATIONS = '3';
+
+    try {
+      await expect(core.execute(testAgent, [echoTool])).rejects.toThrow('exceeded 3 iterations');
+      expect(provider.requests).toHaveLength(3);
+    } finally {
+      delete process.env.AGENT_MAX_TOOL_ITERATIONS;
+    }
+  });
+});
+
+describe('Agent lifecycle with FakeModelProvider', () => {
+  beforeAll(async () => {
+    await db.initialize();
+  });
+
+  afterAll(async () => {
+    await db.shutdown();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM checkpoints');
+    await db.query('DELETE FROM hierarchies');
+    await db.query('DELETE FROM workspaces');
+    await db.query('DELETE FROM messages');
+    await db.query('DELETE FROM budgets');
+    await db.query('DELETE FROM agents');
+  });
+
+  it('should spawn, execute and complete offline', async () => {
+    const provider = new FakeModelProvider([{ content: 'Task complete' }]);
+    const agent = new Agent(undefined, provider);
+
+    const agentId = await agent.spawn({
+      role: 'researcher',
+      task_description: 'Research offline execution',
+      status: 'pending',
+      depth_level: 0,
+    });
+
+    const final = await agent.waitForCompletion();
+
+    expect(final.id).toBe(agentId);
+    expect(final.status).toBe('completed');
+    expect(final.completed_at).toBeInstanceOf(Date);
+    expect(provider.remaining()).toBe(0);
+  });
+
+  it('should mark agent failed when the provider errors', async () => {
+    const provider = new FakeModelProvider([{ content: '', error: new Error('overloaded') }]);
+    const agent = new Agent(undefined, provider);
+
+    await agent.spawn({
+      role: 'researcher',
+      task_description: 'This will fail',
+      status: 'pending',
+      depth_level: 0,
+    });
+
+    const final = await agent.waitForCompletion();
+    expect(final.status).toBe('failed');
+  });
+
+  it('should spawn a subordinate through the spawn_subordinate tool', async () => {
+    const provider = new FakeModelProvider([
+      {
+        content: 'Delegating',
+        toolCalls: [
+          {
+            name: 'spawn_subordinate',
+            input: { role: 'implementer', task_description: 'Write the parser', budget: 1000 },
+          },
+        ],
+      },
+      { content: 'Delegated the parser' },
+    ]);
+    const agentService = new AgentService();
+    const parentId = await agentService.spawnAgent('architect', 'Design a parser', 10000);
+    const parent = await Agent.load(parentId, provider);
+    const core = new AgentCore(provider, null);
+
+    const result = await core.execute(
+      await agentService.getAgentStatus(parentId),
+      createOrchestrationTools(parent)
+    );
+
+    expect(result.content).toBe('Delegated the parser');
+    expect(result.toolCalls[0]).toMatchObject({ name: 'spawn_subordinate', isError: false });
+
+    const children = await db.query<{ id: string; role: string }>(
+      'SELECT id, role FROM agents WHERE parent_id = $1',
+      [parentId]
+    );
+    expect(children.rows).toHaveLength(1);
+    expect(children.rows[0].role).toBe('implementer');
+  });
+
+  it('should persist turns and continue the conversation from storage', async () => {
+    const provider = new FakeModelProvider([
+      { content: 'Initial answer' },
+      { content: 'Follow-up answer' },
+    ]);
+    const agentService = new AgentService();
+    const agentId = await agentService.spawnAgent('researcher', 'Initial question', 10000);
+    const core = new AgentCore(provider);
+
+    await core.execute(await agentService.getAgentStatus(agentId));
+    const result = await core.continue(agentId, 'Follow-up question');
+
+    expect(result.content).toBe('Follow-up answer');
+    expect(provider.requests[1].messages).toEqual([
+      { role: 'user', content: 'Initial question' },
+      { role: 'assistant', content: 'Initial answer' },
+      { role: 'user', content: 'Follow-up question' },
+    ]);
+
+    const conversation = await core.getConversation(agentId);
+    expect(conversation.map(m => [m.role, m.content])).toEqual([
+      ['user', 'Initial question'],
+      ['assistant', 'Initial answer'],
+      ['user', 'Follow-up question'],
+      ['assistant', 'Follow-up answer'],
+    ]);
+    expect(conversation[3].metadata).toMatchObject({ finish_reason: 'end_turn' });
+  });
+});
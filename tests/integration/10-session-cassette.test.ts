@@ -0,0 +1,202 @@
+// Configure test environment before imports
+import '../setup/test-env-setup.js';
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import { AgentExecutor } from '../../src/execution/AgentExecutor.js';
+import { SessionCassette } from '../../src/execution/SessionCassette.js';
+import { AgentService } from '../../src/services/AgentService.js';
+import { db } from '../../src/infrastructure/SharedDatabase.js';
+
+/**
+ * Integration Tests: SDK Session Record/Replay
+ *
+ * Replays recorded Claude Agent SDK message streams through AgentExecutor:
+ * - Result extraction and cost accounting from a successful session
+ * - Error result subtypes
+ * - Streams that throw mid-session
+ */
+
+const usage = {
+  input_tokens: 1200,
+  output_tokens: 300,
+  cache_creation_input_tokens: 0,
+  cache_read_input_tokens: 0,
+};
+
+function assistantMessage(text: string): SDKMessage {
+  return {
+    type: 'assistant',
+    message: {
+      id: 'msg_1',
+      type: 'message',
+      role: 'assistant',
+      model: 'claude-3-5-sonnet-20241022',
+      content: [{ type: 'text', text }],
+      stop_reason: 'end_turn',
+      stop_sequence: null,
+      usage,
+    },
+    parent_tool_use_id: null,
+    uuid: '00000000-0000-4000-8000-000000000010',
+    session_id: 'session-1',
+  } as unknown as SDKMessage;
+}
+
+function resultMessage(subtype: string, extra: Record<string, unknown>): SDKMessage {
+  return {
+    type: 'result',
+    subtype,
+    duration_ms: 4200,
+    duration_api_ms: 3900,
+    is_error: subtype !== 'success',
+    num_turns: 2,
+    total_cost_usd: 0.0123,
+    usage,
+    modelUsage: {},
+    permission_denials: [],
+    uuid: '00000000-0000-4000-8000-000000000011',
+    session_id: 'session-1',
+    ...extra,
+  } as unknown as SDKMessage;
+}
+
+async function writeCassette(
+  filePath: string,
+  messages: SDKMessage[],
+  error?: string
+): Promise<void> {
+  const cassette = SessionCassette.create(filePath, 'recorded-agent', 'implementer', 'task');
+  const source = async function* (): AsyncGenerator<SDKMessage> {
+    for (const message of messages) {
+      yield await Promise.resolve(message);
+    }
+    if (error) {
+      throw new Error(error);
+    }
+  };
+
+  try {
+    for await (const _message of cassette.record(source())) {
+      // drain
+    }
+  } catch {
+    // recorded on the cassette
+  }
+}
+
+describe('SessionCassette', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cassette-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should round-trip a recorded stream', async () => {
+    const filePath = path.join(dir, 'roundtrip.json');
+    const messages = [assistantMessage('Working'), resultMessage('success', { result: 'Done' })];
+    await writeCassette(filePath, messages);
+
+    const cassette = await SessionCassette.load(filePath);
+    expect([...cassette.replay()]).toEqual(messages);
+    expect(cassette.error).toBeUndefined();
+  });
+
+  it('should re-throw a recorded stream error on replay', async () => {
+    const filePath = path.join(dir, 'error.json');
+    await writeCassette(filePath, [assistantMessage('Partial')], 'connection reset');
+
+    const cassette = await SessionCassette.load(filePath);
+    expect(() => [...cassette.replay()]).toThrow('connection reset');
+  });
+
+  it('should resolve per-agent cassette paths', () => {
+    expect(SessionCassette.resolvePath({ mode: 'replay', dir: '/tmp/c' }, 'abc')).toBe(
+      path.join('/tmp/c', 'abc.json')
+    );
+    expect(
+      SessionCassette.resolvePath({ mode: 'replay', dir: '/tmp/c', path: '/x.json' }, 'abc')
+    ).toBe('/x.json');
+  });
+});
+
+describe('AgentExecutor replay', () => {
+  let agentService: AgentService;
+  let dir: string;
+
+  beforeAll(async () => {
+    await db.initialize();
+    agentService = new AgentService();
+  });
+
+  afterAll(async () => {
+    await db.shutdown();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM hierarchies');
+    await db.query('DELETE FROM workspaces');
+    await db.query('DELETE FROM budgets');
+    await db.query('DELETE FROM agents');
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cassette-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should extract result and cost from a successful session', async () => {
+    const agentId = await agentService.spawnAgent('implementer', 'Write a file', 10000);
+    await writeCassette(path.join(dir, `${agentId}.json`), [
+      assistantMessage('Writing the file'),
+      resultMessage('success', { result: 'File written' }),
+    ]);
+
+    const executor = new AgentExecutor(undefined, undefined, { mode: 'replay', dir });
+    const result = await executor.execute(agentId);
+
+    expect(result.success).toBe(true);
+    expect(result.output).toBe('File written');
+    expect(result.tokensUsed).toBe(1500);
+    expect(result.costUsd).toBe(0.0123);
+  });
+
+  it('should report error result subtypes', async () => {
+    const agentId = await agentService.spawnAgent('implementer', 'Loop forever', 10000);
+    await writeCassette(path.join(dir, `${agentId}.json`), [
+      assistantMessage('Still going'),
+      resultMessage('error_max_turns', { errors: ['Reached max turns'] }),
+    ]);
+
+    const executor = new AgentExecutor(undefined, undefined, { mode: 'replay', dir });
+    const result = await executor.execute(agentId);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('error_max_turns');
+    expect(result.output).toContain('Still going');
+    expect(result.costUsd).toBe(0.0123);
+  });
+
+  it('should fail when the recorded stream threw', async () => {
+    const agentId = await agentService.spawnAgent('implementer', 'Flaky network', 10000);
+    await writeCassette(
+      path.join(dir, `${agentId}.json`),
+      [assistantMessage('Partial')],
+      'socket hang up'
+    );
+
+    const executor = new AgentExecutor(undefined, undefined, { mode: 'replay', dir });
+    const result = await executor.execute(agentId);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('socket hang up');
+    expect(result.output).toContain('Partial');
+  });
+});
@@ -0,0 +1,154 @@
+// Configure test environment before imports
+import '../setup/test-env-setup.js';
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { db } from '../../src/infrastructure/SharedDatabase.js';
+import { AgentService } from '../../src/services/AgentService.js';
+import { SharedQueue } from '../../src/infrastructure/SharedQueue.js';
+import {
+  createOrchestratorMcpTools,
+  ORCHESTRATOR_MCP_TOOLS,
+  type OrchestratorMcpTool,
+} from '../../src/execution/OrchestratorMcpServer.js';
+
+/**
+ * Integration Tests: Orchestrator MCP Server
+ *
+ * Tests verify that the in-process MCP tools offered to Claude Agent SDK
+ * sessions act on behalf of the calling agent:
+ * - Spawning children under the caller
+ * - Messaging relatives only
+ * - Budget and progress queries scoped to the caller
+ */
+
+async function callTool(
+  tools: OrchestratorMcpTool[],
+  name: string,
+  args: Record<string, unknown> = {}
+): Promise<{ data: unknown; isError: boolean }> {
+  const definition = tools.find(t => t.name === name);
+  if (!definition) {
+    throw new Error(`Tool ${name} not found`);
+  }
+
+  const result = (await definition.handler(args, {})) as {
+    content: Array<{ text: string }>;
+    isError?: boolean;
+  };
+  const text = result.content[0].text;
+
+  return result.isError ? { data: text, isError: true } : { data: JSON.parse(text), isError: false };
+}
+
+describe('Orchestrator MCP Server', () => {
+  let agentService: AgentService;
+  let queue: SharedQueue;
+  let parentId: string;
+
+  beforeAll(async () => {
+    await db.initialize();
+    agentService = new AgentService();
+    queue = new SharedQueue();
+  });
+
+  afterAll(async () => {
+    queue.stopCleanupScheduler();
+    await db.shutdown();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM agent_events');
+    await db.query('DELETE FROM messages');
+    await db.query('DELETE FROM hierarchies');
+    await db.query('DELETE FROM budgets');
+    await db.query('DELETE FROM agents');
+
+    parentId = await agentService.spawnAgent('architect', 'Coordinate the build', 20000);
+  });
+
+  it('should expose fully qualified tool names for allowedTools', () => {
+    const tools = createOrchestratorMcpTools(parentId, { queue });
+
+    expect(ORCHESTRATOR_MCP_TOOLS).toEqual(
+      tools.map(t => `mcp__orchestrator__${t.name}`)
+    );
+  });
+
+  it('should spawn children under the calling agent', async () => {
+    const tools = createOrchestratorMcpTools(parentId, { queue });
+
+    const { data, isError } = await callTool(tools, 'spawn_child', {
+      role: 'implementer',
+      task_description: 'Implement the parser',
+      budget: 5000,
+    });
+
+    expect(isError).toBe(false);
+    const childId = (data as { agent_id: string }).agent_id;
+    const child = await agentService.getAgentStatus(childId);
+    expect(child.parent_id).toBe(parentId);
+    expect(child.depth_level).toBe(1);
+
+    const relatives = await callTool(tools, 'list_relatives');
+    expect(relatives.data).toEqual({ parent: null, children: [childId], siblings: [] });
+  });
+
+  it('should message siblings and reject unrelated agents', async () => {
+    const parentTools = createOrchestratorMcpTools(parentId, { queue });
+    const first = await callTool(parentTools, 'spawn_child', {
+      role: 'implementer',
+      task_description: 'Write code',
+      budget: 3000,
+    });
+    const second = await callTool(parentTools, 'spawn_child', {
+      role: 'tester',
+      task_description: 'Write tests',
+      budget: 3000,
+    });
+    const implementerId = (first.data as { agent_id: string }).agent_id;
+    const testerId = (second.data as { agent_id: string }).agent_id;
+    const strangerId = await agentService.spawnAgent('stranger', 'Unrelated work', 1000);
+
+    const implementerTools = createOrchestratorMcpTools(implementerId, { queue });
+    const sent = await callTool(implementerTools, 'message_agent', {
+      to: testerId,
+      message: 'API is ready for testing',
+    });
+    expect(sent.isError).toBe(false);
+
+    const rejected = await callTool(implementerTools, 'message_agent', {
+      to: strangerId,
+      message: 'Hello?',
+    });
+    expect(rejected.isError).toBe(true);
+    expect(rejected.data).toContain('not your parent, child or sibling');
+
+    const testerTools = createOrchestratorMcpTools(testerId, { queue });
+    const inbox = await callTool(testerTools, 'read_inbox');
+    expect(inbox.data).toEqual([
+      expect.objectContaining({
+        from: implementerId,
+        payload: { type: 'message', content: 'API is ready for testing' },
+      }),
+    ]);
+  });
+
+  it('should report the calling agent budget and record progress', async () => {
+    const tools = createOrchestratorMcpTools(parentId, { queue });
+
+    const budget = await callTool(tools, 'get_budget');
+    expect(budget.data).toMatchObject({ tracked: true, allocated: 20000, used: 0 });
+
+    const progress = await callTool(tools, 'post_progress', {
+      message: 'Design drafted',
+      percent: 40,
+    });
+    expect(progress.data).toEqual({ recorded: true, workflow_node_id: null });
+
+    const events = await db.query<{ event_type: string; message: string }>(
+      'SELECT event_type, message FROM agent_events WHERE agent_id = $1',
+      [parentId]
+    );
+    expect(events.rows).toContainEqual({ event_type: 'progress', message: 'Design drafted' });
+  });
+});
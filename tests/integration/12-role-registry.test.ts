@@ -0,0 +1,132 @@
+// Configure test environment before imports
+import '../setup/test-env-setup.js';
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { db } from '../../src/infrastructure/SharedDatabase.js';
+import { AgentService } from '../../src/services/AgentService.js';
+import { RoleService } from '../../src/services/RoleService.js';
+import { RoleRepository } from '../../src/database/repositories/RoleRepository.js';
+
+/**
+ * Integration Tests: Role Registry
+ *
+ * Tests verify:
+ * - Seeded roles from the migration
+ * - Role CRUD with schema validation
+ * - Spawn-time validation (unknown, disabled roles)
+ * - Role default budget and execution settings
+ */
+
+describe('Role Registry', () => {
+  let strictRoles: RoleService;
+  let agentService: AgentService;
+
+  beforeAll(async () => {
+    await db.initialize();
+    strictRoles = new RoleService(new RoleRepository(), 'strict');
+    agentService = new AgentService(strictRoles);
+  });
+
+  afterAll(async () => {
+    await db.query("DELETE FROM agent_roles WHERE name LIKE 'test-%'");
+    await db.shutdown();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM hierarchies');
+    await db.query('DELETE FROM budgets');
+    await db.query('DELETE FROM agents');
+    await db.query("DELETE FROM agent_roles WHERE name LIKE 'test-%'");
+  });
+
+  it('should seed the built-in roles', async () => {
+    const names = (await strictRoles.listRoles()).map(role => role.name);
+
+    expect(names).toEqual(
+      expect.arrayContaining(['spec-writer', 'implementer', 'tester', 'reviewer', 'file-writer'])
+    );
+
+    const settings = await strictRoles.resolveSettings('file-writer');
+    expect(settings.model).toBe('claude-3-5-haiku-20241022');
+    expect(settings.registered).toBe(true);
+  });
+
+  it('should create, update and delete a role', async () => {
+    const created = await strictRoles.createRole({
+      name: 'test-auditor',
+      system_prompt: 'Audit the dependency tree.',
+      model: 'claude-3-5-haiku-20241022',
+      allowed_tools: ['Read', 'Grep'],
+      output_schema: { type: 'object', required: ['findings'] },
+    });
+
+    expect(created.max_turns).toBe(20);
+    expect(created.permission_mode).toBe('acceptEdits');
+    expect(created.allowed_tools).toEqual(['Read', 'Grep']);
+
+    await expect(
+      strictRoles.createRole({ name: 'test-auditor', system_prompt: 'Dup', model: 'm' })
+    ).rejects.toThrow('already exists');
+
+    const updated = await strictRoles.updateRole('test-auditor', {
+      max_turns: 5,
+      permission_mode: 'plan',
+    });
+    expect(updated?.max_turns).toBe(5);
+    expect(updated?.permission_mode).toBe('plan');
+
+    await expect(strictRoles.updateRole('test-auditor', { max_turns: 0 })).rejects.toThrow();
+
+    expect(await strictRoles.deleteRole('test-auditor')).toBe(true);
+    expect(await strictRoles.getRole('test-auditor')).toBeNull();
+  });
+
+  it('should reject invalid role definitions', async () => {
+    await expect(
+      strictRoles.createRole({ name: 'Test Role!', system_prompt: 'x', model: 'm' })
+    ).rejects.toThrow();
+    await expect(strictRoles.createRole({ name: 'test-empty' })).rejects.toThrow();
+  });
+
+  it('should reject unknown and disabled roles at spawn time', async () => {
+    await expect(agentService.spawnAgent('test-missing', 'Do work', 1000)).rejects.toThrow(
+      'Unknown agent role "test-missing"'
+    );
+
+    await strictRoles.createRole({
+      name: 'test-retired',
+      system_prompt: 'No longer used.',
+      model: 'claude-3-5-sonnet-20241022',
+      enabled: false,
+    });
+    await expect(agentService.spawnAgent('test-retired', 'Do work', 1000)).rejects.toThrow(
+      'is disabled'
+    );
+  });
+
+  it('should allow unknown roles in warn mode', async () => {
+    const lenientService = new AgentService(new RoleService(new RoleRepository(), 'warn'));
+
+    const agentId = await lenientService.spawnAgent('test-adhoc', 'Ad-hoc work', 1000);
+    const agent = await lenientService.getAgentStatus(agentId);
+
+    expect(agent.role).toBe('test-adhoc');
+  });
+
+  it('should apply the role default budget when none is given', async () => {
+    await strictRoles.createRole({
+      name: 'test-scout',
+      system_prompt: 'Scout ahead.',
+      model: 'claude-3-5-haiku-20241022',
+      default_budget: 4321,
+    });
+
+    const agentId = await agentService.spawnAgent('test-scout', 'Scout the repo');
+    const budget = await db.query<{ allocated: number }>(
+      'SELECT allocated FROM budgets WHERE agent_id = $1',
+      [agentId]
+    );
+
+    expect(budget.rows[0].allocated).toBe(4321);
+  });
+});
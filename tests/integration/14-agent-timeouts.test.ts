@@ -0,0 +1,224 @@
+// Configure test environment before imports
+import '../setup/test-env-setup.js';
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { AgentCore } from '../../src/core/AgentCore.js';
+import type { AgentTool } from '../../src/core/AgentTools.js';
+import { ExecutionDeadline, resolveAgentTimeoutMs } from '../../src/core/ExecutionDeadline.js';
+import { FakeModelProvider } from '../../src/core/FakeModelProvider.js';
+import { resolveOutputSchema } from '../../src/core/OutputSchema.js';
+import { AgentService } from '../../src/services/AgentService.js';
+import { resolveNodeModel } from '../../src/services/RoleService.js';
+import { WorkflowPoller } from '../../src/services/WorkflowPoller.js';
+import { WorkflowRepository } from '../../src/database/repositories/WorkflowRepository.js';
+import { db } from '../../src/infrastructure/SharedDatabase.js';
+import type { Agent as AgentModel } from '../../src/models/Agent.js';
+
+/**
+ * Integration Tests: Agent Execution Deadlines
+ *
+ * Tests verify:
+ * - ExecutionDeadline fires on time and tells timeouts from parent aborts
+ * - AgentCore stops at the deadline with finishReason 'timed_out' and partial output
+ * - WorkflowPoller retries timed-out nodes per their failure policy, then fails them
+ * - Retry agents keep the node's model, deadline, output schema and priority
+ */
+
+const testAgent: AgentModel = {
+  id: '00000000-0000-4000-8000-000000000001',
+  role: 'researcher',
+  status: 'executing',
+  depth_level: 0,
+  parent_id: null,
+  task_description: 'Summarize the findings',
+  created_at: new Date(),
+  updated_at: new Date(),
+  completed_at: null,
+};
+
+const echoTool: AgentTool = {
+  definition: {
+    name: 'echo',
+    description: 'Echo the input',
+    inputSchema: { type: 'object', properties: { text: { type: 'string' } } },
+  },
+  execute: (input) => Promise.resolve({ output: { echoed: input.text } }),
+};
+
+describe('ExecutionDeadline', () => {
+  it('should abort the signal when the deadline passes', async () => {
+    const deadline = new ExecutionDeadline(20);
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(deadline.signal.aborted).toBe(true);
+    expect(deadline.timedOut).toBe(true);
+    expect(String(deadline.signal.reason)).toContain('timed out after 20ms');
+    deadline.clear();
+  });
+
+  it('should forward parent aborts without reporting a timeout', () => {
+    const parent = new AbortController();
+    const deadline = new ExecutionDeadline(10_000, parent.signal);
+
+    parent.abort(new Error('Terminated'));
+
+    expect(deadline.signal.aborted).toBe(true);
+    expect(deadline.timedOut).toBe(false);
+    deadline.clear();
+  });
+});
+
+describe('AgentCore deadlines', () => {
+  it('should stop the tool-use loop at the deadline and keep partial output', async () => {
+    const provider = new FakeModelProvider([
+      {
+        content: 'Collected the first source',
+        toolCalls: [{ name: 'echo', input: { text: 'ping' } }],
+        usage: { inputTokens: 10, outputTokens: 5 },
+      },
+      { content: 'Never returned', delayMs: 5_000 },
+    ]);
+    const core = new AgentCore(provider, null);
+
+    const startedAt = Date.now();
+    const result = await core.execute(testAgent, [echoTool], { timeoutMs: 100 });
+
+    expect(Date.now() - startedAt).toBeLessThan(2_000);
+    expect(result.finishReason).toBe('timed_out');
+    expect(result.content).toBe('Collected the first source');
+    expect(result.tokensUsed).toBe(15);
+    expect(result.toolCalls).toEqual([{ name: 'echo', input: { text: 'ping' }, isError: false }]);
+  });
+
+  it('should rethrow parent aborts instead of timing out', async () => {
+    const provider = new FakeModelProvider([{ content: 'Never returned', delayMs: 5_000 }]);
+    const core = new AgentCore(provider, null);
+    const parent = new AbortController();
+
+    const pending = core.execute(testAgent, [], { timeoutMs: 10_000, signal: parent.signal });
+    parent.abort(new Error('Terminated by parent'));
+
+    await expect(pending).rejects.toThrow();
+  });
+
+  it('should end a stalled stream at the deadline', async () => {
+    const provider = new FakeModelProvider([
+      { content: 'Partial answer', chunks: ['Partial ', 'answer'], delayMs: 5_000 },
+    ]);
+    const core = new AgentCore(provider, null);
+
+    const result = await core.executeStreaming(testAgent, () => {}, { timeoutMs: 50 });
+
+    expect(result.finishReason).toBe('timed_out');
+    expect(result.content).toBe('');
+  });
+});
+
+describe('WorkflowPoller timeout handling', () => {
+  let agentService: AgentService;
+  let workflowRepo: WorkflowRepository;
+
+  beforeAll(async () => {
+    await db.initialize();
+    agentService = new AgentService();
+    workflowRepo = new WorkflowRepository();
+  });
+
+  afterAll(async () => {
+    await db.shutdown();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM workflow_nodes');
+    await db.query('DELETE FROM workflow_graphs');
+    await db.query('DELETE FROM hierarchies');
+    await db.query('DELETE FROM budgets');
+    await db.query('DELETE FROM agents');
+  });
+
+  const createTimedOutNode = async (metadata: Record<string, unknown> | null) => {
+    const graph = await workflowRepo.createGraph({
+      name: 'timeout-workflow',
+      description: 'Workflow with a slow node',
+      total_nodes: 1,
+      estimated_budget: 10000,
+    });
+
+    const agentId = await agentService.spawnAgent('implementer', 'Slow task', 10000);
+    await agentService.updateAgentStatus(agentId, 'executing');
+    await agentService.updateAgentStatus(agentId, 'timed_out');
+
+    const node = await workflowRepo.createNode({
+      workflow_graph_id: graph.id,
+      agent_id: agentId,
+      role: 'implementer',
+      task_description: 'Slow task',
+      budget_allocation: 10000,
+      dependencies: [],
+      execution_status: 'executing',
+      position: 0,
+      metadata,
+    });
+
+    return { graph, node, agentId };
+  };
+
+  it('should respawn the agent while failure policy retries remain', async () => {
+    const { node, agentId } = await createTimedOutNode({ failure_policy: { max_retries: 1 } });
+    const poller = new WorkflowPoller();
+
+    await poller.pollOnce();
+
+    const retried = await workflowRepo.findNodeById(node.id);
+    expect(retried?.execution_status).toBe('executing');
+    expect(retried?.agent_id).not.toBe(agentId);
+    expect(retried?.error_message).toBe('Agent timed out');
+    expect(retried?.metadata).toMatchObject({ retry_attempts: 1 });
+
+    await agentService.updateAgentStatus(retried!.agent_id!, 'executing');
+    await agentService.updateAgentStatus(retried!.agent_id!, 'timed_out');
+    await poller.pollOnce();
+
+    const failed = await workflowRepo.findNodeById(node.id);
+    expect(failed?.execution_status).toBe('failed');
+    expect(failed?.metadata).toMatchObject({ retry_attempts: 1 });
+  });
+
+  it('should give the retry agent the settings of the node', async () => {
+    const { node } = await createTimedOutNode({
+      timeout_ms: 5000,
+      priority: 'high',
+      output_schema: { type: 'object', properties: { summary: { type: 'string' } } },
+      failure_policy: { max_retries: 1, retry_model: 'claude-haiku' },
+    });
+    const poller = new WorkflowPoller();
+
+    await poller.pollOnce();
+
+    const { agent_id: retryAgentId } = (await workflowRepo.findNodeById(node.id))!;
+    await expect(resolveAgentTimeoutMs(retryAgentId!, null)).resolves.toBe(5000);
+    await expect(resolveNodeModel(retryAgentId!)).resolves.toBe('claude-haiku');
+    await expect(resolveOutputSchema(retryAgentId!, null)).resolves.not.toBeNull();
+
+    const priority = await db.query<{ priority: string }>(
+      'SELECT priority FROM agents WHERE id = $1',
+      [retryAgentId]
+    );
+    expect(priority.rows[0].priority).toBe('high');
+  });
+
+  it('should fail the node once retries are exhausted', async () => {
+    const { graph, node } = await createTimedOutNode(null);
+    const poller = new WorkflowPoller();
+
+    await poller.pollOnce();
+
+    const failed = await workflowRepo.findNodeById(node.id);
+    expect(failed?.execution_status).toBe('failed');
+    expect(failed?.error_message).toBe('Agent timed out');
+
+    const updatedGraph = await workflowRepo.findGraphById(graph.id);
+    expect(updatedGraph?.status).not.toBe('active');
+  });
+});
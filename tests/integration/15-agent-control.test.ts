@@ -0,0 +1,173 @@
+// Configure test environment before imports
+import '../setup/test-env-setup.js';
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, onTestFinished } from 'vitest';
+import { AgentControl } from '../../src/core/AgentControl.js';
+import { AgentCore } from '../../src/core/AgentCore.js';
+import { ExecutionDeadline } from '../../src/core/ExecutionDeadline.js';
+import { FakeModelProvider } from '../../src/core/FakeModelProvider.js';
+import { AgentRepository } from '../../src/database/repositories/AgentRepository.js';
+import { CheckpointRepository } from '../../src/database/repositories/CheckpointRepository.js';
+import { ControlCommandRepository } from '../../src/database/repositories/ControlCommandRepository.js';
+import { AgentService } from '../../src/services/AgentService.js';
+import { db } from '../../src/infrastructure/SharedDatabase.js';
+
+/**
+ * Integration Tests: Cooperative Pause/Resume
+ *
+ * Tests verify:
+ * - Deadlines stop while an agent is paused
+ * - AgentCore suspends before its next model turn, checkpoints the
+ *   conversation and continues from the latest checkpoint on resume
+ * - Control commands move pending -> executing -> executed
+ */
+
+const waitFor = async <T>(check: () => Promise<T | null | undefined>): Promise<T> => {
+  for (let attempt = 0; attempt < 200; attempt++) {
+    const value = await check();
+    if (value) {
+      return value;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  throw new Error('Condition not met in time');
+};
+
+describe('ExecutionDeadline suspension', () => {
+  it('should not expire while suspended', async () => {
+    const deadline = new ExecutionDeadline(40);
+
+    deadline.suspend();
+    await new Promise((resolve) => setTimeout(resolve, 80));
+    expect(deadline.signal.aborted).toBe(false);
+
+    deadline.resume();
+    await new Promise((resolve) => setTimeout(resolve, 80));
+    expect(deadline.timedOut).toBe(true);
+    deadline.clear();
+  });
+});
+
+describe('Agent Control', () => {
+  let agentService: AgentService;
+  let agentRepo: AgentRepository;
+  let commandRepo: ControlCommandRepository;
+  let checkpointRepo: CheckpointRepository;
+  let agentId: string;
+
+  beforeAll(async () => {
+    await db.initialize();
+    agentService = new AgentService();
+    agentRepo = new AgentRepository();
+    commandRepo = new ControlCommandRepository();
+    checkpointRepo = new CheckpointRepository();
+  });
+
+  afterAll(async () => {
+    await db.shutdown();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM agent_control_commands');
+    await db.query('DELETE FROM checkpoints');
+    await db.query('DELETE FROM agent_events');
+    await db.query('DELETE FROM hierarchies');
+    await db.query('DELETE FROM budgets');
+    await db.query('DELETE FROM agents');
+
+    agentId = await agentService.spawnAgent('researcher', 'Summarize the findings', 10000);
+  });
+
+  const setControlState = async (state: string): Promise<void> => {
+    await db.query('UPDATE agents SET control_state = $2 WHERE id = $1', [agentId, state]);
+  };
+
+  it('should pass through when the agent is running', async () => {
+    const control = new AgentControl(agentId, { pollIntervalMs: 10 });
+    const snapshot = (): Record<string, unknown> => {
+      throw new Error('Snapshot taken without a pause');
+    };
+
+    await expect(control.pauseIfRequested(snapshot)).resolves.toBeNull();
+  });
+
+  it('should pause before the next model turn and resume from the checkpoint', async () => {
+    const provider = new FakeModelProvider([{ content: 'Findings summarized' }]);
+    const core = new AgentCore(provider, null);
+    const control = new AgentControl(agentId, { pollIntervalMs: 10 });
+
+    await setControlState('paused');
+    await commandRepo.create({
+      agent_id: agentId,
+      command_type: 'pause',
+      issued_by: 'dashboard',
+      metadata: { reason: 'Review progress' },
+    });
+
+    const agent = await agentRepo.findById(agentId);
+    const execution = core.execute(agent, [], { control });
+    onTestFinished(async () => {
+      // Never leave the execution polling an agent the next test deletes
+      await setControlState('terminated');
+      await execution.catch(() => undefined);
+    });
+
+    // The pause command is marked executed once the checkpoint is stored
+    await waitFor(async () =>
+      (await commandRepo.findByAgentId(agentId)).find((command) => command.status === 'executed')
+    );
+    const checkpoint = (await checkpointRepo.findLatestByAgentId(agentId))!;
+    expect(checkpoint.label).toBe('pause');
+    expect(checkpoint.state_data.conversation).toEqual([
+      { role: 'user', content: 'Summarize the findings' },
+    ]);
+    expect(provider.requests).toHaveLength(0);
+
+    let commands = await commandRepo.findByAgentId(agentId);
+    expect(commands.map((command) => [command.command_type, command.status])).toEqual([
+      ['pause', 'executed'],
+    ]);
+    expect(commands[0].executed_at).toBeInstanceOf(Date);
+
+    // An operator adjusts the conversation before resuming
+    await checkpointRepo.create({
+      agent_id: agentId,
+      state_data: {
+        ...checkpoint.state_data,
+        conversation: [{ role: 'user', content: 'Summarize only the key findings' }],
+      },
+      label: 'edited',
+    });
+    await setControlState('running');
+    await commandRepo.create({ agent_id: agentId, command_type: 'resume', issued_by: 'dashboard' });
+
+    const result = await execution;
+    expect(result.content).toBe('Findings summarized');
+    expect(provider.requests[0].messages).toEqual([
+      { role: 'user', content: 'Summarize only the key findings' },
+    ]);
+
+    commands = await commandRepo.findByAgentId(agentId);
+    expect(commands.map((command) => [command.command_type, command.status])).toEqual([
+      ['pause', 'executed'],
+      ['resume', 'executed'],
+    ]);
+
+    const events = await db.query<{ event_type: string }>(
+      'SELECT event_type FROM agent_events WHERE agent_id = $1 ORDER BY timestamp',
+      [agentId]
+    );
+    expect(events.rows.map((row) => row.event_type)).toEqual(['paused', 'resumed']);
+  });
+
+  it('should stop waiting when the agent is terminated while paused', async () => {
+    const control = new AgentControl(agentId, { pollIntervalMs: 10 });
+    await setControlState('paused');
+
+    const pausing = control.pauseIfRequested(() => ({ status: 'executing' }));
+    await waitFor(() => checkpointRepo.findLatestByAgentId(agentId));
+    await setControlState('terminated');
+
+    await expect(pausing).rejects.toThrow('terminated while paused');
+  });
+});
@@ -0,0 +1,116 @@
+// Configure test environment before imports
+import '../setup/test-env-setup.js';
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { AgentControl } from '../../src/core/AgentControl.js';
+import { AgentCore } from '../../src/core/AgentCore.js';
+import { FakeModelProvider } from '../../src/core/FakeModelProvider.js';
+import { AgentRepository } from '../../src/database/repositories/AgentRepository.js';
+import { InterventionRepository } from '../../src/database/repositories/InterventionRepository.js';
+import { AgentService } from '../../src/services/AgentService.js';
+import { db } from '../../src/infrastructure/SharedDatabase.js';
+
+/**
+ * Integration Tests: Human Interventions
+ *
+ * Tests verify:
+ * - Unresolved interventions are injected into the agent's next model turn
+ * - The agent's reply marks them applied with a timestamp
+ * - Delivery and acknowledgement are recorded in the trace
+ */
+describe('Agent Interventions', () => {
+  let agentService: AgentService;
+  let agentRepo: AgentRepository;
+  let interventionRepo: InterventionRepository;
+  let agentId: string;
+
+  beforeAll(async () => {
+    await db.initialize();
+    agentService = new AgentService();
+    agentRepo = new AgentRepository();
+    interventionRepo = new InterventionRepository();
+  });
+
+  afterAll(async () => {
+    await db.shutdown();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM agent_interventions');
+    await db.query('DELETE FROM agent_events');
+    await db.query('DELETE FROM hierarchies');
+    await db.query('DELETE FROM budgets');
+    await db.query('DELETE FROM agents');
+
+    agentId = await agentService.spawnAgent('researcher', 'Summarize the findings', 10000);
+  });
+
+  it('should inject an intervention into the next turn and mark it applied', async () => {
+    const intervention = await interventionRepo.create({
+      agent_id: agentId,
+      intervened_by: 'dashboard_user',
+      message: 'Focus on the security findings',
+    });
+
+    const provider = new FakeModelProvider([{ content: 'Focusing on security findings' }]);
+    const core = new AgentCore(provider, null);
+    const control = new AgentControl(agentId);
+
+    const agent = await agentRepo.findById(agentId);
+    const result = await core.execute(agent, [], { control });
+    expect(result.content).toBe('Focusing on security findings');
+
+    const [request] = provider.requests;
+    expect(request.messages).toHaveLength(1);
+    expect(request.messages[0].content).toEqual([
+      { type: 'text', text: 'Summarize the findings' },
+      {
+        type: 'text',
+        text: expect.stringContaining(
+          'guidance from dashboard_user: Focus on the security findings'
+        ),
+      },
+    ]);
+
+    const [applied] = await interventionRepo.findByAgentId(agentId);
+    expect(applied.id).toBe(intervention.id);
+    expect(applied.resolution_status).toBe('applied');
+    expect(applied.agent_response).toBe('Focusing on security findings');
+    expect(applied.resolved_at).toBeInstanceOf(Date);
+    expect(applied.agent_acknowledged_at).toBeInstanceOf(Date);
+    await expect(interventionRepo.findUnresolved(agentId)).resolves.toEqual([]);
+
+    const events = await db.query<{ event_type: string }>(
+      'SELECT event_type FROM agent_events WHERE agent_id = $1 ORDER BY timestamp',
+      [agentId]
+    );
+    expect(events.rows.map((row) => row.event_type)).toEqual([
+      'intervention_delivered',
+      'intervention_applied',
+    ]);
+  });
+
+  it('should deliver each intervention once per execution', async () => {
+    await interventionRepo.create({
+      agent_id: agentId,
+      intervention_type: 'redirect',
+      intervened_by: 'Linear: Alex',
+      message: 'Use the staging data set',
+    });
+
+    const control = new AgentControl(agentId);
+    await expect(control.deliverInterventions()).resolves.toContain(
+      'redirect from Linear: Alex: Use the staging data set'
+    );
+    await expect(control.deliverInterventions()).resolves.toBeNull();
+    await expect(interventionRepo.findUnresolved(agentId)).resolves.toHaveLength(1);
+  });
+
+  it('should ignore acknowledgements when nothing was delivered', async () => {
+    const control = new AgentControl(agentId);
+    await control.acknowledgeInterventions('Nothing to acknowledge');
+
+    const events = await db.query('SELECT 1 FROM agent_events WHERE agent_id = $1', [agentId]);
+    expect(events.rowCount).toBe(0);
+  });
+});
@@ -0,0 +1,221 @@
+// Configure test environment before imports
+import '../setup/test-env-setup.js';
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { AgentCore } from '../../src/core/AgentCore.js';
+import { createOrchestrationTools } from '../../src/core/AgentTools.js';
+import { FakeModelProvider } from '../../src/core/FakeModelProvider.js';
+import { OutputSchema } from '../../src/core/OutputSchema.js';
+import { WorkflowRepository } from '../../src/database/repositories/WorkflowRepository.js';
+import { AgentService } from '../../src/services/AgentService.js';
+import { WorkflowPoller } from '../../src/services/WorkflowPoller.js';
+import { db } from '../../src/infrastructure/SharedDatabase.js';
+import type { Agent as AgentModel } from '../../src/models/Agent.js';
+
+/**
+ * Integration Tests: Structured Outputs
+ *
+ * Tests verify:
+ * - JSON schemas compile to validators with readable errors
+ * - AgentCore re-prompts with the validation errors until the output matches
+ * - Executions fail once the attempt limit is reached
+ * - WorkflowPoller stores the validated object as the node result
+ */
+
+const findingsSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string', minLength: 1 },
+    severity: { enum: ['low', 'medium', 'high'] },
+    findings: { type: 'array', items: { type: 'string' }, minItems: 1 },
+  },
+  required: ['summary', 'severity', 'findings'],
+  additionalProperties: false,
+};
+
+const testAgent: AgentModel = {
+  id: '00000000-0000-4000-8000-000000000002',
+  role: 'researcher',
+  status: 'executing',
+  depth_level: 0,
+  parent_id: null,
+  task_description: 'Summarize the findings',
+  created_at: new Date(),
+  updated_at: new Date(),
+  completed_at: null,
+};
+
+const validAnswer = {
+  summary: 'Two issues found',
+  severity: 'high',
+  findings: ['SQL injection', 'Open redirect'],
+};
+
+describe('OutputSchema', () => {
+  it('should validate objects against the schema', () => {
+    const schema = new OutputSchema(findingsSchema);
+
+    expect(schema.validate(validAnswer)).toEqual({ success: true, data: validAnswer });
+
+    const invalid = schema.validate({ summary: '', severity: 'critical', findings: [], extra: 1 });
+    expect(invalid.success).toBe(false);
+    if (!invalid.success) {
+      expect(invalid.errors.some((error) => error.startsWith('summary:'))).toBe(true);
+      expect(invalid.errors.some((error) => error.startsWith('severity:'))).toBe(true);
+      expect(invalid.errors.some((error) => error.startsWith('findings:'))).toBe(true);
+      expect(invalid.errors.some((error) => error.startsWith('(root):'))).toBe(true);
+    }
+  });
+
+  it('should extract JSON from text answers', () => {
+    const schema = new OutputSchema(findingsSchema);
+
+    const fenced = schema.validateText(
+      `Here is the result:\n\`\`\`json\n${JSON.stringify(validAnswer)}\n\`\`\``
+    );
+    expect(fenced).toEqual({ success: true, data: validAnswer });
+
+    const inline = schema.validateText(`Result: ${JSON.stringify(validAnswer)} done`);
+    expect(inline.success).toBe(true);
+
+    const prose = schema.validateText('I could not find anything');
+    expect(prose).toEqual({
+      success: false,
+      errors: ['(root): Answer does not contain a JSON object'],
+    });
+  });
+
+  it('should reject schemas without an object root', () => {
+    expect(() => new OutputSchema({ type: 'array' })).toThrow('must describe an object');
+    expect(
+      () => new OutputSchema({ type: 'object', properties: { at: { type: 'date' } } })
+    ).toThrow('Unsupported output schema type: date');
+  });
+});
+
+describe('AgentCore structured output', () => {
+  it('should re-prompt with validation errors until the output matches', async () => {
+    const provider = new FakeModelProvider([
+      { content: '{"summary": "Two issues found", "severity": "critical"}' },
+      { content: JSON.stringify(validAnswer) },
+    ]);
+    const core = new AgentCore(provider, null);
+    const outputSchema = new OutputSchema(findingsSchema, 3);
+
+    const result = await core.execute(testAgent, [], { outputSchema });
+    expect(result.structuredOutput).toEqual(validAnswer);
+
+    expect(provider.requests).toHaveLength(2);
+    expect(provider.requests[0].system).toContain('matching this JSON schema');
+
+    const retry = provider.requests[1].messages;
+    expect(retry).toHaveLength(3);
+    expect(retry[1]).toMatchObject({ role: 'assistant' });
+    expect(retry[2].role).toBe('user');
+    expect(retry[2].content).toContain('did not match the required output schema');
+    expect(retry[2].content).toContain('severity:');
+    expect(retry[2].content).toContain('findings:');
+  });
+
+  it('should validate report_result data as the structured output', async () => {
+    const provider = new FakeModelProvider([
+      {
+        content: '',
+        toolCalls: [
+          { name: 'report_result', input: { result: 'Done', data: { severity: 'low' } } },
+        ],
+      },
+      {
+        content: '',
+        toolCalls: [{ name: 'report_result', input: { result: 'Done', data: validAnswer } }],
+      },
+    ]);
+    const core = new AgentCore(provider, null);
+    const tools = createOrchestrationTools({
+      spawnSubordinate: () => Promise.reject(new Error('not used')),
+    });
+
+    const result = await core.execute(testAgent, tools, {
+      outputSchema: new OutputSchema(findingsSchema, 3),
+    });
+    expect(result.finishReason).toBe('report_result');
+    expect(result.structuredOutput).toEqual(validAnswer);
+    expect(provider.requests).toHaveLength(2);
+  });
+
+  it('should fail once the attempt limit is reached', async () => {
+    const provider = new FakeModelProvider([
+      { content: 'Two issues found' },
+      { content: '{"summary": "Two issues found"}' },
+    ]);
+    const core = new AgentCore(provider, null);
+
+    await expect(
+      core.execute(testAgent, [], { outputSchema: new OutputSchema(findingsSchema, 2) })
+    ).rejects.toThrow('Output did not match schema after 2 attempts');
+    expect(provider.requests).toHaveLength(2);
+  });
+});
+
+describe('Structured workflow node results', () => {
+  let agentService: AgentService;
+  let workflowRepo: WorkflowRepository;
+
+  beforeAll(async () => {
+    await db.initialize();
+    agentService = new AgentService();
+    workflowRepo = new WorkflowRepository();
+  });
+
+  afterAll(async () => {
+    await db.shutdown();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM workflow_nodes');
+    await db.query('DELETE FROM workflow_graphs');
+    await db.query('DELETE FROM agent_results');
+    await db.query('DELETE FROM hierarchies');
+    await db.query('DELETE FROM budgets');
+    await db.query('DELETE FROM agents');
+  });
+
+  it('should store the validated object as the node result', async () => {
+    const graph = await workflowRepo.createGraph({
+      name: 'structured-workflow',
+      description: 'Workflow with a schema node',
+      total_nodes: 1,
+      estimated_budget: 10000,
+    });
+
+    const agentId = await agentService.spawnAgent('researcher', 'Collect findings', 10000);
+    const node = await workflowRepo.createNode({
+      workflow_graph_id: graph.id,
+      agent_id: agentId,
+      role: 'researcher',
+      task_description: 'Collect findings',
+      budget_allocation: 10000,
+      dependencies: [],
+      execution_status: 'executing',
+      position: 0,
+      metadata: { output_schema: findingsSchema },
+    });
+
+    await agentService.recordResult({
+      agent_id: agentId,
+      outcome: 'completed',
+      finish_reason: 'end_turn',
+      output: JSON.stringify(validAnswer),
+      structured_output: validAnswer,
+      tokens_used: 200,
+    });
+    await agentService.updateAgentStatus(agentId, 'executing');
+    await agentService.updateAgentStatus(agentId, 'completed');
+
+    await new WorkflowPoller().pollOnce();
+
+    const completed = await workflowRepo.findNodeById(node.id);
+    expect(completed?.execution_status).toBe('completed');
+    expect(completed?.result).toEqual(validAnswer);
+  });
+});
@@ -0,0 +1,181 @@
+// Configure test environment before imports
+import '../setup/test-env-setup.js';
+
+import { describe, it, expect } from 'vitest';
+import Anthropic from '@anthropic-ai/sdk';
+import { AgentCore } from '../../src/core/AgentCore.js';
+import { FakeModelProvider } from '../../src/core/FakeModelProvider.js';
+import {
+  InvalidRequestError,
+  LLMConnectionError,
+  LLMServerError,
+  OverloadedError,
+  RateLimitError,
+  classifyLLMError,
+  parseRetryAfter,
+} from '../../src/core/LLMErrors.js';
+import { RetryPolicy } from '../../src/core/RetryPolicy.js';
+import { AgentTracer, type EventInfo } from '../../src/monitoring/AgentTracer.js';
+import type { Agent as AgentModel } from '../../src/models/Agent.js';
+
+/**
+ * Integration Tests: LLM Error Classification and Retries
+ *
+ * Tests verify:
+ * - Anthropic API errors are mapped to typed, retryable/non-retryable errors
+ * - retry-after headers and exponential backoff with jitter
+ * - AgentCore retries transient failures and traces every attempt
+ * - Invalid requests fail at once; streams are not retried after emitting text
+ */
+
+const testAgent: AgentModel = {
+  id: '00000000-0000-4000-8000-000000000003',
+  role: 'researcher',
+  status: 'executing',
+  depth_level: 0,
+  parent_id: null,
+  task_description: 'Summarize the findings',
+  created_at: new Date(),
+  updated_at: new Date(),
+  completed_at: null,
+};
+
+/**
+ * Tracer that keeps events in memory instead of writing agent_events
+ */
+class RecordingTracer extends AgentTracer {
+  events: EventInfo[] = [];
+
+  constructor() {
+    super(testAgent.id);
+  }
+
+  logEvent(info: EventInfo): Promise<void> {
+    this.events.push(info);
+    return Promise.resolve();
+  }
+}
+
+function apiError(status: number, headers: Record<string, string> = {}): Anthropic.APIError {
+  return Anthropic.APIError.generate(
+    status,
+    { type: 'error', error: { type: 'api_error', message: `status ${status}` } },
+    `status ${status}`,
+    headers
+  );
+}
+
+const fastRetries = (maxAttempts = 3): RetryPolicy =>
+  new RetryPolicy({ maxAttempts, baseDelayMs: 1, maxDelayMs: 10, jitter: 0 });
+
+describe('LLM error classification', () => {
+  it('should map API errors to typed errors', () => {
+    const rateLimited = classifyLLMError(apiError(429, { 'retry-after': '2' }));
+    expect(rateLimited).toBeInstanceOf(RateLimitError);
+    expect(rateLimited).toMatchObject({ status: 429, retryable: true, retryAfterMs: 2000 });
+
+    expect(classifyLLMError(apiError(529))).toBeInstanceOf(OverloadedError);
+    expect(classifyLLMError(apiError(503))).toBeInstanceOf(LLMServerError);
+    expect(classifyLLMError(new Anthropic.APIConnectionError({}))).toBeInstanceOf(
+      LLMConnectionError
+    );
+
+    const invalid = classifyLLMError(apiError(400));
+    expect(invalid).toBeInstanceOf(InvalidRequestError);
+    expect(invalid).toMatchObject({ retryable: false });
+    expect((invalid as Error).message).toContain('Anthropic API Error (400)');
+
+    const other = new Error('Unknown tool: foo');
+    expect(classifyLLMError(other)).toBe(other);
+  });
+
+  it('should parse retry-after headers', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+
+    expect(parseRetryAfter({ 'retry-after-ms': '1500' }, now)).toBe(1500);
+    expect(parseRetryAfter({ 'retry-after': '3' }, now)).toBe(3000);
+    expect(parseRetryAfter({ 'retry-after': 'Thu, 01 Jan 2026 00:00:05 GMT' }, now)).toBe(5000);
+    expect(parseRetryAfter({ 'retry-after': 'soon' }, now)).toBeNull();
+    expect(parseRetryAfter(undefined, now)).toBeNull();
+  });
+
+  it('should back off exponentially with jitter and honor retry-after', () => {
+    const policy = new RetryPolicy({
+      maxAttempts: 5,
+      baseDelayMs: 100,
+      maxDelayMs: 500,
+      jitter: 0.5,
+      random: () => 0.5,
+    });
+    const overloaded = classifyLLMError(apiError(529)) as OverloadedError;
+
+    expect([1, 2, 3, 4].map((attempt) => policy.delayFor(attempt, overloaded))).toEqual([
+      75, 150, 300, 375,
+    ]);
+
+    const rateLimited = classifyLLMError(apiError(429, { 'retry-after-ms': '1234' }));
+    expect(policy.delayFor(1, rateLimited as RateLimitError)).toBe(1234);
+  });
+});
+
+describe('AgentCore retries', () => {
+  it('should retry transient failures and trace each attempt', async () => {
+    const provider = new FakeModelProvider([
+      { content: '', error: apiError(529) },
+      { content: '', error: apiError(429, { 'retry-after-ms': '5' }) },
+      { content: 'Findings summarized' },
+    ]);
+    const core = new AgentCore(provider, null, fastRetries());
+    const tracer = new RecordingTracer();
+
+    const result = await core.execute(testAgent, [], { tracer });
+    expect(result.content).toBe('Findings summarized');
+    expect(provider.requests).toHaveLength(3);
+
+    expect(tracer.events.map((event) => event.message)).toEqual([
+      'Model call attempt 1/3 retrying',
+      'Model call attempt 2/3 retrying',
+      'Model call attempt 3/3 succeeded',
+    ]);
+    expect(tracer.events[0].data).toMatchObject({
+      errorKind: 'overloaded',
+      status: 529,
+      delayMs: 1,
+    });
+    expect(tracer.events[1].data).toMatchObject({ errorKind: 'rate_limit', delayMs: 5 });
+  });
+
+  it('should give up after the attempt limit with the typed error', async () => {
+    const provider = new FakeModelProvider([
+      { content: '', error: apiError(500) },
+      { content: '', error: apiError(500) },
+    ]);
+    const core = new AgentCore(provider, null, fastRetries(2));
+    const tracer = new RecordingTracer();
+
+    await expect(core.execute(testAgent, [], { tracer })).rejects.toBeInstanceOf(LLMServerError);
+    expect(tracer.events.at(-1)?.message).toBe('Model call attempt 2/2 failed');
+  });
+
+  it('should not retry invalid requests', async () => {
+    const provider = new FakeModelProvider([{ content: '', error: apiError(400) }]);
+    const core = new AgentCore(provider, null, fastRetries());
+
+    await expect(core.execute(testAgent)).rejects.toBeInstanceOf(InvalidRequestError);
+    expect(provider.requests).toHaveLength(1);
+  });
+
+  it('should retry a stream that failed before emitting text', async () => {
+    const provider = new FakeModelProvider([
+      { content: '', error: apiError(529) },
+      { content: 'Hello world', chunks: ['Hello ', 'world'] },
+    ]);
+    const core = new AgentCore(provider, null, fastRetries());
+    const chunks: string[] = [];
+
+    const result = await core.executeStreaming(testAgent, (chunk) => chunks.push(chunk));
+    expect(result.content).toBe('Hello world');
+    expect(chunks).toEqual(['Hello ', 'world']);
+    expect(provider.requests).toHaveLength(2);
+  });
+});
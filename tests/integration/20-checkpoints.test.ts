@@ -0,0 +1,180 @@
+// Configure test environment before imports
+import '../setup/test-env-setup.js';
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { AgentControl } from '../../src/core/AgentControl.js';
+import { AgentCore } from '../../src/core/AgentCore.js';
+import type { AgentTool } from '../../src/core/AgentTools.js';
+import { FakeModelProvider } from '../../src/core/FakeModelProvider.js';
+import { AgentRepository } from '../../src/database/repositories/AgentRepository.js';
+import { WorkspaceRepository } from '../../src/database/repositories/WorkspaceRepository.js';
+import { AgentService } from '../../src/services/AgentService.js';
+import { CheckpointService } from '../../src/services/CheckpointService.js';
+import { db } from '../../src/infrastructure/SharedDatabase.js';
+
+/**
+ * Integration Tests: Checkpoints
+ *
+ * Tests verify:
+ * - Snapshots include budget and subordinate subtasks
+ * - The checkpoint interval comes from the nearest workspace config
+ * - Executions save auto-checkpoints with conversation and tool history
+ * - Checkpoints can be listed, diffed and restored
+ * - An agent without a newer result resumes from its latest checkpoint
+ */
+describe('Checkpoints', () => {
+  let agentService: AgentService;
+  let agentRepo: AgentRepository;
+  let workspaceRepo: WorkspaceRepository;
+  let checkpointService: CheckpointService;
+  let agentId: string;
+
+  const echoTool: AgentTool = {
+    definition: {
+      name: 'echo',
+      description: 'Echo the input',
+      inputSchema: { type: 'object', properties: { text: { type: 'string' } } },
+    },
+    execute: (input) => Promise.resolve({ output: { echoed: input.text } }),
+  };
+
+  beforeAll(async () => {
+    await db.initialize();
+    agentService = new AgentService();
+    agentRepo = new AgentRepository();
+    workspaceRepo = new WorkspaceRepository();
+    checkpointService = new CheckpointService();
+  });
+
+  afterAll(async () => {
+    await db.shutdown();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM checkpoints');
+    await db.query('DELETE FROM agent_results');
+    await db.query('DELETE FROM agent_events');
+    await db.query('DELETE FROM workspaces');
+    await db.query('DELETE FROM hierarchies');
+    await db.query('DELETE FROM budgets');
+    await db.query('DELETE FROM agents');
+
+    agentId = await agentService.spawnAgent('researcher', 'Audit the repository', 10000);
+  });
+
+  it('should snapshot budget and subtasks with the execution state', async () => {
+    const done = await agentService.spawnAgent('coder', 'Scan dependencies', 2000, agentId);
+    await agentService.spawnAgent('coder', 'Review auth code', 2000, agentId);
+    await agentService.updateAgentStatus(done, 'executing');
+    await agentService.updateAgentStatus(done, 'completed');
+
+    const checkpoint = await checkpointService.createCheckpoint(
+      agentId,
+      { execution_step: 2, conversation: [{ role: 'user', content: 'Audit the repository' }] },
+      'manual'
+    );
+
+    expect(checkpoint.label).toBe('manual');
+    expect(checkpoint.state_data).toMatchObject({
+      task_description: 'Audit the repository',
+      execution_step: 2,
+      completed_subtasks: ['Scan dependencies'],
+      pending_subtasks: ['Review auth code'],
+      budget_snapshot: { token_limit: 10000 },
+      conversation: [{ role: 'user', content: 'Audit the repository' }],
+    });
+  });
+
+  it('should take the interval from the nearest workspace config', async () => {
+    const childId = await agentService.spawnAgent('coder', 'Scan dependencies', 2000, agentId);
+
+    await expect(checkpointService.getIntervalMs(childId)).resolves.toBe(30 * 60_000);
+
+    // spawnAgent already created the workspace wherever `git worktree add` works
+    if (!(await workspaceRepo.findByAgentId(agentId))) {
+      await workspaceRepo.create(agentId, `/tmp/worktrees/${agentId}`, `agent-${agentId}`);
+    }
+    await workspaceRepo.updateByAgentId(agentId, { config: { checkpoint_interval: 5 } });
+
+    await expect(checkpointService.getIntervalMs(childId)).resolves.toBe(5 * 60_000);
+  });
+
+  it('should auto-checkpoint a running execution', async () => {
+    const provider = new FakeModelProvider([
+      { content: 'Checking', toolCalls: [{ name: 'echo', input: { text: 'ping' } }], delayMs: 20 },
+      { content: 'Audit complete', delayMs: 20 },
+    ]);
+    const core = new AgentCore(provider, null);
+    const control = new AgentControl(agentId, { checkpointIntervalMs: 10 });
+
+    const agent = await agentRepo.findById(agentId);
+    const result = await core.execute(agent, [echoTool], { control });
+    expect(result.content).toBe('Audit complete');
+
+    const [checkpoint] = await checkpointService.listCheckpoints(agentId);
+    expect(checkpoint.label).toMatch(/^auto-checkpoint-/);
+    expect(checkpoint.state_data.execution_step).toBe(2);
+    expect(checkpoint.state_data.conversation).toHaveLength(3);
+    expect(checkpoint.state_data.tool_history).toEqual([
+      { tool: 'echo', timestamp: expect.any(String), result: '{"echoed":"ping"}' },
+    ]);
+
+    const events = await db.query<{ event_type: string }>(
+      'SELECT event_type FROM agent_events WHERE agent_id = $1',
+      [agentId]
+    );
+    expect(events.rows.map((row) => row.event_type)).toContain('checkpoint_saved');
+  });
+
+  it('should list, diff and restore checkpoints', async () => {
+    const first = await checkpointService.createCheckpoint(agentId, { execution_step: 1 }, 'one');
+    const second = await checkpointService.createCheckpoint(
+      agentId,
+      { execution_step: 2, partial_content: 'Half done' },
+      'two'
+    );
+
+    const listed = await checkpointService.listCheckpoints(agentId);
+    expect(listed.map((checkpoint) => checkpoint.label)).toEqual(['two', 'one']);
+
+    const diff = await checkpointService.diffCheckpoints(first.id, second.id);
+    expect(diff.added).toEqual(['partial_content']);
+    expect(diff.removed).toEqual([]);
+    expect(diff.changed).toEqual({ execution_step: { before: 1, after: 2 } });
+    expect(diff.timeDiff).toBeGreaterThanOrEqual(0);
+
+    const restored = await checkpointService.restoreCheckpoint(first.id);
+    expect(restored.label).toBe(`restore-${first.id}`);
+    expect(restored.state_data).toEqual(first.state_data);
+
+    const latest = await checkpointService.listCheckpoints(agentId, 1);
+    expect(latest[0].id).toBe(restored.id);
+
+    await expect(checkpointService.diffCheckpoints(first.id, agentId)).rejects.toThrow(
+      'Checkpoint not found'
+    );
+  });
+
+  it('should resume an interrupted execution from its latest checkpoint', async () => {
+    await expect(checkpointService.findResumePoint(agentId)).resolves.toBeNull();
+
+    const conversation = [
+      { role: 'user', content: 'Audit the repository' },
+      { role: 'assistant', content: 'Scanning' },
+      { role: 'user', content: 'Continue' },
+    ];
+    const checkpoint = await checkpointService.createCheckpoint(agentId, { conversation });
+
+    const resumeFrom = await checkpointService.findResumePoint(agentId);
+    expect(resumeFrom?.id).toBe(checkpoint.id);
+
+    const provider = new FakeModelProvider([{ content: 'Audit complete' }]);
+    const core = new AgentCore(provider, null);
+    const agent = await agentRepo.findById(agentId);
+    await core.execute(agent, [], { resumeFrom: resumeFrom ?? undefined });
+    expect(provider.requests[0].messages).toEqual(conversation);
+
+    await agentService.recordResult({ agent_id: agentId, outcome: 'completed', output: 'Done' });
+    await expect(checkpointService.findResumePoint(agentId)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,196 @@
+// Configure test environment before imports
+import '../setup/test-env-setup.js';
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { AgentRepository } from '../../src/database/repositories/AgentRepository.js';
+import { RecoveryAuditRepository } from '../../src/database/repositories/RecoveryAuditRepository.js';
+import { WorkflowRepository } from '../../src/database/repositories/WorkflowRepository.js';
+import { AgentService } from '../../src/services/AgentService.js';
+import { BudgetService } from '../../src/services/BudgetService.js';
+import { CheckpointService } from '../../src/services/CheckpointService.js';
+import { ReconciliationService } from '../../src/services/ReconciliationService.js';
+import { db } from '../../src/infrastructure/SharedDatabase.js';
+
+/**
+ * Integration Tests: Startup Reconciliation
+ *
+ * Tests verify:
+ * - Agents left executing are resumed from their checkpoint or requeued
+ * - The fail policy fails them and returns their budget to the parent
+ * - Workflow nodes whose spawn was interrupted are respawned or failed
+ * - Every decision is written to recovery_audit
+ */
+describe('Startup Reconciliation', () => {
+  let agentService: AgentService;
+  let agentRepo: AgentRepository;
+  let workflowRepo: WorkflowRepository;
+  let auditRepo: RecoveryAuditRepository;
+  let budgetService: BudgetService;
+  let checkpointService: CheckpointService;
+  let parentId: string;
+  let childId: string;
+
+  beforeAll(async () => {
+    await db.initialize();
+    agentService = new AgentService();
+    agentRepo = new AgentRepository();
+    workflowRepo = new WorkflowRepository();
+    auditRepo = new RecoveryAuditRepository();
+    budgetService = new BudgetService();
+    checkpointService = new CheckpointService();
+  });
+
+  afterAll(async () => {
+    await db.shutdown();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM recovery_audit');
+    await db.query('DELETE FROM checkpoints');
+    await db.query('DELETE FROM agent_results');
+    await db.query('DELETE FROM workflow_nodes');
+    await db.query('DELETE FROM workflow_graphs');
+    await db.query('DELETE FROM hierarchies');
+    await db.query('DELETE FROM budgets');
+    await db.query('DELETE FROM agents');
+
+    parentId = await agentService.spawnAgent('coordinator', 'Ship the release', 10000);
+    childId = await agentService.spawnAgent('coder', 'Fix the build', 4000, parentId);
+    await agentService.updateAgentStatus(childId, 'executing');
+  });
+
+  it('should resume an orphaned agent from its latest checkpoint', async () => {
+    const checkpoint = await checkpointService.createCheckpoint(
+      childId,
+      { conversation: [{ role: 'user', content: 'Fix the build' }] },
+      'pause'
+    );
+
+    const report = await new ReconciliationService('resume').reconcile();
+
+    expect(report.errors).toEqual([]);
+    expect(report.records).toHaveLength(1);
+    expect(report.records[0]).toMatchObject({
+      entity_type: 'agent',
+      entity_id: childId,
+      action: 'resumed',
+      previous_status: 'executing',
+      checkpoint_id: checkpoint.id,
+    });
+
+    const agent = await agentRepo.findById(childId);
+    expect(agent.status).toBe('pending');
+    await expect(checkpointService.findResumePoint(childId)).resolves.toMatchObject({
+      id: checkpoint.id,
+    });
+  });
+
+  it('should requeue an orphaned agent to start over', async () => {
+    await checkpointService.createCheckpoint(childId, {
+      conversation: [{ role: 'user', content: 'Fix the build' }],
+    });
+
+    const report = await new ReconciliationService('requeue').reconcile();
+
+    expect(report.records[0]).toMatchObject({ action: 'requeued', checkpoint_id: null });
+    expect((await agentRepo.findById(childId)).status).toBe('pending');
+    await expect(checkpointService.findResumePoint(childId)).resolves.toBeNull();
+
+    const interrupted = await agentService.getAgentResult(childId);
+    expect(interrupted).toMatchObject({ outcome: 'failed', finish_reason: 'interrupted' });
+  });
+
+  it('should fail an orphaned agent and release its budget', async () => {
+    const parentBefore = await budgetService.getBudget(parentId);
+    expect(parentBefore?.reserved).toBe(4000);
+
+    const report = await new ReconciliationService('fail').reconcile();
+
+    expect(report.records[0]).toMatchObject({
+      action: 'failed',
+      reason: 'Execution interrupted by an orchestrator restart',
+      released_tokens: 4000,
+    });
+    expect((await agentRepo.findById(childId)).status).toBe('failed');
+    expect((await budgetService.getBudget(parentId))?.reserved).toBe(0);
+
+    const audit = await auditRepo.findByEntityId(childId);
+    expect(audit.map((record) => record.action)).toEqual(['failed']);
+  });
+
+  it('should respawn a workflow node whose spawn was interrupted', async () => {
+    await agentService.updateAgentStatus(childId, 'completed');
+
+    const graph = await workflowRepo.createGraph({
+      name: 'release-workflow',
+      description: 'Build, then test',
+      total_nodes: 2,
+      estimated_budget: 6000,
+    });
+    const build = await workflowRepo.createNode({
+      workflow_graph_id: graph.id,
+      agent_id: childId,
+      role: 'coder',
+      task_description: 'Fix the build',
+      budget_allocation: 4000,
+      dependencies: [],
+      execution_status: 'completed',
+      position: 0,
+    });
+    const test = await workflowRepo.createNode({
+      workflow_graph_id: graph.id,
+      role: 'tester',
+      task_description: 'Run the test suite',
+      budget_allocation: 2000,
+      dependencies: [build.id],
+      execution_status: 'pending',
+      position: 1,
+    });
+
+    const report = await new ReconciliationService('resume').reconcile();
+
+    expect(report.errors).toEqual([]);
+    expect(report.records).toHaveLength(1);
+    expect(report.records[0]).toMatchObject({
+      entity_type: 'workflow_node',
+      entity_id: test.id,
+      action: 'respawned',
+      previous_status: 'pending',
+    });
+
+    const respawned = await workflowRepo.findNodeById(test.id);
+    expect(respawned?.execution_status).toBe('executing');
+    expect(respawned?.agent_id).toBe(report.records[0].agent_id);
+
+    const agent = await agentRepo.findById(respawned!.agent_id!);
+    expect(agent.parent_id).toBe(childId);
+  });
+
+  it('should fail interrupted nodes and the stalled workflow under the fail policy', async () => {
+    await agentService.updateAgentStatus(childId, 'completed');
+
+    const graph = await workflowRepo.createGraph({
+      name: 'release-workflow',
+      description: 'Single spawning node',
+      total_nodes: 1,
+      estimated_budget: 2000,
+    });
+    const node = await workflowRepo.createNode({
+      workflow_graph_id: graph.id,
+      role: 'tester',
+      task_description: 'Run the test suite',
+      budget_allocation: 2000,
+      dependencies: [],
+      execution_status: 'spawning',
+      position: 0,
+    });
+
+    const report = await new ReconciliationService('fail').reconcile();
+
+    expect(report.records[0]).toMatchObject({ entity_id: node.id, action: 'failed' });
+    expect((await workflowRepo.findNodeById(node.id))?.error_message).toBe(
+      'Execution interrupted by an orchestrator restart'
+    );
+    expect((await workflowRepo.findGraphById(graph.id))?.status).toBe('failed');
+  });
+});
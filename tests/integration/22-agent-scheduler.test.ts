@@ -0,0 +1,148 @@
+// Configure test environment before imports
+import '../setup/test-env-setup.js';
+
+import { describe, it, expect } from 'vitest';
+import type { QueuedAgent } from '../../src/database/repositories/AgentRepository.js';
+import type { AgentPriorityType } from '../../src/models/Agent.js';
+import { AgentScheduler, type ScheduledAgent } from '../../src/services/AgentScheduler.js';
+
+/**
+ * Integration Tests: Agent Scheduler
+ *
+ * Tests verify:
+ * - The global, per-tree and per-workflow concurrency limits
+ * - Higher priority classes start first
+ * - Trees take turns so one large tree cannot starve the others
+ * - Only agents marked as started use up their tree's turn
+ * - Queue depth and wait times are reported
+ */
+describe('Agent Scheduler', () => {
+  const now = Date.parse('2026-01-01T12:00:00Z');
+  let sequence = 0;
+
+  const queued = (
+    rootId: string,
+    waitedMs: number,
+    priority: AgentPriorityType = 'normal',
+    workflowId: string | null = null
+  ): QueuedAgent => ({
+    agentId: `agent-${++sequence}`,
+    rootId,
+    workflowId,
+    priority,
+    queuedAt: new Date(now - waitedMs),
+  });
+
+  const running = (rootId: string, workflowId: string | null = null): ScheduledAgent => ({
+    agentId: `running-${++sequence}`,
+    rootId,
+    workflowId,
+  });
+
+  it('should start no more agents than the global limit', () => {
+    const scheduler = new AgentScheduler({ maxConcurrent: 3, maxPerTree: 0, maxPerWorkflow: 0 });
+    const queue = [queued('a', 500), queued('b', 400), queued('c', 300), queued('d', 200)];
+
+    expect(scheduler.select(queue, [running('x')])).toHaveLength(2);
+    expect(scheduler.select(queue, [running('x'), running('y'), running('z')])).toEqual([]);
+  });
+
+  it('should respect per-tree and per-workflow limits', () => {
+    const scheduler = new AgentScheduler({ maxConcurrent: 10, maxPerTree: 2, maxPerWorkflow: 1 });
+    const queue = [
+      queued('tree-a', 900),
+      queued('tree-a', 800),
+      queued('tree-a', 700),
+      queued('tree-b', 600, 'normal', 'wf-1'),
+      queued('tree-b', 500, 'normal', 'wf-1'),
+    ];
+
+    const selected = scheduler.select(queue, [running('tree-a')]);
+
+    expect(selected.map((agent) => agent.agentId)).toEqual([queue[0].agentId, queue[3].agentId]);
+  });
+
+  it('should start higher priority classes first', () => {
+    const scheduler = new AgentScheduler({ maxConcurrent: 2, maxPerTree: 0, maxPerWorkflow: 0 });
+    const queue = [queued('a', 900, 'low'), queued('b', 800, 'normal'), queued('c', 100, 'high')];
+
+    const selected = scheduler.select(queue, []);
+
+    expect(selected.map((agent) => agent.priority)).toEqual(['high', 'normal']);
+  });
+
+  it('should let lower classes start when higher ones are at their limits', () => {
+    const scheduler = new AgentScheduler({ maxConcurrent: 5, maxPerTree: 1, maxPerWorkflow: 0 });
+    const queue = [queued('busy', 900, 'high'), queued('idle', 100, 'low')];
+
+    const selected = scheduler.select(queue, [running('busy')]);
+
+    expect(selected.map((agent) => agent.rootId)).toEqual(['idle']);
+  });
+
+  it('should take turns across trees', () => {
+    const scheduler = new AgentScheduler({ maxConcurrent: 4, maxPerTree: 0, maxPerWorkflow: 0 });
+    const queue = [
+      queued('large', 900),
+      queued('large', 850),
+      queued('large', 800),
+      queued('large', 750),
+      queued('small-1', 100),
+      queued('small-2', 50),
+    ];
+
+    const selected = scheduler.select(queue, []);
+
+    expect(selected.map((agent) => agent.rootId)).toEqual(['large', 'small-1', 'small-2', 'large']);
+  });
+
+  it('should serve the tree that waited longest for its turn on the next pass', () => {
+    const scheduler = new AgentScheduler({ maxConcurrent: 1, maxPerTree: 0, maxPerWorkflow: 0 });
+    const large = [queued('large', 900), queued('large', 800)];
+    const small = queued('small', 100);
+
+    const first = scheduler.select([...large, small], []);
+    scheduler.markStarted(first, now);
+    const second = scheduler.select([large[1], small], [running('large')]);
+    const third = scheduler.select([large[1], small], []);
+
+    expect(first.map((agent) => agent.rootId)).toEqual(['large']);
+    expect(second).toEqual([]);
+    expect(third.map((agent) => agent.rootId)).toEqual(['small']);
+  });
+
+  it('should keep the turn of a tree whose agent was not started', () => {
+    const scheduler = new AgentScheduler({ maxConcurrent: 1, maxPerTree: 0, maxPerWorkflow: 0 });
+    const large = [queued('large', 900), queued('large', 800)];
+    const small = queued('small', 100);
+
+    // Another worker claimed the selected agent first
+    const [claimedElsewhere] = scheduler.select([...large, small], []);
+    const next = scheduler.select([large[1], small], []);
+
+    expect(claimedElsewhere).toBe(large[0]);
+    expect(next).toEqual([large[1]]);
+    expect(scheduler.stats([large[1], small], now).started).toBe(0);
+  });
+
+  it('should report queue depth and wait times', () => {
+    const scheduler = new AgentScheduler({ maxConcurrent: 1, maxPerTree: 0, maxPerWorkflow: 0 });
+    const queue = [queued('a', 3000, 'high'), queued('b', 1000), queued('c', 2000, 'low')];
+
+    const [started] = scheduler.select(queue, []);
+    scheduler.markStarted([started], now);
+    const stats = scheduler.stats(
+      queue.filter((agent) => agent !== started),
+      now
+    );
+
+    expect(stats).toEqual({
+      depth: 2,
+      depthByPriority: { high: 0, normal: 1, low: 1 },
+      oldestWaitMs: 2000,
+      averageWaitMs: 1500,
+      started: 1,
+      averageStartWaitMs: 3000,
+    });
+  });
+});
@@ -0,0 +1,153 @@
+// Configure test environment before imports
+import '../setup/test-env-setup.js';
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { AgentRepository } from '../../src/database/repositories/AgentRepository.js';
+import { RecoveryAuditRepository } from '../../src/database/repositories/RecoveryAuditRepository.js';
+import { WorkerLeaseRepository } from '../../src/database/repositories/WorkerLeaseRepository.js';
+import { WorkflowRepository } from '../../src/database/repositories/WorkflowRepository.js';
+import { AgentService } from '../../src/services/AgentService.js';
+import { ReconciliationService } from '../../src/services/ReconciliationService.js';
+import { WorkerLeaseService } from '../../src/services/WorkerLeaseService.js';
+import { db } from '../../src/infrastructure/SharedDatabase.js';
+
+/**
+ * Integration Tests: Worker Leasing
+ *
+ * Tests verify:
+ * - Concurrent claims by two workers never hand out the same agent
+ * - Claimed agents leave the queue of the other workers
+ * - Workflow graph leases are exclusive until they expire
+ * - Heartbeats extend leases
+ * - Agents of expired leases are reclaimed with the recovery policy
+ * - Startup reconciliation leaves agents leased by live workers alone
+ */
+describe('Worker Leasing', () => {
+  let agentService: AgentService;
+  let agentRepo: AgentRepository;
+  let leaseRepo: WorkerLeaseRepository;
+  let auditRepo: RecoveryAuditRepository;
+  let workflowRepo: WorkflowRepository;
+  let workerA: WorkerLeaseService;
+  let workerB: WorkerLeaseService;
+  let agentIds: string[];
+
+  const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  beforeAll(async () => {
+    await db.initialize();
+    agentService = new AgentService();
+    agentRepo = new AgentRepository();
+    leaseRepo = new WorkerLeaseRepository();
+    auditRepo = new RecoveryAuditRepository();
+    workflowRepo = new WorkflowRepository();
+  });
+
+  afterAll(async () => {
+    await db.shutdown();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM worker_leases');
+    await db.query('DELETE FROM recovery_audit');
+    await db.query('DELETE FROM agent_results');
+    await db.query('DELETE FROM workflow_nodes');
+    await db.query('DELETE FROM workflow_graphs');
+    await db.query('DELETE FROM hierarchies');
+    await db.query('DELETE FROM budgets');
+    await db.query('DELETE FROM agents');
+
+    workerA = new WorkerLeaseService({ workerId: 'worker-a', ttlMs: 60000 });
+    workerB = new WorkerLeaseService({ workerId: 'worker-b', ttlMs: 60000 });
+
+    agentIds = [];
+    for (let i = 0; i < 6; i++) {
+      agentIds.push(await agentService.spawnAgent('coder', `Task ${i}`, 1000));
+    }
+  });
+
+  it('should never claim an agent for two workers', async () => {
+    const [claimedA, claimedB] = await Promise.all([
+      workerA.claimAgents(agentIds),
+      workerB.claimAgents(agentIds),
+    ]);
+
+    expect(claimedA.filter((id) => claimedB.includes(id))).toEqual([]);
+    expect([...claimedA, ...claimedB].sort()).toEqual([...agentIds].sort());
+  });
+
+  it('should leave claimed agents out of the queue', async () => {
+    const claimed = await workerA.claimAgents(agentIds.slice(0, 2));
+    expect(claimed).toEqual(agentIds.slice(0, 2));
+
+    const queue = await agentRepo.findQueued();
+    expect(queue.map((agent) => agent.agentId).sort()).toEqual(agentIds.slice(2).sort());
+    await expect(workerB.claimAgents(agentIds.slice(0, 2))).resolves.toEqual([]);
+  });
+
+  it('should hold a workflow graph lease until it expires', async () => {
+    const shortLived = new WorkerLeaseService({ workerId: 'worker-c', ttlMs: 50 });
+    const graph = await workflowRepo.createGraph({
+      name: 'leased-workflow',
+      description: 'Polled by one worker at a time',
+      total_nodes: 0,
+      estimated_budget: 0,
+    });
+
+    await expect(shortLived.acquire('workflow_graph', graph.id)).resolves.toBe(true);
+    await expect(shortLived.acquire('workflow_graph', graph.id)).resolves.toBe(true);
+    await expect(workerA.acquire('workflow_graph', graph.id)).resolves.toBe(false);
+
+    await sleep(100);
+
+    await expect(workerA.acquire('workflow_graph', graph.id)).resolves.toBe(true);
+    await expect(shortLived.acquire('workflow_graph', graph.id)).resolves.toBe(false);
+  });
+
+  it('should extend leases on heartbeat', async () => {
+    const shortLived = new WorkerLeaseService({ workerId: 'worker-c', ttlMs: 150 });
+    await shortLived.claimAgents([agentIds[0]]);
+    const [before] = await leaseRepo.findLive('agent');
+
+    await sleep(100);
+    await expect(shortLived.heartbeat()).resolves.toBe(1);
+    await sleep(100);
+
+    const [after] = await leaseRepo.findLive('agent');
+    expect(after.resource_id).toBe(agentIds[0]);
+    expect(after.expires_at.getTime()).toBeGreaterThan(before.expires_at.getTime());
+  });
+
+  it('should reclaim agents whose lease expired while executing', async () => {
+    const crashed = new WorkerLeaseService({ workerId: 'worker-crashed', ttlMs: 50 });
+    await crashed.claimAgents([agentIds[0], agentIds[1]]);
+    await agentService.updateAgentStatus(agentIds[0], 'executing');
+
+    await sleep(100);
+
+    const records = await workerA.reclaimExpired();
+
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({ entity_id: agentIds[0], action: 'requeued' });
+    expect(records[0].reason).toContain('Lease of worker worker-crashed expired');
+    expect((await agentRepo.findById(agentIds[0])).status).toBe('pending');
+    expect((await agentRepo.findById(agentIds[1])).status).toBe('pending');
+
+    // Each expired lease is reclaimed once
+    await expect(workerB.reclaimExpired()).resolves.toEqual([]);
+    await expect(leaseRepo.findLive('agent')).resolves.toEqual([]);
+    expect(await agentRepo.findQueued()).toHaveLength(6);
+  });
+
+  it('should leave agents leased by live workers out of startup reconciliation', async () => {
+    await workerA.claimAgents([agentIds[0]]);
+    await agentService.updateAgentStatus(agentIds[0], 'executing');
+    await agentService.updateAgentStatus(agentIds[1], 'executing');
+
+    const report = await new ReconciliationService('requeue').reconcile();
+
+    expect(report.records.map((record) => record.entity_id)).toEqual([agentIds[1]]);
+    expect((await agentRepo.findById(agentIds[0])).status).toBe('executing');
+    await expect(auditRepo.findByEntityId(agentIds[0])).resolves.toEqual([]);
+  });
+});
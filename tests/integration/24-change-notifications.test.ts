@@ -0,0 +1,166 @@
+// Configure test environment before imports
+import '../setup/test-env-setup.js';
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { MessageRepository } from '../../src/database/repositories/MessageRepository.js';
+import { WorkflowRepository } from '../../src/database/repositories/WorkflowRepository.js';
+import { AgentService } from '../../src/services/AgentService.js';
+import {
+  db,
+  type NotificationChannel,
+  type NotificationPayloads,
+} from '../../src/infrastructure/SharedDatabase.js';
+
+/**
+ * Integration Tests: Change Notifications
+ *
+ * Tests verify:
+ * - Triggers NOTIFY on new pending agents and agent status changes
+ * - Workflow node transitions and new messages are announced
+ * - The shared listener delivers payloads to every subscriber of a channel
+ * - Unsubscribed handlers receive nothing
+ */
+describe('Change Notifications', () => {
+  let agentService: AgentService;
+  let workflowRepo: WorkflowRepository;
+  let messageRepo: MessageRepository;
+
+  /**
+   * Resolve with the first notification on a channel matching the predicate
+   */
+  const nextNotification = <C extends NotificationChannel>(
+    channel: C,
+    matches: (payload: NotificationPayloads[C]) => boolean = () => true
+  ): Promise<NotificationPayloads[C]> =>
+    new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        unsubscribe();
+        reject(new Error(`No ${channel} notification received`));
+      }, 5000);
+      const unsubscribe = db.subscribe(channel, (payload) => {
+        if (matches(payload)) {
+          clearTimeout(timer);
+          unsubscribe();
+          resolve(payload);
+        }
+      });
+    });
+
+  const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  beforeAll(async () => {
+    await db.initialize();
+    agentService = new AgentService();
+    workflowRepo = new WorkflowRepository();
+    messageRepo = new MessageRepository();
+  });
+
+  afterAll(async () => {
+    await db.shutdown();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM messages');
+    await db.query('DELETE FROM workflow_nodes');
+    await db.query('DELETE FROM workflow_graphs');
+    await db.query('DELETE FROM hierarchies');
+    await db.query('DELETE FROM budgets');
+    await db.query('DELETE FROM agents');
+  });
+
+  it('should announce new pending agents', async () => {
+    const pending = nextNotification('agent_pending');
+    const inserted = nextNotification('agent_status_changed');
+    await sleep(200); // let the listener connect
+
+    const agentId = await agentService.spawnAgent('coder', 'Write the parser', 1000);
+
+    await expect(pending).resolves.toEqual({ agent_id: agentId, parent_id: null });
+    await expect(inserted).resolves.toEqual({
+      agent_id: agentId,
+      parent_id: null,
+      status: 'pending',
+      previous_status: null,
+    });
+  });
+
+  it('should announce status changes with the previous status', async () => {
+    const agentId = await agentService.spawnAgent('coder', 'Write the parser', 1000);
+    const changed = nextNotification(
+      'agent_status_changed',
+      (change) => change.status === 'executing'
+    );
+    await sleep(200);
+
+    await agentService.updateAgentStatus(agentId, 'executing');
+
+    await expect(changed).resolves.toMatchObject({
+      agent_id: agentId,
+      status: 'executing',
+      previous_status: 'pending',
+    });
+  });
+
+  it('should announce workflow node transitions', async () => {
+    const graph = await workflowRepo.createGraph({
+      name: 'notified-workflow',
+      description: 'Node transitions are announced',
+      total_nodes: 1,
+      estimated_budget: 1000,
+    });
+    const node = await workflowRepo.createNode({
+      workflow_graph_id: graph.id,
+      role: 'coder',
+      task_description: 'Write the parser',
+      budget_allocation: 1000,
+      dependencies: [],
+      execution_status: 'pending',
+      position: 0,
+    });
+    const changed = nextNotification('workflow_node_changed');
+    await sleep(200);
+
+    await workflowRepo.updateNode(node.id, { execution_status: 'ready' });
+
+    await expect(changed).resolves.toEqual({
+      node_id: node.id,
+      workflow_graph_id: graph.id,
+      agent_id: null,
+      execution_status: 'ready',
+      previous_status: 'pending',
+    });
+  });
+
+  it('should deliver new messages to every subscriber', async () => {
+    const sender = await agentService.spawnAgent('coordinator', 'Plan the work', 2000);
+    const recipient = await agentService.spawnAgent('coder', 'Write the parser', 1000);
+    const first = nextNotification('message_created');
+    const second = nextNotification('message_created');
+    await sleep(200);
+
+    const message = await messageRepo.create(sender, recipient, { text: 'Start now' });
+
+    const expected = {
+      message_id: message.id,
+      sender_id: sender,
+      recipient_id: recipient,
+      thread_id: null,
+    };
+    await expect(first).resolves.toEqual(expected);
+    await expect(second).resolves.toEqual(expected);
+  });
+
+  it('should stop delivering after unsubscribing', async () => {
+    const received: string[] = [];
+    const unsubscribe = db.subscribe('agent_pending', ({ agent_id }) => received.push(agent_id));
+    await sleep(200);
+
+    const first = await agentService.spawnAgent('coder', 'First task', 1000);
+    await sleep(300);
+    unsubscribe();
+    await agentService.spawnAgent('coder', 'Second task', 1000);
+    await sleep(300);
+
+    expect(received).toEqual([first]);
+  });
+});
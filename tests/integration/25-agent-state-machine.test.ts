@@ -0,0 +1,170 @@
+// Configure test environment before imports
+import '../setup/test-env-setup.js';
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { AgentControl } from '../../src/core/AgentControl.js';
+import { AgentRepository } from '../../src/database/repositories/AgentRepository.js';
+import { CheckpointRepository } from '../../src/database/repositories/CheckpointRepository.js';
+import { AgentService } from '../../src/services/AgentService.js';
+import {
+  AgentStateMachine,
+  InvalidAgentTransitionError,
+  canTransition,
+} from '../../src/services/AgentStateMachine.js';
+import { ReconciliationService } from '../../src/services/ReconciliationService.js';
+import { db } from '../../src/infrastructure/SharedDatabase.js';
+
+/**
+ * Integration Tests: Agent State Machine
+ *
+ * Tests verify:
+ * - Every status change is recorded with its actor and reason
+ * - Illegal transitions are rejected by every writer and leave no trace
+ * - Pausing moves an agent to 'paused' and back to the status it paused in
+ * - Agents paused mid-execution by a crashed process are reconciled
+ */
+
+const waitFor = async <T>(check: () => Promise<T | null | undefined>): Promise<T> => {
+  for (let attempt = 0; attempt < 200; attempt++) {
+    const value = await check();
+    if (value) {
+      return value;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  throw new Error('Condition not met in time');
+};
+
+describe('Agent State Machine', () => {
+  let agentService: AgentService;
+  let agentRepo: AgentRepository;
+  let checkpointRepo: CheckpointRepository;
+  let stateMachine: AgentStateMachine;
+  let agentId: string;
+
+  beforeAll(async () => {
+    await db.initialize();
+    agentService = new AgentService();
+    agentRepo = new AgentRepository();
+    checkpointRepo = new CheckpointRepository();
+    stateMachine = new AgentStateMachine();
+  });
+
+  afterAll(async () => {
+    await db.shutdown();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM agent_status_transitions');
+    await db.query('DELETE FROM recovery_audit');
+    await db.query('DELETE FROM agent_control_commands');
+    await db.query('DELETE FROM checkpoints');
+    await db.query('DELETE FROM agent_results');
+    await db.query('DELETE FROM agent_events');
+    await db.query('DELETE FROM hierarchies');
+    await db.query('DELETE FROM budgets');
+    await db.query('DELETE FROM agents');
+
+    agentId = await agentService.spawnAgent('researcher', 'Summarize the findings', 10000);
+  });
+
+  it('should record each status change with its actor and reason', async () => {
+    await agentService.updateAgentStatus(agentId, 'executing', undefined, undefined, {
+      actor: 'worker:test',
+    });
+    await agentService.updateAgentStatus(agentId, 'failed', undefined, 'Tool crashed', {
+      actor: 'worker:test',
+    });
+
+    const history = await stateMachine.getHistory(agentId);
+    expect(
+      history.map((entry) => [entry.from_status, entry.to_status, entry.actor, entry.reason])
+    ).toEqual([
+      ['pending', 'executing', 'worker:test', null],
+      ['executing', 'failed', 'worker:test', 'Tool crashed'],
+    ]);
+    expect((await agentRepo.findById(agentId)).completed_at).toBeInstanceOf(Date);
+  });
+
+  it('should treat setting the current status as a no-op', async () => {
+    await expect(
+      stateMachine.transition(agentId, 'pending', { actor: 'test' })
+    ).resolves.toBeNull();
+    await expect(stateMachine.getHistory(agentId)).resolves.toEqual([]);
+  });
+
+  it('should reject illegal transitions from every writer', async () => {
+    await agentService.updateAgentStatus(agentId, 'completed');
+
+    expect(canTransition('completed', 'executing')).toBe(false);
+    await expect(
+      stateMachine.transition(agentId, 'executing', { actor: 'test' })
+    ).rejects.toBeInstanceOf(InvalidAgentTransitionError);
+    await expect(agentService.updateAgentStatus(agentId, 'pending')).rejects.toThrow(
+      'Invalid state transition'
+    );
+    await expect(agentRepo.update(agentId, { status: 'failed' })).rejects.toBeInstanceOf(
+      InvalidAgentTransitionError
+    );
+
+    const agent = await agentRepo.findById(agentId);
+    expect(agent.status).toBe('completed');
+    const history = await stateMachine.getHistory(agentId);
+    expect(history.map((entry) => entry.to_status)).toEqual(['completed']);
+  });
+
+  it('should only claim an agent in one of the expected statuses', async () => {
+    await agentService.updateAgentStatus(agentId, 'executing');
+
+    await expect(agentService.runAgent(agentId)).rejects.toThrow(
+      `Agent ${agentId} is executing, not pending`
+    );
+    const history = await stateMachine.getHistory(agentId);
+    expect(history).toHaveLength(1);
+  });
+
+  it('should pause at a safe point and return to the status it paused in', async () => {
+    await agentService.updateAgentStatus(agentId, 'executing');
+    await db.query(`UPDATE agents SET control_state = 'paused' WHERE id = $1`, [agentId]);
+    const control = new AgentControl(agentId, { pollIntervalMs: 10 });
+
+    const pausing = control.pauseIfRequested(() => ({ step: 1 }));
+    await waitFor(() => checkpointRepo.findLatestByAgentId(agentId));
+    await waitFor(async () => (await agentRepo.findById(agentId)).status === 'paused');
+    await expect(stateMachine.getStatusBeforePause(agentId)).resolves.toBe('executing');
+
+    await db.query(`UPDATE agents SET control_state = 'running' WHERE id = $1`, [agentId]);
+    await pausing;
+
+    expect((await agentRepo.findById(agentId)).status).toBe('executing');
+    const history = await stateMachine.getHistory(agentId);
+    expect(history.map((entry) => [entry.from_status, entry.to_status])).toEqual([
+      ['pending', 'executing'],
+      ['executing', 'paused'],
+      ['paused', 'executing'],
+    ]);
+  });
+
+  it('should requeue agents paused mid-execution on startup but not held agents', async () => {
+    const heldId = await agentService.spawnAgent('researcher', 'Wait for review', 10000);
+    await stateMachine.transition(heldId, 'paused', { actor: 'dashboard', reason: 'Review' });
+
+    await agentService.updateAgentStatus(agentId, 'executing');
+    await stateMachine.transition(agentId, 'paused', { actor: 'agent' });
+
+    const report = await new ReconciliationService('requeue').reconcile();
+
+    expect(report.records.map((record) => [record.entity_id, record.previous_status])).toEqual([
+      [agentId, 'paused'],
+    ]);
+    expect((await agentRepo.findById(agentId)).status).toBe('pending');
+    expect((await agentRepo.findById(heldId)).status).toBe('paused');
+
+    const latest = (await stateMachine.getHistory(agentId)).at(-1);
+    expect(latest).toMatchObject({
+      from_status: 'paused',
+      to_status: 'pending',
+      actor: 'reconciliation',
+    });
+  });
+});
@@ -0,0 +1,221 @@
+// Configure test environment before imports
+import '../setup/test-env-setup.js';
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { AgentService } from '../../src/services/AgentService.js';
+import { NotificationService } from '../../src/services/NotificationService.js';
+import { LinearSyncService } from '../../src/integrations/LinearSyncService.js';
+import {
+  EventBus,
+  eventBus,
+  type OrchestrationEvent,
+  type OrchestrationEventName,
+  type OrchestrationEvents,
+} from '../../src/infrastructure/EventBus.js';
+import { db } from '../../src/infrastructure/SharedDatabase.js';
+
+/**
+ * Integration Tests: Event Bus
+ *
+ * Tests verify:
+ * - Services emit typed lifecycle events (spawn, status change, budget threshold)
+ * - A failing subscriber affects neither the emitter nor other subscribers
+ * - Connected buses share events across processes; local-only subscribers skip them
+ * - Linear sync and notifications are driven by events
+ */
+describe('Event Bus', () => {
+  let agentService: AgentService;
+  let unsubscribers: Array<() => void>;
+
+  /**
+   * Resolve with the first event matching the predicate
+   */
+  const nextEvent = <E extends OrchestrationEventName>(
+    event: E,
+    matches: (payload: OrchestrationEvents[E]) => boolean = () => true,
+    bus: EventBus = eventBus
+  ): Promise<OrchestrationEvents[E]> =>
+    new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        unsubscribe();
+        reject(new Error(`No ${event} event received`));
+      }, 5000);
+      const unsubscribe = bus.on(event, (payload) => {
+        if (matches(payload)) {
+          clearTimeout(timer);
+          unsubscribe();
+          resolve(payload);
+        }
+      });
+    });
+
+  const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  beforeAll(async () => {
+    await db.initialize();
+    agentService = new AgentService();
+  });
+
+  afterAll(async () => {
+    await db.shutdown();
+  });
+
+  beforeEach(async () => {
+    unsubscribers = [];
+    await db.query('DELETE FROM notifications');
+    await db.query('DELETE FROM agent_status_transitions');
+    await db.query('DELETE FROM agent_results');
+    await db.query('DELETE FROM hierarchies');
+    await db.query('DELETE FROM budgets');
+    await db.query('DELETE FROM agents');
+  });
+
+  afterEach(() => {
+    unsubscribers.forEach((unsubscribe) => unsubscribe());
+    vi.restoreAllMocks();
+  });
+
+  it('should emit spawn and status change events from the services', async () => {
+    const events: OrchestrationEvent[] = [];
+    unsubscribers.push(eventBus.onAny((event) => void events.push(event)));
+
+    const agentId = await agentService.spawnAgent('researcher', 'Collect sources', 5000);
+    await agentService.updateAgentStatus(agentId, 'executing', undefined, undefined, {
+      actor: 'worker:test',
+    });
+    await agentService.updateAgentStatus(agentId, 'failed', undefined, 'Source unavailable');
+    await sleep(10);
+
+    expect(
+      events.filter(({ payload }) => 'agentId' in payload && payload.agentId === agentId)
+    ).toEqual([
+      {
+        event: 'agent.spawned',
+        payload: { agentId, role: 'researcher', parentId: null, depthLevel: 0, tokenLimit: 5000 },
+      },
+      {
+        event: 'agent.status_changed',
+        payload: { agentId, from: 'pending', to: 'executing', actor: 'worker:test', reason: null },
+      },
+      {
+        event: 'agent.status_changed',
+        payload: {
+          agentId,
+          from: 'executing',
+          to: 'failed',
+          actor: 'system',
+          reason: 'Source unavailable',
+        },
+      },
+    ]);
+  });
+
+  it('should report each budget threshold once when usage crosses it', async () => {
+    const thresholds: number[] = [];
+    const agentId = await agentService.spawnAgent('researcher', 'Collect sources', 1000);
+    unsubscribers.push(
+      eventBus.on('budget.threshold', (usage) => {
+        if (usage.agentId === agentId) {
+          thresholds.push(usage.threshold);
+        }
+      })
+    );
+
+    await agentService.updateTokenUsage(agentId, 500);
+    await agentService.updateTokenUsage(agentId, 350);
+    await agentService.updateTokenUsage(agentId, 100);
+    await agentService.updateTokenUsage(agentId, 50);
+    await sleep(10);
+
+    expect(thresholds).toEqual([0.8, 1]);
+  });
+
+  it('should isolate subscribers from failing handlers', async () => {
+    const bus = new EventBus();
+    const received: string[] = [];
+    bus.on('workflow.completed', () => {
+      throw new Error('Handler crashed');
+    });
+    bus.on('workflow.completed', () => Promise.reject(new Error('Handler rejected')));
+    bus.on('workflow.completed', ({ graphId }) => void received.push(graphId));
+
+    expect(() => bus.emit('workflow.completed', { graphId: 'graph-1' })).not.toThrow();
+    await sleep(10);
+
+    expect(received).toEqual(['graph-1']);
+  });
+
+  it('should share events between connected buses', async () => {
+    const dashboardBus = new EventBus();
+    const orchestratorBus = new EventBus();
+    dashboardBus.connect();
+    orchestratorBus.connect();
+    unsubscribers.push(
+      () => dashboardBus.close(),
+      () => orchestratorBus.close()
+    );
+    const localOnly = vi.fn();
+    const ownEvents = vi.fn();
+    orchestratorBus.on('approval.resolved', localOnly, { remote: false });
+    dashboardBus.on('approval.resolved', ownEvents);
+    await sleep(200); // let the listener connect
+
+    const delivered = nextEvent('approval.resolved', () => true, orchestratorBus);
+    const resolved = {
+      requestId: '00000000-0000-0000-0000-000000000001',
+      entityType: 'agent',
+      entityId: '00000000-0000-0000-0000-000000000002',
+      status: 'approved',
+      reviewedBy: 'dashboard_user',
+    };
+    dashboardBus.emit('approval.resolved', resolved);
+
+    await expect(delivered).resolves.toEqual(resolved);
+    await sleep(100);
+    expect(localOnly).not.toHaveBeenCalled();
+    expect(ownEvents).toHaveBeenCalledTimes(1);
+  });
+
+  it('should sync agents to Linear when they reach a final status', async () => {
+    const linearSync = new LinearSyncService();
+    const handleCompletion = vi
+      .spyOn(linearSync, 'handleAgentCompletion')
+      .mockResolvedValue({ success: true });
+    unsubscribers.push(linearSync.subscribe());
+
+    const agentId = await agentService.spawnAgent('researcher', 'Collect sources', 5000);
+    await agentService.updateAgentStatus(agentId, 'executing');
+    await agentService.recordResult({
+      agent_id: agentId,
+      outcome: 'completed',
+      output: 'Three sources found',
+      tokens_used: 42,
+    });
+    await agentService.updateAgentStatus(agentId, 'completed');
+
+    await vi.waitFor(() => expect(handleCompletion).toHaveBeenCalledTimes(1));
+    expect(handleCompletion).toHaveBeenCalledWith(
+      expect.objectContaining({ agentId, status: 'completed', result: 'Three sources found' })
+    );
+  });
+
+  it('should write notifications for failures and budget warnings', async () => {
+    unsubscribers.push(new NotificationService().subscribe());
+
+    const agentId = await agentService.spawnAgent('researcher', 'Collect sources', 1000);
+    await agentService.updateTokenUsage(agentId, 900);
+    await agentService.updateAgentStatus(agentId, 'failed', undefined, 'Source unavailable');
+
+    const notifications = await vi.waitFor(async () => {
+      const result = await db.query<{ notification_type: string; target_type: string }>(
+        'SELECT notification_type, target_type FROM notifications ORDER BY notification_type'
+      );
+      expect(result.rows).toHaveLength(2);
+      return result.rows;
+    });
+    expect(notifications).toEqual([
+      { notification_type: 'agent_failed', target_type: 'broadcast' },
+      { notification_type: 'budget_warning', target_type: 'broadcast' },
+    ]);
+  });
+});
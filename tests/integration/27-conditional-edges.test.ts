@@ -0,0 +1,331 @@
+// Configure test environment before imports
+import '../setup/test-env-setup.js';
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { ConditionExpression } from '../../src/core/ConditionExpression.js';
+import { WorkflowEngine } from '../../src/core/WorkflowEngine.js';
+import { AgentRepository } from '../../src/database/repositories/AgentRepository.js';
+import { BudgetRepository } from '../../src/database/repositories/BudgetRepository.js';
+import { WorkflowRepository } from '../../src/database/repositories/WorkflowRepository.js';
+import { WorkflowService } from '../../src/services/WorkflowService.js';
+import { db } from '../../src/infrastructure/SharedDatabase.js';
+import type { WorkflowEdgeCondition, WorkflowNode } from '../../src/models/WorkflowNode.js';
+
+/**
+ * Integration Tests: Conditional Edges
+ *
+ * Tests verify:
+ * - Condition expressions compare fields of the upstream node's result
+ * - A review-then-fix workflow runs the fix branch only when changes are requested
+ * - Nodes whose conditions cannot be met are skipped, and skips cascade
+ * - on_fail edges handle failures; unhandled failures fail the workflow
+ * - Template edge patterns carry their conditions into instantiated graphs
+ */
+describe('Conditional Edges', () => {
+  let workflowEngine: WorkflowEngine;
+  let workflowRepo: WorkflowRepository;
+  let workflowService: WorkflowService;
+  let agentRepo: AgentRepository;
+  let parentAgentId: string;
+
+  const conditional = (expression: string): WorkflowEdgeCondition => ({
+    dependency_type: 'conditional',
+    condition: 'conditional',
+    condition_expression: expression,
+  });
+
+  /**
+   * reviewer → fixer (changes requested) → publisher (on_complete)
+   * reviewer → publisher (on_complete)
+   */
+  const createReviewWorkflow = async (): Promise<Record<string, WorkflowNode>> => {
+    const graph = await workflowRepo.createGraph({
+      name: 'review-then-fix',
+      description: 'Fix the code when the review requests changes',
+      total_nodes: 3,
+      estimated_budget: 30000,
+    });
+    const reviewer = await workflowRepo.createNode({
+      workflow_graph_id: graph.id,
+      role: 'reviewer',
+      task_description: 'Review the change',
+      budget_allocation: 20000,
+      position: 0,
+    });
+    const fixer = await workflowRepo.createNode({
+      workflow_graph_id: graph.id,
+      role: 'fixer',
+      task_description: 'Address the review comments',
+      budget_allocation: 8000,
+      dependencies: [reviewer.id],
+      edge_conditions: { [reviewer.id]: conditional("reviewer.verdict == 'changes_requested'") },
+      position: 1,
+    });
+    const publisher = await workflowRepo.createNode({
+      workflow_graph_id: graph.id,
+      role: 'publisher',
+      task_description: 'Publish the change',
+      budget_allocation: 4000,
+      dependencies: [reviewer.id, fixer.id],
+      edge_conditions: {
+        [fixer.id]: { dependency_type: 'sequential', condition: 'on_complete' },
+      },
+      position: 2,
+    });
+    return { reviewer, fixer, publisher };
+  };
+
+  const complete = async (node: WorkflowNode, result: Record<string, unknown>): Promise<void> => {
+    const { agent_id } = (await workflowRepo.findNodeById(node.id))!;
+    await agentRepo.update(agent_id!, { status: 'completed' });
+    await workflowEngine.processCompletedNode(agent_id!, result);
+  };
+
+  const statusOf = async (node: WorkflowNode): Promise<string | undefined> =>
+    (await workflowRepo.findNodeById(node.id))?.execution_status;
+
+  beforeAll(async () => {
+    await db.initialize();
+    workflowEngine = new WorkflowEngine();
+    workflowRepo = new WorkflowRepository();
+    workflowService = new WorkflowService();
+    agentRepo = new AgentRepository();
+  });
+
+  afterAll(async () => {
+    await db.shutdown();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM workflow_nodes');
+    await db.query('DELETE FROM workflow_graphs');
+    await db.query('DELETE FROM workflow_templates');
+    await db.query('DELETE FROM agent_status_transitions');
+    await db.query('DELETE FROM budgets');
+    await db.query('DELETE FROM hierarchies');
+    await db.query('DELETE FROM agents');
+
+    const parent = await agentRepo.create({
+      role: 'orchestrator',
+      task_description: 'Root orchestrator',
+      depth_level: 0,
+      parent_id: null,
+    });
+    parentAgentId = parent.id;
+    await new BudgetRepository().create(parentAgentId, 100000);
+  });
+
+  it('should evaluate expressions against the upstream result', () => {
+    const result = { verdict: 'approved', passed: false, score: 0.9, report: { issues: 2 } };
+
+    expect(new ConditionExpression("reviewer.verdict == 'approved'").evaluate(result)).toBe(true);
+    expect(new ConditionExpression('tests.passed == false').evaluate(result)).toBe(true);
+    expect(new ConditionExpression('analysis.score >= 0.8').evaluate(result)).toBe(true);
+    expect(new ConditionExpression('review.report.issues > 2').evaluate(result)).toBe(false);
+    expect(new ConditionExpression('review.missing == null').evaluate(result)).toBe(true);
+    expect(new ConditionExpression("review.score == '0.9'").evaluate(result)).toBe(false);
+    expect(new ConditionExpression('review.verdict').evaluate(result)).toBe(true);
+    expect(new ConditionExpression('review.verdict').evaluate(null)).toBe(false);
+
+    expect(() => new ConditionExpression('reviewer.verdict = approved')).toThrow(
+      'expected a comparison operator'
+    );
+    expect(() => new ConditionExpression("reviewer.verdict == 'a' extra")).toThrow('unexpected');
+  });
+
+  it('should skip the fix branch when the review approves', async () => {
+    const { reviewer, fixer, publisher } = await createReviewWorkflow();
+    await workflowEngine.executeWorkflow(reviewer.workflow_graph_id, parentAgentId);
+
+    await complete(reviewer, { verdict: 'approved' });
+
+    const skipped = await workflowRepo.findNodeById(fixer.id);
+    expect(skipped?.execution_status).toBe('skipped');
+    expect(skipped?.error_message).toBe(
+      "Condition not met: reviewer.verdict == 'changes_requested'"
+    );
+    expect(await statusOf(publisher)).toBe('executing');
+
+    await complete(publisher, { published: true });
+
+    const graph = await workflowRepo.findGraphById(reviewer.workflow_graph_id);
+    expect(graph?.status).toBe('completed');
+    const progress = await workflowEngine.getWorkflowProgress(reviewer.workflow_graph_id);
+    expect(progress).toMatchObject({ total: 3, completed: 2, skipped: 1 });
+  });
+
+  it('should run the fix branch before publishing when changes are requested', async () => {
+    const { reviewer, fixer, publisher } = await createReviewWorkflow();
+    await workflowEngine.executeWorkflow(reviewer.workflow_graph_id, parentAgentId);
+
+    await complete(reviewer, { verdict: 'changes_requested' });
+    expect(await statusOf(fixer)).toBe('executing');
+    expect(await statusOf(publisher)).toBe('pending');
+
+    await complete(fixer, { fixed: true });
+    expect(await statusOf(publisher)).toBe('executing');
+  });
+
+  it('should run on_fail handlers and skip success dependents transitively', async () => {
+    const graph = await workflowRepo.createGraph({
+      name: 'test-with-recovery',
+      description: 'Report failing tests',
+      total_nodes: 4,
+      estimated_budget: 30000,
+    });
+    const tests = await workflowRepo.createNode({
+      workflow_graph_id: graph.id,
+      role: 'tester',
+      task_description: 'Run the tests',
+      budget_allocation: 20000,
+      position: 0,
+    });
+    const deployer = await workflowRepo.createNode({
+      workflow_graph_id: graph.id,
+      role: 'deployer',
+      task_description: 'Deploy',
+      budget_allocation: 2000,
+      dependencies: [tests.id],
+      position: 1,
+    });
+    const announcer = await workflowRepo.createNode({
+      workflow_graph_id: graph.id,
+      role: 'announcer',
+      task_description: 'Announce the release',
+      budget_allocation: 2000,
+      dependencies: [deployer.id],
+      position: 2,
+    });
+    const reporter = await workflowRepo.createNode({
+      workflow_graph_id: graph.id,
+      role: 'reporter',
+      task_description: 'Report the failure',
+      budget_allocation: 2000,
+      dependencies: [tests.id],
+      edge_conditions: { [tests.id]: { dependency_type: 'sequential', condition: 'on_fail' } },
+      position: 3,
+    });
+    await workflowEngine.executeWorkflow(graph.id, parentAgentId);
+
+    const { agent_id } = (await workflowRepo.findNodeById(tests.id))!;
+    await agentRepo.update(agent_id!, { status: 'failed' });
+    await workflowEngine.processFailedNode(agent_id!, '3 tests failed');
+
+    expect(await statusOf(tests)).toBe('failed');
+    expect(await statusOf(deployer)).toBe('skipped');
+    expect((await workflowRepo.findNodeById(announcer.id))?.error_message).toBe(
+      'Upstream node deployer was skipped'
+    );
+    expect(await statusOf(reporter)).toBe('executing');
+
+    await complete(reporter, { reported: true });
+    expect((await workflowRepo.findGraphById(graph.id))?.status).toBe('completed');
+  });
+
+  it('should fail the workflow when a failure is not handled', async () => {
+    const { reviewer, fixer, publisher } = await createReviewWorkflow();
+    await workflowEngine.executeWorkflow(reviewer.workflow_graph_id, parentAgentId);
+
+    const { agent_id } = (await workflowRepo.findNodeById(reviewer.id))!;
+    await workflowEngine.processFailedNode(agent_id!, 'Model unavailable');
+
+    expect(await statusOf(fixer)).toBe('skipped');
+    expect(await statusOf(publisher)).toBe('skipped');
+    expect((await workflowRepo.findGraphById(reviewer.workflow_graph_id))?.status).toBe('failed');
+  });
+
+  it('should reject invalid conditions in graphs and templates', async () => {
+    const { reviewer, fixer } = await createReviewWorkflow();
+    await workflowRepo.updateNode(fixer.id, {
+      edge_conditions: { [reviewer.id]: conditional('reviewer.verdict ~ 1') },
+    });
+
+    const validation = await workflowEngine.validateWorkflowGraph(reviewer.workflow_graph_id);
+    expect(validation.valid).toBe(false);
+    expect(validation.errors.map((error) => error.code)).toEqual(['INVALID_CONDITION_EXPRESSION']);
+
+    await expect(
+      workflowService.createTemplate({
+        name: 'missing-expression',
+        description: 'Conditional edge without an expression',
+        category: 'development',
+        node_templates: [
+          {
+            node_id: 'a',
+            role: 'a',
+            task_template: 'A',
+            budget_percentage: 50,
+            dependencies: [],
+            position: 0,
+          },
+          {
+            node_id: 'b',
+            role: 'b',
+            task_template: 'B',
+            budget_percentage: 50,
+            dependencies: [],
+            position: 1,
+          },
+        ],
+        edge_patterns: [{ source_node_id: 'a', target_node_id: 'b', condition: 'conditional' }],
+        total_estimated_budget: 10000,
+        complexity_rating: 2,
+        min_budget_required: 1000,
+      })
+    ).rejects.toThrow('condition_expression is required');
+  });
+
+  it('should carry edge pattern conditions into instantiated workflows', async () => {
+    const template = await workflowService.createTemplate({
+      name: 'review-then-fix',
+      description: 'Review, then fix when changes are requested',
+      category: 'development',
+      node_templates: [
+        {
+          node_id: 'review',
+          role: 'reviewer',
+          task_template: 'Review: {TASK}',
+          budget_percentage: 60,
+          dependencies: [],
+          position: 0,
+        },
+        {
+          node_id: 'fix',
+          role: 'fixer',
+          task_template: 'Fix: {TASK}',
+          budget_percentage: 40,
+          dependencies: [],
+          position: 1,
+        },
+      ],
+      edge_patterns: [
+        {
+          source_node_id: 'review',
+          target_node_id: 'fix',
+          condition: 'conditional',
+          condition_expression: "review.verdict == 'changes_requested'",
+        },
+      ],
+      total_estimated_budget: 10000,
+      complexity_rating: 3,
+      min_budget_required: 1000,
+    });
+
+    const { nodes } = await workflowService.instantiateTemplate(
+      template.id,
+      'review-login-form',
+      'login form',
+      10000
+    );
+
+    const [review, fix] = nodes;
+    expect(fix.dependencies).toEqual([review.id]);
+    expect(fix.edge_conditions).toEqual({
+      [review.id]: {
+        dependency_type: 'sequential',
+        condition: 'conditional',
+        condition_expression: "review.verdict == 'changes_requested'",
+      },
+    });
+  });
+});
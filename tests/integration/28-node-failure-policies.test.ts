@@ -0,0 +1,262 @@
+// Configure test environment before imports
+import '../setup/test-env-setup.js';
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { WorkflowEngine } from '../../src/core/WorkflowEngine.js';
+import { AgentRepository } from '../../src/database/repositories/AgentRepository.js';
+import { BudgetRepository } from '../../src/database/repositories/BudgetRepository.js';
+import { WorkflowRepository } from '../../src/database/repositories/WorkflowRepository.js';
+import { resolveNodeModel } from '../../src/services/RoleService.js';
+import { db } from '../../src/infrastructure/SharedDatabase.js';
+import type { WorkflowNode } from '../../src/models/WorkflowNode.js';
+
+/**
+ * Integration Tests: Node Failure Policies
+ *
+ * Tests verify:
+ * - Failed nodes are retried after a growing backoff, with the retry role and model
+ * - A fallback agent takes over once retries are used up
+ * - on_failure 'continue' lets dependents run and the workflow complete
+ * - on_failure 'fail_fast' cancels running siblings and skips everything left
+ * - Agents stopped on purpose are not retried
+ * - A finished agent is processed once, even if it is reported again
+ */
+describe('Node Failure Policies', () => {
+  let workflowEngine: WorkflowEngine;
+  let workflowRepo: WorkflowRepository;
+  let agentRepo: AgentRepository;
+  let parentAgentId: string;
+  let graphId: string;
+
+  const createNode = (
+    role: string,
+    position: number,
+    options: { dependencies?: string[]; metadata?: Record<string, unknown> } = {}
+  ): Promise<WorkflowNode> =>
+    workflowRepo.createNode({
+      workflow_graph_id: graphId,
+      role,
+      task_description: `Task of ${role}`,
+      budget_allocation: 2000,
+      dependencies: options.dependencies ?? [],
+      position,
+      metadata: options.metadata ?? null,
+    });
+
+  const reload = async (node: WorkflowNode): Promise<WorkflowNode> =>
+    (await workflowRepo.findNodeById(node.id))!;
+
+  const fail = async (node: WorkflowNode, error = 'Tool crashed'): Promise<string> => {
+    const { agent_id } = await reload(node);
+    await agentRepo.update(agent_id!, { status: 'failed' });
+    await workflowEngine.processFailedNode(agent_id!, error);
+    return agent_id!;
+  };
+
+  const complete = async (node: WorkflowNode): Promise<void> => {
+    const { agent_id } = await reload(node);
+    await agentRepo.update(agent_id!, { status: 'completed' });
+    await workflowEngine.processCompletedNode(agent_id!, { done: true });
+  };
+
+  /** Make a scheduled retry due now */
+  const expireBackoff = async (node: WorkflowNode): Promise<void> => {
+    const { metadata } = await reload(node);
+    await workflowRepo.updateNode(node.id, {
+      metadata: { ...metadata, retry_at: new Date(Date.now() - 1000).toISOString() },
+    });
+  };
+
+  beforeAll(async () => {
+    await db.initialize();
+    workflowEngine = new WorkflowEngine();
+    workflowRepo = new WorkflowRepository();
+    agentRepo = new AgentRepository();
+  });
+
+  afterAll(async () => {
+    await db.shutdown();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM workflow_nodes');
+    await db.query('DELETE FROM workflow_graphs');
+    await db.query('DELETE FROM agent_status_transitions');
+    await db.query('DELETE FROM budgets');
+    await db.query('DELETE FROM hierarchies');
+    await db.query('DELETE FROM agents');
+
+    const parent = await agentRepo.create({
+      role: 'orchestrator',
+      task_description: 'Root orchestrator',
+      depth_level: 0,
+      parent_id: null,
+    });
+    parentAgentId = parent.id;
+    await new BudgetRepository().create(parentAgentId, 100000);
+
+    const graph = await workflowRepo.createGraph({
+      name: 'failure-policies',
+      description: 'Nodes with failure policies',
+      total_nodes: 3,
+      estimated_budget: 10000,
+    });
+    graphId = graph.id;
+  });
+
+  it('should retry after a growing backoff with the retry role and model', async () => {
+    const node = await createNode('developer', 0, {
+      metadata: {
+        failure_policy: {
+          max_retries: 2,
+          backoff_ms: 60000,
+          retry_role: 'senior-developer',
+          retry_model: 'claude-opus-4',
+        },
+      },
+    });
+    await workflowEngine.executeWorkflow(graphId, parentAgentId);
+
+    const firstAgentId = await fail(node);
+    let waiting = await reload(node);
+    expect(waiting.execution_status).toBe('ready');
+    expect(Date.parse(waiting.metadata?.retry_at as string)).toBeGreaterThan(Date.now() + 50000);
+    await expect(workflowEngine.spawnDueRetries(graphId)).resolves.toBe(0);
+
+    await expireBackoff(node);
+    await expect(workflowEngine.spawnDueRetries(graphId)).resolves.toBe(1);
+
+    const retried = await reload(node);
+    expect(retried.execution_status).toBe('executing');
+    expect(retried.agent_id).not.toBe(firstAgentId);
+    expect((await agentRepo.findById(retried.agent_id!)).role).toBe('senior-developer');
+    await expect(resolveNodeModel(retried.agent_id!)).resolves.toBe('claude-opus-4');
+
+    await fail(node);
+    waiting = await reload(node);
+    expect(waiting.metadata?.retry_attempts).toBe(2);
+    expect(Date.parse(waiting.metadata?.retry_at as string)).toBeGreaterThan(Date.now() + 110000);
+
+    await expireBackoff(node);
+    await workflowEngine.spawnDueRetries(graphId);
+    await fail(node, 'Still crashing');
+
+    const failed = await reload(node);
+    expect(failed.execution_status).toBe('failed');
+    expect(failed.error_message).toBe('Still crashing');
+    expect((await workflowRepo.findGraphById(graphId))?.status).toBe('failed');
+  });
+
+  it('should hand the node to its fallback once retries are used up', async () => {
+    const writer = await createNode('writer', 0, {
+      metadata: {
+        failure_policy: {
+          fallback: { role: 'template-writer', task_description: 'Use a template' },
+        },
+      },
+    });
+    const editor = await createNode('editor', 1, { dependencies: [writer.id] });
+    await workflowEngine.executeWorkflow(graphId, parentAgentId);
+
+    await fail(writer);
+
+    const fallback = await reload(writer);
+    expect(fallback.execution_status).toBe('executing');
+    expect(fallback.metadata?.fallback_used).toBe(true);
+    const fallbackAgent = await agentRepo.findById(fallback.agent_id!);
+    expect(fallbackAgent.role).toBe('template-writer');
+    expect(fallbackAgent.task_description).toBe('Use a template');
+
+    await complete(writer);
+    expect((await reload(writer)).execution_status).toBe('completed');
+    expect((await reload(editor)).execution_status).toBe('executing');
+  });
+
+  it('should let dependents run when a continue-on-error node fails', async () => {
+    const linter = await createNode('linter', 0, {
+      metadata: { failure_policy: { on_failure: 'continue' } },
+    });
+    const builder = await createNode('builder', 1, { dependencies: [linter.id] });
+    await workflowEngine.executeWorkflow(graphId, parentAgentId);
+
+    await fail(linter);
+    expect((await reload(linter)).execution_status).toBe('failed');
+    expect((await reload(builder)).execution_status).toBe('executing');
+
+    await complete(builder);
+    expect((await workflowRepo.findGraphById(graphId))?.status).toBe('completed');
+  });
+
+  it('should cancel siblings and skip the remaining nodes on fail-fast', async () => {
+    const migrator = await createNode('migrator', 0, {
+      metadata: { failure_policy: { on_failure: 'fail_fast' } },
+    });
+    const indexer = await createNode('indexer', 1);
+    const verifier = await createNode('verifier', 2, { dependencies: [migrator.id] });
+    await workflowEngine.executeWorkflow(graphId, parentAgentId);
+    const { agent_id: indexerAgentId } = await reload(indexer);
+
+    await fail(migrator, 'Schema mismatch');
+
+    const reason = 'Node migrator failed: Schema mismatch';
+    expect(await reload(indexer)).toMatchObject({
+      execution_status: 'skipped',
+      error_message: reason,
+    });
+    expect(await reload(verifier)).toMatchObject({
+      execution_status: 'skipped',
+      error_message: reason,
+    });
+    expect((await agentRepo.findById(indexerAgentId!)).status).toBe('terminated');
+    expect((await workflowRepo.findGraphById(graphId))?.status).toBe('failed');
+  });
+
+  it('should not retry agents that were terminated', async () => {
+    const node = await createNode('developer', 0, {
+      metadata: { failure_policy: { max_retries: 3 } },
+    });
+    await workflowEngine.executeWorkflow(graphId, parentAgentId);
+
+    const { agent_id } = await reload(node);
+    await workflowEngine.processFailedNode(agent_id!, 'Agent terminated', false);
+
+    expect((await reload(node)).execution_status).toBe('failed');
+  });
+
+  it('should process each finished agent once', async () => {
+    const node = await createNode('developer', 0, {
+      metadata: { failure_policy: { max_retries: 2, backoff_ms: 60000 } },
+    });
+    await workflowEngine.executeWorkflow(graphId, parentAgentId);
+
+    const failedAgentId = await fail(node);
+    await workflowEngine.processFailedNode(failedAgentId, 'Tool crashed');
+    expect(await reload(node)).toMatchObject({
+      execution_status: 'ready',
+      metadata: { retry_attempts: 1 },
+    });
+
+    await expireBackoff(node);
+    await workflowEngine.spawnDueRetries(graphId);
+    await complete(node);
+    const { agent_id } = await reload(node);
+    await workflowEngine.processFailedNode(agent_id!, 'Reported late');
+    await workflowEngine.processCompletedNode(agent_id!, { done: false });
+
+    expect(await reload(node)).toMatchObject({
+      execution_status: 'completed',
+      result: { done: true },
+    });
+    expect((await workflowRepo.findGraphById(graphId))?.status).toBe('completed');
+  });
+
+  it('should reject invalid failure policies', async () => {
+    await createNode('developer', 0, {
+      metadata: { failure_policy: { max_retries: -1, on_failure: 'ignore' } },
+    });
+
+    const validation = await workflowEngine.validateWorkflowGraph(graphId);
+    expect(validation.valid).toBe(false);
+    expect(validation.errors.map((error) => error.code)).toEqual(['INVALID_FAILURE_POLICY']);
+  });
+});
@@ -0,0 +1,194 @@
+// Configure test environment before imports
+import '../setup/test-env-setup.js';
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { InvalidWorkflowTransitionError, WorkflowEngine } from '../../src/core/WorkflowEngine.js';
+import { AgentRepository } from '../../src/database/repositories/AgentRepository.js';
+import { BudgetRepository } from '../../src/database/repositories/BudgetRepository.js';
+import { WorkflowRepository } from '../../src/database/repositories/WorkflowRepository.js';
+import { WorkflowService } from '../../src/services/WorkflowService.js';
+import { eventBus, type OrchestrationEvent } from '../../src/infrastructure/EventBus.js';
+import { db } from '../../src/infrastructure/SharedDatabase.js';
+import type { WorkflowNode } from '../../src/models/WorkflowNode.js';
+
+/**
+ * Integration Tests: Workflow Pause and Resume
+ *
+ * Tests verify:
+ * - A paused workflow spawns no new nodes when its running nodes complete
+ * - Resuming spawns the nodes that became ready and lets the workflow finish
+ * - Executing agents are paused with the workflow on request, and resumed with it
+ * - Finished or unknown workflows cannot be paused
+ */
+describe('Workflow Pause and Resume', () => {
+  let workflowService: WorkflowService;
+  let workflowEngine: WorkflowEngine;
+  let workflowRepo: WorkflowRepository;
+  let agentRepo: AgentRepository;
+  let parentAgentId: string;
+  let graphId: string;
+  let unsubscribe: () => void;
+  let events: OrchestrationEvent[];
+
+  const createNode = (
+    role: string,
+    position: number,
+    dependencies: string[] = []
+  ): Promise<WorkflowNode> =>
+    workflowRepo.createNode({
+      workflow_graph_id: graphId,
+      role,
+      task_description: `Task of ${role}`,
+      budget_allocation: 2000,
+      dependencies,
+      position,
+    });
+
+  const reload = async (node: WorkflowNode): Promise<WorkflowNode> =>
+    (await workflowRepo.findNodeById(node.id))!;
+
+  /** Let the agent of a node complete and process it as WorkflowPoller would */
+  const complete = async (node: WorkflowNode): Promise<string> => {
+    const { agent_id } = await reload(node);
+    await agentRepo.update(agent_id!, { status: 'completed' });
+    await workflowEngine.processCompletedNode(agent_id!, { done: true });
+    return agent_id!;
+  };
+
+  const graphStatus = async (): Promise<string | undefined> =>
+    (await workflowRepo.findGraphById(graphId))?.status;
+
+  const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  beforeAll(async () => {
+    await db.initialize();
+    workflowService = new WorkflowService();
+    workflowEngine = new WorkflowEngine();
+    workflowRepo = new WorkflowRepository();
+    agentRepo = new AgentRepository();
+  });
+
+  afterAll(async () => {
+    unsubscribe();
+    await db.shutdown();
+  });
+
+  beforeEach(async () => {
+    unsubscribe?.();
+    events = [];
+    unsubscribe = eventBus.onAny((event) => void events.push(event));
+
+    await db.query('DELETE FROM workflow_nodes');
+    await db.query('DELETE FROM workflow_graphs');
+    await db.query('DELETE FROM agent_control_commands');
+    await db.query('DELETE FROM agent_status_transitions');
+    await db.query('DELETE FROM budgets');
+    await db.query('DELETE FROM hierarchies');
+    await db.query('DELETE FROM agents');
+
+    const parent = await agentRepo.create({
+      role: 'orchestrator',
+      task_description: 'Root orchestrator',
+      depth_level: 0,
+      parent_id: null,
+    });
+    parentAgentId = parent.id;
+    await new BudgetRepository().create(parentAgentId, 100000);
+
+    const graph = await workflowRepo.createGraph({
+      name: 'pause-resume',
+      description: 'Workflow paused halfway',
+      total_nodes: 2,
+      estimated_budget: 10000,
+    });
+    graphId = graph.id;
+  });
+
+  it('should spawn no new nodes while paused and continue on resume', async () => {
+    const builder = await createNode('builder', 0);
+    const tester = await createNode('tester', 1, [builder.id]);
+    await workflowService.executeWorkflow(graphId, parentAgentId);
+
+    await workflowService.pauseWorkflow(graphId, { actor: 'operator', reason: 'Rate limited' });
+    expect(await graphStatus()).toBe('paused');
+
+    const builderAgentId = await complete(builder);
+    expect((await reload(builder)).execution_status).toBe('completed');
+    expect((await reload(tester)).execution_status).toBe('pending');
+
+    await workflowService.resumeWorkflow(graphId, { actor: 'operator' });
+    expect(await graphStatus()).toBe('active');
+
+    const resumed = await reload(tester);
+    expect(resumed.execution_status).toBe('executing');
+    expect((await agentRepo.findById(resumed.agent_id!)).parent_id).toBe(builderAgentId);
+
+    await complete(tester);
+    expect(await graphStatus()).toBe('completed');
+
+    await sleep(10);
+    expect(
+      events
+        .filter(({ event }) => event === 'workflow.paused' || event === 'workflow.resumed')
+        .map(({ event, payload }) => ({ event, payload }))
+    ).toEqual([
+      {
+        event: 'workflow.paused',
+        payload: { graphId, actor: 'operator', reason: 'Rate limited', pausedAgents: 0 },
+      },
+      { event: 'workflow.resumed', payload: { graphId, actor: 'operator' } },
+    ]);
+  });
+
+  it('should finish a workflow whose last node completed while paused once resumed', async () => {
+    const builder = await createNode('builder', 0);
+    await workflowService.executeWorkflow(graphId, parentAgentId);
+
+    await workflowService.pauseWorkflow(graphId);
+    await complete(builder);
+    expect(await graphStatus()).toBe('paused');
+
+    await workflowService.resumeWorkflow(graphId);
+    expect(await graphStatus()).toBe('completed');
+  });
+
+  it('should pause and resume executing agents with the workflow on request', async () => {
+    const builder = await createNode('builder', 0);
+    const linter = await createNode('linter', 1);
+    await workflowService.executeWorkflow(graphId, parentAgentId);
+    const { agent_id: builderAgentId } = await reload(builder);
+    const { agent_id: linterAgentId } = await reload(linter);
+
+    await workflowService.pauseWorkflow(graphId, { pauseAgents: true, reason: 'Maintenance' });
+
+    for (const agentId of [builderAgentId!, linterAgentId!]) {
+      expect((await agentRepo.findById(agentId)).status).toBe('paused');
+      expect(await agentRepo.getControlState(agentId)).toBe('paused');
+    }
+    expect((await reload(builder)).metadata?.paused_by_workflow).toBe(true);
+
+    await workflowService.resumeWorkflow(graphId);
+
+    for (const agentId of [builderAgentId!, linterAgentId!]) {
+      expect((await agentRepo.findById(agentId)).status).toBe('pending');
+      expect(await agentRepo.getControlState(agentId)).toBe('running');
+    }
+    expect((await reload(builder)).metadata?.paused_by_workflow).toBeUndefined();
+  });
+
+  it('should reject pausing finished or unknown workflows', async () => {
+    const builder = await createNode('builder', 0);
+    await workflowService.executeWorkflow(graphId, parentAgentId);
+    await complete(builder);
+
+    await expect(workflowService.pauseWorkflow(graphId)).rejects.toBeInstanceOf(
+      InvalidWorkflowTransitionError
+    );
+    await expect(workflowService.resumeWorkflow(graphId)).rejects.toBeInstanceOf(
+      InvalidWorkflowTransitionError
+    );
+    await expect(
+      workflowService.pauseWorkflow('00000000-0000-0000-0000-000000000000')
+    ).rejects.toThrow('Workflow not found');
+  });
+});
@@ -0,0 +1,169 @@
+// Configure test environment before imports
+import '../setup/test-env-setup.js';
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { Agent } from '../../src/core/Agent.js';
+import { AgentControl } from '../../src/core/AgentControl.js';
+import { InvalidWorkflowTransitionError, WorkflowEngine } from '../../src/core/WorkflowEngine.js';
+import { AgentRepository } from '../../src/database/repositories/AgentRepository.js';
+import { BudgetRepository } from '../../src/database/repositories/BudgetRepository.js';
+import { ControlCommandRepository } from '../../src/database/repositories/ControlCommandRepository.js';
+import { WorkflowRepository } from '../../src/database/repositories/WorkflowRepository.js';
+import { AgentService } from '../../src/services/AgentService.js';
+import { BudgetService } from '../../src/services/BudgetService.js';
+import { eventBus } from '../../src/infrastructure/EventBus.js';
+import { db } from '../../src/infrastructure/SharedDatabase.js';
+
+/**
+ * Integration Tests: Agent Termination
+ *
+ * Tests verify:
+ * - Terminating an agent cascades to the live agents it spawned, deepest first
+ * - Unused budgets of terminated agents return to their parents
+ * - Executions see the termination at their safe points
+ * - Terminated workflows stop their node agents (and descendants) and end as cancelled
+ * - Agents stopped with their workflow leave its nodes alone
+ */
+describe('Agent Termination', () => {
+  let agentService: AgentService;
+  let budgetService: BudgetService;
+  let agentRepo: AgentRepository;
+  let workflowRepo: WorkflowRepository;
+  let workflowEngine: WorkflowEngine;
+
+  beforeAll(async () => {
+    await db.initialize();
+    agentService = new AgentService();
+    budgetService = new BudgetService();
+    agentRepo = new AgentRepository();
+    workflowRepo = new WorkflowRepository();
+    workflowEngine = new WorkflowEngine();
+  });
+
+  afterAll(async () => {
+    await db.shutdown();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM workflow_nodes');
+    await db.query('DELETE FROM workflow_graphs');
+    await db.query('DELETE FROM agent_control_commands');
+    await db.query('DELETE FROM agent_status_transitions');
+    await db.query('DELETE FROM workspaces');
+    await db.query('DELETE FROM budgets');
+    await db.query('DELETE FROM hierarchies');
+    await db.query('DELETE FROM agents');
+  });
+
+  it('should terminate the live descendants first and reclaim their budgets', async () => {
+    const leadId = await agentService.spawnAgent('lead', 'Ship the feature', 10000);
+    const lead = await Agent.load(leadId);
+    const developerId = await lead.spawnSubordinate('developer', 'Implement it', 4000);
+    const researcherId = await lead.spawnSubordinate('researcher', 'Research it', 2000);
+    const developer = await Agent.load(developerId);
+    const testerId = await developer.spawnSubordinate('tester', 'Test it', 1000);
+
+    await agentService.updateAgentStatus(researcherId, 'completed');
+    await agentService.updateAgentStatus(developerId, 'executing');
+    await budgetService.consumeTokens(developerId, 500);
+
+    const termination = await agentService.terminateAgent(leadId, 'Scope cut', 'dashboard');
+
+    expect(termination.terminated).toEqual([testerId, developerId, leadId]);
+    // tester: 1000 unused, developer: 3500 unused; the lead has no parent
+    expect(termination.reclaimedTokens).toBe(4500);
+    for (const agentId of termination.terminated) {
+      expect((await agentRepo.findById(agentId)).status).toBe('terminated');
+      expect(await agentRepo.getControlState(agentId)).toBe('terminated');
+    }
+    expect((await agentRepo.findById(researcherId)).status).toBe('completed');
+    expect((await budgetService.getBudget(leadId))?.reserved).toBe(500);
+
+    const commands = await new ControlCommandRepository().findByAgentId(developerId);
+    expect(commands).toEqual([
+      expect.objectContaining({
+        command_type: 'terminate',
+        issued_by: 'dashboard',
+        status: 'executed',
+        metadata: { reason: 'Scope cut' },
+      }),
+    ]);
+  });
+
+  it('should let executions see the termination at their next safe point', async () => {
+    const agentId = await agentService.spawnAgent('developer', 'Implement it', 1000);
+    await agentService.updateAgentStatus(agentId, 'executing');
+    const control = new AgentControl(agentId);
+    expect(await control.isTerminationRequested()).toBe(false);
+
+    await agentService.terminateAgent(agentId, 'Operator stop');
+
+    expect(await control.isTerminationRequested()).toBe(true);
+    await expect(agentService.terminateAgent(agentId, 'Again')).resolves.toEqual({
+      terminated: [],
+      reclaimedTokens: 0,
+    });
+  });
+
+  it('should cancel a workflow and stop its node agents with their children', async () => {
+    const orchestrator = await agentRepo.create({
+      role: 'orchestrator',
+      task_description: 'Root orchestrator',
+      depth_level: 0,
+      parent_id: null,
+    });
+    await new BudgetRepository().create(orchestrator.id, 100000);
+    const graph = await workflowRepo.createGraph({
+      name: 'release',
+      description: 'Build, then publish',
+      total_nodes: 2,
+      estimated_budget: 4000,
+    });
+    const build = await workflowRepo.createNode({
+      workflow_graph_id: graph.id,
+      role: 'builder',
+      task_description: 'Build the release',
+      budget_allocation: 2000,
+      position: 0,
+    });
+    const publish = await workflowRepo.createNode({
+      workflow_graph_id: graph.id,
+      role: 'publisher',
+      task_description: 'Publish the release',
+      budget_allocation: 2000,
+      dependencies: [build.id],
+      position: 1,
+    });
+    await workflowEngine.executeWorkflow(graph.id, orchestrator.id);
+
+    const { agent_id: builderId } = (await workflowRepo.findNodeById(build.id))!;
+    const helperId = await agentService.spawnAgent('helper', 'Compile assets', 500, builderId!);
+    const cancelled = new Promise<{ graphId: string; reason: string }>((resolve) => {
+      const unsubscribe = eventBus.on('workflow.cancelled', (event) => {
+        unsubscribe();
+        resolve(event);
+      });
+    });
+
+    await workflowEngine.terminateWorkflow(graph.id, 'Release cancelled');
+
+    expect((await workflowRepo.findGraphById(graph.id))?.status).toBe('cancelled');
+    await expect(cancelled).resolves.toEqual({ graphId: graph.id, reason: 'Release cancelled' });
+    for (const node of [build, publish]) {
+      expect(await workflowRepo.findNodeById(node.id)).toMatchObject({
+        execution_status: 'skipped',
+        error_message: 'Release cancelled',
+      });
+    }
+    expect((await agentRepo.findById(builderId!)).status).toBe('terminated');
+    expect((await agentRepo.findById(helperId)).status).toBe('terminated');
+
+    // The poller reporting the stopped builder leaves the cancelled node alone
+    await workflowEngine.processFailedNode(builderId!, 'Agent terminated', false);
+    expect((await workflowRepo.findNodeById(build.id))?.execution_status).toBe('skipped');
+
+    await expect(workflowEngine.terminateWorkflow(graph.id)).rejects.toBeInstanceOf(
+      InvalidWorkflowTransitionError
+    );
+  });
+});
@@ -0,0 +1,209 @@
+// Configure test environment before imports
+import '../setup/test-env-setup.js';
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { WorkflowEngine } from '../../src/core/WorkflowEngine.js';
+import { AgentRepository } from '../../src/database/repositories/AgentRepository.js';
+import { BudgetRepository } from '../../src/database/repositories/BudgetRepository.js';
+import { WorkflowRepository } from '../../src/database/repositories/WorkflowRepository.js';
+import { BudgetService } from '../../src/services/BudgetService.js';
+import { db } from '../../src/infrastructure/SharedDatabase.js';
+import type { WorkflowNode } from '../../src/models/WorkflowNode.js';
+
+/**
+ * Integration Tests: Workflow Map Nodes
+ *
+ * Tests verify:
+ * - A map node creates one child node per element of an upstream array
+ * - Children get an even share of the map node's budget and respect its concurrency cap
+ * - The reduce node runs once all children finished and receives their collected results
+ * - A failed child, or a missing array, fails the map node
+ * - Map nodes must take their array from a blocking dependency
+ */
+describe('Workflow Map Nodes', () => {
+  let workflowEngine: WorkflowEngine;
+  let workflowRepo: WorkflowRepository;
+  let agentRepo: AgentRepository;
+  let budgetService: BudgetService;
+  let parentAgentId: string;
+  let graphId: string;
+
+  const createNode = (
+    role: string,
+    position: number,
+    dependencies: string[] = [],
+    metadata: Record<string, unknown> | null = null
+  ): Promise<WorkflowNode> =>
+    workflowRepo.createNode({
+      workflow_graph_id: graphId,
+      role,
+      task_description: `Task of ${role}`,
+      budget_allocation: 3000,
+      dependencies,
+      position,
+      metadata,
+    });
+
+  const reload = async (node: WorkflowNode): Promise<WorkflowNode> =>
+    (await workflowRepo.findNodeById(node.id))!;
+
+  /** Let the agent of a node complete and process it as WorkflowPoller would */
+  const complete = async (node: WorkflowNode, result: Record<string, unknown>): Promise<string> => {
+    const { agent_id } = await reload(node);
+    await agentRepo.update(agent_id!, { status: 'completed' });
+    await workflowEngine.processCompletedNode(agent_id!, result);
+    return agent_id!;
+  };
+
+  const findChildren = async (mapNode: WorkflowNode): Promise<WorkflowNode[]> =>
+    (await workflowRepo.findNodesByGraphId(graphId))
+      .filter((node) => node.metadata?.map_node_id === mapNode.id)
+      .sort((a, b) => Number(a.metadata?.map_index) - Number(b.metadata?.map_index));
+
+  beforeAll(async () => {
+    await db.initialize();
+    workflowEngine = new WorkflowEngine();
+    workflowRepo = new WorkflowRepository();
+    agentRepo = new AgentRepository();
+    budgetService = new BudgetService();
+  });
+
+  afterAll(async () => {
+    await db.shutdown();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM workflow_nodes');
+    await db.query('DELETE FROM workflow_graphs');
+    await db.query('DELETE FROM agent_status_transitions');
+    await db.query('DELETE FROM budgets');
+    await db.query('DELETE FROM hierarchies');
+    await db.query('DELETE FROM agents');
+
+    const parent = await agentRepo.create({
+      role: 'orchestrator',
+      task_description: 'Root orchestrator',
+      depth_level: 0,
+      parent_id: null,
+    });
+    parentAgentId = parent.id;
+    await new BudgetRepository().create(parentAgentId, 100000);
+
+    const graph = await workflowRepo.createGraph({
+      name: 'split-feature',
+      description: 'Plan, implement each file in parallel, integrate',
+      total_nodes: 3,
+      estimated_budget: 9000,
+    });
+    graphId = graph.id;
+  });
+
+  it('should fan out over the upstream array and join the collected results', async () => {
+    const planner = await createNode('planner', 0);
+    const implementer = await createNode('implementer', 1, [planner.id], {
+      map: { items: 'plan.files', max_concurrency: 2 },
+    });
+    const integrator = await createNode('integrator', 2, [implementer.id]);
+    await workflowEngine.executeWorkflow(graphId, parentAgentId);
+
+    const plannerAgentId = await complete(planner, { plan: { files: ['a.ts', 'b.ts', 'c.ts'] } });
+
+    expect((await reload(implementer)).execution_status).toBe('executing');
+    expect((await reload(implementer)).agent_id).toBeNull();
+    const children = await findChildren(implementer);
+    expect(children.map((child) => child.execution_status)).toEqual([
+      'executing',
+      'executing',
+      'pending',
+    ]);
+    expect(children.every((child) => child.budget_allocation === 1000)).toBe(true);
+    expect(children[2].task_description).toContain('Item 3 of 3:\n"c.ts"');
+    const firstAgent = await agentRepo.findById(children[0].agent_id!);
+    expect(firstAgent.parent_id).toBe(plannerAgentId);
+    expect((await budgetService.getBudget(firstAgent.id))?.allocated).toBe(1000);
+    expect((await workflowRepo.findGraphById(graphId))?.total_nodes).toBe(6);
+
+    await complete(children[0], { changed: 'a.ts' });
+    const [, second, third] = await findChildren(implementer);
+    expect(third.execution_status).toBe('executing');
+    expect((await reload(integrator)).execution_status).toBe('pending');
+
+    await complete(second, { changed: 'b.ts' });
+    await complete(third, { changed: 'c.ts' });
+
+    const joined = await reload(implementer);
+    expect(joined.execution_status).toBe('completed');
+    expect(joined.result).toEqual({
+      results: ['a.ts', 'b.ts', 'c.ts'].map((file) => ({
+        item: file,
+        status: 'completed',
+        result: { changed: file },
+        error: null,
+      })),
+    });
+
+    const reducer = await reload(integrator);
+    expect(reducer.execution_status).toBe('executing');
+    expect((await agentRepo.findById(reducer.agent_id!)).task_description).toContain(
+      '"changed": "c.ts"'
+    );
+
+    await complete(integrator, { merged: true });
+    expect((await workflowRepo.findGraphById(graphId))?.status).toBe('completed');
+  });
+
+  it('should fail the map node once its children finished if one of them failed', async () => {
+    const planner = await createNode('planner', 0);
+    const implementer = await createNode('implementer', 1, [planner.id], {
+      map: { items: 'files', item_budget: 500 },
+    });
+    const integrator = await createNode('integrator', 2, [implementer.id]);
+    await workflowEngine.executeWorkflow(graphId, parentAgentId);
+    await complete(planner, { files: ['a.ts', 'b.ts'] });
+
+    const [first, second] = await findChildren(implementer);
+    expect(first.budget_allocation).toBe(500);
+    await workflowEngine.processFailedNode(first.agent_id!, 'Compilation failed');
+    expect((await reload(implementer)).execution_status).toBe('executing');
+
+    await complete(second, { changed: 'b.ts' });
+
+    const failed = await reload(implementer);
+    expect(failed.execution_status).toBe('failed');
+    expect(failed.error_message).toBe('1 of 2 items failed');
+    expect(failed.result?.results[0]).toMatchObject({
+      item: 'a.ts',
+      status: 'failed',
+      error: 'Compilation failed',
+    });
+    expect((await reload(integrator)).execution_status).toBe('skipped');
+    expect((await workflowRepo.findGraphById(graphId))?.status).toBe('failed');
+  });
+
+  it('should fail a map node whose upstream result has no array', async () => {
+    const planner = await createNode('planner', 0);
+    const implementer = await createNode('implementer', 1, [planner.id], {
+      map: { items: 'files' },
+    });
+    await workflowEngine.executeWorkflow(graphId, parentAgentId);
+
+    await complete(planner, { summary: 'Nothing to split' });
+
+    const failed = await reload(implementer);
+    expect(failed.execution_status).toBe('failed');
+    expect(failed.error_message).toBe('Result of planner has no array at "files"');
+    expect(await findChildren(implementer)).toEqual([]);
+    expect((await workflowRepo.findGraphById(graphId))?.status).toBe('failed');
+  });
+
+  it('should reject map nodes without a blocking source dependency', async () => {
+    const planner = await createNode('planner', 0);
+    await createNode('implementer', 1, [], { map: { items: 'files' } });
+    await createNode('reviewer', 2, [planner.id], { map: { items: 'files', max_concurrency: 0 } });
+
+    const validation = await workflowEngine.validateWorkflowGraph(graphId);
+
+    expect(validation.valid).toBe(false);
+    expect(validation.errors.filter((error) => error.code === 'INVALID_MAP_NODE')).toHaveLength(2);
+  });
+});
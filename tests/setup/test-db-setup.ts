@@ -9,7 +9,7 @@
  */
 
 import { Pool } from 'pg';
-import { readFileSync } from 'fs';
+import { readFileSync, readdirSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 
@@ -89,6 +89,19 @@ async function setupTestDatabase(): Promise<void> {
       await testPool.query(initialUpMatch[1]);
     }
 
+    // Remaining numbered migrations, in order (role registry, conversations, ...)
+    const laterMigrations = readdirSync(migrationsDir)
+      .filter(file => /^\d{3}_.*\.sql$/.test(file) && file !== '001_initial_schema.sql')
+      .sort();
+
+    for (const file of laterMigrations) {
+      const sql = readFileSync(join(migrationsDir, file), 'utf8');
+      // UP section ("-- UP" or "-- UP Migration"); files without markers run as a whole
+      const match = sql.match(/^--\s*UP\b.*\n([\s\S]*?)(?=^--\s*DOWN\b|(?![\s\S]))/im);
+      console.log(`  → Running: ${file.replace(/\.sql$/, '')}`);
+      await testPool.query(match ? match[1] : sql);
+    }
+
     console.log('✅ Migrations completed successfully');
 
     // Verify tables were created
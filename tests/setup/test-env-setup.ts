@@ -45,6 +45,11 @@ if (!process.env.ANTHROPIC_API_KEY) {
   process.env.ANTHROPIC_API_KEY = 'test-key-not-used';
 }
 
+// Tests spawn ad-hoc roles that are not in the role registry
+if (!process.env.ROLE_VALIDATION) {
+  process.env.ROLE_VALIDATION = 'warn';
+}
+
 export const testConfig = {
   db: {
     host: process.env.DB_HOST,